@@ -0,0 +1,222 @@
+#!/usr/bin/env node
+import fs from "fs";
+import path from "path";
+import {
+  DEFAULT_RENDER_OPTIONS,
+  DiagramDetail,
+  Diagnostic,
+  LAYOUT_DIRECTIONS,
+  LayoutDirection,
+  MERMAID_THEMES,
+  MermaidTheme,
+  RENDER_FORMATS,
+  RenderFormat,
+  RenderOptions,
+  matchGlob,
+  renderWorkflow,
+} from "../lib";
+import { createSvgRenderer, SvgRenderer } from "../lib/renderSvg";
+
+// ------ gha-viz: render workflows without the browser ------
+
+type CliOptions = RenderOptions & {
+  inputs: string[];
+  out?: string;
+};
+
+const DETAILS: DiagramDetail[] = ["jobs", "steps", "matrix"];
+const DIRECTIONS = LAYOUT_DIRECTIONS.map(option => option.value);
+const WORKFLOW_FILE_REGEX = /\.ya?ml$/;
+
+const USAGE = `Usage: gha-viz render <file|directory|glob>... [options]
+
+Renders GitHub Actions workflows to a diagram or documentation. GitLab CI
+(.gitlab-ci.yml) and Azure Pipelines (azure-pipelines.yml) files are detected
+and converted.
+
+Options:
+  -f, --format <svg|md|comment|mmd|dot|json>
+                                  Output format (default: md); comment is a
+                                  compact Markdown body for pull request comments
+  -d, --detail <jobs|steps|matrix>
+                                  Diagram detail (default: jobs)
+      --direction <TD|LR>         Top-to-bottom or left-to-right layout (default: TD)
+      --theme <default|neutral|forest|dark|base>
+                                  Mermaid theme for svg, md and mmd (default: default)
+      --categories                Colour build, test and deploy jobs
+      --runners                   Colour jobs by runner type (hosted OS, larger,
+                                  self-hosted, runner group)
+  -o, --out <directory>           Write one file per workflow into <directory>.
+                                  Without it, a single workflow is written to stdout.
+  -h, --help                      Show this help
+
+Examples:
+  gha-viz render .github/workflows/ci.yml --format svg > ci.svg
+  gha-viz render .github/workflows --format md --out docs/workflows
+  gha-viz render ".github/workflows/*.yml" --format mmd --out diagrams
+
+Problems found in a workflow are printed to stderr as path:line:column. The
+exit code is 1 when any workflow has errors.`;
+
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): CliOptions | null {
+  const [command, ...rest] = argv;
+  if (!command || command === "-h" || command === "--help") return null;
+  if (command !== "render") throw new UsageError(`Unknown command "${command}".`);
+
+  const options: CliOptions = { ...DEFAULT_RENDER_OPTIONS, inputs: [] };
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === "-h" || arg === "--help") return null;
+    const [flag, inline] = arg.startsWith("--") ? arg.split(/=(.*)/s, 2) : [arg, undefined];
+    const value = () => {
+      const next = inline ?? rest[++i];
+      if (next === undefined) throw new UsageError(`${flag} needs a value.`);
+      return next;
+    };
+    if (flag === "-f" || flag === "--format") {
+      const format = value() as RenderFormat;
+      if (!RENDER_FORMATS.includes(format)) throw new UsageError(`Unknown format "${format}". Use ${RENDER_FORMATS.join(", ")}.`);
+      options.format = format;
+    } else if (flag === "-d" || flag === "--detail") {
+      const detail = value() as DiagramDetail;
+      if (!DETAILS.includes(detail)) throw new UsageError(`Unknown detail "${detail}". Use ${DETAILS.join(", ")}.`);
+      options.detail = detail;
+    } else if (flag === "--direction") {
+      const direction = value().toUpperCase() as LayoutDirection;
+      if (!DIRECTIONS.includes(direction)) throw new UsageError(`Unknown direction "${direction}". Use ${DIRECTIONS.join(", ")}.`);
+      options.direction = direction;
+    } else if (flag === "--theme") {
+      const theme = value() as MermaidTheme;
+      if (!MERMAID_THEMES.includes(theme)) throw new UsageError(`Unknown theme "${theme}". Use ${MERMAID_THEMES.join(", ")}.`);
+      options.theme = theme;
+    } else if (flag === "--categories") {
+      options.categories = true;
+    } else if (flag === "--runners") {
+      options.runners = true;
+    } else if (flag === "-o" || flag === "--out") {
+      options.out = value();
+    } else if (arg.startsWith("-") && arg !== "-") {
+      throw new UsageError(`Unknown option "${arg}".`);
+    } else {
+      options.inputs.push(arg);
+    }
+  }
+  if (options.inputs.length === 0) throw new UsageError("No workflow files given.");
+  return options;
+}
+
+// ------ Input expansion ------
+
+function walk(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return entry.name === "node_modules" || entry.name === ".git" ? [] : walk(full);
+    return entry.isFile() ? [full] : [];
+  });
+}
+
+// Directories expand to the workflow files directly inside them, like
+// GitHub reads `.github/workflows`. Globs use the same syntax as path filters.
+function expandInput(input: string): string[] {
+  if (fs.existsSync(input)) {
+    if (!fs.statSync(input).isDirectory()) return [input];
+    return fs
+      .readdirSync(input, { withFileTypes: true })
+      .filter(entry => entry.isFile() && WORKFLOW_FILE_REGEX.test(entry.name))
+      .map(entry => path.join(input, entry.name))
+      .sort();
+  }
+  if (!/[*?[]/.test(input)) throw new UsageError(`${input}: no such file or directory.`);
+
+  const pattern = input.split(path.sep).join("/");
+  const segments = pattern.split("/");
+  const firstGlob = segments.findIndex(segment => /[*?[]/.test(segment));
+  const root = segments.slice(0, firstGlob).join("/") || ".";
+  if (!fs.existsSync(root)) return [];
+  return walk(root)
+    .map(file => file.split(path.sep).join("/"))
+    .filter(file => matchGlob(pattern, file) || matchGlob(pattern, `./${file}`))
+    .sort();
+}
+
+// ------ Rendering ------
+
+function printDiagnostics(file: string, diagnostics: Diagnostic[]) {
+  diagnostics.forEach(d => {
+    process.stderr.write(`${file}:${d.line}:${d.column}: ${d.severity}: ${d.message}\n`);
+  });
+}
+
+async function renderFile(
+  file: string,
+  options: CliOptions,
+  svg: () => Promise<SvgRenderer>
+): Promise<{ output?: string; hasErrors: boolean }> {
+  const result = await renderWorkflow(fs.readFileSync(file, "utf8"), file, options, svg);
+  printDiagnostics(file, result.diagnostics);
+  if (result.problem) process.stderr.write(`${file}: ${result.problem}.\n`);
+  return result;
+}
+
+function outputPath(file: string, options: CliOptions): string {
+  const base = path.basename(file).replace(WORKFLOW_FILE_REGEX, "");
+  const extension = options.format === "comment" ? "comment.md" : options.format;
+  return path.join(options.out!, `${base}.${extension}`);
+}
+
+async function run(argv: string[]): Promise<number> {
+  const options = parseArgs(argv);
+  if (!options) {
+    process.stdout.write(USAGE + "\n");
+    return 0;
+  }
+
+  const files = Array.from(new Set(options.inputs.flatMap(expandInput)));
+  if (files.length === 0) throw new UsageError("No workflow files matched.");
+  if (!options.out && files.length > 1) {
+    throw new UsageError(`${files.length} workflows matched; pass --out <directory> to write one file each.`);
+  }
+  if (options.out) {
+    const targets = new Map<string, string>();
+    for (const file of files) {
+      const target = outputPath(file, options);
+      if (targets.has(target)) throw new UsageError(`${file} and ${targets.get(target)} would both be written to ${target}.`);
+      targets.set(target, file);
+    }
+    fs.mkdirSync(options.out, { recursive: true });
+  }
+
+  // The headless browser is only started once, and only if a file needs it.
+  let renderer: Promise<SvgRenderer> | undefined;
+  const svg = () => (renderer ??= createSvgRenderer());
+
+  let failed = false;
+  try {
+    for (const file of files) {
+      const { output, hasErrors } = await renderFile(file, options, svg);
+      failed ||= hasErrors;
+      if (output === undefined) continue;
+      if (options.out) {
+        const target = outputPath(file, options);
+        fs.writeFileSync(target, output);
+        process.stderr.write(`${file} -> ${target}\n`);
+      } else {
+        process.stdout.write(output);
+      }
+    }
+  } finally {
+    if (renderer) await renderer.then(r => r.close(), () => undefined);
+  }
+  return failed ? 1 : 0;
+}
+
+run(process.argv.slice(2)).then(
+  code => process.exit(code),
+  err => {
+    process.stderr.write(`gha-viz: ${err?.message ?? err}\n`);
+    if (err instanceof UsageError) process.stderr.write("Run `gha-viz --help` for usage.\n");
+    process.exit(2);
+  }
+);
@@ -0,0 +1,181 @@
+import React, { useMemo, useState } from "react";
+import type { RepoWorkflowFile } from "../lib/repoMap";
+import {
+  ActionKind,
+  ActionUsage,
+  ActionVersion,
+  LatestVersions,
+  VersionStatus,
+  buildActionInventory,
+  parseLatestVersions,
+} from "../lib/inventory";
+
+interface ActionInventoryProps {
+  files: RepoWorkflowFile[];
+  onSelect?: (usage: ActionUsage) => void;
+}
+
+const cellStyle: React.CSSProperties = { padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)", verticalAlign: "top" };
+const headerStyle: React.CSSProperties = { textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" };
+
+const KIND_BADGES: Record<ActionKind, { label: string; color: string } | null> = {
+  remote: null,
+  workflow: { label: "reusable workflow", color: "#3167e0" },
+  local: { label: "local", color: "var(--gha-text-secondary)" },
+  docker: { label: "docker", color: "#0b7285" },
+};
+
+const STATUS_COLORS: Record<VersionStatus, string> = {
+  current: "#1ca772",
+  outdated: "#c00",
+  unknown: "var(--gha-text-secondary)",
+};
+
+function Badge({ label, color }: { label: string; color: string }) {
+  return (
+    <span
+      style={{
+        marginLeft: 6,
+        fontSize: "0.8rem",
+        color,
+        border: `1px solid ${color}`,
+        borderRadius: 4,
+        padding: "0 5px",
+        whiteSpace: "nowrap",
+      }}
+    >
+      {label}
+    </span>
+  );
+}
+
+function usageLabel(usage: ActionUsage): string {
+  return `${usage.file} › ${usage.jobId}${usage.stepIndex !== undefined ? ` step ${usage.stepIndex + 1}` : ""}`;
+}
+
+function VersionRow({ version, onSelect }: { version: ActionVersion; onSelect?: (usage: ActionUsage) => void }) {
+  const ref = version.ref || "(none)";
+  return (
+    <div style={{ marginBottom: 6 }}>
+      <code style={{ color: STATUS_COLORS[version.status], fontWeight: version.status === "outdated" ? 600 : undefined }}>
+        {ref.length === 40 ? ref.slice(0, 12) : ref}
+      </code>
+      {version.comment && <span style={{ color: "var(--gha-text-muted)", marginLeft: 6 }}># {version.comment}</span>}
+      {version.status === "outdated" && <Badge label="outdated" color="#c00" />}
+      <span style={{ color: "var(--gha-text-muted)", marginLeft: 6 }}>× {version.usages.length}</span>
+      <div style={{ fontSize: "0.85rem" }}>
+        {version.usages.map((usage, i) => (
+          <div
+            key={i}
+            onClick={() => onSelect && onSelect(usage)}
+            style={{ color: "var(--gha-text-secondary)", cursor: onSelect ? "pointer" : "default" }}
+          >
+            {usageLabel(usage)} <span style={{ color: "var(--gha-text-muted)" }}>line {usage.line}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Every `uses:` in the loaded workflows, by action and version.
+const ActionInventory: React.FC<ActionInventoryProps> = ({ files, onSelect }) => {
+  const [latestText, setLatestText] = useState("");
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+
+  const { latest, latestError } = useMemo((): { latest: LatestVersions; latestError: string } => {
+    try {
+      return { latest: parseLatestVersions(latestText), latestError: "" };
+    } catch (err: any) {
+      return { latest: {}, latestError: err.message };
+    }
+  }, [latestText]);
+  const inventory = useMemo(() => buildActionInventory(files, latest), [files, latest]);
+
+  const isFlagged = (action: (typeof inventory.actions)[number]) =>
+    action.inconsistent || action.kind === "docker" || action.kind === "local" || action.versions.some(v => v.status === "outdated");
+  const actions = flaggedOnly ? inventory.actions.filter(isFlagged) : inventory.actions;
+  const drifting = inventory.actions.filter(action => action.inconsistent).length;
+  const outdated = inventory.actions.filter(action => action.versions.some(v => v.status === "outdated")).length;
+
+  return (
+    <section
+      style={{
+        background: "var(--gha-surface)",
+        borderRadius: 12,
+        boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
+        padding: "24px 32px",
+        marginBottom: 32,
+        border: "1px solid var(--gha-border)",
+      }}
+    >
+      <h2 style={{ marginTop: 0, fontSize: "1.4rem", borderBottom: "2px solid var(--gha-border)", paddingBottom: 8 }}>
+        Action Inventory{" "}
+        <span style={{ fontWeight: 400, color: "var(--gha-text-muted)", fontSize: "0.95rem" }}>
+          {inventory.actions.length} actions, {inventory.usages} uses in {files.length} file{files.length === 1 ? "" : "s"}
+          {drifting > 0 && ` · ${drifting} with mixed versions`}
+          {outdated > 0 && ` · ${outdated} outdated`}
+        </span>
+      </h2>
+      <details style={{ marginBottom: 12 }}>
+        <summary style={{ cursor: "pointer", fontWeight: 500 }}>Check against latest versions</summary>
+        <textarea
+          value={latestText}
+          onChange={e => setLatestText(e.target.value)}
+          placeholder={"One per line, e.g.\nactions/checkout@v4.2.2\nactions/setup-node@v4.1.0\n\nor JSON: { \"actions/checkout\": \"v4.2.2\" }"}
+          rows={5}
+          style={{
+            width: "100%",
+            boxSizing: "border-box",
+            marginTop: 8,
+            padding: "6px 10px",
+            borderRadius: 7,
+            border: "1px solid var(--gha-border)",
+            background: "var(--gha-surface-alt)",
+            fontFamily: "'SFMono-Regular', Menlo, Consolas, monospace",
+            fontSize: "0.9rem",
+          }}
+        />
+        {latestError && <div style={{ color: "#c00", fontSize: "0.9rem" }}>{latestError}</div>}
+        <div style={{ color: "var(--gha-text-muted)", fontSize: "0.88rem" }}>
+          Commit SHAs are compared using a trailing version comment, e.g. <code>@8f4b7f8… # v4.1.1</code>.
+        </div>
+      </details>
+      <label style={{ display: "block", fontSize: "0.95rem", marginBottom: 12, cursor: "pointer" }}>
+        <input type="checkbox" checked={flaggedOnly} onChange={e => setFlaggedOnly(e.target.checked)} style={{ marginRight: 6 }} />
+        Only mixed versions, outdated, Docker and local actions
+      </label>
+      {inventory.skipped.length > 0 && (
+        <div style={{ color: "#a67c00", fontSize: "0.9rem", marginBottom: 12 }}>
+          Skipped files that don't parse: {inventory.skipped.join(", ")}
+        </div>
+      )}
+      <table style={{ width: "100%", borderCollapse: "collapse", background: "var(--gha-surface-alt)", fontSize: "0.93rem" }}>
+        <thead>
+          <tr>
+            <th style={headerStyle}>Action</th>
+            <th style={headerStyle}>Versions in use</th>
+            <th style={headerStyle}>Latest</th>
+          </tr>
+        </thead>
+        <tbody>
+          {actions.map(action => (
+            <tr key={action.action}>
+              <td style={cellStyle}>
+                <code>{action.action}</code>
+                {KIND_BADGES[action.kind] && <Badge {...KIND_BADGES[action.kind]!} />}
+                {action.inconsistent && <Badge label="mixed versions" color="#a67c00" />}
+              </td>
+              <td style={cellStyle}>
+                {action.versions.map(version => <VersionRow key={version.ref} version={version} onSelect={onSelect} />)}
+              </td>
+              <td style={cellStyle}>{action.latest ? <code>{action.latest}</code> : <span style={{ color: "var(--gha-text-muted)" }}>—</span>}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+};
+
+export default ActionInventory;
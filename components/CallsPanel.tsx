@@ -0,0 +1,163 @@
+import React from "react";
+import type { Job, Step, Workflow } from "../lib/workflow";
+import { CallResolution, CallTree, callBoundary } from "../lib/resolveCalls";
+
+interface CallsPanelProps {
+  workflow: Workflow;
+  calls: CallTree | null;
+  resolving: boolean;
+  canResolve: boolean;
+  remoteActions: boolean;
+  onRemoteActionsChange: (value: boolean) => void;
+}
+
+type CallEntry = {
+  key: string;
+  caller: Job | Step;
+  label: string;
+  call: CallResolution;
+};
+
+function workflowEntries(workflow: Workflow | undefined, tree: CallTree): CallEntry[] {
+  const jobs = workflow?.jobs ?? {};
+  const entries: CallEntry[] = Object.entries(tree.jobs).map(([jobId, call]) => ({
+    key: `job:${jobId}`,
+    caller: jobs[jobId] ?? {},
+    label: `job ${jobId}`,
+    call,
+  }));
+  Object.entries(tree.steps).forEach(([key, call]) => {
+    const [jobId, index] = key.split("/");
+    const step = jobs[jobId]?.steps?.[Number(index)] ?? {};
+    entries.push({ key: `step:${key}`, caller: step, label: `job ${jobId}, step ${step.name || Number(index) + 1}`, call });
+  });
+  return entries;
+}
+
+function actionEntries(call: CallResolution): CallEntry[] {
+  const steps = call.action?.runs?.steps ?? [];
+  return Object.entries(call.steps).map(([index, nested]) => {
+    const step = steps[Number(index)] ?? {};
+    return { key: `step:${index}`, caller: step, label: `step ${step.name || Number(index) + 1}`, call: nested };
+  });
+}
+
+function CallStatus({ call }: { call: CallResolution }) {
+  if (call.cycle) return <span style={{ color: "#c00", fontWeight: 600 }}>cycle detected</span>;
+  if (call.error) return <span style={{ color: "#c00" }}>{call.error}</span>;
+  return <span style={{ color: "#1ca772" }}>resolved</span>;
+}
+
+function CallList({ entries }: { entries: CallEntry[] }) {
+  return (
+    <ul style={{ listStyle: "none", paddingLeft: 0, margin: 0 }}>
+      {entries.map(({ key, caller, label, call }) => {
+        const boundary = call.cycle || call.error ? [] : callBoundary(caller, call);
+        const nested = call.kind === "workflow" ? workflowEntries(call.workflow, call) : actionEntries(call);
+        return (
+          <li key={key} style={{ marginBottom: 14, paddingBottom: 10, borderBottom: "1px solid var(--gha-border-subtle)" }}>
+            <div>
+              <span style={{ fontWeight: 600 }}>{label}</span>
+              {" → "}
+              <code>{call.uses}</code>
+              <span style={{ marginLeft: 10, fontSize: "0.9rem" }}>
+                <CallStatus call={call} />
+              </span>
+            </div>
+            {call.location && (
+              <div style={{ fontSize: "0.88rem", color: "var(--gha-text-muted)", marginTop: 2 }}>
+                {call.location.owner}/{call.location.repo}/{call.location.path}
+                {call.location.ref ? `@${call.location.ref}` : ""}
+              </div>
+            )}
+            {boundary.length > 0 && (
+              <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 8, fontSize: "0.93rem", background: "var(--gha-surface-alt)" }}>
+                <thead>
+                  <tr>
+                    <th style={{ textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "6px 10px" }}>Name</th>
+                    <th style={{ textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "6px 10px" }}>Kind</th>
+                    <th style={{ textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "6px 10px" }}>Passed value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {boundary.map(row => {
+                    const missing = row.required && row.value === undefined;
+                    return (
+                      <tr key={`${row.kind}:${row.name}`}>
+                        <td style={{ padding: "6px 10px", borderBottom: "1px solid var(--gha-border-subtle)" }}>
+                          <code>{row.name}</code>
+                          {row.required && <span style={{ color: "var(--gha-text-muted)" }}> (required)</span>}
+                        </td>
+                        <td style={{ padding: "6px 10px", borderBottom: "1px solid var(--gha-border-subtle)" }}>{row.kind}</td>
+                        <td style={{ padding: "6px 10px", borderBottom: "1px solid var(--gha-border-subtle)" }}>
+                          {row.value !== undefined ? <code>{row.value}</code> : <i style={{ color: "var(--gha-text-muted)" }}>default</i>}
+                          {missing && <span style={{ color: "#c00", marginLeft: 8 }}>missing required value</span>}
+                          {!row.declared && <span style={{ color: "#a67c00", marginLeft: 8 }}>not declared by callee</span>}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+            {nested.length > 0 && (
+              <div style={{ marginTop: 10, paddingLeft: 16, borderLeft: "2px solid var(--gha-border)" }}>
+                <CallList entries={nested} />
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+const CallsPanel: React.FC<CallsPanelProps> = ({
+  workflow,
+  calls,
+  resolving,
+  canResolve,
+  remoteActions,
+  onRemoteActionsChange,
+}) => {
+  const entries = calls ? workflowEntries(workflow, calls) : [];
+
+  return (
+    <section
+      style={{
+        background: "var(--gha-surface)",
+        borderRadius: 12,
+        boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
+        padding: "24px 32px",
+        marginBottom: 32,
+        border: "1px solid var(--gha-border)",
+      }}
+    >
+      <h2 style={{ marginTop: 0, fontSize: "1.4rem", borderBottom: "2px solid var(--gha-border)", paddingBottom: 8 }}>
+        Reusable Workflows &amp; Actions
+      </h2>
+      {!canResolve ? (
+        <div style={{ color: "var(--gha-text-muted)" }}>
+          Load this workflow through <b>Connect to GitHub Repo</b> to resolve the workflows and actions it calls.
+        </div>
+      ) : (
+        <>
+          <label style={{ display: "block", marginBottom: 14, fontSize: "0.95rem" }}>
+            <input
+              type="checkbox"
+              checked={remoteActions}
+              onChange={e => onRemoteActionsChange(e.target.checked)}
+              style={{ marginRight: 6 }}
+            />
+            Also resolve actions from other repositories (<code>owner/repo@ref</code>)
+          </label>
+          {resolving && <div style={{ color: "var(--gha-text-muted)" }}>Resolving calls...</div>}
+          {!resolving && entries.length === 0 && <div style={{ color: "var(--gha-text-muted)" }}>No calls could be resolved.</div>}
+          {!resolving && <CallList entries={entries} />}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default CallsPanel;
@@ -0,0 +1,95 @@
+import React from "react";
+import { DataFlow, DataFlowWarning } from "../lib/dataFlow";
+
+interface DataFlowPanelProps {
+  dataFlow: DataFlow;
+  onSelect?: (warning: DataFlowWarning) => void;
+}
+
+const cellStyle: React.CSSProperties = { padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)", verticalAlign: "top" };
+const headerStyle: React.CSSProperties = { textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" };
+
+function Names({ names }: { names: string[] }) {
+  if (names.length === 0) return <span style={{ color: "var(--gha-text-muted)" }}>—</span>;
+  return <>{names.map(name => <code key={name} style={{ display: "block" }}>{name}</code>)}</>;
+}
+
+// What each job reads from upstream jobs, secrets, variables, env and inputs.
+const DataFlowPanel: React.FC<DataFlowPanelProps> = ({ dataFlow, onSelect }) => {
+  const { usage, outputFlows, warnings } = dataFlow;
+
+  return (
+    <section
+      style={{
+        background: "var(--gha-surface)",
+        borderRadius: 12,
+        boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
+        padding: "24px 32px",
+        marginBottom: 32,
+        border: "1px solid var(--gha-border)",
+      }}
+    >
+      <h2 style={{ marginTop: 0, fontSize: "1.4rem", borderBottom: "2px solid var(--gha-border)", paddingBottom: 8 }}>
+        Data Flow{" "}
+        <span style={{ fontWeight: 400, color: "var(--gha-text-muted)", fontSize: "0.95rem" }}>
+          {warnings.length} warning{warnings.length === 1 ? "" : "s"}
+        </span>
+      </h2>
+      {warnings.length > 0 && (
+        <ul style={{ listStyle: "none", padding: 0, margin: "0 0 16px" }}>
+          {warnings.map((w, i) => (
+            <li
+              key={i}
+              onClick={() => onSelect && onSelect(w)}
+              style={{
+                padding: "6px 0",
+                borderBottom: "1px solid var(--gha-border-subtle)",
+                cursor: onSelect ? "pointer" : "default",
+                fontSize: "0.95rem",
+              }}
+            >
+              <span style={{ color: "#a67c00", fontWeight: 600, marginRight: 8 }}>Warning</span>
+              <span style={{ color: "var(--gha-text-muted)", marginRight: 8 }}>line {w.line}</span>
+              {w.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      <table style={{ width: "100%", borderCollapse: "collapse", background: "var(--gha-surface-alt)", fontSize: "0.93rem" }}>
+        <thead>
+          <tr>
+            <th style={headerStyle}>Job</th>
+            <th style={headerStyle}>Outputs read</th>
+            <th style={headerStyle}>Secrets</th>
+            <th style={headerStyle}>Variables</th>
+            <th style={headerStyle}>Env</th>
+            <th style={headerStyle}>Inputs</th>
+          </tr>
+        </thead>
+        <tbody>
+          {usage.map(job => (
+            <tr key={job.jobId}>
+              <td style={cellStyle}><b>{job.jobId}</b></td>
+              <td style={cellStyle}>
+                <Names
+                  names={outputFlows
+                    .filter(flow => flow.to === job.jobId)
+                    .flatMap(flow => flow.outputs.map(output => `${flow.from}.${output}`))}
+                />
+              </td>
+              <td style={cellStyle}>
+                {job.inheritsSecrets && <i style={{ display: "block", color: "#d9480f" }}>all (inherit)</i>}
+                {(!job.inheritsSecrets || job.secrets.length > 0) && <Names names={job.secrets} />}
+              </td>
+              <td style={cellStyle}><Names names={job.vars} /></td>
+              <td style={cellStyle}><Names names={job.env} /></td>
+              <td style={cellStyle}><Names names={job.inputs} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+};
+
+export default DataFlowPanel;
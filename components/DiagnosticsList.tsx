@@ -0,0 +1,58 @@
+import React from "react";
+import type { Diagnostic } from "../lib/workflow";
+
+interface DiagnosticsListProps {
+  diagnostics: Diagnostic[];
+  onSelect?: (diagnostic: Diagnostic) => void;
+}
+
+const DiagnosticsList: React.FC<DiagnosticsListProps> = ({ diagnostics, onSelect }) => {
+  const errors = diagnostics.filter(d => d.severity === "error").length;
+  const warnings = diagnostics.length - errors;
+
+  return (
+    <section
+      style={{
+        background: "var(--gha-surface)",
+        borderRadius: 8,
+        border: "1px solid #ffbaba",
+        padding: "12px 16px",
+        marginBottom: 12,
+        maxHeight: 12 * 21 + 26,
+        overflowY: "auto",
+        boxSizing: "border-box",
+      }}
+    >
+      <h3 style={{ margin: "0 0 8px", fontSize: "1rem" }}>
+        Problems{" "}
+        <span style={{ fontWeight: 400, color: "var(--gha-text-muted)", fontSize: "0.9rem" }}>
+          {errors} error{errors === 1 ? "" : "s"}, {warnings} warning{warnings === 1 ? "" : "s"}
+        </span>
+      </h3>
+      <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+        {diagnostics.map((d, i) => (
+          <li
+            key={i}
+            onClick={() => onSelect && onSelect(d)}
+            style={{
+              padding: "6px 0",
+              borderBottom: "1px solid var(--gha-border-subtle)",
+              cursor: onSelect ? "pointer" : "default",
+              fontSize: "0.93rem",
+            }}
+          >
+            <span style={{ color: d.severity === "error" ? "#c00" : "#a67c00", fontWeight: 600, marginRight: 6 }}>
+              {d.severity === "error" ? "Error" : "Warning"}
+            </span>
+            <span style={{ color: "var(--gha-text-muted)", marginRight: 6 }}>
+              {d.line}:{d.column}
+            </span>
+            {d.message}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default DiagnosticsList;
@@ -0,0 +1,193 @@
+import React, { useEffect, useMemo, useState } from "react";
+import type { Workflow } from "../lib/workflow";
+import { DRY_RUN_COLORS, DryRunState, InjectedOutcome, dryRunFrame, dryRunWorkflow } from "../lib/dryRun";
+
+interface DryRunPanelProps {
+  workflow: Workflow;
+  // Run context for `if:` conditions, e.g. from the simulated trigger.
+  contexts?: Record<string, unknown>;
+  // Node colours for the diagram while stepping, null when the dry run is reset.
+  onFrame: (fills: Record<string, string> | null) => void;
+}
+
+const cellStyle: React.CSSProperties = { padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)", verticalAlign: "top" };
+const headerStyle: React.CSSProperties = { textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" };
+const buttonStyle: React.CSSProperties = {
+  padding: "6px 14px",
+  fontSize: "0.95rem",
+  fontWeight: 500,
+  background: "var(--gha-surface-alt)",
+  color: "#3167e0",
+  border: "1px solid var(--gha-border)",
+  borderRadius: 7,
+  cursor: "pointer",
+};
+
+const PLAY_INTERVAL_MS = 900;
+
+const RUN_RESULT_COLORS: Record<string, string> = {
+  success: "#1ca772",
+  failure: "#c00",
+  cancelled: "#d9480f",
+};
+
+function StateBadge({ state }: { state: DryRunState }) {
+  return (
+    <span
+      style={{
+        display: "inline-block",
+        padding: "1px 8px",
+        borderRadius: 10,
+        fontSize: "0.85rem",
+        background: DRY_RUN_COLORS[state],
+        color: "#1d232a",
+      }}
+    >
+      {state}
+    </span>
+  );
+}
+
+// Steps a run through its `needs` waves with failures and cancellations injected per job.
+const DryRunPanel: React.FC<DryRunPanelProps> = ({ workflow, contexts, onFrame }) => {
+  const [injected, setInjected] = useState<Record<string, InjectedOutcome>>({});
+  // Waves finished so far; null until the dry run is started.
+  const [step, setStep] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+
+  const run = useMemo(() => dryRunWorkflow(workflow, injected, contexts), [workflow, injected, contexts]);
+  const lastStep = run.waves.length;
+  const current = step === null ? null : Math.min(step, lastStep);
+  const frame = useMemo(() => (current === null ? null : dryRunFrame(run, current)), [run, current]);
+
+  useEffect(() => {
+    onFrame(frame && Object.fromEntries(Object.entries(frame).map(([jobId, state]) => [jobId, DRY_RUN_COLORS[state]])));
+  }, [frame, onFrame]);
+
+  useEffect(() => () => onFrame(null), [onFrame]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (current !== null && current >= lastStep) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(s => (s === null ? 0 : s + 1)), PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, current, lastStep]);
+
+  function handleInject(jobId: string, value: string) {
+    setInjected(prev => {
+      const next = { ...prev };
+      if (value === "failure" || value === "cancelled") next[jobId] = value;
+      else delete next[jobId];
+      return next;
+    });
+  }
+
+  function handlePlay() {
+    if (current === null || current >= lastStep) setStep(0);
+    setPlaying(true);
+  }
+
+  function handleReset() {
+    setPlaying(false);
+    setStep(null);
+  }
+
+  const rows = [...run.waves.flat(), ...Object.keys(run.jobs).filter(jobId => run.jobs[jobId].wave === undefined)];
+
+  return (
+    <section
+      style={{
+        background: "var(--gha-surface)",
+        borderRadius: 12,
+        boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
+        padding: "24px 32px",
+        marginBottom: 32,
+        border: "1px solid var(--gha-border)",
+      }}
+    >
+      <h2 style={{ marginTop: 0, fontSize: "1.4rem", borderBottom: "2px solid var(--gha-border)", paddingBottom: 8 }}>
+        Dry Run{" "}
+        <span style={{ fontWeight: 400, color: "var(--gha-text-muted)", fontSize: "0.95rem" }}>
+          {run.waves.length} wave{run.waves.length === 1 ? "" : "s"} · run{" "}
+          <span style={{ color: RUN_RESULT_COLORS[run.result], fontWeight: 600 }}>{run.result}</span>
+        </span>
+      </h2>
+      <div style={{ display: "flex", gap: 10, alignItems: "center", marginBottom: 12 }}>
+        <button onClick={() => setStep(s => Math.max(0, (s ?? 0) - 1))} disabled={current === null || current === 0} style={buttonStyle}>
+          ◀ Step
+        </button>
+        <button onClick={() => setStep(s => (s === null ? 0 : Math.min(lastStep, s + 1)))} disabled={current === lastStep} style={buttonStyle}>
+          Step ▶
+        </button>
+        {playing ? (
+          <button onClick={() => setPlaying(false)} style={buttonStyle}>Pause</button>
+        ) : (
+          <button onClick={handlePlay} style={buttonStyle}>Play</button>
+        )}
+        {current !== null && <button onClick={handleReset} style={buttonStyle}>Reset</button>}
+        <span style={{ color: "var(--gha-text-secondary)", fontSize: "0.93rem" }}>
+          {current === null
+            ? "Step through to colour the diagram as jobs run."
+            : current >= lastStep
+              ? "Run finished."
+              : `Wave ${current + 1} of ${lastStep} running.`}
+        </span>
+      </div>
+      <div style={{ color: "var(--gha-text-muted)", fontSize: "0.9rem", marginBottom: 12 }}>
+        Every job succeeds unless marked otherwise. Mark a job failed or cancelled to see which jobs after it still run.
+      </div>
+      <table style={{ width: "100%", borderCollapse: "collapse", background: "var(--gha-surface-alt)", fontSize: "0.93rem" }}>
+        <thead>
+          <tr>
+            <th style={headerStyle}>Wave</th>
+            <th style={headerStyle}>Job</th>
+            <th style={headerStyle}>Outcome</th>
+            <th style={headerStyle}>State</th>
+            <th style={headerStyle}>Why</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(jobId => {
+            const job = run.jobs[jobId];
+            return (
+              <tr key={jobId}>
+                <td style={cellStyle}>{job.wave === undefined ? "—" : job.wave + 1}</td>
+                <td style={cellStyle}>
+                  <code>{jobId}</code>
+                </td>
+                <td style={cellStyle}>
+                  <select
+                    value={injected[jobId] ?? "success"}
+                    onChange={e => handleInject(jobId, e.target.value)}
+                    style={{ fontSize: "0.9rem", padding: "2px 4px" }}
+                  >
+                    <option value="success">Succeeds</option>
+                    <option value="failure">Fails</option>
+                    <option value="cancelled">Cancelled</option>
+                  </select>
+                </td>
+                <td style={cellStyle}>
+                  <StateBadge state={frame ? frame[jobId] : job.result} />
+                </td>
+                <td style={cellStyle}>
+                  {job.reason}
+                  {job.legs && (
+                    <div style={{ color: "var(--gha-text-muted)", fontSize: "0.85rem" }}>
+                      Matrix: {job.legs.failed} failed, {job.legs.cancelled} cancelled, {job.legs.finished} ran to the end of{" "}
+                      {job.legs.total}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </section>
+  );
+};
+
+export default DryRunPanel;
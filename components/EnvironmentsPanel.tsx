@@ -0,0 +1,133 @@
+import React, { useMemo } from "react";
+import type { RepoWorkflowFile } from "../lib/repoMap";
+import { ConcurrencySetting, ConcurrencyWarning, analyzeEnvironments } from "../lib/environments";
+
+interface EnvironmentsPanelProps {
+  files: RepoWorkflowFile[];
+  // A file and line to open, for a deploy job or a concurrency group.
+  onSelect?: (file: string, line: number) => void;
+}
+
+const cellStyle: React.CSSProperties = { padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)", verticalAlign: "top" };
+const headerStyle: React.CSSProperties = { textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" };
+
+const WARNING_COLORS: Record<ConcurrencyWarning["severity"], string> = {
+  error: "#c00",
+  warning: "#a67c00",
+};
+
+function ConcurrencyLabel({ concurrency }: { concurrency?: ConcurrencySetting }) {
+  if (!concurrency) return <span style={{ color: "var(--gha-text-muted)" }}>—</span>;
+  const { group, cancelInProgress } = concurrency;
+  return (
+    <>
+      <code>{group}</code>
+      {cancelInProgress === true && <div style={{ color: "#d9480f", fontSize: "0.85rem" }}>cancels in-progress</div>}
+      {typeof cancelInProgress === "string" && (
+        <div style={{ color: "var(--gha-text-muted)", fontSize: "0.85rem" }}>
+          cancels in-progress when <code>{cancelInProgress}</code>
+        </div>
+      )}
+    </>
+  );
+}
+
+// Where each environment is deployed from, and concurrency groups that can cancel those deploys.
+const EnvironmentsPanel: React.FC<EnvironmentsPanelProps> = ({ files, onSelect }) => {
+  const report = useMemo(() => analyzeEnvironments(files), [files]);
+  const deployJobs = report.environments.reduce((count, env) => count + env.deployments.length, 0);
+  if (report.environments.length === 0 && report.warnings.length === 0) return null;
+  const select = (file: string, line: number) => onSelect && onSelect(file, line);
+  const linkStyle: React.CSSProperties = { cursor: onSelect ? "pointer" : "default" };
+
+  return (
+    <section
+      style={{
+        background: "var(--gha-surface)",
+        borderRadius: 12,
+        boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
+        padding: "24px 32px",
+        marginBottom: 32,
+        border: "1px solid var(--gha-border)",
+      }}
+    >
+      <h2 style={{ marginTop: 0, fontSize: "1.4rem", borderBottom: "2px solid var(--gha-border)", paddingBottom: 8 }}>
+        Environments{" "}
+        <span style={{ fontWeight: 400, color: "var(--gha-text-muted)", fontSize: "0.95rem" }}>
+          {report.environments.length} environment{report.environments.length === 1 ? "" : "s"}, {deployJobs} deploy job
+          {deployJobs === 1 ? "" : "s"}
+          {report.warnings.length > 0 && ` · ${report.warnings.length} concurrency warning${report.warnings.length === 1 ? "" : "s"}`}
+        </span>
+      </h2>
+      {report.warnings.length > 0 && (
+        <ul style={{ listStyle: "none", padding: 0, margin: "0 0 16px" }}>
+          {report.warnings.map((warning, i) => (
+            <li key={i} style={{ padding: "8px 0", borderBottom: "1px solid var(--gha-border-subtle)", fontSize: "0.95rem" }}>
+              <span style={{ color: WARNING_COLORS[warning.severity], fontWeight: 600, marginRight: 8 }}>
+                {warning.severity === "error" ? "✗" : "⚠"} <code>{warning.group}</code>
+              </span>
+              {warning.message}
+              <div style={{ fontSize: "0.85rem", marginTop: 2 }}>
+                {warning.members.map((member, j) => (
+                  <div key={j} onClick={() => select(member.file, member.line)} style={{ ...linkStyle, color: "var(--gha-text-secondary)" }}>
+                    {member.file}
+                    {member.jobId ? ` › ${member.jobId}` : " (whole workflow)"}{" "}
+                    <span style={{ color: "var(--gha-text-muted)" }}>line {member.line}</span>
+                  </div>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {report.skipped.length > 0 && (
+        <div style={{ color: "#a67c00", fontSize: "0.9rem", marginBottom: 12 }}>
+          Skipped files that don't parse: {report.skipped.join(", ")}
+        </div>
+      )}
+      <table style={{ width: "100%", borderCollapse: "collapse", background: "var(--gha-surface-alt)", fontSize: "0.93rem" }}>
+        <thead>
+          <tr>
+            <th style={headerStyle}>Environment</th>
+            <th style={headerStyle}>Deployed by</th>
+            <th style={headerStyle}>When</th>
+            <th style={headerStyle}>Concurrency</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.environments.flatMap(env =>
+            env.deployments.map((deployment, i) => (
+              <tr key={`${env.name}-${i}`}>
+                {i === 0 && (
+                  <td style={cellStyle} rowSpan={env.deployments.length}>
+                    <strong>🔒 {env.name}</strong>
+                  </td>
+                )}
+                <td style={cellStyle}>
+                  <div onClick={() => select(deployment.file, deployment.line)} style={linkStyle}>
+                    {files.length > 1 && <span style={{ color: "var(--gha-text-secondary)" }}>{deployment.workflow} › </span>}
+                    <code>{deployment.jobId}</code>
+                  </div>
+                  {deployment.url && <div style={{ color: "var(--gha-text-muted)", fontSize: "0.85rem" }}>{deployment.url}</div>}
+                </td>
+                <td style={cellStyle}>
+                  {deployment.triggers.length > 0 ? deployment.triggers.join(", ") : <span style={{ color: "var(--gha-text-muted)" }}>—</span>}
+                  {deployment.if && (
+                    <div style={{ fontSize: "0.85rem" }}>
+                      if: <code>{deployment.if}</code>
+                    </div>
+                  )}
+                </td>
+                <td style={cellStyle}>
+                  <ConcurrencyLabel concurrency={deployment.concurrency} />
+                </td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+    </section>
+  );
+};
+
+export default EnvironmentsPanel;
@@ -0,0 +1,125 @@
+import React from "react";
+import { Job, formatRunsOn } from "../lib/workflow";
+import { formatCondition } from "../lib/conditions";
+import { downstreamJobs, upstreamJobs } from "../lib/jobGraph";
+
+interface JobInspectorProps {
+  jobs: Record<string, Job>;
+  jobId: string;
+  onSelectJob: (jobId: string) => void;
+  onClose: () => void;
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === "object" && value !== null ? JSON.stringify(value) : String(value);
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div style={{ marginBottom: 12 }}>
+      <div style={{ fontSize: "0.8rem", color: "var(--gha-text-muted)", textTransform: "uppercase", letterSpacing: "0.03em" }}>{label}</div>
+      <div style={{ fontSize: "0.93rem", marginTop: 2, wordBreak: "break-word" }}>{children}</div>
+    </div>
+  );
+}
+
+function Entries({ value }: { value: unknown }) {
+  if (!value || typeof value !== "object") return <code>{formatValue(value)}</code>;
+  return (
+    <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+      {Object.entries(value).map(([key, entry]) => (
+        <li key={key}>
+          <code>{key}</code>: <code>{formatValue(entry)}</code>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function JobLinks({ ids, onSelectJob }: { ids: string[]; onSelectJob: (jobId: string) => void }) {
+  if (ids.length === 0) return <i style={{ color: "var(--gha-text-muted)" }}>none</i>;
+  return (
+    <>
+      {ids.map(id => (
+        <button
+          key={id}
+          onClick={() => onSelectJob(id)}
+          style={{
+            margin: "0 6px 4px 0",
+            padding: "2px 8px",
+            fontSize: "0.88rem",
+            background: "var(--gha-surface-alt)",
+            color: "#3167e0",
+            border: "1px solid var(--gha-border)",
+            borderRadius: 6,
+            cursor: "pointer"
+          }}
+        >
+          {id}
+        </button>
+      ))}
+    </>
+  );
+}
+
+// Side panel with the definition of the job selected on the diagram.
+const JobInspector: React.FC<JobInspectorProps> = ({ jobs, jobId, onSelectJob, onClose }) => {
+  const job: Job = jobs[jobId] && typeof jobs[jobId] === "object" ? jobs[jobId] : {};
+  const condition = formatCondition(job.if);
+  const services = job.services && typeof job.services === "object" ? job.services : null;
+
+  return (
+    <aside
+      style={{
+        width: 280,
+        flexShrink: 0,
+        background: "var(--gha-surface-alt)",
+        border: "1px solid var(--gha-border)",
+        borderRadius: 8,
+        padding: "14px 16px",
+        boxSizing: "border-box",
+        alignSelf: "flex-start",
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", marginBottom: 12 }}>
+        <h3 style={{ margin: 0, fontSize: "1.05rem" }}>{job.name || jobId}</h3>
+        <button
+          onClick={onClose}
+          title="Close"
+          style={{ background: "none", border: "none", fontSize: "1.1rem", color: "var(--gha-text-muted)", cursor: "pointer" }}
+        >
+          ×
+        </button>
+      </div>
+      {job.name && <Field label="Job id"><code>{jobId}</code></Field>}
+      <Field label={job.uses ? "Calls" : "Runs on"}>
+        <code>{job.uses || formatRunsOn(job["runs-on"]) || "(not set)"}</code>
+      </Field>
+      {condition && <Field label="If"><code>{condition}</code></Field>}
+      <Field label="Needs (upstream)"><JobLinks ids={upstreamJobs(jobs, jobId)} onSelectJob={onSelectJob} /></Field>
+      <Field label="Needed by (downstream)"><JobLinks ids={downstreamJobs(jobs, jobId)} onSelectJob={onSelectJob} /></Field>
+      {job.env && <Field label="Env"><Entries value={job.env} /></Field>}
+      {job.outputs && <Field label="Outputs"><Entries value={job.outputs} /></Field>}
+      {job["timeout-minutes"] !== undefined && (
+        <Field label="Timeout"><code>{formatValue(job["timeout-minutes"])}</code> minutes</Field>
+      )}
+      {job.concurrency && <Field label="Concurrency"><Entries value={job.concurrency} /></Field>}
+      {services && (
+        <Field label="Services">
+          <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+            {Object.entries(services).map(([name, service]) => (
+              <li key={name}>
+                <code>{name}</code>
+                {service && typeof service === "object" && "image" in service
+                  ? <>: <code>{formatValue((service as { image: unknown }).image)}</code></>
+                  : typeof service === "string" ? <>: <code>{service}</code></> : null}
+              </li>
+            ))}
+          </ul>
+        </Field>
+      )}
+    </aside>
+  );
+};
+
+export default JobInspector;
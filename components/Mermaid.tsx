@@ -1,31 +1,271 @@
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useId, useRef, useState } from "react";
 import mermaid from "mermaid";
+import type { MermaidTheme } from "../lib/theme";
+import { fromMermaidId } from "../lib/mermaid";
+import { jobIdForNode } from "../lib/generateMermaid";
 
 interface MermaidProps {
   chart: string;
+  id?: string; // Defaults to an id unique to this instance, so several diagrams can share the page
   onExportReady?: (svg: string) => void; // Added for export
+  // Node interaction; ids are the ones given to `mermaidId` when writing `chart`.
+  onNodeClick?: (nodeId: string) => void;
+  onNodeHover?: (nodeId: string | null) => void;
+  // Jobs to emphasise (others are dimmed), with the nodes nested under them.
+  highlighted?: string[] | null;
+  // The chart's top-level job ids, to tell a job's own nodes (`<id>_step_0`) from a
+  // sibling job's (`<id>_e2e`). Defaults to the ids in `highlighted` / `nodeFills`.
+  jobIds?: string[] | null;
+  // Pan by dragging and zoom with the buttons or ctrl + wheel.
+  zoomable?: boolean;
+  theme?: MermaidTheme;
+  // Fill colours by job id, e.g. job states in a dry run. Nodes nested under a job take its colour.
+  nodeFills?: Record<string, string> | null;
 }
 
-const Mermaid: React.FC<MermaidProps> = ({ chart, onExportReady }) => {
+type View = { scale: number; x: number; y: number };
+
+const INITIAL_VIEW: View = { scale: 1, x: 0, y: 0 };
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 4;
+// Mouse movement, in pixels, after which a press is a drag rather than a click.
+const DRAG_THRESHOLD = 3;
+
+// Flowchart nodes render as `<g class="node" id="flowchart-<id>-<n>">`, subgraphs as `<g class="cluster" id="<id>">`.
+function nodeIdOf(element: Element): string | null {
+  if (element.classList.contains("cluster")) return element.id ? fromMermaidId(element.id) : null;
+  const dataId = element.getAttribute("data-id");
+  if (dataId) return fromMermaidId(dataId);
+  const match = element.id.match(/^flowchart-(.+)-\d+$/);
+  return match ? fromMermaidId(match[1]) : null;
+}
+
+function targetNode(target: EventTarget | null): string | null {
+  const element = target instanceof Element ? target.closest("g.node, g.cluster") : null;
+  return element ? nodeIdOf(element) : null;
+}
+
+function isHighlighted(nodeId: string | null, highlighted: string[], jobIds: string[]): boolean {
+  const jobId = nodeId ? jobIdForNode(jobIds, nodeId) : null;
+  return !!jobId && highlighted.includes(jobId);
+}
+
+// The colour of the job the node belongs to.
+function fillFor(nodeId: string | null, fills: Record<string, string>, jobIds: string[]): string | undefined {
+  const jobId = nodeId ? jobIdForNode(jobIds, nodeId) : null;
+  return jobId ? fills[jobId] : undefined;
+}
+
+// Edges carry `LS-<from> LE-<to>` classes.
+function edgeEnds(edge: Element): [string | null, string | null] {
+  const classes = Array.from(edge.classList);
+  const from = classes.find(c => c.startsWith("LS-"));
+  const to = classes.find(c => c.startsWith("LE-"));
+  return [from ? fromMermaidId(from.slice(3)) : null, to ? fromMermaidId(to.slice(3)) : null];
+}
+
+const zoomButtonStyle: React.CSSProperties = {
+  width: 28,
+  height: 28,
+  fontSize: "1rem",
+  background: "var(--gha-surface)",
+  color: "#3167e0",
+  border: "1px solid var(--gha-border)",
+  borderRadius: 6,
+  cursor: "pointer",
+};
+
+const Mermaid: React.FC<MermaidProps> = ({
+  chart,
+  id,
+  onExportReady,
+  onNodeClick,
+  onNodeHover,
+  highlighted,
+  jobIds,
+  zoomable,
+  theme = "default",
+  nodeFills,
+}) => {
+  // `useId` gives `«r1»`-style ids; Mermaid uses the id in CSS selectors.
+  const instanceId = useId();
+  const diagramId = id ?? `mermaid-${instanceId.replace(/[^A-Za-z0-9_-]/g, "")}`;
   const ref = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [rendered, setRendered] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<View>(INITIAL_VIEW);
+  const drag = useRef<{ startX: number; startY: number; view: View; moved: boolean } | null>(null);
+  const hovered = useRef<string | null>(null);
+  const clickable = !!onNodeClick;
+
+  useEffect(() => {
+    if (!ref.current) return;
+    // A render still running when the chart changes must not replace the newer one.
+    let stale = false;
+    mermaid.initialize({ startOnLoad: false, theme });
+    mermaid
+      .render(diagramId, chart)
+      .then(({ svg }) => {
+        if (stale) return;
+        setError(null);
+        if (ref.current) {
+          ref.current.innerHTML = svg;
+          setRendered(n => n + 1);
+        }
+        if (onExportReady) {
+          onExportReady(svg);
+        }
+      })
+      .catch(err => {
+        // Mermaid leaves its scratch element behind when the chart doesn't parse.
+        document.getElementById(`d${diagramId}`)?.remove();
+        if (stale) return;
+        if (ref.current) ref.current.innerHTML = "";
+        setError(err?.message ?? String(err));
+      });
+    return () => {
+      stale = true;
+    };
+  }, [chart, diagramId, onExportReady, theme]);
+
+  useEffect(() => setView(INITIAL_VIEW), [chart]);
+
+  useEffect(() => {
+    const svg = ref.current?.querySelector("svg");
+    if (!svg) return;
+    const active = highlighted && highlighted.length > 0 ? highlighted : null;
+    const owners = jobIds ?? active ?? [];
+    svg.querySelectorAll<SVGGElement>("g.node, g.cluster").forEach(node => {
+      node.style.opacity = active && !isHighlighted(nodeIdOf(node), active, owners) ? "0.3" : "";
+      node.style.cursor = clickable ? "pointer" : "";
+    });
+    svg.querySelectorAll<SVGPathElement>("path.flowchart-link").forEach(edge => {
+      const [from, to] = edgeEnds(edge);
+      edge.style.opacity = active && !(isHighlighted(from, active, owners) && isHighlighted(to, active, owners)) ? "0.2" : "";
+    });
+  }, [highlighted, jobIds, rendered, clickable]);
 
   useEffect(() => {
-    if (ref.current) {
-      mermaid.initialize({ startOnLoad: false });
-      mermaid
-        .render("mermaid-diagram", chart)
-        .then(({ svg }) => {
-          if (ref.current) {
-            ref.current.innerHTML = svg;
-          }
-          if (onExportReady) {
-            onExportReady(svg);
-          }
-        });
+    const svg = ref.current?.querySelector("svg");
+    if (!svg) return;
+    svg.querySelectorAll<SVGGElement>("g.node, g.cluster").forEach(node => {
+      const fill = nodeFills ? fillFor(nodeIdOf(node), nodeFills, jobIds ?? Object.keys(nodeFills)) : undefined;
+      node.querySelectorAll<SVGElement>(":scope > rect, :scope > polygon, :scope > circle, :scope > path").forEach(shape => {
+        shape.style.transition = "fill 0.4s ease";
+        shape.style.fill = fill ?? "";
+      });
+      // Fills are light, so labels stay dark whatever the theme.
+      node.querySelectorAll<HTMLElement>(".nodeLabel").forEach(label => {
+        label.style.color = fill ? "#1d232a" : "";
+      });
+    });
+  }, [nodeFills, jobIds, rendered]);
+
+  // React's wheel listener is passive, so ctrl + wheel zoom needs a native one to stop the page zooming.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!zoomable || !viewport) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const factor = Math.exp(-e.deltaY * 0.002);
+      setView(v => ({ ...v, scale: Math.min(MAX_SCALE, Math.max(MIN_SCALE, v.scale * factor)) }));
+    };
+    viewport.addEventListener("wheel", onWheel, { passive: false });
+    return () => viewport.removeEventListener("wheel", onWheel);
+  }, [zoomable]);
+
+  function zoom(factor: number) {
+    setView(v => ({ ...v, scale: Math.min(MAX_SCALE, Math.max(MIN_SCALE, v.scale * factor)) }));
+  }
+
+  function handleMouseDown(e: React.MouseEvent) {
+    if (!zoomable || e.button !== 0) return;
+    drag.current = { startX: e.clientX, startY: e.clientY, view, moved: false };
+  }
+
+  function handleMouseMove(e: React.MouseEvent) {
+    const current = drag.current;
+    if (current) {
+      const dx = e.clientX - current.startX;
+      const dy = e.clientY - current.startY;
+      if (Math.abs(dx) > DRAG_THRESHOLD || Math.abs(dy) > DRAG_THRESHOLD) current.moved = true;
+      if (current.moved) setView({ ...current.view, x: current.view.x + dx, y: current.view.y + dy });
+      return;
+    }
+    if (!onNodeHover) return;
+    const nodeId = targetNode(e.target);
+    if (nodeId !== hovered.current) {
+      hovered.current = nodeId;
+      onNodeHover(nodeId);
+    }
+  }
+
+  function handleMouseLeave() {
+    drag.current = null;
+    if (onNodeHover && hovered.current !== null) {
+      hovered.current = null;
+      onNodeHover(null);
     }
-  }, [chart, onExportReady]);
+  }
+
+  function handleClick(e: React.MouseEvent) {
+    const wasDrag = drag.current?.moved;
+    drag.current = null;
+    if (wasDrag || !onNodeClick) return;
+    const nodeId = targetNode(e.target);
+    if (nodeId) onNodeClick(nodeId);
+  }
+
+  const problem = error && (
+    <div style={{ color: "#c00", border: "1px solid #f3b4b4", background: "var(--gha-surface-alt)", borderRadius: 8, padding: "10px 14px", marginBottom: 10 }}>
+      <b>The diagram could not be drawn.</b>
+      <pre style={{ margin: "6px 0 0", whiteSpace: "pre-wrap", fontSize: "0.85rem" }}>{error}</pre>
+    </div>
+  );
+
+  const content = (
+    <div
+      ref={ref}
+      onMouseDown={handleMouseDown}
+      onMouseMove={handleMouseMove}
+      onMouseLeave={handleMouseLeave}
+      onClick={handleClick}
+      style={zoomable ? {
+        transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+        transformOrigin: "0 0",
+        cursor: "grab",
+      } : undefined}
+    />
+  );
 
-  return <div ref={ref} />;
+  if (!zoomable) {
+    return (
+      <>
+        {problem}
+        {content}
+      </>
+    );
+  }
+  return (
+    <>
+      {problem}
+      <div
+        ref={viewportRef}
+        style={{ position: "relative", overflow: "hidden", border: "1px solid var(--gha-border-subtle)", borderRadius: 8, userSelect: "none" }}
+      >
+        {content}
+        <div style={{ position: "absolute", top: 8, right: 8, display: "flex", gap: 4 }}>
+          <button style={zoomButtonStyle} onClick={() => zoom(1.25)} title="Zoom in">+</button>
+          <button style={zoomButtonStyle} onClick={() => zoom(0.8)} title="Zoom out">−</button>
+          <button style={{ ...zoomButtonStyle, width: "auto", padding: "0 8px", fontSize: "0.85rem" }} onClick={() => setView(INITIAL_VIEW)}>
+            Reset
+          </button>
+        </div>
+      </div>
+    </>
+  );
 };
 
-export default Mermaid;
\ No newline at end of file
+export default Mermaid;
@@ -0,0 +1,55 @@
+import React from "react";
+import { HistoryEntry } from "../lib/history";
+
+interface RecentWorkflowsProps {
+  entries: HistoryEntry[];
+  onOpen: (entry: HistoryEntry) => void;
+  onClear: () => void;
+}
+
+function formatAge(savedAt: number): string {
+  const minutes = Math.round((Date.now() - savedAt) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return new Date(savedAt).toLocaleDateString();
+}
+
+// Picker for workflows visualized earlier in this browser.
+const RecentWorkflows: React.FC<RecentWorkflowsProps> = ({ entries, onOpen, onClear }) => {
+  if (entries.length === 0) return null;
+
+  function handleChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    const value = e.target.value;
+    e.target.value = "";
+    if (value === "clear") onClear();
+    else if (value) onOpen(entries[Number(value)]);
+  }
+
+  return (
+    <select
+      defaultValue=""
+      onChange={handleChange}
+      style={{
+        padding: "9px 12px",
+        fontSize: "1rem",
+        borderRadius: 7,
+        border: "1px solid var(--gha-border)",
+        background: "var(--gha-surface-alt)",
+        fontFamily: "inherit",
+        maxWidth: 320,
+      }}
+    >
+      <option value="">Recent workflows...</option>
+      {entries.map((entry, i) => (
+        <option key={entry.title} value={i}>
+          {entry.title} ({formatAge(entry.savedAt)})
+        </option>
+      ))}
+      <option value="clear">Clear history</option>
+    </select>
+  );
+};
+
+export default RecentWorkflows;
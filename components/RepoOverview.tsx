@@ -0,0 +1,99 @@
+import React, { useMemo, useState } from "react";
+import dynamic from "next/dynamic";
+import { RepoMap, generateRepoMapMermaid, mergeImpact } from "../lib/repoMap";
+import type { MermaidTheme } from "../lib/theme";
+
+const Mermaid = dynamic(() => import("./Mermaid"), { ssr: false });
+
+interface RepoOverviewProps {
+  map: RepoMap;
+  onOpenWorkflow: (path: string) => void;
+  theme?: MermaidTheme;
+}
+
+const RepoOverview: React.FC<RepoOverviewProps> = ({ map, onOpenWorkflow, theme }) => {
+  const [branch, setBranch] = useState("main");
+  const impact = useMemo(() => (branch ? mergeImpact(map, branch) : undefined), [map, branch]);
+  const chart = useMemo(() => generateRepoMapMermaid(map, impact), [map, impact]);
+
+  return (
+    <section
+      style={{
+        background: "var(--gha-surface)",
+        borderRadius: 12,
+        boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
+        padding: "24px 32px",
+        marginBottom: 32,
+        border: "1px solid var(--gha-border)",
+      }}
+    >
+      <h2 style={{ marginTop: 0, fontSize: "1.4rem", borderBottom: "2px solid var(--gha-border)", paddingBottom: 8 }}>
+        Repository Overview
+      </h2>
+      <div style={{ marginBottom: 16 }}>
+        <label style={{ fontWeight: 500, marginRight: 8 }}>What runs when I merge into</label>
+        <input
+          type="text"
+          value={branch}
+          onChange={e => setBranch(e.target.value)}
+          placeholder="branch"
+          style={{
+            width: 180,
+            padding: "6px 10px",
+            fontSize: "0.95rem",
+            borderRadius: 7,
+            border: "1px solid var(--gha-border)",
+            background: "var(--gha-surface-alt)",
+            fontFamily: "inherit",
+          }}
+        />
+        <span style={{ marginLeft: 10, color: "var(--gha-text-muted)", fontSize: "0.9rem" }}>
+          Highlighted: runs; dashed: runs if its path filters match.
+        </span>
+      </div>
+      <Mermaid chart={chart} theme={theme} />
+      <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 20, background: "var(--gha-surface-alt)" }}>
+        <thead>
+          <tr>
+            <th style={{ textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" }}>Workflow</th>
+            <th style={{ textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" }}>File</th>
+            <th style={{ textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" }}>On merge</th>
+            <th style={{ borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" }} />
+          </tr>
+        </thead>
+        <tbody>
+          {map.workflows.map(w => (
+            <tr key={w.id}>
+              <td style={{ padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)" }}>
+                {w.name}
+                {w.error && <div style={{ color: "#c00", fontSize: "0.88rem" }}>{w.error}</div>}
+              </td>
+              <td style={{ padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)" }}><code>{w.path}</code></td>
+              <td style={{ padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)" }}>
+                {impact?.get(w.id) === "runs" ? "runs" : impact?.get(w.id) === "maybe" ? "maybe (path filters)" : ""}
+              </td>
+              <td style={{ padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)", textAlign: "right" }}>
+                <button
+                  onClick={() => onOpenWorkflow(w.path)}
+                  style={{
+                    padding: "4px 12px",
+                    fontSize: "0.9rem",
+                    background: "var(--gha-surface-alt)",
+                    color: "#3167e0",
+                    border: "1px solid var(--gha-border)",
+                    borderRadius: 7,
+                    cursor: "pointer"
+                  }}
+                >
+                  Open
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+};
+
+export default RepoOverview;
@@ -0,0 +1,288 @@
+import React, { useState } from "react";
+import type { CompareSide } from "./WorkflowCompare";
+import type { RepoWorkflowFile } from "../lib/repoMap";
+import { RepoFile, RepoSource, fetchRepoFile, listWorkflowFiles, parseRepoInfo } from "../lib/github";
+
+interface RepoWorkflowSectionProps {
+  onWorkflowLoaded: (yaml: string, source: RepoSource) => void;
+  onOverviewLoaded: (files: RepoWorkflowFile[], source: RepoSource) => void;
+  onCompareLoaded: (before: CompareSide, after: CompareSide) => void;
+}
+
+// Connect to a GitHub repository (public, or private with a token) and load a workflow,
+// the repository overview or two refs to compare.
+const RepoWorkflowSection: React.FC<RepoWorkflowSectionProps> = ({ onWorkflowLoaded, onOverviewLoaded, onCompareLoaded }) => {
+  const [repoUrl, setRepoUrl] = useState("");
+  const [token, setToken] = useState("");
+  const [workflows, setWorkflows] = useState<RepoFile[]>([]);
+  const [selectedWorkflow, setSelectedWorkflow] = useState<string>("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>("");
+  const [baseRef, setBaseRef] = useState("main");
+  const [headRef, setHeadRef] = useState("");
+
+  async function handleFetchWorkflows() {
+    setError("");
+    setWorkflows([]);
+    setSelectedWorkflow("");
+    const info = parseRepoInfo(repoUrl);
+    if (!info) {
+      setError("Invalid GitHub repository URL.");
+      return;
+    }
+    setLoading(true);
+    try {
+      setWorkflows(await listWorkflowFiles(info, token));
+    } catch (err: any) {
+      setError(err.message || "Unknown error fetching workflows.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleLoadSelectedWorkflow() {
+    setError("");
+    const info = parseRepoInfo(repoUrl);
+    if (!info || !selectedWorkflow) {
+      setError("Invalid repo or workflow selection.");
+      return;
+    }
+    setLoading(true);
+    try {
+      const location = { ...info, path: selectedWorkflow };
+      const yaml = await fetchRepoFile(location, token);
+      onWorkflowLoaded(yaml, { location, token });
+    } catch (err: any) {
+      setError(err.message || "Unknown error loading workflow.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleCompareRefs() {
+    setError("");
+    const info = parseRepoInfo(repoUrl);
+    if (!info || !selectedWorkflow || !baseRef || !headRef) {
+      setError("Choose a workflow and two refs to compare.");
+      return;
+    }
+    setLoading(true);
+    try {
+      const [before, after] = await Promise.all([baseRef, headRef].map(ref =>
+        fetchRepoFile({ ...info, path: selectedWorkflow, ref }, token)
+      ));
+      onCompareLoaded(
+        { label: `${selectedWorkflow}@${baseRef}`, yaml: before, diagnostics: [] },
+        { label: `${selectedWorkflow}@${headRef}`, yaml: after, diagnostics: [] }
+      );
+    } catch (err: any) {
+      setError(err.message || "Unknown error loading workflow.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleLoadOverview() {
+    setError("");
+    const info = parseRepoInfo(repoUrl);
+    if (!info || workflows.length === 0) {
+      setError("Fetch the repository's workflows first.");
+      return;
+    }
+    setLoading(true);
+    try {
+      const files = await Promise.all(workflows.map(async f => ({
+        path: f.path,
+        source: await fetchRepoFile({ ...info, path: f.path }, token),
+      })));
+      onOverviewLoaded(files, { location: { ...info, path: ".github/workflows" }, token });
+    } catch (err: any) {
+      setError(err.message || "Unknown error loading workflows.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <section
+      style={{
+        background: "var(--gha-surface)",
+        borderRadius: 12,
+        boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
+        padding: "24px 32px",
+        marginBottom: 32,
+        border: "1px solid var(--gha-border)",
+      }}
+    >
+      <h2 style={{ marginTop: 0, fontSize: "1.4rem", borderBottom: "2px solid var(--gha-border)", paddingBottom: 8 }}>
+        Connect to GitHub Repo
+      </h2>
+      <div style={{ marginBottom: 10 }}>
+        <input
+          type="text"
+          value={repoUrl}
+          onChange={e => setRepoUrl(e.target.value)}
+          placeholder="Paste GitHub repo URL (e.g. https://github.com/owner/repo)"
+          style={{
+            width: "55%",
+            padding: "9px 12px",
+            fontSize: "1rem",
+            borderRadius: 7,
+            border: "1px solid var(--gha-border)",
+            background: "var(--gha-surface-alt)",
+            marginRight: 10,
+            fontFamily: "inherit"
+          }}
+        />
+        <input
+          type="password"
+          value={token}
+          onChange={e => setToken(e.target.value)}
+          placeholder="Personal Access Token (optional for private repos)"
+          style={{
+            width: "35%",
+            padding: "9px 12px",
+            fontSize: "1rem",
+            borderRadius: 7,
+            border: "1px solid var(--gha-border)",
+            background: "var(--gha-surface-alt)",
+            fontFamily: "inherit"
+          }}
+        />
+      </div>
+      <div style={{ fontSize: "0.95rem", color: "var(--gha-text-muted)", marginBottom: 10 }}>
+        For private repositories, enter a GitHub Personal Access Token with <code>repo</code> scope. Your token is only used in your browser.
+      </div>
+      <div style={{ marginBottom: 18 }}>
+        <button
+          onClick={handleFetchWorkflows}
+          disabled={loading}
+          style={{
+            padding: "9px 20px",
+            fontWeight: 500,
+            fontSize: "1rem",
+            background: "#3167e0",
+            color: "#fff",
+            border: "none",
+            borderRadius: 7,
+            cursor: "pointer"
+          }}
+        >
+          {loading ? "Loading..." : "Fetch Workflows"}
+        </button>
+      </div>
+      {error && <div style={{ color: "#c00", marginBottom: 14 }}>{error}</div>}
+      {workflows.length > 0 && (
+        <div style={{ marginBottom: 14 }}>
+          <label style={{ fontWeight: 500, marginRight: 8 }}>Select Workflow File:</label>
+          <select
+            value={selectedWorkflow}
+            onChange={e => setSelectedWorkflow(e.target.value)}
+            style={{
+              padding: "8px 12px",
+              fontSize: "1rem",
+              borderRadius: 7,
+              border: "1px solid var(--gha-border)",
+              background: "var(--gha-surface-alt)",
+              fontFamily: "inherit",
+              marginRight: 10,
+            }}
+          >
+            <option value="">-- Choose --</option>
+            {workflows.map(f => (
+              <option key={f.path} value={f.path}>{f.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleLoadSelectedWorkflow}
+            disabled={loading || !selectedWorkflow}
+            style={{
+              padding: "8px 16px",
+              fontWeight: 500,
+              fontSize: "1rem",
+              background: "#1ca772",
+              color: "#fff",
+              border: "none",
+              borderRadius: 7,
+              cursor: "pointer"
+            }}
+          >
+            {loading ? "Loading..." : "Load Selected Workflow"}
+          </button>
+          <button
+            onClick={handleLoadOverview}
+            disabled={loading}
+            style={{
+              padding: "8px 16px",
+              fontWeight: 500,
+              fontSize: "1rem",
+              background: "var(--gha-surface-alt)",
+              color: "#3167e0",
+              border: "1px solid var(--gha-border)",
+              borderRadius: 7,
+              cursor: "pointer",
+              marginLeft: 10
+            }}
+          >
+            Repo Overview
+          </button>
+        </div>
+      )}
+      {selectedWorkflow && (
+        <div style={{ marginBottom: 14 }}>
+          <label style={{ fontWeight: 500, marginRight: 8 }}>Compare refs:</label>
+          <input
+            type="text"
+            value={baseRef}
+            onChange={e => setBaseRef(e.target.value)}
+            placeholder="base (e.g. main)"
+            style={{
+              width: 180,
+              padding: "8px 12px",
+              fontSize: "1rem",
+              borderRadius: 7,
+              border: "1px solid var(--gha-border)",
+              background: "var(--gha-surface-alt)",
+              fontFamily: "inherit",
+              marginRight: 10,
+            }}
+          />
+          <input
+            type="text"
+            value={headRef}
+            onChange={e => setHeadRef(e.target.value)}
+            placeholder="head (branch, tag or SHA)"
+            style={{
+              width: 180,
+              padding: "8px 12px",
+              fontSize: "1rem",
+              borderRadius: 7,
+              border: "1px solid var(--gha-border)",
+              background: "var(--gha-surface-alt)",
+              fontFamily: "inherit",
+              marginRight: 10,
+            }}
+          />
+          <button
+            onClick={handleCompareRefs}
+            disabled={loading || !baseRef || !headRef}
+            style={{
+              padding: "8px 16px",
+              fontWeight: 500,
+              fontSize: "1rem",
+              background: "var(--gha-surface-alt)",
+              color: "#3167e0",
+              border: "1px solid var(--gha-border)",
+              borderRadius: 7,
+              cursor: "pointer"
+            }}
+          >
+            Compare
+          </button>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default RepoWorkflowSection;
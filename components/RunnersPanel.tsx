@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useState } from "react";
+import type { Workflow } from "../lib/workflow";
+import type { TimingReport } from "../lib/timings";
+import {
+  RUNNER_CLASS_LABELS,
+  RUNNER_STYLES,
+  RUNNER_TYPE_LABELS,
+  RunnerClass,
+  analyzeRunners,
+  parseRateTable,
+} from "../lib/runners";
+import { DEFAULT_COST_SETTINGS, RunnerCostSettings, loadCostSettings, saveCostSettings } from "../lib/preferences";
+
+interface RunnersPanelProps {
+  workflow: Workflow;
+  // Run history; measured minutes replace the assumed time per job.
+  timings?: TimingReport | null;
+  onSelectJob?: (jobId: string) => void;
+}
+
+const cellStyle: React.CSSProperties = { padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)", verticalAlign: "top" };
+const headerStyle: React.CSSProperties = { textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" };
+const numberStyle: React.CSSProperties = { ...cellStyle, textAlign: "right", whiteSpace: "nowrap" };
+const buttonStyle: React.CSSProperties = {
+  padding: "6px 14px",
+  fontSize: "0.95rem",
+  fontWeight: 500,
+  background: "var(--gha-surface-alt)",
+  color: "#3167e0",
+  border: "1px solid var(--gha-border)",
+  borderRadius: 7,
+  cursor: "pointer",
+};
+const inputStyle: React.CSSProperties = {
+  width: 70,
+  padding: "3px 6px",
+  fontSize: "0.93rem",
+  background: "var(--gha-surface)",
+  color: "var(--gha-text)",
+  border: "1px solid var(--gha-border)",
+  borderRadius: 5,
+};
+
+function formatCost(cost: number): string {
+  return `$${cost < 10 ? cost.toFixed(3) : cost.toFixed(2)}`;
+}
+
+// The fill colour from a `fill:…,stroke:…` class style.
+function swatch(runner: RunnerClass): string {
+  return RUNNER_STYLES[runner].match(/fill:([^,]+)/)?.[1] ?? "transparent";
+}
+
+// Jobs grouped by runner with matrix legs multiplied out, priced with an editable rate table.
+const RunnersPanel: React.FC<RunnersPanelProps> = ({ workflow, timings, onSelectJob }) => {
+  const [settings, setSettings] = useState<RunnerCostSettings>(DEFAULT_COST_SETTINGS);
+  const [editingRates, setEditingRates] = useState(false);
+
+  useEffect(() => setSettings(loadCostSettings()), []);
+
+  const { rules, errors } = useMemo(() => parseRateTable(settings.rates), [settings.rates]);
+  const report = useMemo(
+    () => analyzeRunners(workflow, { rules, minutesPerJob: settings.minutesPerJob, timings }),
+    [workflow, rules, settings.minutesPerJob, timings]
+  );
+  const assumed = report.runners.some(r => r.jobs.some(job => !job.measured && job.minutes > 0));
+
+  function update(changes: Partial<RunnerCostSettings>) {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveCostSettings(next);
+  }
+
+  function numberInput(value: number, onChange: (value: number) => void) {
+    return (
+      <input
+        type="number"
+        min={0}
+        value={value}
+        onChange={e => {
+          const parsed = Number(e.target.value);
+          if (e.target.value !== "" && isFinite(parsed) && parsed >= 0) onChange(parsed);
+        }}
+        style={inputStyle}
+      />
+    );
+  }
+
+  return (
+    <section
+      style={{
+        background: "var(--gha-surface)",
+        borderRadius: 12,
+        boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
+        padding: "24px 32px",
+        marginBottom: 32,
+        border: "1px solid var(--gha-border)",
+      }}
+    >
+      <h2 style={{ marginTop: 0, fontSize: "1.4rem", borderBottom: "2px solid var(--gha-border)", paddingBottom: 8 }}>
+        Runners &amp; Cost{" "}
+        <span style={{ fontWeight: 400, color: "var(--gha-text-muted)", fontSize: "0.95rem" }}>
+          {report.runners.length} runner{report.runners.length === 1 ? "" : "s"}, {report.legs} job leg
+          {report.legs === 1 ? "" : "s"} per run
+        </span>
+      </h2>
+      <div style={{ fontSize: "0.98rem", marginBottom: 12 }}>
+        Per run: <b>{Math.round(report.minutes)} min</b>, <b>{formatCost(report.cost)}</b> · per month at{" "}
+        {numberInput(settings.runsPerMonth, runsPerMonth => update({ runsPerMonth }))} runs:{" "}
+        <b>{Math.round(report.minutes * settings.runsPerMonth).toLocaleString()} min</b>,{" "}
+        <b>{formatCost(report.cost * settings.runsPerMonth)}</b>
+      </div>
+      <div style={{ display: "flex", gap: 10, alignItems: "center", marginBottom: 12, flexWrap: "wrap", fontSize: "0.93rem" }}>
+        <span>
+          Minutes per job without run history:{" "}
+          {numberInput(settings.minutesPerJob, minutesPerJob => update({ minutesPerJob }))}
+        </span>
+        <button onClick={() => setEditingRates(v => !v)} style={buttonStyle}>
+          {editingRates ? "Hide rates" : "Edit rates"}
+        </button>
+        {assumed && !timings && (
+          <span style={{ color: "var(--gha-text-muted)" }}>Import run timings below for measured minutes.</span>
+        )}
+      </div>
+      {editingRates && (
+        <div style={{ marginBottom: 12 }}>
+          <textarea
+            value={settings.rates}
+            onChange={e => update({ rates: e.target.value })}
+            rows={Math.min(20, settings.rates.split("\n").length + 1)}
+            spellCheck={false}
+            style={{
+              width: "100%",
+              fontFamily: "monospace",
+              fontSize: "0.9rem",
+              background: "var(--gha-surface-alt)",
+              color: "var(--gha-text)",
+              border: "1px solid var(--gha-border)",
+              borderRadius: 6,
+              padding: 8,
+              boxSizing: "border-box",
+            }}
+          />
+          {errors.map(error => (
+            <div key={error} style={{ color: "#c00", fontSize: "0.9rem" }}>{error}</div>
+          ))}
+          <button onClick={() => update({ rates: DEFAULT_COST_SETTINGS.rates })} style={{ ...buttonStyle, marginTop: 6 }}>
+            Reset to GitHub list prices
+          </button>
+        </div>
+      )}
+      <table style={{ width: "100%", borderCollapse: "collapse", background: "var(--gha-surface-alt)", fontSize: "0.93rem" }}>
+        <thead>
+          <tr>
+            <th style={headerStyle}>Runner</th>
+            <th style={headerStyle}>Jobs</th>
+            <th style={{ ...headerStyle, textAlign: "right" }} title="Job legs per run, with matrix combinations multiplied out">Legs</th>
+            <th style={{ ...headerStyle, textAlign: "right" }} title="Most legs running at once, over the run's needs waves">Peak</th>
+            <th style={{ ...headerStyle, textAlign: "right" }}>Minutes</th>
+            <th style={{ ...headerStyle, textAlign: "right" }}>Rate</th>
+            <th style={{ ...headerStyle, textAlign: "right" }}>Per run</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.runners.map(usage => (
+            <tr key={usage.runner.key}>
+              <td style={cellStyle}>
+                <code>{usage.runner.key}</code>
+                <div style={{ color: "var(--gha-text-muted)", fontSize: "0.85rem" }}>
+                  {RUNNER_TYPE_LABELS[usage.runner.type]}
+                  {usage.runner.os && usage.runner.type !== "hosted" ? ` · ${usage.runner.os}` : ""}
+                </div>
+              </td>
+              <td style={cellStyle}>
+                {usage.jobs.map(job => (
+                  <div key={job.jobId}>
+                    <span onClick={() => onSelectJob?.(job.jobId)} style={{ cursor: onSelectJob ? "pointer" : "default" }}>
+                      <code>{job.jobId}</code>
+                    </span>
+                    {job.legs > 1 && <span style={{ color: "var(--gha-text-secondary)" }}> × {job.legs}</span>}
+                    {job.dynamicMatrix && <span style={{ color: "#a67c00" }} title="Built from an expression; counted once"> (dynamic matrix)</span>}
+                    {(job.container || job.services.length > 0) && (
+                      <div style={{ color: "var(--gha-text-muted)", fontSize: "0.85rem" }}>
+                        {job.container && <>container <code>{job.container}</code></>}
+                        {job.container && job.services.length > 0 && " · "}
+                        {job.services.length > 0 && `services: ${job.services.join(", ")}`}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </td>
+              <td style={numberStyle}>{usage.legs}</td>
+              <td style={numberStyle}>{usage.peak}</td>
+              <td style={numberStyle}>
+                {Math.round(usage.minutes)}
+                {usage.jobs.some(job => job.measured) && <span title="From run history"> ⏱</span>}
+              </td>
+              <td style={numberStyle}>
+                {usage.rule ? (
+                  <span title={`Matched ${usage.rule.pattern}`}>${usage.rule.rate}/min</span>
+                ) : (
+                  <span style={{ color: "var(--gha-text-muted)" }}>—</span>
+                )}
+              </td>
+              <td style={numberStyle}>{formatCost(usage.cost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{ display: "flex", gap: 14, flexWrap: "wrap", marginTop: 12, fontSize: "0.85rem", color: "var(--gha-text-secondary)" }}>
+        {(Object.keys(RUNNER_CLASS_LABELS) as RunnerClass[]).map(runner => (
+          <span key={runner}>
+            <span
+              style={{
+                display: "inline-block",
+                width: 10,
+                height: 10,
+                marginRight: 5,
+                borderRadius: 2,
+                background: swatch(runner),
+                border: "1px solid var(--gha-border)",
+              }}
+            />
+            {RUNNER_CLASS_LABELS[runner]}
+          </span>
+        ))}
+        <span style={{ color: "var(--gha-text-muted)" }}>· pick “Runner type” under Colour by to colour the diagram</span>
+      </div>
+    </section>
+  );
+};
+
+export default RunnersPanel;
@@ -0,0 +1,150 @@
+import React, { useMemo } from "react";
+import type { MappedWorkflow } from "../lib/repoMap";
+import { TimelineSlot, buildScheduleTimeline, explainCron, formatUtc, nextRuns } from "../lib/cron";
+
+interface ScheduleTimelineProps {
+  workflows: MappedWorkflow[];
+  onOpenWorkflow: (path: string) => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+// How many of the busiest overlapping hours to list under the grid.
+const BUSIEST_SLOTS = 5;
+
+function cellColor(slot: TimelineSlot | undefined): string {
+  if (!slot) return "var(--gha-surface-alt)";
+  if (slot.workflowIds.length >= 2) return slot.workflowIds.length >= 3 ? "#f28b82" : "#fbc4bf";
+  return "#c9dafc";
+}
+
+// Week grid of when every scheduled workflow in the repository fires, by UTC hour.
+const ScheduleTimeline: React.FC<ScheduleTimelineProps> = ({ workflows, onOpenWorkflow }) => {
+  const timeline = useMemo(() => buildScheduleTimeline(workflows, new Date()), [workflows]);
+  const names = useMemo(() => new Map(workflows.map(w => [w.id, w.name])), [workflows]);
+  if (timeline.schedules.length === 0) return null;
+
+  const slots = new Map(timeline.slots.map(slot => [slot.day * 24 + slot.hour, slot]));
+  const busiest = timeline.slots
+    .filter(slot => slot.workflowIds.length >= 2)
+    .sort((a, b) => b.workflowIds.length - a.workflowIds.length || b.runs.length - a.runs.length)
+    .slice(0, BUSIEST_SLOTS);
+  const dayLabel = (day: number) => formatUtc(new Date(timeline.start.getTime() + day * 86_400_000)).slice(0, 14);
+  const describeSlot = (slot: TimelineSlot) =>
+    slot.workflowIds.map(id => {
+      const runs = slot.runs.filter(run => run.workflowId === id);
+      return `${names.get(id)} (${runs.length} run${runs.length > 1 ? "s" : ""})`;
+    });
+
+  return (
+    <section
+      style={{
+        background: "var(--gha-surface)",
+        borderRadius: 12,
+        boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
+        padding: "24px 32px",
+        marginBottom: 32,
+        border: "1px solid var(--gha-border)",
+      }}
+    >
+      <h2 style={{ marginTop: 0, fontSize: "1.4rem", borderBottom: "2px solid var(--gha-border)", paddingBottom: 8 }}>
+        Scheduled Runs
+      </h2>
+      <div style={{ color: "var(--gha-text-muted)", fontSize: "0.9rem", marginBottom: 12 }}>
+        The next {timeline.days} days by UTC hour. Blue: one workflow fires; red: several workflows fire in the same hour
+        and compete for runners.
+      </div>
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ borderCollapse: "separate", borderSpacing: 2, fontSize: "0.78rem" }}>
+          <thead>
+            <tr>
+              <th />
+              {HOURS.map(hour => (
+                <th key={hour} style={{ fontWeight: 400, color: "var(--gha-text-muted)", width: 22 }}>{String(hour).padStart(2, "0")}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {Array.from({ length: timeline.days }, (_, day) => (
+              <tr key={day}>
+                <td style={{ whiteSpace: "nowrap", paddingRight: 8, color: "var(--gha-text-secondary)" }}>{dayLabel(day)}</td>
+                {HOURS.map(hour => {
+                  const slot = slots.get(day * 24 + hour);
+                  return (
+                    <td
+                      key={hour}
+                      title={slot ? `${String(hour).padStart(2, "0")}:00 UTC: ${describeSlot(slot).join(", ")}` : undefined}
+                      style={{ height: 20, background: cellColor(slot), borderRadius: 3, textAlign: "center", color: "#1d232a" }}
+                    >
+                      {slot && slot.workflowIds.length > 1 ? slot.workflowIds.length : ""}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {busiest.length > 0 && (
+        <>
+          <h3 style={{ fontWeight: 500, fontSize: "1.1rem", marginBottom: 8 }}>Overlapping hours</h3>
+          <ul style={{ margin: 0, paddingLeft: 20, fontSize: "0.93rem" }}>
+            {busiest.map(slot => (
+              <li key={slot.day * 24 + slot.hour}>
+                <b>{dayLabel(slot.day)} {String(slot.hour).padStart(2, "0")}:00</b>: {describeSlot(slot).join(", ")}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 20, background: "var(--gha-surface-alt)" }}>
+        <thead>
+          <tr>
+            <th style={{ textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" }}>Workflow</th>
+            <th style={{ textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" }}>Schedule</th>
+            <th style={{ textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" }}>Next run</th>
+            <th style={{ borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" }} />
+          </tr>
+        </thead>
+        <tbody>
+          {timeline.schedules.map((scheduled, i) => {
+            const { schedule, errors, warnings } = scheduled.parsed;
+            const next = schedule ? nextRuns(schedule, new Date(), 1)[0] : undefined;
+            return (
+              <tr key={i}>
+                <td style={{ padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)" }}>{scheduled.name}</td>
+                <td style={{ padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)" }}>
+                  <code>{scheduled.cron}</code>
+                  {schedule && <div style={{ fontSize: "0.9rem", color: "var(--gha-text-secondary)" }}>{explainCron(schedule)}</div>}
+                  {[...errors, ...warnings].map((message, j) => (
+                    <div key={j} style={{ fontSize: "0.88rem", color: j < errors.length ? "#c00" : "#a67c00" }}>{message}</div>
+                  ))}
+                </td>
+                <td style={{ padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)", whiteSpace: "nowrap" }}>
+                  {next ? formatUtc(next) : "never"}
+                </td>
+                <td style={{ padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)", textAlign: "right" }}>
+                  <button
+                    onClick={() => onOpenWorkflow(scheduled.path)}
+                    style={{
+                      padding: "4px 12px",
+                      fontSize: "0.9rem",
+                      background: "var(--gha-surface-alt)",
+                      color: "#3167e0",
+                      border: "1px solid var(--gha-border)",
+                      borderRadius: 7,
+                      cursor: "pointer"
+                    }}
+                  >
+                    Open
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </section>
+  );
+};
+
+export default ScheduleTimeline;
@@ -0,0 +1,84 @@
+import React from "react";
+import { SECURITY_RULES, SecurityFinding, SecurityReport, SecuritySeverity } from "../lib/security";
+
+interface SecurityPanelProps {
+  report: SecurityReport;
+  onSelect?: (finding: SecurityFinding) => void;
+}
+
+const SEVERITY_COLORS: Record<SecuritySeverity, string> = {
+  high: "#c00",
+  medium: "#d9480f",
+  low: "#a67c00",
+};
+
+const SecurityPanel: React.FC<SecurityPanelProps> = ({ report, onSelect }) => {
+  const { findings, suppressed } = report;
+  const suppressedRules = Array.from(new Set(suppressed.map(f => f.ruleId)));
+
+  return (
+    <section
+      style={{
+        background: "var(--gha-surface)",
+        borderRadius: 12,
+        boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
+        padding: "24px 32px",
+        marginBottom: 32,
+        border: "1px solid var(--gha-border)",
+      }}
+    >
+      <h2 style={{ marginTop: 0, fontSize: "1.4rem", borderBottom: "2px solid var(--gha-border)", paddingBottom: 8 }}>
+        Security{" "}
+        <span style={{ fontWeight: 400, color: "var(--gha-text-muted)", fontSize: "0.95rem" }}>
+          {findings.length} finding{findings.length === 1 ? "" : "s"}
+        </span>
+      </h2>
+      {findings.length === 0 && <div style={{ color: "#1ca772" }}>No risky patterns found.</div>}
+      <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+        {findings.map((f, i) => (
+          <li
+            key={i}
+            onClick={() => onSelect && onSelect(f)}
+            style={{
+              padding: "8px 0",
+              borderBottom: "1px solid var(--gha-border-subtle)",
+              cursor: onSelect ? "pointer" : "default",
+              fontSize: "0.95rem",
+            }}
+          >
+            <span
+              style={{
+                color: "#fff",
+                background: SEVERITY_COLORS[f.severity],
+                borderRadius: 4,
+                padding: "1px 7px",
+                fontSize: "0.8rem",
+                fontWeight: 600,
+                textTransform: "uppercase",
+                marginRight: 8,
+              }}
+            >
+              {f.severity}
+            </span>
+            <code style={{ marginRight: 8 }}>{f.ruleId}</code>
+            <span style={{ color: "var(--gha-text-muted)", marginRight: 8 }}>line {f.line}</span>
+            <div style={{ marginTop: 4 }}>{f.message}</div>
+          </li>
+        ))}
+      </ul>
+      <div style={{ marginTop: 14, color: "var(--gha-text-muted)", fontSize: "0.9rem" }}>
+        {suppressedRules.length > 0 && (
+          <div>
+            Suppressed in this file: {suppressedRules.map(id => <code key={id} style={{ marginRight: 6 }}>{id}</code>)}
+          </div>
+        )}
+        Silence a rule with a <code># gha-viz-disable: &lt;rule-id&gt;</code> comment. Rules:{" "}
+        {SECURITY_RULES.map(rule => (
+          <code key={rule.id} title={rule.title} style={{ marginRight: 6 }}>{rule.id}</code>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default SecurityPanel;
@@ -0,0 +1,130 @@
+import React from "react";
+import { TimingReport, formatDuration } from "../lib/timings";
+
+interface TimingsPanelProps {
+  report: TimingReport | null;
+  // Whether the workflow was loaded from GitHub, so its runs can be fetched.
+  canFetch: boolean;
+  loading: boolean;
+  error: string;
+  onImport: (json: string) => void;
+  onFetch: () => void;
+  onClear: () => void;
+}
+
+const cellStyle: React.CSSProperties = { padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)" };
+const headerStyle: React.CSSProperties = { textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" };
+const buttonStyle: React.CSSProperties = {
+  padding: "6px 14px",
+  fontSize: "0.95rem",
+  fontWeight: 500,
+  background: "var(--gha-surface-alt)",
+  color: "#3167e0",
+  border: "1px solid var(--gha-border)",
+  borderRadius: 7,
+  cursor: "pointer",
+};
+
+// Job durations from run history, the critical path and billable minutes.
+const TimingsPanel: React.FC<TimingsPanelProps> = ({ report, canFetch, loading, error, onImport, onFetch, onClear }) => {
+  function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (file) file.text().then(onImport);
+    e.target.value = "";
+  }
+
+  const jobs = report ? [...report.jobs].sort((a, b) => b.median - a.median) : [];
+  const totalMinutes = report ? report.runners.reduce((sum, r) => sum + r.minutes, 0) : 0;
+
+  return (
+    <section
+      style={{
+        background: "var(--gha-surface)",
+        borderRadius: 12,
+        boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
+        padding: "24px 32px",
+        marginBottom: 32,
+        border: "1px solid var(--gha-border)",
+      }}
+    >
+      <h2 style={{ marginTop: 0, fontSize: "1.4rem", borderBottom: "2px solid var(--gha-border)", paddingBottom: 8 }}>
+        Run Timings
+      </h2>
+      <div style={{ display: "flex", gap: 10, alignItems: "center", marginBottom: 12 }}>
+        <label style={buttonStyle}>
+          Import jobs JSON
+          <input type="file" accept="application/json,.json" onChange={handleFile} style={{ display: "none" }} />
+        </label>
+        <button
+          onClick={onFetch}
+          disabled={!canFetch || loading}
+          title={canFetch ? undefined : "Load the workflow from a GitHub repository first."}
+          style={{ ...buttonStyle, opacity: canFetch ? 1 : 0.5 }}
+        >
+          {loading ? "Fetching..." : "Fetch recent runs from GitHub"}
+        </button>
+        {report && <button onClick={onClear} style={buttonStyle}>Clear</button>}
+      </div>
+      {error && <div style={{ color: "#c00", marginBottom: 12 }}>{error}</div>}
+      {!report && (
+        <div style={{ color: "var(--gha-text-muted)", fontSize: "0.93rem" }}>
+          Import the output of <code>gh api repos/OWNER/REPO/actions/runs/RUN_ID/jobs</code> (one response, or a list of
+          them) to see median and p95 durations on the diagram and the critical path through <code>needs</code>.
+        </div>
+      )}
+      {report && (
+        <>
+          <div style={{ fontSize: "0.98rem", marginBottom: 6 }}>
+            Estimated wall-clock time: <b>{formatDuration(report.wallClock.median)}</b> median,{" "}
+            <b>{formatDuration(report.wallClock.p95)}</b> p95 · billable per run: <b>{totalMinutes} min</b>
+          </div>
+          {report.criticalPath.length > 0 && (
+            <div style={{ fontSize: "0.98rem", marginBottom: 12 }}>
+              Critical path:{" "}
+              <span style={{ color: "#e8590c", fontWeight: 600 }}>{report.criticalPath.join(" → ")}</span>
+            </div>
+          )}
+          <table style={{ width: "100%", borderCollapse: "collapse", background: "var(--gha-surface-alt)", fontSize: "0.93rem" }}>
+            <thead>
+              <tr>
+                <th style={headerStyle}>Job</th>
+                <th style={headerStyle}>Runs</th>
+                <th style={headerStyle}>Median</th>
+                <th style={headerStyle}>p95</th>
+                <th style={headerStyle}>Billable min</th>
+                <th style={headerStyle}>Runner</th>
+              </tr>
+            </thead>
+            <tbody>
+              {jobs.map(job => (
+                <tr key={job.jobId}>
+                  <td style={cellStyle}>
+                    <b style={{ color: report.criticalPath.includes(job.jobId) ? "#e8590c" : undefined }}>{job.jobId}</b>
+                  </td>
+                  <td style={cellStyle}>{job.samples}</td>
+                  <td style={cellStyle}>{formatDuration(job.median)}</td>
+                  <td style={cellStyle}>{formatDuration(job.p95)}</td>
+                  <td style={cellStyle}>{job.billableMinutes}</td>
+                  <td style={cellStyle}><code>{job.runner}</code></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <h3 style={{ fontWeight: 500, fontSize: "1.1rem", marginBottom: 8 }}>Billable minutes per run by runner</h3>
+          <ul style={{ margin: 0, paddingLeft: 20, fontSize: "0.93rem" }}>
+            {report.runners.map(r => (
+              <li key={r.runner}><code>{r.runner}</code>: {r.minutes} min</li>
+            ))}
+          </ul>
+          {report.unmatched.length > 0 && (
+            <div style={{ color: "var(--gha-text-muted)", fontSize: "0.9rem", marginTop: 12 }}>
+              Not in this workflow: {report.unmatched.map(name => <code key={name} style={{ marginRight: 6 }}>{name}</code>)}
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default TimingsPanel;
@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from "react";
+import { Workflow, normalizeTriggers } from "../lib/workflow";
+import type { ConditionOutcome } from "../lib/conditions";
+import {
+  BRANCH_FILTER_EVENTS,
+  DEFAULT_ACTIVITY_TYPES,
+  PATH_FILTER_EVENTS,
+  RefType,
+  simulateTriggerFilters,
+} from "../lib/triggerFilters";
+
+interface TriggerSimulatorProps {
+  workflow: Workflow;
+}
+
+const OUTCOMES: Record<ConditionOutcome, { label: string; color: string; background: string }> = {
+  runs: { label: "✓ Runs", color: "#1ca772", background: "rgba(28,167,114,0.14)" },
+  skipped: { label: "✗ Doesn't run", color: "#c00", background: "rgba(204,0,0,0.1)" },
+  unknown: { label: "? Depends on the changed files", color: "#a67c00", background: "rgba(224,193,49,0.18)" },
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: "6px 10px",
+  fontSize: "0.95rem",
+  borderRadius: 7,
+  border: "1px solid var(--gha-border)",
+  background: "var(--gha-surface-alt)",
+  fontFamily: "inherit",
+};
+
+// "Would this push/PR run this workflow?" against the `on:` filters.
+const TriggerSimulator: React.FC<TriggerSimulatorProps> = ({ workflow }) => {
+  const triggers = useMemo(() => normalizeTriggers(workflow.on), [workflow]);
+  const events = Object.keys(triggers);
+  const [chosenEvent, setEvent] = useState("push");
+  const [refType, setRefType] = useState<RefType>("branch");
+  const [ref, setRef] = useState("main");
+  const [type, setType] = useState("opened");
+  const [files, setFiles] = useState("");
+
+  const event = events.includes(chosenEvent) ? chosenEvent : events[0];
+  const filter = triggers[event];
+  const configuredTypes = filter && !Array.isArray(filter) && filter.types ? filter.types : DEFAULT_ACTIVITY_TYPES[event];
+  const result = useMemo(
+    () =>
+      event
+        ? simulateTriggerFilters(workflow, {
+            event,
+            ref: ref.trim(),
+            refType,
+            type: configuredTypes ? type.trim() : undefined,
+            changedFiles: files.split("\n").map(line => line.trim()).filter(Boolean),
+          })
+        : null,
+    [workflow, event, ref, refType, type, files, configuredTypes]
+  );
+  if (!event || !result) return null;
+  const outcome = OUTCOMES[result.outcome];
+
+  return (
+    <section
+      style={{
+        background: "var(--gha-surface)",
+        borderRadius: 12,
+        boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
+        padding: "24px 32px",
+        marginBottom: 32,
+        border: "1px solid var(--gha-border)",
+      }}
+    >
+      <h2 style={{ marginTop: 0, fontSize: "1.4rem", borderBottom: "2px solid var(--gha-border)", paddingBottom: 8 }}>
+        Would It Run?
+      </h2>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 10, alignItems: "center", marginBottom: 12 }}>
+        <select value={event} onChange={e => setEvent(e.target.value)} style={inputStyle}>
+          {events.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        {event === "push" && (
+          <select value={refType} onChange={e => setRefType(e.target.value as RefType)} style={inputStyle}>
+            <option value="branch">to branch</option>
+            <option value="tag">of tag</option>
+          </select>
+        )}
+        {event in BRANCH_FILTER_EVENTS && (
+          <input
+            type="text"
+            value={ref}
+            onChange={e => setRef(e.target.value)}
+            placeholder={event === "push" ? refType : BRANCH_FILTER_EVENTS[event].toLowerCase()}
+            title={event === "push" ? undefined : BRANCH_FILTER_EVENTS[event]}
+            style={{ ...inputStyle, width: 180 }}
+          />
+        )}
+        {configuredTypes && (
+          <>
+            <input
+              type="text"
+              list="trigger-simulator-types"
+              value={type}
+              onChange={e => setType(e.target.value)}
+              placeholder="activity type"
+              style={{ ...inputStyle, width: 140 }}
+            />
+            <datalist id="trigger-simulator-types">
+              {configuredTypes.map(name => <option key={name} value={name} />)}
+            </datalist>
+          </>
+        )}
+      </div>
+      {PATH_FILTER_EVENTS.includes(event) && (
+        <textarea
+          value={files}
+          onChange={e => setFiles(e.target.value)}
+          placeholder={"Changed files, one per line, e.g.\nservices/api/src/index.ts\ndocs/README.md"}
+          rows={4}
+          style={{ ...inputStyle, width: "100%", boxSizing: "border-box", fontFamily: "'SFMono-Regular', Menlo, Consolas, monospace", marginBottom: 12 }}
+        />
+      )}
+      <div
+        style={{
+          display: "inline-block",
+          padding: "6px 14px",
+          borderRadius: 7,
+          fontWeight: 600,
+          color: outcome.color,
+          background: outcome.background,
+          marginBottom: 10,
+        }}
+      >
+        {outcome.label}
+      </div>
+      <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+        {result.checks.map((check, i) => (
+          <li key={i} style={{ padding: "5px 0", borderBottom: "1px solid var(--gha-border-subtle)", fontSize: "0.93rem" }}>
+            <span
+              style={{
+                display: "inline-block",
+                width: 18,
+                fontWeight: 600,
+                color: check.passed === null ? "#a67c00" : check.passed ? "#1ca772" : "#c00",
+              }}
+            >
+              {check.passed === null ? "?" : check.passed ? "✓" : "✗"}
+            </span>
+            <code style={{ marginRight: 8 }}>{check.filter}</code>
+            {check.explanation}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default TriggerSimulator;
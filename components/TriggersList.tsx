@@ -0,0 +1,109 @@
+import React from "react";
+import { TriggerDetail, triggerExamples } from "../lib/extract";
+import { explainCron, formatUtc, nextRuns, parseCron } from "../lib/cron";
+import { TriggerConfig, TriggerFilter, isMapping } from "../lib/workflow";
+
+// Upcoming runs listed under each `schedule` entry.
+const UPCOMING_RUNS = 5;
+
+type ListFilter = "branches" | "branches-ignore" | "tags" | "tags-ignore" | "paths" | "paths-ignore" | "types" | "workflows";
+
+const TRIGGER_FILTER_LABELS: Record<ListFilter, string> = {
+  branches: "Branches",
+  "branches-ignore": "Ignored branches",
+  tags: "Tags",
+  "tags-ignore": "Ignored tags",
+  paths: "Paths",
+  "paths-ignore": "Ignored paths",
+  types: "Types",
+  workflows: "Workflows",
+};
+const TRIGGER_FILTER_KEYS = Object.keys(TRIGGER_FILTER_LABELS) as ListFilter[];
+
+// YAML allows a single pattern where the schema expects a list.
+function filterValues(filter: TriggerFilter, key: ListFilter): unknown[] {
+  const value: unknown = filter[key];
+  return Array.isArray(value) ? value : [value];
+}
+
+function ScheduleDetail({ cron }: { cron: unknown }) {
+  if (typeof cron !== "string") return <i>Missing <code>cron</code></i>;
+  const { schedule, errors, warnings, notes } = parseCron(cron);
+  return (
+    <>
+      <code>{cron}</code>
+      {schedule && <span style={{ marginLeft: 8 }}>{explainCron(schedule)}</span>}
+      {errors.map((message, i) => <div key={`e${i}`} style={{ color: "#c00", fontSize: "0.9rem" }}>{message}</div>)}
+      {warnings.map((message, i) => <div key={`w${i}`} style={{ color: "#a67c00", fontSize: "0.9rem" }}>{message}</div>)}
+      {notes.map((message, i) => <div key={`n${i}`} style={{ color: "var(--gha-text-muted)", fontSize: "0.9rem" }}>{message}</div>)}
+      {schedule && (
+        <div style={{ fontSize: "0.9rem", color: "var(--gha-text-secondary)" }}>
+          Next runs: {nextRuns(schedule, new Date(), UPCOMING_RUNS).map(formatUtc).join(", ") || "never"}
+        </div>
+      )}
+    </>
+  );
+}
+
+/** A trigger's filters as a list, `schedule` entries explained, anything else as JSON. */
+export function formatTriggerDetail(event: string, detail: TriggerConfig | undefined): React.ReactNode {
+  if (!detail || typeof detail !== "object") return null;
+  if (!Array.isArray(detail) && TRIGGER_FILTER_KEYS.some(key => key in detail)) {
+    return (
+      <ul style={{ margin: 0, paddingLeft: 20 }}>
+        {TRIGGER_FILTER_KEYS.filter(key => detail[key]).map(key => (
+          <li key={key}>
+            {TRIGGER_FILTER_LABELS[key]}: <code>{filterValues(detail, key).join(", ")}</code>
+          </li>
+        ))}
+      </ul>
+    );
+  }
+  if (event === "schedule" && Array.isArray(detail)) {
+    return (
+      <ul style={{ margin: 0, paddingLeft: 20 }}>
+        {detail.map((entry: unknown, idx) =>
+          <li key={idx} style={{ marginBottom: 6 }}><ScheduleDetail cron={isMapping(entry) ? entry.cron : undefined} /></li>
+        )}
+      </ul>
+    );
+  }
+  return <pre style={{ background: "var(--gha-surface-alt)", padding: 8, borderRadius: 5 }}>{JSON.stringify(detail, null, 2)}</pre>;
+}
+
+interface TriggersListProps {
+  triggers: TriggerDetail[];
+}
+
+// The workflow's events with their filters and schedules.
+const TriggersList: React.FC<TriggersListProps> = ({ triggers }) => {
+  return (
+    <section
+      style={{
+        background: "var(--gha-surface)",
+        borderRadius: 12,
+        boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
+        padding: "24px 32px",
+        marginBottom: 32,
+        border: "1px solid var(--gha-border)",
+      }}
+    >
+      <h2 style={{ marginTop: 0, fontSize: "1.4rem", borderBottom: "2px solid var(--gha-border)", paddingBottom: 8 }}>Workflow Triggers</h2>
+      <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+        {triggers.map((trigger, i) => (
+          <li key={i} style={{ marginBottom: 20, paddingBottom: 14, borderBottom: "1px solid var(--gha-border-subtle)" }}>
+            <span style={{ fontWeight: 600, fontSize: "1.08rem" }}>{trigger.event}</span>
+            <div style={{ fontStyle: "italic", color: "var(--gha-text-secondary)", marginTop: 2 }}>
+              {triggerExamples[trigger.event] || "Triggered by event: " + trigger.event}
+            </div>
+            {trigger.detailsObj && (
+              <div style={{ marginLeft: 18, marginTop: 4 }}>{formatTriggerDetail(trigger.event, trigger.detailsObj)}</div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default TriggersList;
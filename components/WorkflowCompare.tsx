@@ -0,0 +1,130 @@
+import React from "react";
+import dynamic from "next/dynamic";
+import YamlEditor from "./YamlEditor";
+import type { Diagnostic } from "../lib/workflow";
+import { ChangeStatus, TriggerDiff, WorkflowDiff, generateDiffMermaid, isEmptyDiff } from "../lib/diff";
+import type { MermaidTheme } from "../lib/theme";
+
+const Mermaid = dynamic(() => import("./Mermaid"), { ssr: false });
+
+export type CompareSide = {
+  label: string;
+  yaml: string;
+  diagnostics: Diagnostic[];
+};
+
+interface WorkflowCompareProps {
+  before: CompareSide;
+  after: CompareSide;
+  diff: WorkflowDiff | null;
+  onBeforeChange: (yaml: string) => void;
+  onAfterChange: (yaml: string) => void;
+  onCompare: () => void;
+  theme?: MermaidTheme;
+}
+
+const STATUS_COLORS: Record<ChangeStatus, string> = {
+  added: "#1ca772",
+  removed: "#c00",
+  changed: "#a67c00",
+  unchanged: "var(--gha-text-muted)",
+};
+
+function triggerSummary(trigger: TriggerDiff): string {
+  const describe = (side: TriggerDiff["before"]) =>
+    side?.detailsObj ? JSON.stringify(side.detailsObj) : side?.details || "(no filters)";
+  if (trigger.status === "added") return describe(trigger.after);
+  if (trigger.status === "removed") return describe(trigger.before);
+  if (trigger.status === "changed") return `${describe(trigger.before)} → ${describe(trigger.after)}`;
+  return describe(trigger.after);
+}
+
+const WorkflowCompare: React.FC<WorkflowCompareProps> = ({
+  before,
+  after,
+  diff,
+  onBeforeChange,
+  onAfterChange,
+  onCompare,
+  theme,
+}) => {
+  const sides: [CompareSide, (yaml: string) => void][] = [[before, onBeforeChange], [after, onAfterChange]];
+
+  return (
+    <>
+      <div style={{ display: "flex", gap: 12 }}>
+        {sides.map(([side, onChange], i) => (
+          <div key={i} style={{ flex: 1, minWidth: 0 }}>
+            <div style={{ fontWeight: 500, marginBottom: 6 }}>{side.label}</div>
+            <YamlEditor
+              value={side.yaml}
+              onChange={onChange}
+              diagnostics={side.diagnostics}
+              placeholder={`Paste the ${i === 0 ? "old" : "new"} workflow YAML here...`}
+            />
+            {side.diagnostics.map((d, j) => (
+              <div key={j} style={{ color: d.severity === "error" ? "#c00" : "#a67c00", fontSize: "0.9rem" }}>
+                {d.line}:{d.column} {d.message}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+      <div style={{ display: "flex", gap: 10, marginBottom: 18, marginTop: 2 }}>
+        <button
+          onClick={onCompare}
+          style={{
+            padding: "9px 22px",
+            fontWeight: 500,
+            fontSize: "1rem",
+            background: "#3167e0",
+            color: "#fff",
+            border: "none",
+            borderRadius: 7,
+            boxShadow: "0 2px 6px rgba(49,103,224,0.09)",
+            cursor: "pointer"
+          }}
+        >
+          Compare Workflows
+        </button>
+      </div>
+      {diff && (
+        <section
+          style={{
+            background: "var(--gha-surface)",
+            borderRadius: 12,
+            boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
+            padding: "24px 32px",
+            marginBottom: 32,
+            border: "1px solid var(--gha-border)",
+          }}
+        >
+          <h2 style={{ marginTop: 0, fontSize: "1.4rem", borderBottom: "2px solid var(--gha-border)", paddingBottom: 8 }}>
+            Changes
+          </h2>
+          {isEmptyDiff(diff) && <div style={{ color: "var(--gha-text-muted)", marginBottom: 12 }}>No structural changes.</div>}
+          <div style={{ fontSize: "0.9rem", color: "var(--gha-text-muted)", marginBottom: 12 }}>
+            <span style={{ color: STATUS_COLORS.added }}>■ added</span>{" "}
+            <span style={{ color: STATUS_COLORS.removed, marginLeft: 10 }}>■ removed</span>{" "}
+            <span style={{ color: STATUS_COLORS.changed, marginLeft: 10 }}>■ changed</span>
+          </div>
+          {diff.jobs.length > 0 && <Mermaid chart={generateDiffMermaid(diff)} theme={theme} />}
+          <h3 style={{ fontWeight: 500, fontSize: "1.1rem", marginBottom: 8 }}>Triggers</h3>
+          <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+            {diff.triggers.map(trigger => (
+              <li key={trigger.event} style={{ padding: "6px 0", borderBottom: "1px solid var(--gha-border-subtle)", fontSize: "0.95rem" }}>
+                <span style={{ color: STATUS_COLORS[trigger.status], fontWeight: 600, marginRight: 8 }}>
+                  {trigger.status}
+                </span>
+                <b style={{ marginRight: 8 }}>{trigger.event}</b>
+                <code>{triggerSummary(trigger)}</code>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </>
+  );
+};
+
+export default WorkflowCompare;
@@ -0,0 +1,157 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef } from "react";
+import { EditorState, Text } from "@codemirror/state";
+import {
+  EditorView,
+  drawSelection,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  keymap,
+  lineNumbers,
+  placeholder as placeholderExtension,
+} from "@codemirror/view";
+import { defaultKeymap, history, historyKeymap, indentWithTab } from "@codemirror/commands";
+import { bracketMatching, defaultHighlightStyle, indentOnInput, syntaxHighlighting } from "@codemirror/language";
+import { yaml } from "@codemirror/lang-yaml";
+import { CompletionContext, autocompletion, completionKeymap } from "@codemirror/autocomplete";
+import { Diagnostic as EditorDiagnostic, lintGutter, setDiagnostics } from "@codemirror/lint";
+import type { Diagnostic } from "../lib/workflow";
+import { workflowCompletions } from "../lib/completions";
+
+interface YamlEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  diagnostics: Diagnostic[];
+  placeholder?: string;
+}
+
+export interface YamlEditorHandle {
+  revealLine: (line: number) => void;
+}
+
+const LINE_HEIGHT = 21;
+const PADDING = 13;
+const VISIBLE_LINES = 12;
+
+const theme = EditorView.theme({
+  "&": {
+    height: `${VISIBLE_LINES * LINE_HEIGHT + 2 * PADDING}px`,
+    fontSize: "0.92rem",
+    background: "var(--gha-surface-alt)",
+    color: "var(--gha-text)",
+  },
+  "&.cm-focused": { outline: "none" },
+  ".cm-scroller": {
+    fontFamily: "'SFMono-Regular', Menlo, Consolas, monospace",
+    lineHeight: `${LINE_HEIGHT}px`,
+  },
+  ".cm-content": { padding: `${PADDING}px 0`, caretColor: "var(--gha-text)" },
+  ".cm-cursor": { borderLeftColor: "var(--gha-text)" },
+  ".cm-gutters": { background: "var(--gha-surface-alt)", color: "var(--gha-text-muted)", borderRight: "1px solid var(--gha-border)" },
+  ".cm-activeLine, .cm-activeLineGutter": { background: "rgba(49,103,224,0.05)" },
+});
+
+function completionSource(context: CompletionContext) {
+  const result = workflowCompletions(context.state.doc.toString(), context.pos);
+  if (!result) return null;
+  if (result.from === context.pos && !context.explicit) return null;
+  return { from: result.from, options: result.options, validFor: /^[\w.-]*$/ };
+}
+
+function toEditorDiagnostics(doc: Text, diagnostics: Diagnostic[]): EditorDiagnostic[] {
+  return diagnostics.map(d => {
+    const line = doc.line(Math.min(Math.max(d.line, 1), doc.lines));
+    const from = Math.min(line.from + Math.max(d.column - 1, 0), line.to);
+    // Underline to the end of the word at the position, or the line when there's none.
+    const word = doc.sliceString(from, line.to).match(/^[^\s:]+/);
+    return { from, to: word ? from + word[0].length : line.to, severity: d.severity, message: d.message };
+  });
+}
+
+// CodeMirror editor with YAML highlighting, workflow-aware completion and
+// gutter markers for `diagnostics`. `value` is controlled: external changes
+// (loading a file, clearing) replace the document.
+const YamlEditor = forwardRef<YamlEditorHandle, YamlEditorProps>(
+  ({ value, onChange, diagnostics, placeholder }, ref) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const viewRef = useRef<EditorView | null>(null);
+    const onChangeRef = useRef(onChange);
+    onChangeRef.current = onChange;
+
+    useEffect(() => {
+      if (!containerRef.current) return;
+      const view = new EditorView({
+        parent: containerRef.current,
+        state: EditorState.create({
+          doc: value,
+          extensions: [
+            lineNumbers(),
+            highlightActiveLineGutter(),
+            highlightActiveLine(),
+            drawSelection(),
+            history(),
+            indentOnInput(),
+            bracketMatching(),
+            syntaxHighlighting(defaultHighlightStyle, { fallback: true }),
+            yaml(),
+            autocompletion({ override: [completionSource] }),
+            lintGutter(),
+            keymap.of([...completionKeymap, ...defaultKeymap, ...historyKeymap, indentWithTab]),
+            placeholderExtension(placeholder ?? ""),
+            theme,
+            EditorView.updateListener.of(update => {
+              if (update.docChanged) onChangeRef.current(update.state.doc.toString());
+            }),
+          ],
+        }),
+      });
+      viewRef.current = view;
+      return () => {
+        view.destroy();
+        viewRef.current = null;
+      };
+      // Created once; `value` is synced by the effect below.
+    }, []);
+
+    useEffect(() => {
+      const view = viewRef.current;
+      if (!view || view.state.doc.toString() === value) return;
+      view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: value } });
+    }, [value]);
+
+    useEffect(() => {
+      const view = viewRef.current;
+      if (!view) return;
+      view.dispatch(setDiagnostics(view.state, toEditorDiagnostics(view.state.doc, diagnostics)));
+    }, [diagnostics]);
+
+    useImperativeHandle(ref, () => ({
+      revealLine(line: number) {
+        const view = viewRef.current;
+        if (!view) return;
+        const target = view.state.doc.line(Math.min(Math.max(line, 1), view.state.doc.lines));
+        view.dispatch({
+          selection: { anchor: target.from, head: target.to },
+          effects: EditorView.scrollIntoView(target.from, { y: "center" }),
+        });
+        view.focus();
+      },
+    }), []);
+
+    return (
+      <div
+        ref={containerRef}
+        style={{
+          marginBottom: 12,
+          border: "1px solid var(--gha-border)",
+          borderRadius: 8,
+          overflow: "hidden",
+          boxShadow: "0 0.5px 2px rgba(0,0,0,0.03)",
+        }}
+      />
+    );
+  }
+);
+
+YamlEditor.displayName = "YamlEditor";
+
+export default YamlEditor;
@@ -0,0 +1,234 @@
+import type { CiParser } from "./ciFormats";
+import { Diagnostic, Job, MatrixEntry, Step, TriggerConfig, TriggerFilter, Workflow, YamlPath, isMapping } from "./workflow";
+import { asList, diagnosticAt, jobIdAllocator, variablesToEnv } from "./ciConvert";
+
+// ------ Azure Pipelines ------
+// `azure-pipelines.yml` as a workflow: job ids are `<stage>_<job>`, a
+// stage waits for the previous one unless it sets `dependsOn`, tasks become
+// `uses` steps and scripts `run` steps. `trigger`, `pr` and `schedules` map
+// onto `push`, `pull_request` and `schedule`.
+// See https://learn.microsoft.com/azure/devops/pipelines/yaml-schema/
+
+type AzureStage = {
+  name: string;
+  definition: Record<string, unknown>;
+  path: YamlPath;
+  jobs: { definition: Record<string, unknown>; path: YamlPath }[];
+};
+
+const SCRIPT_KINDS = ["script", "bash", "pwsh", "powershell"];
+// Deployment strategy hooks, in the order they run.
+const DEPLOYMENT_HOOKS = ["preDeploy", "deploy", "routeTraffic", "postRouteTraffic"];
+
+function poolName(pool: unknown): string | undefined {
+  if (typeof pool === "string") return pool;
+  if (!isMapping(pool)) return undefined;
+  return typeof pool.vmImage === "string" ? pool.vmImage : typeof pool.name === "string" ? pool.name : undefined;
+}
+
+// `timeoutInMinutes` and `maxParallel`: a number, or an expression string.
+function countOf(value: unknown): number | string | undefined {
+  return typeof value === "number" || typeof value === "string" ? value : undefined;
+}
+
+function convertStep(step: Record<string, unknown>): Step {
+  const timeout = countOf(step.timeoutInMinutes);
+  const common: Step = {
+    ...(typeof step.displayName === "string" ? { name: step.displayName } : {}),
+    ...(typeof step.condition === "string" ? { if: step.condition } : {}),
+    ...(step.continueOnError === true ? { "continue-on-error": true } : {}),
+    ...(timeout !== undefined ? { "timeout-minutes": timeout } : {}),
+  };
+  const env = variablesToEnv(step.env);
+  if (env) common.env = env;
+  const kind = SCRIPT_KINDS.find(key => typeof step[key] === "string");
+  if (kind) return { ...common, run: String(step[kind]), ...(kind !== "script" ? { shell: kind } : {}) };
+  if (typeof step.task === "string") return { ...common, uses: step.task, ...(isMapping(step.inputs) ? { with: step.inputs } : {}) };
+  for (const key of ["checkout", "download", "publish", "template", "getPackage", "restoreCache"]) {
+    if (step[key] !== undefined) return { name: `${key}: ${step[key]}`, ...common };
+  }
+  return common;
+}
+
+// Steps of a regular job, or of a deployment job's strategy hooks.
+function jobSteps(job: Record<string, unknown>): Step[] {
+  if (Array.isArray(job.steps)) return job.steps.filter(isMapping).map(convertStep);
+  const strategy = isMapping(job.strategy) ? Object.values(job.strategy).find(isMapping) : undefined;
+  if (!strategy) return [];
+  return DEPLOYMENT_HOOKS.flatMap(hook =>
+    isMapping(strategy[hook]) && Array.isArray(strategy[hook].steps) ? strategy[hook].steps.filter(isMapping).map(convertStep) : []
+  );
+}
+
+// `strategy.matrix` legs (`{ linux: { imageName: ubuntu-latest } }`) as `include` entries.
+function matrixInclude(strategy: unknown): MatrixEntry[] | undefined {
+  if (!isMapping(strategy) || !isMapping(strategy.matrix)) return undefined;
+  return Object.entries(strategy.matrix).map(([leg, values]) => ({ leg, ...(isMapping(values) ? values : {}) }));
+}
+
+// `$(imageName)` naming a matrix variable, written as `${{ matrix.imageName }}` so each leg shows its own value.
+function matrixReferences(text: string, include: MatrixEntry[]): string {
+  return text.replace(/\$\(([A-Za-z0-9_.]+)\)/g, (whole, key: string) =>
+    include.some(leg => key in leg) ? `\${{ matrix.${key} }}` : whole
+  );
+}
+
+// Branch/path/tag filters with `include`/`exclude` lists as GitHub patterns, exclusions as `!` negations.
+function patterns(filter: unknown): string[] | undefined {
+  if (Array.isArray(filter)) return filter.map(String);
+  if (!isMapping(filter)) return undefined;
+  const include = asList(filter.include).map(String);
+  const exclude = asList(filter.exclude).map(pattern => `!${pattern}`);
+  if (include.length === 0 && exclude.length === 0) return undefined;
+  return [...(include.length > 0 ? include : ["**"]), ...exclude];
+}
+
+function triggerFilter(trigger: unknown): TriggerConfig {
+  if (Array.isArray(trigger)) return { branches: trigger.map(String) };
+  if (!isMapping(trigger)) return null;
+  const filter: TriggerFilter = {};
+  const branches = patterns(trigger.branches);
+  const tags = patterns(trigger.tags);
+  const paths = patterns(trigger.paths);
+  if (branches) filter.branches = branches;
+  if (tags) filter.tags = tags;
+  if (paths) filter.paths = paths;
+  return Object.keys(filter).length > 0 ? filter : null;
+}
+
+// With no `trigger` or `pr`, Azure runs on pushes and pull requests to every branch.
+function triggersOf(document: Record<string, unknown>): Record<string, TriggerConfig> {
+  const on: Record<string, TriggerConfig> = {};
+  if (document.trigger !== "none") on.push = triggerFilter(document.trigger);
+  if (document.pr !== "none") on.pull_request = triggerFilter(document.pr);
+  const crons = asList(document.schedules).filter(isMapping).map(entry => entry.cron).filter(cron => typeof cron === "string");
+  if (crons.length > 0) on.schedule = crons.map(cron => ({ cron }));
+  return on;
+}
+
+// `stages`, else `jobs` in one unnamed stage, else `steps` in one unnamed job.
+function stagesOf(document: Record<string, unknown>, source: string, diagnostics: Diagnostic[]): AzureStage[] {
+  function jobsOf(list: unknown, path: YamlPath) {
+    return asList(list).flatMap((definition, i) => {
+      if (!isMapping(definition)) return [];
+      if (typeof definition.template === "string") {
+        diagnostics.push(diagnosticAt(source, "warning", `Job template \`${definition.template}\` isn't expanded.`, [...path, i]));
+        return [];
+      }
+      return [{ definition, path: [...path, i] }];
+    });
+  }
+
+  if (Array.isArray(document.stages)) {
+    return document.stages.flatMap((definition, i): AzureStage[] => {
+      if (!isMapping(definition)) return [];
+      if (typeof definition.template === "string") {
+        diagnostics.push(diagnosticAt(source, "warning", `Stage template \`${definition.template}\` isn't expanded.`, ["stages", i]));
+        return [];
+      }
+      const name = String(definition.stage ?? `Stage${i + 1}`);
+      return [{ name, definition, path: ["stages", i], jobs: jobsOf(definition.jobs, ["stages", i, "jobs"]) }];
+    });
+  }
+  if (document.jobs !== undefined) return [{ name: "", definition: {}, path: [], jobs: jobsOf(document.jobs, ["jobs"]) }];
+  if (Array.isArray(document.steps)) {
+    return [{ name: "", definition: {}, path: [], jobs: [{ definition: { job: "Job", steps: document.steps }, path: [] }] }];
+  }
+  return [];
+}
+
+function toWorkflow(document: Record<string, unknown>, source: string): { workflow: Workflow; diagnostics: Diagnostic[] } {
+  const diagnostics: Diagnostic[] = [];
+  if (isMapping(document.extends)) {
+    diagnostics.push(diagnosticAt(source, "warning", "The pipeline `extends` a template, which isn't expanded.", ["extends"]));
+  }
+  const stages = stagesOf(document, source, diagnostics);
+  const allocate = jobIdAllocator();
+
+  // Each stage's jobs with their ids, and its last jobs (the ones nothing else in the stage waits for).
+  const stageJobs = new Map<string, { name: string; id: string }[]>();
+  const finalJobs = new Map<string, string[]>();
+  for (const stage of stages) {
+    const named = stage.jobs.map(({ definition }, i) => {
+      const name = String(definition.job ?? definition.deployment ?? `Job${i + 1}`);
+      return { name, id: allocate(stage.name ? `${stage.name}_${name}` : name) };
+    });
+    const dependedOn = new Set(stage.jobs.flatMap(({ definition }) => asList(definition.dependsOn).map(String)));
+    stageJobs.set(stage.name, named);
+    finalJobs.set(stage.name, named.filter(({ name }) => !dependedOn.has(name)).map(({ id }) => id));
+  }
+
+  const jobs: Record<string, Job> = {};
+  stages.forEach((stage, stageIndex) => {
+    const stageNames = new Set(stages.map(s => s.name));
+    // A stage without `dependsOn` waits for the one before it; `dependsOn: []` for none.
+    const upstreamStages = stage.definition.dependsOn !== undefined
+      ? asList(stage.definition.dependsOn).map(String)
+      : stageIndex > 0 ? [stages[stageIndex - 1].name] : [];
+    upstreamStages.forEach(name => {
+      if (!stageNames.has(name)) {
+        diagnostics.push(diagnosticAt(source, "error", `Stage \`${stage.name}\` depends on \`${name}\`, which doesn't exist.`, [...stage.path, "dependsOn"]));
+      }
+    });
+    const stageNeeds = upstreamStages.flatMap(name => finalJobs.get(name) ?? []);
+    const named = stageJobs.get(stage.name)!;
+    const names = new Map(named.map(({ name, id }) => [name, id]));
+
+    stage.jobs.forEach(({ definition, path }, i) => {
+      const { name, id } = named[i];
+      const jobNeeds = asList(definition.dependsOn).map(String).flatMap(need => {
+        if (names.has(need)) return [names.get(need)!];
+        diagnostics.push(diagnosticAt(source, "error", `Job \`${name}\` depends on \`${need}\`, which isn't in this stage.`, [...path, "dependsOn"]));
+        return [];
+      });
+      const needs = jobNeeds.length > 0 || definition.dependsOn !== undefined ? jobNeeds : stageNeeds;
+      const conditions = [stage.definition.condition, definition.condition].filter((c): c is string => typeof c === "string");
+      const title = String(definition.displayName ?? name);
+      const stageTitle = String(stage.definition.displayName ?? stage.name);
+      const include = matrixInclude(definition.strategy);
+      const maxParallel = isMapping(definition.strategy) ? countOf(definition.strategy.maxParallel) : undefined;
+      const environment = isMapping(definition.environment) ? definition.environment.name : definition.environment;
+      const env = variablesToEnv(definition.variables) ?? variablesToEnv(stage.definition.variables);
+
+      const pool = poolName(definition.pool) ?? poolName(stage.definition.pool) ?? poolName(document.pool);
+
+      const job: Job = {
+        name: stage.name ? `${stageTitle} › ${title}` : title,
+        "runs-on": include && pool ? matrixReferences(pool, include) : pool,
+        needs: needs.length > 0 ? needs : undefined,
+        if: conditions.length > 1 ? `and(${conditions.join(", ")})` : conditions[0],
+        env,
+        environment: typeof environment === "string" ? environment : undefined,
+        strategy: include ? { matrix: { include }, ...(maxParallel ? { "max-parallel": maxParallel } : {}) } : undefined,
+        "timeout-minutes": countOf(definition.timeoutInMinutes),
+        "continue-on-error": definition.continueOnError === true ? true : undefined,
+        container: typeof definition.container === "string" ? definition.container : undefined,
+        steps: jobSteps(definition),
+      };
+      jobs[id] = Object.fromEntries(Object.entries(job).filter(([, value]) => value !== undefined)) as Job;
+    });
+  });
+
+  if (Object.keys(jobs).length === 0) {
+    diagnostics.push(diagnosticAt(source, "error", "No jobs found. Expected `stages`, `jobs` or `steps`.", []));
+  }
+
+  return {
+    workflow: { on: triggersOf(document), env: variablesToEnv(document.variables), jobs },
+    diagnostics,
+  };
+}
+
+export const azureParser: CiParser = {
+  format: "azure",
+  label: "Azure Pipelines",
+  fileName: /(^|\/)(\.?azure-pipelines?[^/]*|\.azuredevops\/.+)\.ya?ml$/,
+  detect: document =>
+    (Array.isArray(document.stages) && document.stages.some(stage => isMapping(stage) && ("stage" in stage || "template" in stage))) ||
+    (Array.isArray(document.jobs) && document.jobs.some(job => isMapping(job) && ("job" in job || "deployment" in job))) ||
+    Array.isArray(document.steps) ||
+    "pool" in document ||
+    "trigger" in document ||
+    "pr" in document,
+  toWorkflow,
+};
@@ -0,0 +1,42 @@
+import { Diagnostic, DiagnosticSeverity, StringMap, YamlPath, isMapping, locateYamlPath } from "./workflow";
+
+// ------ Helpers for converting other CI formats ------
+
+export function asList(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Hands out diagram-safe job ids (`[A-Za-z0-9_-]`) for job names that may
+ * contain spaces, colons or dots, keeping them unique.
+ */
+export function jobIdAllocator(): (name: string) => string {
+  const taken = new Set<string>();
+  return name => {
+    const base = name.replace(/[^A-Za-z0-9_-]+/g, "_").replace(/^_+|_+$/g, "") || "job";
+    let id = base;
+    for (let i = 2; taken.has(id); i++) id = `${base}_${i}`;
+    taken.add(id);
+    return id;
+  };
+}
+
+export function diagnosticAt(source: string, severity: DiagnosticSeverity, message: string, path: YamlPath): Diagnostic {
+  return { severity, message, path, ...locateYamlPath(source, path) };
+}
+
+// Variables as `env`, whichever way they are written: `{ A: 1 }`, `{ A: { value: 1 } }` or `[{ name, value }]`.
+export function variablesToEnv(variables: unknown): StringMap | undefined {
+  const env: StringMap = {};
+  if (isMapping(variables)) {
+    for (const [name, value] of Object.entries(variables)) {
+      env[name] = String(isMapping(value) ? value.value ?? "" : value ?? "");
+    }
+  } else if (Array.isArray(variables)) {
+    variables.forEach(variable => {
+      if (isMapping(variable) && typeof variable.name === "string") env[variable.name] = String(variable.value ?? "");
+    });
+  }
+  return Object.keys(env).length > 0 ? env : undefined;
+}
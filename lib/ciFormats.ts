@@ -0,0 +1,65 @@
+import { ParsedWorkflow, parseWorkflow } from "./workflow";
+import { gitlabParser } from "./gitlab";
+import { azureParser } from "./azure";
+
+// ------ CI formats ------
+// Other CI systems are converted into the GitHub Actions workflow model, so
+// the diagram, step tables and exports work on them unchanged. A parser
+// recognises its files and maps its jobs, dependencies, conditions and
+// scripts onto `jobs`, `needs`, `if` and `steps`.
+
+export type CiFormat = "github" | "gitlab" | "azure";
+
+export type CiParser = {
+  format: CiFormat;
+  label: string;
+  // File names that are always this format, e.g. `.gitlab-ci.yml`.
+  fileName?: RegExp;
+  // Whether a YAML mapping of unknown origin looks like this format.
+  detect: (document: Record<string, unknown>) => boolean;
+  // Diagnostics are positioned in `source`.
+  toWorkflow: (document: Record<string, unknown>, source: string) => ParsedWorkflow;
+};
+
+export type ParsedDefinition = ParsedWorkflow & {
+  format: CiFormat;
+};
+
+const githubParser: CiParser = {
+  format: "github",
+  label: "GitHub Actions",
+  fileName: /(^|\/)\.github\/workflows\/[^/]+\.ya?ml$/,
+  detect: document => "on" in document || (!!document.jobs && typeof document.jobs === "object" && !Array.isArray(document.jobs)),
+  toWorkflow: (document, source) => parseWorkflow(source),
+};
+
+// Content detection tries GitHub last: its shapes are the loosest match.
+const parsers: CiParser[] = [gitlabParser, azureParser, githubParser];
+
+/** Adds a parser for another CI format; it is tried before the built-in ones. */
+export function registerCiParser(parser: CiParser) {
+  parsers.unshift(parser);
+}
+
+export function ciParser(format: CiFormat): CiParser {
+  return parsers.find(parser => parser.format === format) ?? githubParser;
+}
+
+/** The format of a parsed document, by file name first and then by its keys. GitHub when unsure. */
+export function detectCiFormat(document: unknown, fileName?: string): CiFormat {
+  const byName = fileName ? parsers.find(parser => parser.fileName?.test(fileName)) : undefined;
+  if (byName) return byName.format;
+  if (!document || typeof document !== "object" || Array.isArray(document)) return "github";
+  return (parsers.find(parser => parser.detect(document as Record<string, unknown>)) ?? githubParser).format;
+}
+
+/**
+ * Loads a CI definition of any supported format as a workflow. `format`
+ * overrides detection.
+ */
+export function parseCiDefinition(source: string, fileName?: string, format?: CiFormat): ParsedDefinition {
+  const parsed = parseWorkflow(source);
+  const detected = format ?? detectCiFormat(parsed.workflow, fileName);
+  if (!parsed.workflow || detected === "github") return { ...parsed, format: detected };
+  return { ...ciParser(detected).toWorkflow(parsed.workflow as Record<string, unknown>, source), format: detected };
+}
@@ -0,0 +1,123 @@
+import { CALLER_JOB_KEYS, JOB_KEYS, STEP_KEYS, WORKFLOW_EVENTS, WORKFLOW_KEYS } from "./validateWorkflow";
+import { triggerExamples } from "./extract";
+
+// ------ Editor autocompletion ------
+// Works on raw text rather than a parse, since the document is usually
+// mid-edit and invalid while completions are shown.
+
+export type CompletionOption = {
+  label: string;
+  detail?: string;
+};
+
+export type CompletionResult = {
+  // Offset where the word being completed starts.
+  from: number;
+  options: CompletionOption[];
+};
+
+const FILTER_KEYS = ["branches", "branches-ignore", "tags", "tags-ignore", "paths", "paths-ignore", "types"];
+const EVENT_KEYS: Record<string, string[]> = {
+  workflow_run: ["workflows", "types", "branches", "branches-ignore"],
+  workflow_dispatch: ["inputs"],
+  workflow_call: ["inputs", "outputs", "secrets"],
+};
+const STRATEGY_KEYS = ["matrix", "fail-fast", "max-parallel"];
+const RUNNERS = ["ubuntu-latest", "ubuntu-24.04", "ubuntu-22.04", "windows-latest", "macos-latest", "self-hosted"];
+
+// `  - key: value` → indent of the dash (or -1), column of the key, and the key.
+const LINE_REGEX = /^(\s*)(-\s+)?([A-Za-z0-9_.-]+)\s*:(?:\s|$)/;
+
+type ParsedLine = { dash: number; key: number; name?: string };
+
+function parseLine(text: string): ParsedLine | null {
+  if (/^\s*(#.*)?$/.test(text)) return null;
+  const match = text.match(LINE_REGEX);
+  const indent = text.length - text.trimStart().length;
+  if (!match) {
+    const dash = text.match(/^(\s*)-\s+/);
+    return dash ? { dash: indent, key: dash[0].length } : { dash: -1, key: indent };
+  }
+  return { dash: match[2] ? indent : -1, key: indent + (match[2]?.length ?? 0), name: match[3] };
+}
+
+/**
+ * Keys enclosing a line, outermost first, with "-" for list items: a step key
+ * inside `jobs.build.steps[0]` gives ["jobs", "build", "steps", "-"].
+ */
+function ancestors(lines: string[], lineIndex: number, current: ParsedLine): string[] {
+  const chain: string[] = [];
+  let target = current.key;
+  if (current.dash >= 0) {
+    chain.push("-");
+    target = current.dash;
+  }
+  for (let i = lineIndex - 1; i >= 0 && target > 0; i--) {
+    const line = parseLine(lines[i]);
+    if (!line) continue;
+    if (line.dash >= 0 && line.dash < target && line.key >= target) {
+      // A sibling inside the same list item.
+      chain.push("-");
+      target = line.dash;
+    } else if (line.key < target) {
+      if (!line.name) return chain.reverse();
+      chain.push(line.name);
+      target = line.key;
+      if (line.dash >= 0) {
+        chain.push("-");
+        target = line.dash;
+      }
+    }
+  }
+  return chain.reverse();
+}
+
+function keyOptions(chain: string[]): CompletionOption[] {
+  const path = chain.join(".");
+  if (chain.length === 0) return WORKFLOW_KEYS.map(label => ({ label }));
+  if (path === "on" || path === "on.-") return eventOptions();
+  if (chain.length === 2 && chain[0] === "on") {
+    return (EVENT_KEYS[chain[1]] ?? FILTER_KEYS).map(label => ({ label, detail: `${chain[1]} filter` }));
+  }
+  if (chain.length === 2 && chain[0] === "jobs") {
+    return Array.from(new Set([...JOB_KEYS, ...CALLER_JOB_KEYS])).map(label => ({ label, detail: "job" }));
+  }
+  if (chain.length === 3 && chain[0] === "jobs" && chain[2] === "strategy") {
+    return STRATEGY_KEYS.map(label => ({ label, detail: "strategy" }));
+  }
+  if (chain.length === 4 && chain[0] === "jobs" && chain[2] === "steps" && chain[3] === "-") {
+    return STEP_KEYS.map(label => ({ label, detail: "step" }));
+  }
+  return [];
+}
+
+function eventOptions(): CompletionOption[] {
+  return WORKFLOW_EVENTS.map(label => ({ label, detail: triggerExamples[label] ?? "event" }));
+}
+
+/** Suggestions for the key or value being typed at `offset` in a workflow. */
+export function workflowCompletions(source: string, offset: number): CompletionResult | null {
+  const lineStart = source.lastIndexOf("\n", offset - 1) + 1;
+  const before = source.slice(lineStart, offset);
+  const lines = source.slice(0, lineStart).split("\n");
+  const lineIndex = lines.length - 1;
+
+  // A value: `on: pu|` or `runs-on: ubu|`.
+  const value = before.match(/^(\s*(?:-\s+)?)([A-Za-z0-9_.-]+):\s+([\w.-]*)$/);
+  if (value) {
+    const options = value[2] === "on" && value[1] === ""
+      ? eventOptions()
+      : value[2] === "runs-on" ? RUNNERS.map(label => ({ label, detail: "runner" })) : [];
+    return options.length > 0 ? { from: offset - value[3].length, options } : null;
+  }
+
+  // A key: `  - na|` or `    run|`.
+  const key = before.match(/^(\s*)(-\s+)?([\w.-]*)$/);
+  if (!key) return null;
+  const current: ParsedLine = {
+    dash: key[2] ? key[1].length : -1,
+    key: key[1].length + (key[2]?.length ?? 0),
+  };
+  const options = keyOptions(ancestors(lines, lineIndex, current));
+  return options.length > 0 ? { from: offset - key[3].length, options } : null;
+}
@@ -0,0 +1,127 @@
+import type { Job, Step, TriggerConfig, Workflow } from "./workflow";
+import {
+  EvaluationContext,
+  StatusFunctions,
+  UNKNOWN,
+  evaluateExpression,
+  isTruthy,
+  parseExpression,
+  stripExpressionWrapper,
+  usesStatusFunction,
+} from "./expressions";
+
+export type ConditionOutcome = "runs" | "skipped" | "unknown";
+
+export type ConditionSimulation = {
+  event: string;
+  jobs: Record<string, ConditionOutcome>;
+  steps: Record<string, ConditionOutcome[]>;
+};
+
+/** `if:` as displayed in labels, without the `${{ }}` wrapper. */
+export function formatCondition(condition: string | boolean | undefined): string {
+  if (condition === undefined || condition === null) return "";
+  return stripExpressionWrapper(String(condition));
+}
+
+const GLOB_CHARS = /[*?[\]!+]/;
+
+function firstLiteral(patterns: string[] | undefined): string | undefined {
+  return Array.isArray(patterns) ? patterns.find(p => typeof p === "string" && !GLOB_CHARS.test(p)) : undefined;
+}
+
+/**
+ * Builds the `github` context for a simulated trigger. Only what the trigger
+ * configuration pins down is filled in; everything else stays unknown.
+ */
+export function eventContext(event: string, config?: TriggerConfig): Record<string, unknown> {
+  const github: Record<string, unknown> = { event_name: event, event: {} };
+  const filter = config && !Array.isArray(config) ? config : undefined;
+  const branch = firstLiteral(filter?.branches);
+  const tag = firstLiteral(filter?.tags);
+  const action = filter?.types?.[0];
+  if (action) (github.event as Record<string, unknown>).action = action;
+
+  if (event === "pull_request" || event === "pull_request_target") {
+    if (branch) github.base_ref = branch;
+  } else if (branch) {
+    github.ref = `refs/heads/${branch}`;
+    github.ref_name = branch;
+    github.ref_type = "branch";
+  } else if (tag) {
+    github.ref = `refs/tags/${tag}`;
+    github.ref_name = tag;
+    github.ref_type = "tag";
+  }
+  return { github };
+}
+
+/** Whether a job or step with `condition` runs, given its contexts and the status check results. */
+export function conditionOutcome(condition: string | boolean | undefined, context: EvaluationContext): ConditionOutcome {
+  if (condition === false) return "skipped";
+  // No condition, and a YAML `true`, still get the implicit `success()`.
+  if (condition === undefined || condition === null || condition === "" || condition === true) {
+    const success = context.status.success;
+    return success === UNKNOWN ? "unknown" : success ? "runs" : "skipped";
+  }
+  try {
+    let expression = parseExpression(condition);
+    // Without a status check function, GitHub applies an implicit `success() &&`.
+    if (!usesStatusFunction(expression)) {
+      expression = { type: "binary", operator: "&&", left: { type: "call", name: "success", args: [] }, right: expression };
+    }
+    const truthy = isTruthy(evaluateExpression(expression, context));
+    return truthy === UNKNOWN ? "unknown" : truthy ? "runs" : "skipped";
+  } catch {
+    return "unknown";
+  }
+}
+
+function needsOf(job: Job): string[] {
+  if (!job.needs) return [];
+  return Array.isArray(job.needs) ? job.needs : [job.needs];
+}
+
+/**
+ * Evaluates every job and step `if:` for the given event, assuming that all
+ * jobs which run succeed. A job whose dependency is skipped is skipped too,
+ * unless its condition uses a status check function such as `always()`.
+ */
+export function simulateConditions(workflow: Workflow, event: string, config?: TriggerConfig): ConditionSimulation {
+  const contexts = eventContext(event, config);
+  const simulation: ConditionSimulation = { event, jobs: {}, steps: {} };
+  const jobs = workflow.jobs ?? {};
+
+  function resolveJob(jobId: string, visiting: Set<string>): ConditionOutcome {
+    if (simulation.jobs[jobId]) return simulation.jobs[jobId];
+    const job: Job = jobs[jobId] && typeof jobs[jobId] === "object" ? jobs[jobId] : {};
+    if (visiting.has(jobId)) return "unknown";
+    visiting.add(jobId);
+    const upstream = needsOf(job).map(need => (need in jobs ? resolveJob(need, visiting) : "unknown"));
+    visiting.delete(jobId);
+
+    // `needs.<job>.result` is known for dependencies whose outcome is decided.
+    const needs: Record<string, unknown> = {};
+    needsOf(job).forEach((need, i) => {
+      if (upstream[i] !== "unknown") needs[need] = { result: upstream[i] === "runs" ? "success" : "skipped" };
+    });
+    const jobContexts = { ...contexts, needs };
+
+    const status: StatusFunctions = {
+      success: upstream.includes("skipped") ? false : upstream.includes("unknown") ? UNKNOWN : true,
+      failure: false,
+      cancelled: false,
+    };
+    const result = conditionOutcome(job.if, { contexts: jobContexts, status });
+    simulation.jobs[jobId] = result;
+
+    const stepStatus: StatusFunctions = { success: true, failure: false, cancelled: false };
+    simulation.steps[jobId] = (Array.isArray(job.steps) ? job.steps : []).map((step: Step) =>
+      result === "skipped" ? "skipped" : conditionOutcome(step && step.if, { contexts: jobContexts, status: stepStatus })
+    );
+    return result;
+  }
+
+  Object.keys(jobs).forEach(jobId => resolveJob(jobId, new Set()));
+  return simulation;
+}
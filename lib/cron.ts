@@ -0,0 +1,357 @@
+import { Workflow, normalizeTriggers } from "./workflow";
+import type { MappedWorkflow } from "./repoMap";
+
+// ------ Cron schedules ------
+// `on.schedule` uses POSIX cron: five fields, always in UTC, with no seconds
+// field, no `?`, `L`, `W` or `#`, and no `@daily`-style macros.
+
+export type CronSchedule = {
+  expression: string;
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  daysOfWeek: number[];
+  // Whether the day fields are restricted; when both are, a day matching either runs.
+  dayOfMonthSet: boolean;
+  dayOfWeekSet: boolean;
+};
+
+export type ParsedCron = {
+  schedule: CronSchedule | null;
+  errors: string[];
+  warnings: string[];
+  // Advice that doesn't make the schedule wrong.
+  notes: string[];
+};
+
+// GitHub doesn't run scheduled workflows more often than this.
+export const MIN_SCHEDULE_INTERVAL = 5;
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+const MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+const DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+type FieldSpec = { label: string; min: number; max: number; names?: string[]; nameOffset?: number };
+
+const FIELDS: FieldSpec[] = [
+  { label: "minute", min: 0, max: 59 },
+  { label: "hour", min: 0, max: 23 },
+  { label: "day of month", min: 1, max: 31 },
+  { label: "month", min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { label: "day of week", min: 0, max: 6, names: DAY_NAMES, nameOffset: 0 },
+];
+
+function parseValue(text: string, spec: FieldSpec): number | string {
+  const name = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+  if (name >= 0) return name + (spec.nameOffset ?? 0);
+  if (!/^\d+$/.test(text)) return `\`${text}\` is not a valid ${spec.label}.`;
+  const value = Number(text);
+  if (value < spec.min || value > spec.max) return `\`${text}\` is out of range for the ${spec.label} field (${spec.min}-${spec.max}).`;
+  return value;
+}
+
+// One field: `*`, `5`, `1-5`, `*/15`, `10-40/10`, `MON-FRI`, or a comma list of those.
+function parseField(text: string, spec: FieldSpec): number[] | string {
+  const values = new Set<number>();
+  for (const part of text.split(",")) {
+    const match = part.match(/^([^/]+)(?:\/(.+))?$/);
+    if (!match) return `\`${part}\` is not a valid ${spec.label}.`;
+    const [, range, stepText] = match;
+    const step = stepText === undefined ? 1 : /^\d+$/.test(stepText) ? Number(stepText) : 0;
+    if (step < 1) return `Step \`${stepText}\` in the ${spec.label} field must be a positive number.`;
+
+    let start = spec.min;
+    let end = spec.max;
+    if (range !== "*") {
+      const [first, last, ...rest] = range.split("-");
+      if (rest.length > 0) return `\`${range}\` is not a valid ${spec.label} range.`;
+      const from = parseValue(first, spec);
+      if (typeof from === "string") return from;
+      const to = last === undefined ? (stepText === undefined ? from : spec.max) : parseValue(last, spec);
+      if (typeof to === "string") return to;
+      if (to < from) return `Range \`${range}\` in the ${spec.label} field runs backwards.`;
+      start = from;
+      end = to;
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+// Shortest gap, in minutes, between two runs on the same day.
+function shortestInterval(schedule: CronSchedule): number {
+  const { minutes, hours } = schedule;
+  let gap = Infinity;
+  for (let i = 1; i < minutes.length; i++) gap = Math.min(gap, minutes[i] - minutes[i - 1]);
+  const consecutiveHours = hours.some((hour, i) => hours[i + 1] === hour + 1);
+  if (consecutiveHours) gap = Math.min(gap, 60 - minutes[minutes.length - 1] + minutes[0]);
+  return gap;
+}
+
+/** Parses a cron expression and checks it against the syntax GitHub accepts. */
+export function parseCron(expression: string): ParsedCron {
+  const text = expression.trim();
+  if (text.startsWith("@")) {
+    return { schedule: null, errors: [`Macros like \`${text}\` aren't supported; write the five cron fields instead.`], warnings: [], notes: [] };
+  }
+  const fields = text.split(/\s+/).filter(Boolean);
+  if (fields.length !== 5) {
+    const hint = fields.length === 6 ? " Seconds and years aren't supported." : "";
+    return {
+      schedule: null,
+      errors: [`Expected 5 fields (minute hour day-of-month month day-of-week), found ${fields.length}.${hint}`],
+      warnings: [],
+      notes: [],
+    };
+  }
+
+  const errors: string[] = [];
+  const values = fields.map((field, i) => {
+    // `L`/`W` as in `5L` or `15W`, not the letters of `JUL` or `WED`.
+    if (/[?#]/.test(field) || /(^|[,-])\d*[LW]+($|[,/])/i.test(field)) {
+      errors.push(`\`${field}\`: \`?\`, \`L\`, \`W\` and \`#\` aren't supported in GitHub cron expressions.`);
+      return [];
+    }
+    const parsed = parseField(field, FIELDS[i]);
+    if (typeof parsed === "string") {
+      errors.push(parsed);
+      return [];
+    }
+    return parsed;
+  });
+  if (errors.length > 0) return { schedule: null, errors, warnings: [], notes: [] };
+
+  const schedule: CronSchedule = {
+    expression: text,
+    minutes: values[0],
+    hours: values[1],
+    daysOfMonth: values[2],
+    months: values[3],
+    daysOfWeek: values[4],
+    dayOfMonthSet: fields[2] !== "*",
+    dayOfWeekSet: fields[4] !== "*",
+  };
+
+  const warnings: string[] = [];
+  const notes: string[] = [];
+  const interval = shortestInterval(schedule);
+  if (interval < MIN_SCHEDULE_INTERVAL) {
+    warnings.push(`Runs every ${interval === 1 ? "minute" : `${interval} minutes`}, but GitHub runs scheduled workflows at most every ${MIN_SCHEDULE_INTERVAL} minutes.`);
+  }
+  if (schedule.dayOfMonthSet && !schedule.dayOfWeekSet
+    && !schedule.months.some(month => schedule.daysOfMonth.some(day => day <= DAYS_IN_MONTH[month - 1]))) {
+    warnings.push("None of the selected months have the selected days, so this schedule never runs.");
+  }
+  if (schedule.minutes.length === 1 && schedule.minutes[0] === 0) {
+    notes.push("Runs on the hour, when GitHub's scheduler is busiest and runs are most often delayed or dropped; consider another minute.");
+  }
+  return { schedule, errors, warnings, notes };
+}
+
+// ------ Plain English ------
+
+function joinWords(words: string[]): string {
+  return words.length <= 1 ? words.join("") : `${words.slice(0, -1).join(", ")} and ${words[words.length - 1]}`;
+}
+
+function ordinal(value: number): string {
+  const suffix = value % 100 >= 11 && value % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][value % 10] ?? "th";
+  return `${value}${suffix}`;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+// `[0, 15, 30, 45]` within 0-59 → 15: values covering the whole field at a fixed step.
+function uniformStep(values: number[], min: number, max: number): number | null {
+  if (values.length < 2) return null;
+  const step = values[1] - values[0];
+  const even = values.every((value, i) => i === 0 || value - values[i - 1] === step);
+  return even && values[0] - min < step && max - values[values.length - 1] < step ? step : null;
+}
+
+// `[1, 2, 3, 4, 5]` → [1, 5].
+function contiguous(values: number[]): [number, number] | null {
+  const even = values.length > 2 && values.every((value, i) => i === 0 || value - values[i - 1] === 1);
+  return even ? [values[0], values[values.length - 1]] : null;
+}
+
+function describeTime(schedule: CronSchedule): string {
+  const { minutes, hours } = schedule;
+  const everyHour = hours.length === 24;
+  if (minutes.length * hours.length <= 4) {
+    return `at ${joinWords(hours.flatMap(hour => minutes.map(minute => `${pad(hour)}:${pad(minute)}`)))}`;
+  }
+
+  const minuteStep = uniformStep(minutes, 0, 59);
+  const minutePart = minutes.length === 60 ? "every minute"
+    : minuteStep ? `every ${minuteStep} minutes${minutes[0] > 0 ? ` from minute ${minutes[0]}` : ""}`
+    : `at minute ${joinWords(minutes.map(String))}`;
+  if (everyHour) return minutes.length === 1 ? `at minute ${minutes[0]} of every hour` : minutePart;
+
+  const hourStep = uniformStep(hours, 0, 23);
+  const hourRange = contiguous(hours);
+  const hourPart = minutes.length === 1 && hourStep ? `every ${hourStep} hours${hours[0] > 0 ? ` from ${pad(hours[0])}:00` : ""}`
+    : hourRange ? `between ${pad(hourRange[0])}:00 and ${pad(hourRange[1])}:59`
+    : `during hours ${joinWords(hours.map(pad))}`;
+  return minutes.length === 1 && hourStep ? `at minute ${minutes[0]}, ${hourPart}` : `${minutePart}, ${hourPart}`;
+}
+
+function describeDays(schedule: CronSchedule): string {
+  const { daysOfMonth, daysOfWeek, months } = schedule;
+  const weekdays = contiguous(daysOfWeek);
+  const weekPart = weekdays ? `${DAYS[weekdays[0]]} through ${DAYS[weekdays[1]]}` : joinWords(daysOfWeek.map(day => DAYS[day]));
+  const monthDayStep = uniformStep(daysOfMonth, 1, 31);
+  const monthDayPart = monthDayStep ? `every ${ordinal(monthDayStep)} day of the month`
+    : `day${daysOfMonth.length > 1 ? "s" : ""} ${joinWords(daysOfMonth.map(String))} of the month`;
+
+  let days = "every day";
+  if (schedule.dayOfMonthSet && schedule.dayOfWeekSet) days = `on ${monthDayPart} and on every ${weekPart}`;
+  else if (schedule.dayOfMonthSet) days = `on ${monthDayPart}`;
+  else if (schedule.dayOfWeekSet) days = `on ${weekPart}`;
+
+  if (months.length === 12) return days;
+  const monthRange = contiguous(months);
+  const monthPart = monthRange ? `from ${MONTHS[monthRange[0] - 1]} to ${MONTHS[monthRange[1] - 1]}`
+    : `in ${joinWords(months.map(month => MONTHS[month - 1]))}`;
+  return `${days}, ${monthPart}`;
+}
+
+/** `0 2 * * 1-5` → "At 02:00, on Monday through Friday (UTC)". */
+export function explainCron(schedule: CronSchedule): string {
+  const time = describeTime(schedule);
+  return `${time.charAt(0).toUpperCase()}${time.slice(1)}, ${describeDays(schedule)} (UTC)`;
+}
+
+// ------ Upcoming runs ------
+
+// Leap-day schedules can go eight years without a run (2096 → 2104).
+const MAX_SCAN_DAYS = 366 * 8;
+
+function runsOnDay(schedule: CronSchedule, day: Date): boolean {
+  if (!schedule.months.includes(day.getUTCMonth() + 1)) return false;
+  const dayOfMonth = schedule.daysOfMonth.includes(day.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.includes(day.getUTCDay());
+  if (schedule.dayOfMonthSet && schedule.dayOfWeekSet) return dayOfMonth || dayOfWeek;
+  return dayOfMonth && dayOfWeek;
+}
+
+function* occurrences(schedule: CronSchedule, after: Date): Generator<Date> {
+  const start = Date.UTC(after.getUTCFullYear(), after.getUTCMonth(), after.getUTCDate());
+  for (let i = 0; i < MAX_SCAN_DAYS; i++) {
+    const day = new Date(start + i * 86_400_000);
+    if (!runsOnDay(schedule, day)) continue;
+    for (const hour of schedule.hours) {
+      for (const minute of schedule.minutes) {
+        const time = new Date(day.getTime() + (hour * 60 + minute) * 60_000);
+        if (time > after) yield time;
+      }
+    }
+  }
+}
+
+/** The next `count` times `schedule` fires after `after`. */
+export function nextRuns(schedule: CronSchedule, after: Date, count: number): Date[] {
+  const runs: Date[] = [];
+  for (const time of occurrences(schedule, after)) {
+    if (runs.length >= count) break;
+    runs.push(time);
+  }
+  return runs;
+}
+
+/** Every time `schedule` fires after `from` and before `to`. */
+export function runsBetween(schedule: CronSchedule, from: Date, to: Date): Date[] {
+  const runs: Date[] = [];
+  for (const time of occurrences(schedule, from)) {
+    if (time >= to) break;
+    runs.push(time);
+  }
+  return runs;
+}
+
+/** "Mon 2026-10-19 02:00 UTC". */
+export function formatUtc(time: Date): string {
+  const date = time.toISOString().slice(0, 10);
+  return `${DAYS[time.getUTCDay()].slice(0, 3)} ${date} ${pad(time.getUTCHours())}:${pad(time.getUTCMinutes())} UTC`;
+}
+
+/** The `cron` strings under `on.schedule`. */
+export function workflowSchedules(workflow: Workflow): string[] {
+  const schedule = normalizeTriggers(workflow.on).schedule;
+  if (!Array.isArray(schedule)) return [];
+  return schedule.map(entry => entry && entry.cron).filter((cron): cron is string => typeof cron === "string");
+}
+
+// ------ Repository schedule timeline ------
+
+export type ScheduledWorkflow = {
+  workflowId: string;
+  name: string;
+  path: string;
+  cron: string;
+  parsed: ParsedCron;
+};
+
+export type TimelineSlot = {
+  // Day index from the timeline start, and UTC hour.
+  day: number;
+  hour: number;
+  runs: { workflowId: string; cron: string; time: Date }[];
+  // Distinct workflows firing in this hour.
+  workflowIds: string[];
+};
+
+export type ScheduleTimeline = {
+  // Midnight UTC of the first day.
+  start: Date;
+  days: number;
+  schedules: ScheduledWorkflow[];
+  // Hours with at least one run, in order.
+  slots: TimelineSlot[];
+};
+
+/**
+ * When every scheduled workflow in a repository fires over `days` days from
+ * the start of `from`'s UTC day, bucketed by hour so that busy slots, e.g.
+ * several nightly jobs at 00:00, stand out.
+ */
+export function buildScheduleTimeline(workflows: MappedWorkflow[], from: Date, days = 7): ScheduleTimeline {
+  const start = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+  const end = new Date(start.getTime() + days * 86_400_000);
+  const schedules: ScheduledWorkflow[] = workflows.flatMap(mapped =>
+    mapped.workflow
+      ? workflowSchedules(mapped.workflow).map(cron => ({
+          workflowId: mapped.id,
+          name: mapped.name,
+          path: mapped.path,
+          cron,
+          parsed: parseCron(cron),
+        }))
+      : []
+  );
+
+  const slots = new Map<number, TimelineSlot>();
+  for (const scheduled of schedules) {
+    if (!scheduled.parsed.schedule) continue;
+    // Start just before midnight so a run at 00:00 on the first day counts.
+    for (const time of runsBetween(scheduled.parsed.schedule, new Date(start.getTime() - 1), end)) {
+      const index = Math.floor((time.getTime() - start.getTime()) / 3_600_000);
+      const slot = slots.get(index) ?? { day: Math.floor(index / 24), hour: index % 24, runs: [], workflowIds: [] };
+      slot.runs.push({ workflowId: scheduled.workflowId, cron: scheduled.cron, time });
+      if (!slot.workflowIds.includes(scheduled.workflowId)) slot.workflowIds.push(scheduled.workflowId);
+      slots.set(index, slot);
+    }
+  }
+
+  return {
+    start,
+    days,
+    schedules,
+    slots: Array.from(slots.keys()).sort((a, b) => a - b).map(index => slots.get(index)!),
+  };
+}
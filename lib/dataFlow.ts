@@ -0,0 +1,231 @@
+import { Job, SourcePosition, Step, Workflow, YamlPath, isMapping, locateYamlPath } from "./workflow";
+import { EXPRESSION_REGEX, Expression, ExpressionError, parseExpression } from "./expressions";
+
+// ------ Data flow ------
+// Where jobs and steps read `needs.*.outputs`, `steps.*.outputs`, `env`,
+// `secrets`, `vars` and `inputs`, found by parsing every expression in the
+// workflow rather than pattern-matching the text.
+
+export type ReferenceContext = "needs" | "steps" | "secrets" | "vars" | "env" | "inputs";
+
+const CONTEXTS: ReferenceContext[] = ["needs", "steps", "secrets", "vars", "env", "inputs"];
+
+export type DataReference = SourcePosition & {
+  context: ReferenceContext;
+  // `needs.build.outputs.version` → ["build", "outputs", "version"].
+  segments: string[];
+  // Path of the value the expression appears in.
+  path: YamlPath;
+  // Unset for workflow-level values such as `run-name` or top-level `env`.
+  jobId?: string;
+  stepIndex?: number;
+};
+
+export type OutputFlow = {
+  from: string;
+  to: string;
+  outputs: string[];
+};
+
+export type JobDataUsage = {
+  jobId: string;
+  secrets: string[];
+  vars: string[];
+  env: string[];
+  inputs: string[];
+  // `secrets: inherit` passes every secret to the called workflow.
+  inheritsSecrets: boolean;
+};
+
+export type DataFlowWarning = SourcePosition & {
+  message: string;
+  path: YamlPath;
+  jobId?: string;
+};
+
+export type DataFlow = {
+  references: DataReference[];
+  // `needs.<from>.outputs.*` read by job `to`.
+  outputFlows: OutputFlow[];
+  usage: JobDataUsage[];
+  warnings: DataFlowWarning[];
+};
+
+export function referenceText(reference: DataReference): string {
+  return [reference.context, ...reference.segments].join(".");
+}
+
+// `needs.build.outputs['version']` → ["needs", "build", "outputs", "version"].
+function accessChain(expression: Expression): string[] | null {
+  if (expression.type === "context") return [expression.name];
+  if (expression.type === "property") {
+    const base = accessChain(expression.object);
+    return base && [...base, expression.name];
+  }
+  if (expression.type === "index" && expression.index.type === "literal" && typeof expression.index.value === "string") {
+    const base = accessChain(expression.object);
+    return base && [...base, expression.index.value];
+  }
+  return null;
+}
+
+function collectChains(expression: Expression, chains: string[][]) {
+  const chain = accessChain(expression);
+  if (chain) {
+    chains.push(chain);
+    return;
+  }
+  switch (expression.type) {
+    case "property":
+    case "filter":
+      collectChains(expression.object, chains);
+      break;
+    case "index":
+      collectChains(expression.object, chains);
+      collectChains(expression.index, chains);
+      break;
+    case "call":
+      expression.args.forEach(arg => collectChains(arg, chains));
+      break;
+    case "unary":
+      collectChains(expression.operand, chains);
+      break;
+    case "binary":
+      collectChains(expression.left, chains);
+      collectChains(expression.right, chains);
+      break;
+  }
+}
+
+// Context accesses in one value; `if:` is an expression even without `${{ }}`.
+function chainsIn(value: string, isCondition: boolean): string[][] {
+  const sources = Array.from(value.matchAll(EXPRESSION_REGEX)).map(match => match[1]);
+  if (sources.length === 0 && isCondition) sources.push(value);
+  const chains: string[][] = [];
+  for (const source of sources) {
+    try {
+      collectChains(parseExpression(source), chains);
+    } catch (error) {
+      if (!(error instanceof ExpressionError)) throw error;
+    }
+  }
+  return chains;
+}
+
+function sorted(values: Iterable<string>): string[] {
+  return Array.from(new Set(values)).sort();
+}
+
+// Whether a `run:` script writes `name` to $GITHUB_OUTPUT (`name=value` or a `name<<EOF` block).
+function writesOutput(script: string, name: string): boolean {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[\\s"'])${escaped}\\s*(=|<<)`, "m").test(script);
+}
+
+/**
+ * Finds every context reference in a workflow, which job outputs flow
+ * between jobs, what each job consumes, and references to outputs or step
+ * ids that are never defined.
+ */
+export function analyzeDataFlow(workflow: Workflow, source: string): DataFlow {
+  const references: DataReference[] = [];
+  const warnings: DataFlowWarning[] = [];
+  const jobs: Record<string, Job> = isMapping(workflow.jobs) ? workflow.jobs : {};
+
+  function scan(value: unknown, path: YamlPath, jobId?: string, stepIndex?: number) {
+    if (typeof value === "string") {
+      const isCondition = path[path.length - 1] === "if";
+      for (const [context, ...segments] of chainsIn(value, isCondition)) {
+        const name = context.toLowerCase() as ReferenceContext;
+        if (!CONTEXTS.includes(name) || segments.length === 0) continue;
+        references.push({ context: name, segments, path, jobId, stepIndex, ...locateYamlPath(source, path) });
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item, i) => scan(item, [...path, i], jobId, stepIndex));
+    } else if (isMapping(value)) {
+      for (const [key, item] of Object.entries(value)) scan(item, [...path, key], jobId, stepIndex);
+    }
+  }
+
+  for (const [key, value] of Object.entries(workflow)) {
+    if (key !== "jobs" && key !== "on") scan(value, [key]);
+  }
+  for (const [jobId, job] of Object.entries(jobs)) {
+    if (!isMapping(job)) continue;
+    for (const [key, value] of Object.entries(job)) {
+      if (key === "steps" && Array.isArray(value)) {
+        value.forEach((step, i) => scan(step, ["jobs", jobId, "steps", i], jobId, i));
+      } else {
+        scan(value, ["jobs", jobId, key], jobId);
+      }
+    }
+  }
+
+  function warn(reference: DataReference, message: string) {
+    warnings.push({ message, path: reference.path, jobId: reference.jobId, line: reference.line, column: reference.column });
+  }
+
+  const flows = new Map<string, OutputFlow>();
+  for (const reference of references) {
+    const job = reference.jobId ? jobs[reference.jobId] : undefined;
+    const [name, property, output] = reference.segments;
+
+    if (reference.context === "needs" && job) {
+      const needs = job.needs === undefined ? [] : Array.isArray(job.needs) ? job.needs : [job.needs];
+      const upstream = jobs[name];
+      if (!isMapping(upstream)) {
+        warn(reference, `\`${referenceText(reference)}\` refers to job \`${name}\`, which doesn't exist.`);
+        continue;
+      }
+      if (!needs.includes(name)) {
+        warn(reference, `Job \`${reference.jobId}\` reads \`${referenceText(reference)}\` but doesn't list \`${name}\` in \`needs\`, so it is always empty.`);
+      }
+      if (property !== "outputs" || !output) continue;
+      // A reusable workflow job's outputs are declared by the called workflow.
+      if (typeof upstream.uses !== "string" && !(isMapping(upstream.outputs) && output in upstream.outputs)) {
+        warn(reference, `Job \`${name}\` has no output \`${output}\`.`);
+      }
+      const key = `${name}\n${reference.jobId}`;
+      const flow = flows.get(key) ?? { from: name, to: reference.jobId!, outputs: [] };
+      if (!flow.outputs.includes(output)) flow.outputs.push(output);
+      flows.set(key, flow);
+    }
+
+    if (reference.context === "steps" && job) {
+      const steps: Step[] = Array.isArray(job.steps) ? job.steps : [];
+      const index = steps.findIndex(step => isMapping(step) && step.id === name);
+      if (index === -1) {
+        warn(reference, `Job \`${reference.jobId}\` has no step with id \`${name}\`.`);
+        continue;
+      }
+      if (reference.stepIndex !== undefined && index >= reference.stepIndex) {
+        warn(reference, `Step \`${name}\` runs ${index === reference.stepIndex ? "in" : "after"} this step, so \`${referenceText(reference)}\` is empty here.`);
+      }
+      const step = steps[index];
+      if (property === "outputs" && output && typeof step.run === "string" && !writesOutput(step.run, output)) {
+        warn(reference, `Step \`${name}\` never writes \`${output}\` to \`$GITHUB_OUTPUT\`.`);
+      }
+    }
+  }
+
+  const usage: JobDataUsage[] = Object.entries(jobs).map(([jobId, job]) => {
+    const own = references.filter(reference => reference.jobId === jobId);
+    const names = (context: ReferenceContext) =>
+      sorted(own.filter(reference => reference.context === context).map(reference => reference.segments[0]));
+    return {
+      jobId,
+      secrets: names("secrets"),
+      vars: names("vars"),
+      env: names("env"),
+      inputs: names("inputs"),
+      inheritsSecrets: isMapping(job) && job.secrets === "inherit",
+    };
+  });
+
+  return {
+    references,
+    outputFlows: Array.from(flows.values()),
+    usage,
+    warnings: warnings.sort((a, b) => a.line - b.line || a.column - b.column),
+  };
+}
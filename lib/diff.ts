@@ -0,0 +1,224 @@
+import { Job, Step, Workflow, formatRunsOn } from "./workflow";
+import { StepDetail, TriggerDetail, extractJobSteps, extractTriggers } from "./extract";
+import { mermaidClass, mermaidEdge, mermaidNode, truncate } from "./mermaid";
+
+// ------ Workflow diff ------
+
+export type ChangeStatus = "added" | "removed" | "changed" | "unchanged";
+
+export type StepDiff = {
+  status: ChangeStatus;
+  before?: StepDetail;
+  after?: StepDetail;
+  // Step keys that differ, e.g. ["run", "with"].
+  changes: string[];
+};
+
+export type JobDiff = {
+  id: string;
+  status: ChangeStatus;
+  // Job keys that differ; "steps" when any step was added, removed or changed.
+  changes: string[];
+  title: string;
+  runner: string;
+  steps: StepDiff[];
+};
+
+export type EdgeDiff = {
+  from: string;
+  to: string;
+  status: Exclude<ChangeStatus, "changed">;
+};
+
+export type TriggerDiff = {
+  event: string;
+  status: ChangeStatus;
+  before?: TriggerDetail;
+  after?: TriggerDetail;
+};
+
+export type WorkflowDiff = {
+  jobs: JobDiff[];
+  edges: EdgeDiff[];
+  triggers: TriggerDiff[];
+};
+
+const STEP_KEYS: (keyof Step)[] = ["id", "name", "uses", "run", "if", "with", "env", "shell", "working-directory",
+  "continue-on-error", "timeout-minutes"];
+
+// JSON with sorted keys, so reordering keys in the YAML isn't a change.
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record).sort().map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "undefined";
+}
+
+function changedKeys(before: Record<string, unknown>, after: Record<string, unknown>, keys: string[]): string[] {
+  return keys.filter(key => stableStringify(before[key]) !== stableStringify(after[key]));
+}
+
+function asObject<T>(value: T | null | undefined): T {
+  return (value && typeof value === "object" ? value : {}) as T;
+}
+
+function needsOf(job: Job): string[] {
+  if (!job.needs) return [];
+  return (Array.isArray(job.needs) ? job.needs : [job.needs]).map(String);
+}
+
+// How a step is recognised across versions: its id, else its name, else what it runs.
+function stepKey(step: Step): string {
+  if (step.id) return `id:${step.id}`;
+  if (step.name) return `name:${step.name}`;
+  if (step.uses) return `uses:${step.uses}`;
+  return `run:${String(step.run ?? "").trim().split("\n")[0]}`;
+}
+
+/**
+ * Lines up two step lists by longest common subsequence of step keys. Within
+ * each gap between matches, removed and added steps are paired up as changed,
+ * so editing an unnamed `run:` reads as one change rather than two.
+ */
+function diffSteps(before: Step[], after: Step[], beforeDetails: StepDetail[], afterDetails: StepDetail[]): StepDiff[] {
+  const a = before.map(stepKey);
+  const b = after.map(stepKey);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: StepDiff[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+  const compare = (i: number, j: number): StepDiff => {
+    const changes = changedKeys(before[i] as Record<string, unknown>, after[j] as Record<string, unknown>, STEP_KEYS);
+    return { status: changes.length > 0 ? "changed" : "unchanged", before: beforeDetails[i], after: afterDetails[j], changes };
+  };
+  const flushGap = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) rows.push(compare(removed[k], added[k]));
+    removed.slice(paired).forEach(i => rows.push({ status: "removed", before: beforeDetails[i], changes: [] }));
+    added.slice(paired).forEach(j => rows.push({ status: "added", after: afterDetails[j], changes: [] }));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flushGap();
+      rows.push(compare(i++, j++));
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(i++);
+    } else {
+      added.push(j++);
+    }
+  }
+  flushGap();
+  return rows;
+}
+
+function statusOf(before: unknown, after: unknown, changed: boolean): ChangeStatus {
+  if (before === undefined) return "added";
+  if (after === undefined) return "removed";
+  return changed ? "changed" : "unchanged";
+}
+
+/** Structural differences between two versions of a workflow. */
+export function diffWorkflows(before: Workflow, after: Workflow): WorkflowDiff {
+  const beforeJobs = asObject(before.jobs);
+  const afterJobs = asObject(after.jobs);
+  const beforeSteps = new Map(extractJobSteps(before).map(job => [job.jobName, job.steps]));
+  const afterSteps = new Map(extractJobSteps(after).map(job => [job.jobName, job.steps]));
+  const jobIds = Array.from(new Set([...Object.keys(afterJobs), ...Object.keys(beforeJobs)]));
+
+  const jobs: JobDiff[] = jobIds.map(id => {
+    const oldJob = beforeJobs[id] === undefined ? undefined : asObject(beforeJobs[id]);
+    const newJob = afterJobs[id] === undefined ? undefined : asObject(afterJobs[id]);
+    const current = newJob ?? oldJob!;
+    const oldStepList = Array.isArray(oldJob?.steps) ? oldJob!.steps.map(s => asObject(s)) : [];
+    const newStepList = Array.isArray(newJob?.steps) ? newJob!.steps.map(s => asObject(s)) : [];
+    const steps = diffSteps(oldStepList, newStepList, beforeSteps.get(id) ?? [], afterSteps.get(id) ?? []);
+
+    let changes: string[] = [];
+    if (oldJob && newJob) {
+      const keys = Array.from(new Set([...Object.keys(oldJob), ...Object.keys(newJob)])).filter(key => key !== "steps");
+      changes = changedKeys(oldJob as Record<string, unknown>, newJob as Record<string, unknown>, keys);
+      if (steps.some(step => step.status !== "unchanged")) changes.push("steps");
+    }
+    return {
+      id,
+      status: statusOf(oldJob, newJob, changes.length > 0),
+      changes,
+      title: current.name || id,
+      runner: current.uses ? `uses: ${current.uses}` : formatRunsOn(current["runs-on"]),
+      steps,
+    };
+  });
+
+  const edgeKey = (from: string, to: string) => `${from}\u0000${to}`;
+  const edgesOf = (jobsById: Record<string, Job>) =>
+    new Set(Object.entries(jobsById).flatMap(([id, job]) => needsOf(asObject(job)).map(need => edgeKey(need, id))));
+  const oldEdges = edgesOf(beforeJobs);
+  const newEdges = edgesOf(afterJobs);
+  const edges: EdgeDiff[] = Array.from(new Set([...Array.from(newEdges), ...Array.from(oldEdges)])).map(key => {
+    const [from, to] = key.split("\u0000");
+    return { from, to, status: !oldEdges.has(key) ? "added" : !newEdges.has(key) ? "removed" : "unchanged" };
+  });
+
+  const oldTriggers = new Map(extractTriggers(before).map(t => [t.event, t]));
+  const newTriggers = new Map(extractTriggers(after).map(t => [t.event, t]));
+  const events = Array.from(new Set([...Array.from(newTriggers.keys()), ...Array.from(oldTriggers.keys())]));
+  const triggers: TriggerDiff[] = events.map(event => {
+    const oldTrigger = oldTriggers.get(event);
+    const newTrigger = newTriggers.get(event);
+    const changed = stableStringify(oldTrigger) !== stableStringify(newTrigger);
+    return { event, status: statusOf(oldTrigger, newTrigger, changed), before: oldTrigger, after: newTrigger };
+  });
+
+  return { jobs, edges, triggers };
+}
+
+/** True when the two versions are structurally identical. */
+export function isEmptyDiff(diff: WorkflowDiff): boolean {
+  return [...diff.jobs, ...diff.edges, ...diff.triggers].every(item => item.status === "unchanged");
+}
+
+const EDGE_STYLES: Record<EdgeDiff["status"], string | null> = {
+  added: "stroke:#1ca772,stroke-width:2px",
+  removed: "stroke:#c00,stroke-width:2px,stroke-dasharray: 5 5",
+  unchanged: null,
+};
+
+/** One graph of both versions' jobs, coloured by what changed. */
+export function generateDiffMermaid(diff: WorkflowDiff): string {
+  let graph = "graph TD\n";
+  for (const job of diff.jobs) {
+    const status = job.status === "changed"
+      ? `changed: ${truncate(job.changes.join(", "), 40)}`
+      : job.status === "unchanged" ? "" : job.status;
+    graph += `  ${mermaidNode(job.id, [job.title, job.runner, status])}\n`;
+  }
+  const linkStyles: string[] = [];
+  diff.edges.forEach((edge, i) => {
+    graph += `  ${mermaidEdge(edge.from, edge.to)}\n`;
+    const style = EDGE_STYLES[edge.status];
+    if (style) linkStyles.push(`  linkStyle ${i} ${style}\n`);
+  });
+  graph += linkStyles.join("");
+  graph += `  classDef added fill:#e6f7ee,stroke:#1ca772,stroke-width:2px\n`;
+  graph += `  classDef removed fill:#fdecec,stroke:#c00,stroke-dasharray: 5 5\n`;
+  graph += `  classDef changed fill:#fff8e1,stroke:#e0c131,stroke-width:2px\n`;
+  (["added", "removed", "changed"] as const).forEach(status => {
+    const ids = diff.jobs.filter(job => job.status === status).map(job => job.id);
+    if (ids.length > 0) graph += `  ${mermaidClass(ids, status)}\n`;
+  });
+  return graph;
+}
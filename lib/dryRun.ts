@@ -0,0 +1,232 @@
+import { Job, Workflow, isMapping } from "./workflow";
+import { StatusFunctions, UNKNOWN, parseExpression, usesStatusFunction } from "./expressions";
+import { conditionOutcome, formatCondition } from "./conditions";
+import { jobNeeds, upstreamJobs } from "./jobGraph";
+import { expandMatrix } from "./matrix";
+
+// ------ Dry run ------
+// How GitHub schedules a run: a job starts once everything it `needs` has
+// finished, so jobs run in waves. A failed, skipped or cancelled job skips
+// the jobs after it unless their `if:` uses a status check function
+// (`always()`, `failure()`, `cancelled()`). Failures and cancellations are
+// injected per job; everything else succeeds.
+
+export type JobResult = "success" | "failure" | "cancelled" | "skipped";
+
+/** A job forced to fail, or the run cancelled while the job runs. */
+export type InjectedOutcome = "failure" | "cancelled";
+
+export type DryRunJob = {
+  jobId: string;
+  // Index into `waves`; unset for jobs stuck behind a `needs` cycle.
+  wave?: number;
+  // "unknown" when the job's `if:` depends on context a dry run doesn't have.
+  result: JobResult | "unknown";
+  // `needs.<job>.result` as dependents see it: a failure under `continue-on-error` counts as success.
+  conclusion: JobResult | "unknown";
+  reason: string;
+  // Matrix legs after an injected failure.
+  legs?: { total: number; failed: number; cancelled: number; finished: number };
+};
+
+export type DryRun = {
+  waves: string[][];
+  jobs: Record<string, DryRunJob>;
+  result: "success" | "failure" | "cancelled";
+};
+
+/** A job's state on the diagram while stepping through the waves. */
+export type DryRunState = JobResult | "unknown" | "queued" | "running";
+
+export const DRY_RUN_COLORS: Record<DryRunState, string> = {
+  queued: "#e9ecef",
+  running: "#a5d8ff",
+  success: "#b2f2bb",
+  failure: "#ffa8a8",
+  cancelled: "#ffd8a8",
+  skipped: "#f1f3f5",
+  unknown: "#fff3bf",
+};
+
+const RESULT_VERBS: Record<JobResult | "unknown", string> = {
+  success: "succeeded",
+  failure: "failed",
+  cancelled: "was cancelled",
+  skipped: "was skipped",
+  unknown: "may not run",
+};
+
+function literalFlag(value: unknown): boolean | undefined {
+  if (value === true || value === "true") return true;
+  if (value === false || value === "false") return false;
+  return undefined;
+}
+
+function hasStatusCheck(condition: string | boolean | undefined): boolean {
+  if (typeof condition !== "string" || !condition.trim()) return false;
+  try {
+    return usesStatusFunction(parseExpression(condition));
+  } catch {
+    return false;
+  }
+}
+
+/** Jobs grouped by the wave they start in; jobs behind a `needs` cycle are `blocked`. */
+export function jobWaves(jobs: Record<string, Job>): { waves: string[][]; blocked: string[] } {
+  const waveOf = new Map<string, number>();
+  const blocked = new Set<string>();
+  const visiting = new Set<string>();
+
+  function resolve(jobId: string): number | undefined {
+    if (waveOf.has(jobId)) return waveOf.get(jobId);
+    if (blocked.has(jobId)) return undefined;
+    if (visiting.has(jobId)) {
+      blocked.add(jobId);
+      return undefined;
+    }
+    visiting.add(jobId);
+    const upstream = jobNeeds(jobs[jobId]).filter(need => need in jobs).map(resolve);
+    visiting.delete(jobId);
+    if (upstream.some(wave => wave === undefined)) {
+      blocked.add(jobId);
+      return undefined;
+    }
+    const wave = Math.max(-1, ...(upstream as number[])) + 1;
+    waveOf.set(jobId, wave);
+    return wave;
+  }
+
+  Object.keys(jobs).forEach(resolve);
+  const waves: string[][] = [];
+  waveOf.forEach((wave, jobId) => {
+    if (blocked.has(jobId)) return;
+    (waves[wave] = waves[wave] ?? []).push(jobId);
+  });
+  return { waves: waves.map(wave => wave ?? []), blocked: Array.from(blocked) };
+}
+
+/**
+ * Steps a run through its waves with the `injected` failures and
+ * cancellations. `contexts` (e.g. `github` from a simulated trigger) feed the
+ * jobs' `if:` conditions; without them, conditions on run context are unknown.
+ */
+export function dryRunWorkflow(
+  workflow: Workflow,
+  injected: Record<string, InjectedOutcome> = {},
+  contexts: Record<string, unknown> = {}
+): DryRun {
+  const jobs: Record<string, Job> = isMapping(workflow.jobs) ? workflow.jobs : {};
+  const { waves, blocked } = jobWaves(jobs);
+  const results: Record<string, DryRunJob> = {};
+  let cancelled = false;
+
+  blocked.forEach(jobId => {
+    results[jobId] = { jobId, result: "skipped", conclusion: "skipped", reason: "Waits on a `needs` cycle, so it never starts." };
+  });
+
+  waves.forEach((wave, index) => {
+    const cancelledBefore = cancelled;
+    for (const jobId of wave) {
+      const job: Job = isMapping(jobs[jobId]) ? jobs[jobId] : {};
+      const needs = jobNeeds(job).filter(need => need in jobs);
+      const ancestors = upstreamJobs(jobs, jobId);
+      const conclusions = needs.map(need => results[need].conclusion);
+      const ancestorFailed = ancestors.some(id => results[id]?.conclusion === "failure");
+      const status: StatusFunctions = {
+        success: cancelledBefore || ancestorFailed || conclusions.some(c => c !== "success" && c !== "unknown")
+          ? false
+          : conclusions.includes("unknown") ? UNKNOWN : true,
+        failure: ancestorFailed ? true : ancestors.some(id => results[id]?.conclusion === "unknown") ? UNKNOWN : false,
+        cancelled: cancelledBefore,
+      };
+      // Only decided results are known to `needs.<job>.result`.
+      const needsContext = Object.fromEntries(
+        needs.map(need => [need, results[need].conclusion === "unknown" ? {} : { result: results[need].conclusion }])
+      );
+      const decision = conditionOutcome(job.if, { contexts: { ...contexts, needs: needsContext }, status });
+      const condition = formatCondition(job.if);
+      const blocking = needs.find(need => results[need].conclusion !== "success");
+
+      if (decision === "skipped") {
+        let reason = `\`if: ${condition}\` is false.`;
+        if (!hasStatusCheck(job.if)) {
+          if (cancelledBefore) reason = "The run was cancelled before it started.";
+          else if (blocking) reason = `\`${blocking}\` ${RESULT_VERBS[results[blocking].conclusion]}.`;
+        }
+        results[jobId] = { jobId, wave: index, result: "skipped", conclusion: "skipped", reason };
+        continue;
+      }
+      if (decision === "unknown") {
+        const reason = condition
+          ? `\`if: ${condition}\` depends on context a dry run doesn't have.`
+          : `\`${blocking}\` ${RESULT_VERBS.unknown}.`;
+        results[jobId] = { jobId, wave: index, result: "unknown", conclusion: "unknown", reason };
+        continue;
+      }
+
+      let reason = index === 0 ? "Starts with the run." : `Starts once ${needs.map(need => `\`${need}\``).join(", ")} finish.`;
+      if (hasStatusCheck(job.if) && (blocking || cancelledBefore)) {
+        reason = `Runs anyway: \`if: ${condition}\`.`;
+      }
+      const outcome = injected[jobId];
+      if (outcome === "cancelled") {
+        cancelled = true;
+        results[jobId] = { jobId, wave: index, result: "cancelled", conclusion: "cancelled", reason: "Marked cancelled: the run is cancelled while it runs." };
+      } else if (outcome === "failure") {
+        const continueOnError = literalFlag(job["continue-on-error"]) === true;
+        const total = expandMatrix(job.strategy?.matrix)?.length ?? 0;
+        // `continue-on-error` also keeps one leg's failure from cancelling the others.
+        const failFast = literalFlag(job.strategy?.["fail-fast"]) !== false && !continueOnError;
+        const legs = total > 1
+          ? { total, failed: 1, cancelled: failFast ? total - 1 : 0, finished: failFast ? 0 : total - 1 }
+          : undefined;
+        const notes = ["Marked failed."];
+        if (legs) {
+          notes.push(failFast
+            ? `fail-fast cancels the other ${total - 1} matrix legs.`
+            : `The other ${total - 1} matrix legs run to the end.`);
+        }
+        if (continueOnError) notes.push("`continue-on-error` lets the jobs after it carry on.");
+        results[jobId] = {
+          jobId,
+          wave: index,
+          result: "failure",
+          conclusion: continueOnError ? "success" : "failure",
+          reason: notes.join(" "),
+          legs,
+        };
+      } else {
+        results[jobId] = { jobId, wave: index, result: "success", conclusion: "success", reason };
+      }
+    }
+    // Cancelling the run also cancels the jobs running alongside.
+    if (cancelled && !cancelledBefore) {
+      wave.forEach(jobId => {
+        const job = results[jobId];
+        if (job.result !== "success") return;
+        Object.assign(job, { result: "cancelled", conclusion: "cancelled", reason: "Running when the run was cancelled." });
+      });
+    }
+  });
+
+  const conclusions = Object.values(results).map(job => job.conclusion);
+  return {
+    waves,
+    jobs: results,
+    result: cancelled ? "cancelled" : conclusions.includes("failure") ? "failure" : "success",
+  };
+}
+
+/**
+ * Each job's state once `step` waves have finished: earlier waves show their
+ * result, the current wave is running (or skipped), later waves are queued.
+ */
+export function dryRunFrame(run: DryRun, step: number): Record<string, DryRunState> {
+  const frame: Record<string, DryRunState> = {};
+  for (const job of Object.values(run.jobs)) {
+    if (job.wave === undefined || job.wave < step) frame[job.jobId] = job.result;
+    else if (job.wave === step) frame[job.jobId] = job.result === "skipped" ? "skipped" : "running";
+    else frame[job.jobId] = "queued";
+  }
+  return frame;
+}
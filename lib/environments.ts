@@ -0,0 +1,227 @@
+import {
+  Concurrency,
+  Job,
+  SourcePosition,
+  TriggerConfig,
+  TriggerFilter,
+  isMapping,
+  locateYamlPath,
+  normalizeTriggers,
+  parseWorkflow,
+} from "./workflow";
+import { formatCondition } from "./conditions";
+import type { RepoWorkflowFile } from "./repoMap";
+
+// ------ Deployment environments and concurrency ------
+// Which jobs deploy to which `environment:`, on what triggers and conditions,
+// and concurrency groups shared in ways that cancel deploys. GitHub keeps one
+// running and one pending run per group: a newer run replaces the pending one,
+// and with `cancel-in-progress` it cancels the running one too.
+
+export type ConcurrencySetting = {
+  group: string;
+  // `true`, or the expression that decides it at run time.
+  cancelInProgress: boolean | string;
+};
+
+export type EnvironmentDeployment = SourcePosition & {
+  file: string;
+  workflow: string;
+  jobId: string;
+  url?: string;
+  if?: string;
+  // `push (branches: main)`, `workflow_dispatch`, …
+  triggers: string[];
+  // The job's own group, else the workflow's.
+  concurrency?: ConcurrencySetting;
+};
+
+export type EnvironmentSummary = {
+  name: string;
+  deployments: EnvironmentDeployment[];
+};
+
+export type ConcurrencyMember = SourcePosition & {
+  file: string;
+  workflow: string;
+  // Unset for a workflow-level `concurrency:`.
+  jobId?: string;
+  // Environments the member's jobs deploy to.
+  deploysTo: string[];
+  cancelInProgress: boolean | string;
+};
+
+export type ConcurrencyWarning = {
+  group: string;
+  severity: "error" | "warning";
+  message: string;
+  members: ConcurrencyMember[];
+};
+
+export type EnvironmentReport = {
+  environments: EnvironmentSummary[];
+  warnings: ConcurrencyWarning[];
+  // Files that couldn't be parsed.
+  skipped: string[];
+};
+
+const TRIGGER_FILTERS: (keyof TriggerFilter)[] = ["branches", "branches-ignore", "tags", "tags-ignore"];
+
+/** A job's `environment:` as name and url, whichever form was written. */
+export function environmentOf(job: Job): { name: string; url?: string } | null {
+  const environment = job.environment;
+  if (typeof environment === "string" && environment) return { name: environment };
+  if (isMapping(environment) && typeof environment.name === "string" && environment.name) {
+    return { name: environment.name, url: typeof environment.url === "string" ? environment.url : undefined };
+  }
+  return null;
+}
+
+/** `concurrency:` as a group and whether it cancels in-progress runs. */
+export function concurrencyOf(concurrency: Concurrency | undefined): ConcurrencySetting | null {
+  if (typeof concurrency === "string" && concurrency) return { group: concurrency, cancelInProgress: false };
+  if (!isMapping(concurrency) || concurrency.group === undefined || concurrency.group === "") return null;
+  const cancel = concurrency["cancel-in-progress"];
+  return {
+    group: String(concurrency.group),
+    cancelInProgress: typeof cancel === "string" ? formatCondition(cancel) : cancel === true,
+  };
+}
+
+// `push (branches: main; tags: v*)`.
+function triggerSummary(event: string, config: TriggerConfig): string {
+  if (!config || Array.isArray(config)) return event;
+  const filters = TRIGGER_FILTERS.filter(key => config[key] !== undefined).map(key => {
+    const value = config[key];
+    const patterns = Array.isArray(value) ? value : [value];
+    return `${key}: ${patterns.join(", ")}`;
+  });
+  return filters.length > 0 ? `${event} (${filters.join("; ")})` : event;
+}
+
+// The group as it evaluates for this workflow: `github.workflow` is the only
+// part that differs between workflows on the same ref. Null when every run
+// gets its own group.
+function groupKey(group: string, workflowName: string): string | null {
+  const normalized = group.replace(/\$\{\{\s*(.*?)\s*\}\}/g, (_, expression: string) => `\${{ ${expression.replace(/\s+/g, " ")} }}`);
+  if (/github\.(run_id|run_number|run_attempt|sha)\b/.test(normalized)) return null;
+  return normalized.replace(/\$\{\{ github\.workflow \}\}/g, workflowName);
+}
+
+function describeMembers(members: ConcurrencyMember[]): string {
+  const names = Array.from(new Set(members.map(m => `\`${m.workflow}\``)));
+  return names.length <= 2 ? names.join(" and ") : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
+
+function groupWarning(group: string, members: ConcurrencyMember[]): ConcurrencyWarning | null {
+  const deploys = members.filter(m => m.deploysTo.length > 0);
+  if (deploys.length === 0) return null;
+  const environments = Array.from(new Set(deploys.flatMap(m => m.deploysTo))).map(name => `\`${name}\``).join(", ");
+  const workflows = new Set(members.map(m => m.file));
+  const cancelling = members.filter(m => m.cancelInProgress !== false);
+
+  if (workflows.size > 1) {
+    if (cancelling.length > 0) {
+      return {
+        group,
+        severity: "error",
+        message: `${describeMembers(members)} share this group with \`cancel-in-progress\`: a run of one cancels a deploy to ${environments} in another midway.`,
+        members,
+      };
+    }
+    return {
+      group,
+      severity: "warning",
+      message: `${describeMembers(members)} share this group: only one run waits per group, so a queued deploy to ${environments} is cancelled when another workflow's run joins.`,
+      members,
+    };
+  }
+  const cancellingDeploys = deploys.filter(m => m.cancelInProgress !== false);
+  if (cancellingDeploys.length === 0) return null;
+  return {
+    group,
+    severity: "warning",
+    message: `\`cancel-in-progress\` on a group that deploys to ${environments}: a newer run cancels a deploy midway.`,
+    members,
+  };
+}
+
+/** Environments deployed to across `files`, and concurrency groups that can cancel those deploys. */
+export function analyzeEnvironments(files: RepoWorkflowFile[]): EnvironmentReport {
+  const environments = new Map<string, EnvironmentDeployment[]>();
+  const groups = new Map<string, { group: string; members: ConcurrencyMember[] }>();
+  const skipped: string[] = [];
+
+  function join(key: string | null, group: string, member: ConcurrencyMember) {
+    if (!key) return;
+    const entry = groups.get(key) ?? { group, members: [] };
+    entry.members.push(member);
+    groups.set(key, entry);
+  }
+
+  for (const file of files) {
+    const { workflow } = parseWorkflow(file.source);
+    if (!workflow) {
+      skipped.push(file.path);
+      continue;
+    }
+    const name = (typeof workflow.name === "string" && workflow.name) || file.path;
+    const jobs: Record<string, Job> = isMapping(workflow.jobs) ? workflow.jobs : {};
+    const triggers = Object.entries(normalizeTriggers(workflow.on)).map(([event, config]) => triggerSummary(event, config));
+    const workflowConcurrency = concurrencyOf(workflow.concurrency);
+    // A workflow-level group holds the whole run, whatever groups its jobs have.
+    const workflowDeploys: string[] = [];
+
+    for (const [jobId, job] of Object.entries(jobs)) {
+      if (!isMapping(job)) continue;
+      const environment = environmentOf(job);
+      const jobConcurrency = concurrencyOf(job.concurrency);
+      if (environment) {
+        const position = locateYamlPath(file.source, ["jobs", jobId, "environment"]);
+        const deployments = environments.get(environment.name) ?? [];
+        deployments.push({
+          file: file.path,
+          workflow: name,
+          jobId,
+          url: environment.url,
+          if: formatCondition(job.if) || undefined,
+          triggers,
+          concurrency: jobConcurrency ?? workflowConcurrency ?? undefined,
+          ...position,
+        });
+        environments.set(environment.name, deployments);
+        workflowDeploys.push(environment.name);
+      }
+      if (jobConcurrency) {
+        join(groupKey(jobConcurrency.group, name), jobConcurrency.group, {
+          file: file.path,
+          workflow: name,
+          jobId,
+          deploysTo: environment ? [environment.name] : [],
+          cancelInProgress: jobConcurrency.cancelInProgress,
+          ...locateYamlPath(file.source, ["jobs", jobId, "concurrency"]),
+        });
+      }
+    }
+    if (workflowConcurrency) {
+      join(groupKey(workflowConcurrency.group, name), workflowConcurrency.group, {
+        file: file.path,
+        workflow: name,
+        deploysTo: Array.from(new Set(workflowDeploys)),
+        cancelInProgress: workflowConcurrency.cancelInProgress,
+        ...locateYamlPath(file.source, ["concurrency"]),
+      });
+    }
+  }
+
+  const warnings = Array.from(groups.values())
+    .map(({ group, members }) => groupWarning(group, members))
+    .filter((warning): warning is ConcurrencyWarning => !!warning);
+
+  return {
+    environments: Array.from(environments, ([name, deployments]) => ({ name, deployments }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    warnings: warnings.sort((a, b) => (a.severity === b.severity ? a.group.localeCompare(b.group) : a.severity === "error" ? -1 : 1)),
+    skipped,
+  };
+}
@@ -0,0 +1,365 @@
+// ------ GitHub Actions expressions ------
+// Parser and evaluator for the `${{ }}` expression language used by `if:`.
+// See https://docs.github.com/en/actions/learn-github-actions/expressions
+
+export type Expression =
+  | { type: "literal"; value: string | number | boolean | null }
+  | { type: "context"; name: string }
+  | { type: "property"; object: Expression; name: string }
+  | { type: "index"; object: Expression; index: Expression }
+  | { type: "filter"; object: Expression }
+  | { type: "call"; name: string; args: Expression[] }
+  | { type: "unary"; operator: "!"; operand: Expression }
+  | { type: "binary"; operator: BinaryOperator; left: Expression; right: Expression };
+
+export type BinaryOperator = "||" | "&&" | "==" | "!=" | "<" | "<=" | ">" | ">=";
+
+export class ExpressionError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = "ExpressionError";
+  }
+}
+
+type Token = {
+  kind: "number" | "string" | "identifier" | "punct" | "eof";
+  text: string;
+  value?: string | number;
+  position: number;
+};
+
+const PUNCTUATION = ["&&", "||", "==", "!=", "<=", ">=", "<", ">", "!", "(", ")", "[", "]", ".", ",", "*"];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === "'") {
+      let value = "";
+      let j = i + 1;
+      for (;;) {
+        if (j >= source.length) throw new ExpressionError("Unterminated string literal", i);
+        if (source[j] === "'") {
+          if (source[j + 1] === "'") {
+            value += "'";
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        value += source[j++];
+      }
+      tokens.push({ kind: "string", text: source.slice(i, j + 1), value, position: i });
+      i = j + 1;
+      continue;
+    }
+    const number = source.slice(i).match(/^-?(?:0x[0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/);
+    if (number && (ch !== "-" || !tokens.length || tokens[tokens.length - 1].kind === "punct")) {
+      tokens.push({ kind: "number", text: number[0], value: Number(number[0]), position: i });
+      i += number[0].length;
+      continue;
+    }
+    const identifier = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_-]*/);
+    if (identifier) {
+      tokens.push({ kind: "identifier", text: identifier[0], position: i });
+      i += identifier[0].length;
+      continue;
+    }
+    const punct = PUNCTUATION.find(p => source.startsWith(p, i));
+    if (!punct) throw new ExpressionError(`Unexpected character \`${ch}\``, i);
+    tokens.push({ kind: "punct", text: punct, position: i });
+    i += punct.length;
+  }
+  tokens.push({ kind: "eof", text: "", position: source.length });
+  return tokens;
+}
+
+/** Every `${{ ... }}` in a string; the group is the expression inside. */
+export const EXPRESSION_REGEX = /\$\{\{([\s\S]*?)\}\}/g;
+
+/** Removes a `${{ ... }}` wrapper around the whole condition, if present. */
+export function stripExpressionWrapper(source: string): string {
+  const match = source.trim().match(/^\$\{\{([\s\S]*)\}\}$/);
+  return match ? match[1].trim() : source.trim();
+}
+
+export function parseExpression(source: string): Expression {
+  const tokens = tokenize(stripExpressionWrapper(source));
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const accept = (text: string) => {
+    if (peek().kind === "punct" && peek().text === text) {
+      pos++;
+      return true;
+    }
+    return false;
+  };
+  const expect = (text: string) => {
+    if (!accept(text)) throw new ExpressionError(`Expected \`${text}\``, peek().position);
+  };
+
+  function parseBinary(operators: BinaryOperator[], operand: () => Expression): Expression {
+    let left = operand();
+    for (;;) {
+      const token = peek();
+      const operator = operators.find(op => token.kind === "punct" && token.text === op);
+      if (!operator) return left;
+      pos++;
+      left = { type: "binary", operator, left, right: operand() };
+    }
+  }
+
+  const parseOr = (): Expression => parseBinary(["||"], parseAnd);
+  const parseAnd = (): Expression => parseBinary(["&&"], parseEquality);
+  const parseEquality = (): Expression => parseBinary(["==", "!="], parseComparison);
+  const parseComparison = (): Expression => parseBinary(["<=", ">=", "<", ">"], parseUnary);
+
+  function parseUnary(): Expression {
+    if (accept("!")) return { type: "unary", operator: "!", operand: parseUnary() };
+    return parsePostfix(parsePrimary());
+  }
+
+  function parsePrimary(): Expression {
+    const token = next();
+    if (token.kind === "number" || token.kind === "string") {
+      return { type: "literal", value: token.value! };
+    }
+    if (token.kind === "punct" && token.text === "(") {
+      const inner = parseOr();
+      expect(")");
+      return inner;
+    }
+    if (token.kind === "identifier") {
+      if (token.text === "true" || token.text === "false") return { type: "literal", value: token.text === "true" };
+      if (token.text === "null") return { type: "literal", value: null };
+      if (accept("(")) {
+        const args: Expression[] = [];
+        if (!accept(")")) {
+          do {
+            args.push(parseOr());
+          } while (accept(","));
+          expect(")");
+        }
+        return { type: "call", name: token.text, args };
+      }
+      return { type: "context", name: token.text };
+    }
+    throw new ExpressionError(token.kind === "eof" ? "Unexpected end of expression" : `Unexpected \`${token.text}\``, token.position);
+  }
+
+  function parsePostfix(object: Expression): Expression {
+    for (;;) {
+      if (accept(".")) {
+        if (accept("*")) {
+          object = { type: "filter", object };
+          continue;
+        }
+        const name = next();
+        if (name.kind !== "identifier") throw new ExpressionError("Expected property name", name.position);
+        object = { type: "property", object, name: name.text };
+      } else if (accept("[")) {
+        if (accept("*")) {
+          expect("]");
+          object = { type: "filter", object };
+          continue;
+        }
+        const index = parseOr();
+        expect("]");
+        object = { type: "index", object, index };
+      } else {
+        return object;
+      }
+    }
+  }
+
+  const expression = parseOr();
+  if (peek().kind !== "eof") throw new ExpressionError(`Unexpected \`${peek().text}\``, peek().position);
+  return expression;
+}
+
+// ------ Evaluation ------
+
+/** Marker for values that can't be known statically (e.g. `secrets.*`). */
+export const UNKNOWN: unique symbol = Symbol("unknown");
+
+export type ExpressionValue = string | number | boolean | null | unknown[] | { [key: string]: unknown } | typeof UNKNOWN;
+
+export type StatusFunctions = {
+  success: boolean | typeof UNKNOWN;
+  failure: boolean | typeof UNKNOWN;
+  cancelled: boolean | typeof UNKNOWN;
+};
+
+export type EvaluationContext = {
+  // Context objects by name (`github`, `env`, `inputs`, ...). Missing names
+  // and missing properties evaluate to UNKNOWN.
+  contexts: Record<string, unknown>;
+  status: StatusFunctions;
+};
+
+const STATUS_FUNCTIONS = ["success", "failure", "cancelled", "always"];
+
+/** True when the expression calls a status check function such as `always()`. */
+export function usesStatusFunction(expression: Expression): boolean {
+  switch (expression.type) {
+    case "call":
+      return STATUS_FUNCTIONS.includes(expression.name.toLowerCase()) || expression.args.some(usesStatusFunction);
+    case "property":
+    case "filter":
+      return usesStatusFunction(expression.object);
+    case "index":
+      return usesStatusFunction(expression.object) || usesStatusFunction(expression.index);
+    case "unary":
+      return usesStatusFunction(expression.operand);
+    case "binary":
+      return usesStatusFunction(expression.left) || usesStatusFunction(expression.right);
+    default:
+      return false;
+  }
+}
+
+export function isTruthy(value: ExpressionValue): boolean | typeof UNKNOWN {
+  if (value === UNKNOWN) return UNKNOWN;
+  if (typeof value === "number") return value !== 0 && !Number.isNaN(value);
+  return !(value === false || value === null || value === "");
+}
+
+function toNumber(value: ExpressionValue): number {
+  if (value === null) return 0;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "number") return value;
+  if (typeof value === "string") return value.trim() === "" ? 0 : Number(value);
+  return NaN;
+}
+
+function compare(left: ExpressionValue, right: ExpressionValue): number | typeof UNKNOWN {
+  if (left === UNKNOWN || right === UNKNOWN) return UNKNOWN;
+  if (typeof left === "string" && typeof right === "string") {
+    const a = left.toLowerCase();
+    const b = right.toLowerCase();
+    return a === b ? 0 : a < b ? -1 : 1;
+  }
+  if (typeof left === "object" || typeof right === "object") {
+    return left === right ? 0 : NaN;
+  }
+  return toNumber(left) - toNumber(right);
+}
+
+function looseEquals(left: ExpressionValue, right: ExpressionValue): boolean | typeof UNKNOWN {
+  const result = compare(left, right);
+  return result === UNKNOWN ? UNKNOWN : result === 0;
+}
+
+function toStringValue(value: ExpressionValue): string {
+  if (value === null) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function callFunction(name: string, args: ExpressionValue[], context: EvaluationContext): ExpressionValue {
+  const lowered = name.toLowerCase();
+  if (lowered === "always") return true;
+  if (lowered === "success" || lowered === "failure" || lowered === "cancelled") return context.status[lowered];
+  if (args.some(arg => arg === UNKNOWN)) return UNKNOWN;
+  switch (lowered) {
+    case "contains": {
+      const [search, item] = args;
+      if (Array.isArray(search)) return search.some(value => looseEquals(value as ExpressionValue, item) === true);
+      return toStringValue(search).toLowerCase().includes(toStringValue(item).toLowerCase());
+    }
+    case "startswith":
+      return toStringValue(args[0]).toLowerCase().startsWith(toStringValue(args[1]).toLowerCase());
+    case "endswith":
+      return toStringValue(args[0]).toLowerCase().endsWith(toStringValue(args[1]).toLowerCase());
+    case "format":
+      return toStringValue(args[0]).replace(/\{(\d+)\}/g, (_, i: string) => toStringValue(args[Number(i) + 1] ?? ""));
+    case "join": {
+      const separator = args.length > 1 ? toStringValue(args[1]) : ",";
+      return Array.isArray(args[0]) ? args[0].map(v => toStringValue(v as ExpressionValue)).join(separator) : toStringValue(args[0]);
+    }
+    case "tojson":
+      return JSON.stringify(args[0], null, 2);
+    case "fromjson":
+      try {
+        return JSON.parse(toStringValue(args[0]));
+      } catch {
+        return UNKNOWN;
+      }
+    default:
+      // hashFiles() and anything else depends on the runner.
+      return UNKNOWN;
+  }
+}
+
+function member(object: ExpressionValue, key: string): ExpressionValue {
+  if (object === UNKNOWN || object === null || typeof object !== "object") return UNKNOWN;
+  if (Array.isArray(object)) return UNKNOWN;
+  const found = Object.keys(object).find(k => k.toLowerCase() === key.toLowerCase());
+  return found === undefined ? UNKNOWN : (object[found] as ExpressionValue);
+}
+
+export function evaluateExpression(expression: Expression, context: EvaluationContext): ExpressionValue {
+  switch (expression.type) {
+    case "literal":
+      return expression.value;
+    case "context":
+      return member(context.contexts as ExpressionValue, expression.name);
+    case "property":
+      return member(evaluateExpression(expression.object, context), expression.name);
+    case "index": {
+      const object = evaluateExpression(expression.object, context);
+      const index = evaluateExpression(expression.index, context);
+      if (index === UNKNOWN) return UNKNOWN;
+      if (Array.isArray(object)) {
+        const value = object[toNumber(index)];
+        return value === undefined ? null : (value as ExpressionValue);
+      }
+      return member(object, toStringValue(index));
+    }
+    case "filter": {
+      const object = evaluateExpression(expression.object, context);
+      if (object === UNKNOWN || object === null || typeof object !== "object") return UNKNOWN;
+      return Object.values(object);
+    }
+    case "call":
+      return callFunction(expression.name, expression.args.map(arg => evaluateExpression(arg, context)), context);
+    case "unary": {
+      const truthy = isTruthy(evaluateExpression(expression.operand, context));
+      return truthy === UNKNOWN ? UNKNOWN : !truthy;
+    }
+    case "binary": {
+      const left = evaluateExpression(expression.left, context);
+      if (expression.operator === "&&" || expression.operator === "||") {
+        const leftTruthy = isTruthy(left);
+        const shortCircuits = expression.operator === "&&" ? leftTruthy === false : leftTruthy === true;
+        if (shortCircuits) return left;
+        const right = evaluateExpression(expression.right, context);
+        if (leftTruthy !== UNKNOWN) return right;
+        // The result is `right` whenever it decides the outcome on its own.
+        const rightTruthy = isTruthy(right);
+        return (expression.operator === "&&" ? rightTruthy === false : rightTruthy === true) ? right : UNKNOWN;
+      }
+      const right = evaluateExpression(expression.right, context);
+      if (expression.operator === "==" || expression.operator === "!=") {
+        const equal = looseEquals(left, right);
+        return equal === UNKNOWN ? UNKNOWN : expression.operator === "==" ? equal : !equal;
+      }
+      const order = compare(left, right);
+      if (order === UNKNOWN) return UNKNOWN;
+      if (Number.isNaN(order)) return false;
+      switch (expression.operator) {
+        case "<": return order < 0;
+        case "<=": return order <= 0;
+        case ">": return order > 0;
+        default: return order >= 0;
+      }
+    }
+  }
+}
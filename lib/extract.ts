@@ -0,0 +1,104 @@
+import { Step, TriggerConfig, Workflow, formatRunsOn } from "./workflow";
+import { formatCondition } from "./conditions";
+import { containerImage } from "./runners";
+
+// ------ Job steps and triggers ------
+// Flattened views of a workflow used by the step tables, trigger list and exports.
+
+export type StepDetail = {
+  name?: string;
+  uses?: string;
+  run?: string;
+  if?: string;
+};
+
+export type JobSteps = {
+  jobName: string;
+  if?: string;
+  runsOn?: string;
+  // Image of the job's `container:` and names of its `services:`.
+  container?: string;
+  services?: string[];
+  steps: StepDetail[];
+};
+
+export type TriggerDetail = {
+  event: string;
+  details?: string;
+  // A mapping of filters, or `schedule`'s list of cron entries.
+  detailsObj?: TriggerConfig;
+};
+
+export const triggerExamples: Record<string, string> = {
+  push: "When code is pushed to the repository.",
+  pull_request: "When a pull request is opened or updated.",
+  schedule: "On a schedule (see cron expression below).",
+  issue_comment: "When someone comments on an issue.",
+  workflow_dispatch: "Manual trigger from the GitHub UI.",
+  workflow_call: "Called by another workflow.",
+  release: "When a release is published, edited, or deleted.",
+};
+
+// True when the workflow calls reusable workflows or actions from its own repository.
+export function hasLocalCalls(workflow: Workflow): boolean {
+  return Object.values(workflow.jobs ?? {}).some(job =>
+    job && (typeof job.uses === "string" ||
+      (Array.isArray(job.steps) && job.steps.some(step => step && typeof step.uses === "string" && step.uses.startsWith("./"))))
+  );
+}
+
+export function extractJobSteps(workflow: Workflow): JobSteps[] {
+  if (!workflow || !workflow.jobs) return [];
+  const result: JobSteps[] = [];
+  for (const [jobName, jobDef] of Object.entries(workflow.jobs)) {
+    const steps: StepDetail[] = [];
+    if (jobDef && Array.isArray(jobDef.steps)) {
+      for (const rawStep of jobDef.steps) {
+        const step: Step = rawStep && typeof rawStep === "object" ? rawStep : {};
+        steps.push({
+          name: step.name,
+          uses: step.uses,
+          run: step.run,
+          if: formatCondition(step.if) || undefined,
+        });
+      }
+    }
+    const job = jobDef && typeof jobDef === "object" ? jobDef : {};
+    const services = job.services && typeof job.services === "object" ? Object.keys(job.services) : [];
+    result.push({
+      jobName,
+      if: formatCondition(job.if) || undefined,
+      runsOn: (!job.uses && formatRunsOn(job["runs-on"])) || undefined,
+      container: containerImage(job),
+      services: services.length > 0 ? services : undefined,
+      steps,
+    });
+  }
+  return result;
+}
+
+export function extractTriggers(workflow: Workflow): TriggerDetail[] {
+  if (!workflow || !workflow.on) return [];
+  const triggers: TriggerDetail[] = [];
+  const on = workflow.on;
+  if (Array.isArray(on)) {
+    on.forEach((evt: string) => triggers.push({ event: evt }));
+  } else if (typeof on === "object") {
+    Object.entries<unknown>(on).forEach(([event, detail]) => {
+      if (detail === null || detail === undefined || detail === "") {
+        triggers.push({ event });
+      } else if (typeof detail === "object") {
+        triggers.push({
+          event,
+          details: "",
+          detailsObj: detail as TriggerConfig,
+        });
+      } else {
+        triggers.push({ event, details: String(detail) });
+      }
+    });
+  } else if (typeof on === "string") {
+    triggers.push({ event: on });
+  }
+  return triggers;
+}
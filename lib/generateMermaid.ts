@@ -0,0 +1,368 @@
+import { Job, Step, Workflow, formatRunsOn } from "./workflow";
+import { expandMatrix, formatMatrixEntry, interpolateMatrix } from "./matrix";
+import { ConditionSimulation, formatCondition } from "./conditions";
+import { CallResolution, CallTree, callBoundary } from "./resolveCalls";
+import { mermaidClass, mermaidEdge, mermaidNode, mermaidSubgraph, truncate } from "./mermaid";
+import { SEVERITY_ORDER, SecurityFinding } from "./security";
+import type { DataFlow } from "./dataFlow";
+import { TimingReport, formatDuration } from "./timings";
+import { CATEGORY_STYLES, JobCategory, LayoutDirection, jobCategory } from "./theme";
+import { concurrencyOf, environmentOf } from "./environments";
+import { RUNNER_STYLES, RunnerClass, jobRunners, runnerClass } from "./runners";
+
+export type DiagramDetail = "jobs" | "steps" | "matrix";
+
+export type MermaidOptions = {
+  detail?: DiagramDetail;
+  simulation?: ConditionSimulation | null;
+  // Resolved reusable workflows and composite actions, drawn as nested subgraphs.
+  calls?: CallTree | null;
+  // Security findings, badged on the jobs and steps they belong to.
+  findings?: SecurityFinding[] | null;
+  // Job outputs, secrets and variables, overlaid as dotted purple edges.
+  dataFlow?: DataFlow | null;
+  // Durations from run history on each job, with the critical path highlighted.
+  timings?: TimingReport | null;
+  // `TD` (default) or `LR`.
+  direction?: LayoutDirection;
+  // Colour jobs by category (build, test, deploy), inferred from names and `environment:`.
+  categories?: boolean;
+  // Colour jobs by the runner type they run on; wins over categories.
+  runners?: boolean;
+};
+
+/** A step's `name`, else its action or the first line of its script. */
+export function stepLabel(step: Step, index: number): string {
+  if (step.name) return step.name;
+  if (step.uses) return step.uses;
+  if (step.run) return step.run.trim().split("\n")[0];
+  return `Step ${index + 1}`;
+}
+
+type RenderState = {
+  detail: DiagramDetail;
+  simulation?: ConditionSimulation | null;
+  conditional: string[];
+  skipped: string[];
+  calls: string[];
+  unresolved: string[];
+  findings: SecurityFinding[];
+  flagged: string[];
+  // Edges drawn so far; `linkStyle` addresses edges by index.
+  edges: number;
+  timings?: TimingReport | null;
+  criticalEdges: number[];
+  // Environment / concurrency gate nodes drawn in front of jobs.
+  gates: string[];
+  // Top-level job ids by category; only collected when categories are on.
+  categories: Partial<Record<JobCategory, string[]>> | null;
+  // Top-level job (or matrix entry) ids by runner type; only collected when runner colours are on.
+  runners: Partial<Record<RunnerClass, string[]>> | null;
+};
+
+function addRunner(state: RenderState, runner: RunnerClass | null, id: string) {
+  if (runner && state.runners) state.runners[runner] = [...(state.runners[runner] ?? []), id];
+}
+
+// `🔒 production` and `⏸ deploy-prod · cancels in-progress` lines for a job's gate; none without either.
+function gateLines(job: Job): string[] {
+  const environment = environmentOf(job);
+  const concurrency = concurrencyOf(job.concurrency);
+  const lines: string[] = [];
+  if (environment) lines.push(`🔒 ${environment.name}`, environment.url ? truncate(environment.url, 40) : "");
+  if (concurrency) {
+    const cancels = concurrency.cancelInProgress === true
+      ? " · cancels in-progress"
+      : concurrency.cancelInProgress ? " · may cancel in-progress" : "";
+    lines.push(`⏸ ${truncate(concurrency.group, 32)}${cancels}`);
+  }
+  return lines.filter(Boolean);
+}
+
+// Jobs with an environment or concurrency group are entered through their gate node.
+function gateId(id: string): string {
+  return `${id}__gate`;
+}
+
+function unresolvedCallLabel(call: CallResolution | undefined): string {
+  if (!call) return "";
+  if (call.cycle) return `cycle: ${truncate(call.uses)}`;
+  if (call.error) return `unresolved: ${truncate(call.error)}`;
+  return "";
+}
+
+// `⚠ 2 security (high)`: how many findings a node has and the worst severity.
+function securityBadge(findings: SecurityFinding[]): string {
+  if (findings.length === 0) return "";
+  const worst = SEVERITY_ORDER.find(severity => findings.some(f => f.severity === severity));
+  return `⚠ ${findings.length} security (${worst})`;
+}
+
+// `ubuntu-latest · 4 steps`: where a job runs, and how many steps it has when they aren't drawn.
+function runnerLine(runner: string, job: Job, countSteps: boolean): string {
+  const steps = countSteps && Array.isArray(job.steps) ? job.steps.length : 0;
+  return [runner, steps > 0 ? `${steps} step${steps === 1 ? "" : "s"}` : ""].filter(Boolean).join(" · ");
+}
+
+// `matrix × 6 · continue-on-error`: how the job runs, for nodes that don't draw its matrix legs.
+function jobBadges(job: Job): string {
+  const badges: string[] = [];
+  if (job.strategy?.matrix) {
+    const matrix = expandMatrix(job.strategy.matrix);
+    badges.push(matrix ? `matrix × ${matrix.length}` : "matrix (dynamic)");
+  }
+  const continueOnError = job["continue-on-error"];
+  if (continueOnError) badges.push(continueOnError === true ? "continue-on-error" : "may continue on error");
+  return badges.join(" · ");
+}
+
+// `with.x = …` / `secrets.y = …` lines for what a caller passes into a call.
+function boundaryLines(caller: Job | Step, call: CallResolution): string[] {
+  return callBoundary(caller, call)
+    .filter(row => row.value !== undefined)
+    .map(row => `${row.kind === "secret" ? "secrets" : "with"}.${row.name} = ${truncate(row.value!, 32)}`);
+}
+
+function renderSteps(
+  steps: Step[],
+  parentId: string,
+  calls: CallTree | undefined,
+  keyPrefix: string,
+  state: RenderState,
+  indent: string,
+  // Id of the top-level job these steps belong to; simulation results and
+  // findings only apply there.
+  topLevelJob?: string
+): string {
+  let graph = "";
+  steps.forEach((rawStep, i) => {
+    const step: Step = rawStep && typeof rawStep === "object" ? rawStep : {};
+    const stepId = `${parentId}_step_${i}`;
+    const stepCondition = formatCondition(step.if);
+    if (stepCondition) state.conditional.push(stepId);
+    if (topLevelJob && state.simulation?.steps[topLevelJob]?.[i] === "skipped") state.skipped.push(stepId);
+    const stepConditionLine = stepCondition && i === 0 ? `if: ${truncate(stepCondition)}` : "";
+    const badge = topLevelJob ? securityBadge(state.findings.filter(f => f.jobId === topLevelJob && f.stepIndex === i)) : "";
+    if (badge) state.flagged.push(stepId);
+
+    const call = calls?.steps[`${keyPrefix}${i}`];
+    const composite = call && !call.cycle && !call.error && call.action?.runs?.using === "composite"
+      ? call.action.runs.steps
+      : undefined;
+    if (call && Array.isArray(composite) && composite.length > 0) {
+      state.calls.push(stepId);
+      graph += `${indent}${mermaidSubgraph(stepId, [stepLabel(step, i), ...boundaryLines(step, call), stepConditionLine, badge])}\n`;
+      graph += renderSteps(composite, stepId, call, "", state, indent + "  ");
+      graph += `${indent}end\n`;
+    } else {
+      if (unresolvedCallLabel(call)) state.unresolved.push(stepId);
+      graph += `${indent}${mermaidNode(stepId, [stepLabel(step, i), unresolvedCallLabel(call), stepConditionLine, badge])}\n`;
+    }
+    if (i > 0) {
+      state.edges++;
+      graph += stepCondition
+        ? `${indent}${mermaidEdge(`${parentId}_step_${i - 1}`, stepId, "-.->", `if: ${truncate(stepCondition)}`)}\n`
+        : `${indent}${mermaidEdge(`${parentId}_step_${i - 1}`, stepId)}\n`;
+    }
+  });
+  return graph;
+}
+
+function renderJobs(
+  jobs: Record<string, Job>,
+  prefix: string,
+  calls: CallTree | undefined,
+  state: RenderState,
+  indent: string
+): string {
+  // Simulation results only apply to the top-level workflow's own jobs.
+  const simulation = prefix === "" ? state.simulation : null;
+  let graph = "";
+  for (const [jobName, jobDef] of Object.entries(jobs)) {
+    const job: Job = jobDef && typeof jobDef === "object" ? jobDef : {};
+    const id = prefix + jobName;
+    const title = job.name || jobName;
+    const runner = job.uses ? `uses: ${job.uses}` : formatRunsOn(job["runs-on"]);
+    // Conditions go on the incoming `needs` edges; root jobs show them in the label.
+    const condition = formatCondition(job.if);
+    const conditionLine = condition && !job.needs ? `if: ${truncate(condition)}` : "";
+    if (condition) state.conditional.push(id);
+    if (simulation?.jobs[jobName] === "skipped") state.skipped.push(id);
+    const category = prefix === "" && state.categories ? jobCategory(jobName, job) : null;
+    if (category) state.categories![category] = [...(state.categories![category] ?? []), id];
+    const runners = prefix === "" && state.runners ? jobRunners(job).map(runnerClass) : [];
+    const findings = prefix === "" ? state.findings.filter(f => f.jobId === jobName) : [];
+    // With steps drawn, step findings are badged on the steps themselves.
+    const showSteps = state.detail === "steps" && Array.isArray(job.steps) && job.steps.length > 0;
+    const badge = securityBadge(showSteps ? findings.filter(f => f.stepIndex === undefined) : findings);
+    if (badge) state.flagged.push(id);
+    const timing = prefix === "" ? state.timings?.jobs.find(t => t.jobId === jobName) : undefined;
+    const timingLine = timing ? `⏱ ${formatDuration(timing.median)} median · ${formatDuration(timing.p95)} p95` : "";
+
+    const call = calls?.jobs[jobName];
+    const calledJobs = call && !call.cycle && !call.error ? call.workflow?.jobs : undefined;
+    const matrix = state.detail === "matrix" ? expandMatrix(job.strategy?.matrix) : null;
+    if (call && calledJobs && typeof calledJobs === "object" && Object.keys(calledJobs).length > 0) {
+      state.calls.push(id);
+      graph += `${indent}${mermaidSubgraph(id, [title, runner, conditionLine, timingLine, badge])}\n`;
+      const boundary = boundaryLines(job, call);
+      if (boundary.length > 0) graph += `${indent}  ${mermaidNode(`${id}__with`, boundary, "parallelogram")}\n`;
+      graph += renderJobs(calledJobs, `${id}__`, call, state, indent + "  ");
+      graph += `${indent}end\n`;
+    } else if (matrix && matrix.length > 0) {
+      graph += `${indent}${mermaidSubgraph(id, [`${title} (matrix × ${matrix.length})`, conditionLine, timingLine, badge])}\n`;
+      matrix.forEach((entry, i) => {
+        addRunner(state, runners[i] ?? null, `${id}_${i}`);
+        const label = [interpolateMatrix(title, entry), formatMatrixEntry(entry), runnerLine(interpolateMatrix(runner, entry), job, true)];
+        graph += `${indent}  ${mermaidNode(`${id}_${i}`, label)}\n`;
+      });
+      graph += `${indent}end\n`;
+    } else if (showSteps) {
+      addRunner(state, runners.length > 0 && runners.every(r => r === runners[0]) ? runners[0] : null, id);
+      graph += `${indent}${mermaidSubgraph(id, [title, runner, jobBadges(job), conditionLine, timingLine, badge])}\n`;
+      graph += renderSteps(job.steps!, id, calls, `${jobName}/`, state, indent + "  ", prefix === "" ? jobName : undefined);
+      graph += `${indent}end\n`;
+    } else {
+      if (unresolvedCallLabel(call)) state.unresolved.push(id);
+      // Matrix legs on different runners are only coloured once drawn separately.
+      addRunner(state, runners.length > 0 && runners.every(r => r === runners[0]) ? runners[0] : null, id);
+      const lines = [title, runnerLine(runner, job, true), unresolvedCallLabel(call), jobBadges(job), conditionLine, timingLine, badge];
+      graph += `${indent}${mermaidNode(id, lines)}\n`;
+    }
+    const gate = gateLines(job);
+    if (gate.length > 0) {
+      state.gates.push(gateId(id));
+      if (simulation?.jobs[jobName] === "skipped") state.skipped.push(gateId(id));
+      if (prefix === "" && state.timings?.criticalPath.includes(jobName)) state.criticalEdges.push(state.edges);
+      state.edges++;
+      graph += `${indent}${mermaidNode(gateId(id), gate, "hexagon")}\n`;
+      graph += `${indent}${mermaidEdge(gateId(id), id)}\n`;
+    }
+  }
+  for (const [jobName, jobDef] of Object.entries(jobs)) {
+    if (jobDef && jobDef.needs) {
+      const needs = Array.isArray(jobDef.needs) ? jobDef.needs : [jobDef.needs];
+      const condition = formatCondition(jobDef.if);
+      const critical = prefix === "" ? state.timings?.criticalPath ?? [] : [];
+      const target = gateLines(jobDef).length > 0 ? gateId(prefix + jobName) : prefix + jobName;
+      needs.forEach((need: string) => {
+        const position = critical.indexOf(jobName);
+        if (position > 0 && critical[position - 1] === need) state.criticalEdges.push(state.edges);
+        state.edges++;
+        graph += condition
+          ? `${indent}${mermaidEdge(`${prefix}${need}`, target, "-.->", `if: ${truncate(condition)}`)}\n`
+          : `${indent}${mermaidEdge(`${prefix}${need}`, target)}\n`;
+      });
+    }
+  }
+  return graph;
+}
+
+// Output edges between jobs, and a node per secret or variable linked to the jobs reading it.
+function renderDataFlow(dataFlow: DataFlow, state: RenderState): string {
+  let graph = "";
+  const dataEdges: number[] = [];
+  for (const flow of dataFlow.outputFlows) {
+    graph += `  ${mermaidEdge(flow.from, flow.to, "-.->", truncate(flow.outputs.join(", "), 32))}\n`;
+    dataEdges.push(state.edges++);
+  }
+  const readers = new Map<string, string[]>();
+  for (const usage of dataFlow.usage) {
+    const names = [...usage.secrets.map(name => `secrets.${name}`), ...usage.vars.map(name => `vars.${name}`)];
+    names.forEach(name => readers.set(name, [...(readers.get(name) ?? []), usage.jobId]));
+  }
+  const nodes: string[] = [];
+  Array.from(readers).forEach(([name, jobIds], i) => {
+    const id = `dataflow__${i}`;
+    nodes.push(id);
+    graph += `  ${mermaidNode(id, [name], "parallelogram")}\n`;
+    jobIds.forEach(jobId => {
+      graph += `  ${mermaidEdge(id, jobId, "-.->")}\n`;
+      dataEdges.push(state.edges++);
+    });
+  });
+  dataEdges.forEach(index => (graph += `  linkStyle ${index} stroke:#8b5cf6,stroke-width:1.5px\n`));
+  if (nodes.length > 0) {
+    graph += `  classDef data fill:#f3e8ff,stroke:#8b5cf6,color:#5b21b6\n`;
+    graph += `  ${mermaidClass(nodes, "data")}\n`;
+  }
+  return graph;
+}
+
+/**
+ * Mermaid flowchart of a workflow's jobs and their `needs`; "" when it has no
+ * jobs. Node ids are job keys written through `mermaidId`, so keys like `end`
+ * stay valid.
+ */
+export function generateMermaid(workflow: Workflow, options: MermaidOptions = {}): string {
+  if (!workflow || !workflow.jobs || Object.keys(workflow.jobs).length === 0) return "";
+  const state: RenderState = {
+    detail: options.detail ?? "jobs",
+    simulation: options.simulation,
+    conditional: [],
+    skipped: [],
+    calls: [],
+    unresolved: [],
+    findings: options.findings ?? [],
+    flagged: [],
+    edges: 0,
+    timings: options.timings,
+    criticalEdges: [],
+    gates: [],
+    categories: options.categories ? {} : null,
+    runners: options.runners ? {} : null,
+  };
+  let graph = `graph ${options.direction ?? "TD"}\n`;
+  graph += renderJobs(workflow.jobs, "", options.calls ?? undefined, state, "  ");
+  if (options.dataFlow) graph += renderDataFlow(options.dataFlow, state);
+  // Categories and runner types first: the classes below (skipped, critical, …) override their colours.
+  for (const [category, ids] of Object.entries(state.categories ?? {})) {
+    graph += `  classDef ${category} ${CATEGORY_STYLES[category as JobCategory]}\n`;
+    graph += `  ${mermaidClass(ids, category)}\n`;
+  }
+  for (const [runner, ids] of Object.entries(state.runners ?? {})) {
+    graph += `  classDef ${runner}Runner ${RUNNER_STYLES[runner as RunnerClass]}\n`;
+    graph += `  ${mermaidClass(ids, `${runner}Runner`)}\n`;
+  }
+  if (state.calls.length > 0) {
+    graph += `  classDef call fill:#f2f6ff,stroke:#3167e0\n`;
+    graph += `  ${mermaidClass(state.calls, "call")}\n`;
+  }
+  if (state.unresolved.length > 0) {
+    graph += `  classDef unresolved stroke:#c00,stroke-width:2px\n`;
+    graph += `  ${mermaidClass(state.unresolved, "unresolved")}\n`;
+  }
+  if (state.gates.length > 0) {
+    graph += `  classDef gate fill:#fff9db,stroke:#f08c00,color:#7c4a00\n`;
+    graph += `  ${mermaidClass(state.gates, "gate")}\n`;
+  }
+  if (state.flagged.length > 0) {
+    graph += `  classDef security stroke:#d9480f,stroke-width:2px\n`;
+    graph += `  ${mermaidClass(state.flagged, "security")}\n`;
+  }
+  if (state.conditional.length > 0) {
+    graph += `  classDef conditional stroke-dasharray: 5 5\n`;
+    graph += `  ${mermaidClass(state.conditional, "conditional")}\n`;
+  }
+  const critical = options.timings?.criticalPath ?? [];
+  if (critical.length > 0) {
+    state.criticalEdges.forEach(index => (graph += `  linkStyle ${index} stroke:#e8590c,stroke-width:3px\n`));
+    graph += `  classDef critical stroke:#e8590c,stroke-width:3px\n`;
+    graph += `  ${mermaidClass(critical, "critical")}\n`;
+  }
+  if (state.skipped.length > 0) {
+    graph += `  classDef skipped fill:#f1f1f1,stroke:#c8c8c8,color:#9a9a9a\n`;
+    graph += `  ${mermaidClass(state.skipped, "skipped")}\n`;
+  }
+  return graph;
+}
+
+/**
+ * The top-level job a diagram node belongs to. Steps, matrix entries and
+ * called workflows' jobs are drawn with ids prefixed `<jobId>_`.
+ */
+export function jobIdForNode(jobIds: string[], nodeId: string): string | null {
+  if (jobIds.includes(nodeId)) return nodeId;
+  const owners = jobIds.filter(jobId => nodeId.startsWith(`${jobId}_`));
+  return owners.sort((a, b) => b.length - a.length)[0] ?? null;
+}
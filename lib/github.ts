@@ -0,0 +1,121 @@
+// ------ GitHub contents API ------
+
+export type RepoInfo = {
+  owner: string;
+  repo: string;
+};
+
+export type FileLocation = RepoInfo & {
+  path: string;
+  ref?: string;
+};
+
+/** Where a workflow shown in the editor was loaded from. */
+export type RepoSource = {
+  location: FileLocation;
+  token?: string;
+};
+
+export type RepoFile = {
+  name: string;
+  path: string;
+};
+
+type GitHubFile = {
+  name: string;
+  path: string;
+  type: string;
+  [key: string]: any;
+};
+
+export function parseRepoInfo(url: string): RepoInfo | null {
+  url = url.replace(/\.git$/, "");
+  const match = url.match(/github\.com[:\/]([^\/]+)\/([^\/]+)(\/)?/i);
+  if (!match) return null;
+  return { owner: match[1], repo: match[2] };
+}
+
+function authHeaders(token?: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+function contentsUrl(location: FileLocation): string {
+  const ref = location.ref ? `?ref=${encodeURIComponent(location.ref)}` : "";
+  return `https://api.github.com/repos/${location.owner}/${location.repo}/contents/${location.path}${ref}`;
+}
+
+/** Lists the `.yml`/`.yaml` files in a repository's `.github/workflows` directory. */
+export async function listWorkflowFiles(info: RepoInfo, token?: string, ref?: string): Promise<RepoFile[]> {
+  const resp = await fetch(contentsUrl({ ...info, path: ".github/workflows", ref }), { headers: authHeaders(token) });
+  if (!resp.ok) {
+    if (resp.status === 404) {
+      throw new Error("No workflows found or repository does not exist.");
+    } else if (resp.status === 401 || resp.status === 403) {
+      throw new Error("Authentication failed or you do not have permission to access this repository.");
+    } else {
+      throw new Error(`Failed to fetch workflows. HTTP status: ${resp.status}`);
+    }
+  }
+  const files = await resp.json();
+  const ymls = files
+    .filter((f: GitHubFile) =>
+      (f.type === "file") &&
+      (f.name.endsWith(".yml") || f.name.endsWith(".yaml"))
+    )
+    .map((f: GitHubFile) => ({ name: f.name, path: f.path }));
+  if (ymls.length === 0) throw new Error("No workflow files found in this repo.");
+  return ymls;
+}
+
+/** Fetches a file's text through the contents API. */
+export async function fetchRepoFile(location: FileLocation, token?: string): Promise<string> {
+  const resp = await fetch(contentsUrl(location), { headers: authHeaders(token) });
+  if (!resp.ok) {
+    if (resp.status === 404) {
+      throw new Error(`File not found (404): ${location.path}`);
+    } else if (resp.status === 401 || resp.status === 403) {
+      throw new Error("Authentication or permission issue (401/403).");
+    } else {
+      throw new Error(`Failed to fetch ${location.path} (status: ${resp.status}).`);
+    }
+  }
+
+  const text = await resp.text();
+  try {
+    const file = JSON.parse(text);
+    if (!file.content) throw new Error("File has no content.");
+    return atob(file.content.replace(/\n/g, ""));
+  } catch (err) {
+    return text;
+  }
+}
+
+// ------ GitHub Actions runs API ------
+
+/**
+ * Jobs from a workflow's latest successful runs, as returned by the "list
+ * jobs for a workflow run" API; `location.path` is the workflow file.
+ */
+export async function fetchWorkflowJobRuns(location: FileLocation, token?: string, runs = 20): Promise<unknown[]> {
+  const base = `https://api.github.com/repos/${location.owner}/${location.repo}/actions`;
+  const file = encodeURIComponent(location.path.split("/").pop() || location.path);
+  const resp = await fetch(`${base}/workflows/${file}/runs?status=success&per_page=${runs}`, { headers: authHeaders(token) });
+  if (!resp.ok) {
+    if (resp.status === 404) {
+      throw new Error(`No runs found for ${location.path} (404).`);
+    } else if (resp.status === 401 || resp.status === 403) {
+      throw new Error("Authentication or permission issue (401/403). Reading runs needs the `actions: read` permission.");
+    } else {
+      throw new Error(`Failed to fetch runs of ${location.path} (status: ${resp.status}).`);
+    }
+  }
+  const { workflow_runs: workflowRuns = [] } = await resp.json();
+  const jobs = await Promise.all(workflowRuns.map(async (run: { id: number }) => {
+    const jobsResp = await fetch(`${base}/runs/${run.id}/jobs?per_page=100`, { headers: authHeaders(token) });
+    if (!jobsResp.ok) throw new Error(`Failed to fetch jobs of run ${run.id} (status: ${jobsResp.status}).`);
+    return (await jobsResp.json()).jobs ?? [];
+  }));
+  return jobs.flat();
+}
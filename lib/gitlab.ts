@@ -0,0 +1,231 @@
+import type { CiParser } from "./ciFormats";
+import { Diagnostic, Job, Matrix, MatrixEntry, Step, Workflow, isMapping } from "./workflow";
+import { asList, diagnosticAt, jobIdAllocator, variablesToEnv } from "./ciConvert";
+
+// ------ GitLab CI ------
+// `.gitlab-ci.yml` as a workflow: a job without `needs` waits for every job
+// of the previous stage, `extends` is merged in, the script sections become
+// steps and `rules`/`only`/`except`/`when` become the job's condition.
+// See https://docs.gitlab.com/ee/ci/yaml/
+
+// Top-level keys that configure the pipeline rather than define a job.
+const GLOBAL_KEYWORDS = [
+  "default",
+  "include",
+  "stages",
+  "variables",
+  "workflow",
+  "image",
+  "services",
+  "cache",
+  "before_script",
+  "after_script",
+  "spec",
+];
+
+const DEFAULT_STAGES = ["build", "test", "deploy"];
+const DEFAULT_STAGE = "test";
+// Defaults a job inherits from `default:` (or the legacy top-level keys) when it doesn't set them.
+const INHERITED_KEYS = ["image", "before_script", "after_script", "tags", "services"];
+
+const SCRIPT_SECTIONS = ["before_script", "script", "after_script"];
+
+// GitLab merges hashes from `extends` deeply and replaces everything else.
+function deepMerge(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = isMapping(value) && isMapping(merged[key]) ? deepMerge(merged[key], value) : value;
+  }
+  return merged;
+}
+
+function isJobDefinition(key: string, value: unknown): value is Record<string, unknown> {
+  return !GLOBAL_KEYWORDS.includes(key) && !key.startsWith(".") && isMapping(value);
+}
+
+// Nested lists come from YAML anchors (`- *setup`); GitLab flattens them.
+function scriptText(value: unknown): string {
+  const lines = (function flatten(items: unknown[]): string[] {
+    return items.flatMap(item => (Array.isArray(item) ? flatten(item) : item === null || item === undefined ? [] : [String(item)]));
+  })(asList(value));
+  return lines.join("\n");
+}
+
+function ruleText(rule: unknown): string {
+  if (!isMapping(rule)) return "";
+  const parts: string[] = [];
+  // A closing `- when: never` restates the default: no matching rule, no job.
+  if (typeof rule.if === "string") parts.push(rule.if);
+  const changes = isMapping(rule.changes) ? rule.changes.paths : rule.changes;
+  if (changes) parts.push(`changes: ${asList(changes).join(", ")}`);
+  if (rule.exists) parts.push(`exists: ${asList(isMapping(rule.exists) ? rule.exists.paths : rule.exists).join(", ")}`);
+  if (parts.length === 0 && rule.when === "never") return "";
+  const condition = parts.join(" && ") || "always";
+  if (rule.when === "never") return `not (${condition})`;
+  return rule.when && rule.when !== "on_success" ? `${condition} (${rule.when})` : condition;
+}
+
+function refsText(value: unknown): string {
+  return asList(isMapping(value) ? value.refs ?? value.variables : value).join(", ");
+}
+
+// `rules`, `only`/`except` and `when`, as a readable condition.
+function conditionOf(job: Record<string, unknown>): string | undefined {
+  const parts: string[] = [];
+  if (Array.isArray(job.rules)) {
+    const rules = job.rules.map(ruleText).filter(Boolean);
+    if (rules.length > 0) parts.push(rules.length === 1 ? rules[0] : rules.map(rule => `(${rule})`).join(" || "));
+  }
+  if (job.only) parts.push(`only: ${refsText(job.only)}`);
+  if (job.except) parts.push(`except: ${refsText(job.except)}`);
+  if (typeof job.when === "string" && job.when !== "on_success") parts.push(`when: ${job.when}`);
+  return parts.length > 0 ? parts.join(" && ") : undefined;
+}
+
+// `parallel: { matrix: [...] }` lists several products; each becomes `include` entries.
+function matrixOf(parallel: unknown): Matrix | undefined {
+  if (typeof parallel === "number" && parallel > 1) {
+    return { index: Array.from({ length: parallel }, (_, i) => `${i + 1}/${parallel}`) };
+  }
+  if (!isMapping(parallel) || !Array.isArray(parallel.matrix)) return undefined;
+  const include: MatrixEntry[] = parallel.matrix.filter(isMapping).flatMap(entry =>
+    Object.entries(entry).reduce<MatrixEntry[]>(
+      (combinations, [key, values]) => combinations.flatMap(c => asList(values).map(value => ({ ...c, [key]: value }))),
+      [{}]
+    )
+  );
+  return include.length > 0 ? { include } : undefined;
+}
+
+function imageName(image: unknown): string | undefined {
+  if (typeof image === "string") return image;
+  return isMapping(image) && typeof image.name === "string" ? image.name : undefined;
+}
+
+function stepsOf(job: Record<string, unknown>): Step[] {
+  if (job.trigger) {
+    const target = isMapping(job.trigger) ? job.trigger.project ?? scriptText(isMapping(job.trigger.include) ? job.trigger.include.local : job.trigger.include) : job.trigger;
+    return [{ name: "Trigger downstream pipeline", uses: String(target ?? "") }];
+  }
+  return SCRIPT_SECTIONS.filter(section => job[section] !== undefined).map(section => ({
+    name: section,
+    run: scriptText(job[section]),
+  }));
+}
+
+function toWorkflow(document: Record<string, unknown>, source: string): { workflow: Workflow; diagnostics: Diagnostic[] } {
+  const diagnostics: Diagnostic[] = [];
+  const defaults: Record<string, unknown> = {
+    ...Object.fromEntries(INHERITED_KEYS.map(key => [key, document[key]])),
+    ...(isMapping(document.default) ? document.default : {}),
+  };
+  const declaredStages = Array.isArray(document.stages) ? document.stages.map(String) : DEFAULT_STAGES;
+  // `.pre` and `.post` always exist and always run first and last.
+  const stages = [".pre", ...declaredStages.filter(s => s !== ".pre" && s !== ".post"), ".post"];
+
+  function resolve(name: string, definition: Record<string, unknown>, seen: string[]): Record<string, unknown> {
+    let merged: Record<string, unknown> = {};
+    for (const parent of asList(definition.extends).map(String)) {
+      const template = document[parent];
+      if (seen.includes(parent)) {
+        diagnostics.push(diagnosticAt(source, "error", `\`extends\` loops back to \`${parent}\`.`, [name, "extends"]));
+      } else if (!isMapping(template)) {
+        diagnostics.push(diagnosticAt(source, "error", `\`${name}\` extends \`${parent}\`, which isn't defined in this file.`, [name, "extends"]));
+      } else {
+        merged = deepMerge(merged, resolve(parent, template, [...seen, parent]));
+      }
+    }
+    const { extends: _, ...own } = definition;
+    return deepMerge(merged, own);
+  }
+
+  const allocate = jobIdAllocator();
+  const definitions = Object.entries(document)
+    .filter((entry): entry is [string, Record<string, unknown>] => isJobDefinition(...entry))
+    .map(([name, value]) => {
+      const job = resolve(name, value, [name]);
+      INHERITED_KEYS.forEach(key => {
+        if (job[key] === undefined && defaults[key] !== undefined) job[key] = defaults[key];
+      });
+      let stage = typeof job.stage === "string" ? job.stage : DEFAULT_STAGE;
+      if (!stages.includes(stage)) {
+        diagnostics.push(diagnosticAt(source, "error", `Stage \`${stage}\` isn't listed in \`stages\`.`, [name, "stage"]));
+        stage = stages[1];
+      }
+      return { name, id: allocate(name), job, stage };
+    });
+  const ids = new Map(definitions.map(d => [d.name, d.id]));
+
+  const jobs: Record<string, Job> = {};
+  for (const { name, id, job, stage } of definitions) {
+    let needs: string[];
+    if (Array.isArray(job.needs)) {
+      needs = [];
+      job.needs.forEach((need: unknown, i: number) => {
+        // Needs on other projects or pipelines aren't part of this graph.
+        if (isMapping(need) && (need.project || need.pipeline)) return;
+        const target = String(isMapping(need) ? need.job : need);
+        if (ids.has(target)) needs.push(ids.get(target)!);
+        else if (!(isMapping(need) && need.optional)) {
+          diagnostics.push(diagnosticAt(source, "error", `\`${name}\` needs \`${target}\`, which isn't a job in this file.`, [name, "needs", i]));
+        }
+      });
+    } else {
+      // Every job of the nearest earlier stage that has jobs.
+      const earlier = stages.slice(0, stages.indexOf(stage)).reverse();
+      const previous = earlier.find(s => definitions.some(d => d.stage === s));
+      needs = definitions.filter(d => d.stage === previous).map(d => d.id);
+    }
+
+    const tags = asList(job.tags).map(String);
+    const matrix = matrixOf(job.parallel);
+    const environment = isMapping(job.environment) ? job.environment : typeof job.environment === "string" ? job.environment : undefined;
+    const converted: Job = {
+      name: `${stage} › ${name}`,
+      "runs-on": tags.length > 0 ? tags : undefined,
+      container: imageName(job.image),
+      needs: needs.length > 0 ? needs : undefined,
+      if: conditionOf(job),
+      env: variablesToEnv(job.variables),
+      environment: environment && (typeof environment === "string" ? environment : { name: String(environment.name), url: typeof environment.url === "string" ? environment.url : undefined }),
+      strategy: matrix && { matrix },
+      "continue-on-error": job.allow_failure === true ? true : undefined,
+      services: asList(job.services).length > 0
+        ? Object.fromEntries(asList(job.services).map(service => {
+          const image = imageName(service) ?? "";
+          return [(isMapping(service) && service.alias) || image, { image }];
+        }))
+        : undefined,
+      steps: stepsOf(job),
+    };
+    jobs[id] = Object.fromEntries(Object.entries(converted).filter(([, value]) => value !== undefined)) as Job;
+  }
+
+  if (definitions.length === 0) {
+    diagnostics.push(diagnosticAt(source, "error", "No jobs found. A GitLab job is a top-level key with a `script`.", []));
+  }
+
+  const workflowName = isMapping(document.workflow) && typeof document.workflow.name === "string" ? document.workflow.name : undefined;
+  return {
+    workflow: { ...(workflowName ? { name: workflowName } : {}), env: variablesToEnv(document.variables), jobs },
+    diagnostics,
+  };
+}
+
+// A GitHub workflow's `jobs:` is a mapping too, and its jobs may be named
+// `script` or `trigger`; it must not be read as one GitLab job called `jobs`.
+function isGithubWorkflow(document: Record<string, unknown>): boolean {
+  return "on" in document ||
+    (isMapping(document.jobs) && Object.values(document.jobs).every(job => job === null || isMapping(job)));
+}
+
+export const gitlabParser: CiParser = {
+  format: "gitlab",
+  label: "GitLab CI",
+  fileName: /(^|\/)\.gitlab-ci\.ya?ml$/,
+  detect: document =>
+    !isGithubWorkflow(document) &&
+    ((Array.isArray(document.stages) && document.stages.every(stage => typeof stage === "string")) ||
+    Object.entries(document).some(([key, value]) => isJobDefinition(key, value) && ("script" in value || "trigger" in value))),
+  toWorkflow,
+};
@@ -0,0 +1,103 @@
+// ------ Filter pattern globs ------
+// GitHub's branch, tag and path filter syntax:
+// https://docs.github.com/en/actions/using-workflows/workflow-syntax-for-github-actions#filter-pattern-cheat-sheet
+//
+//   *    any characters except `/`
+//   **   any characters, including `/`
+//   ?    zero or one of the preceding character
+//   +    one or more of the preceding character
+//   []   one character from the set or range
+//   \    escapes the next character
+//
+// Patterns come from workflow files, so one that isn't valid (`[z-a]`)
+// matches nothing rather than throwing.
+
+const cache = new Map<string, RegExp>();
+
+// Matches no string at all.
+const NEVER = /(?!)/;
+
+export function globToRegExp(pattern: string): RegExp {
+  const cached = cache.get(pattern);
+  if (cached) return cached;
+
+  let source = "";
+  // Whether the last token was one character or a set, which `?` and `+` can apply to.
+  let quantifiable = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\" && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+      quantifiable = true;
+      continue;
+    }
+    const repeatable = quantifiable;
+    quantifiable = false;
+    if (ch === "*") {
+      if (pattern[i + 1] === "*") {
+        i++;
+        if (pattern[i + 1] === "/" && (i === 1 || pattern[i - 2] === "/")) {
+          // `**/` matches zero or more whole directories.
+          i++;
+          source += "(?:.*/)?";
+        } else {
+          source += ".*";
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if ((ch === "?" || ch === "+") && repeatable) {
+      source += ch;
+    } else if (ch === "[") {
+      const close = pattern.indexOf("]", i + 1);
+      if (close === -1) {
+        source += "\\[";
+      } else {
+        source += "[" + pattern.slice(i + 1, close).replace(/\\/g, "\\\\") + "]";
+        i = close;
+      }
+      quantifiable = true;
+    } else {
+      // Also `?` and `+` with nothing to repeat (`**+`, `a++`): taken literally.
+      source += escapeRegExp(ch);
+      quantifiable = true;
+    }
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(`^${source}$`);
+  } catch {
+    regex = NEVER;
+  }
+  cache.set(pattern, regex);
+  return regex;
+}
+
+function escapeRegExp(ch: string): string {
+  return /[.*+?^${}()|[\]\\\/]/.test(ch) ? "\\" + ch : ch;
+}
+
+export function matchGlob(pattern: string, value: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
+
+export type PatternMatch = {
+  matched: boolean;
+  // The pattern that decided the result, if any matched.
+  pattern?: string;
+};
+
+/**
+ * Matches `value` against a filter list the way GitHub does: patterns are
+ * checked in order, a later `!pattern` excludes what earlier ones matched
+ * and a positive pattern after it can include it again.
+ */
+export function matchPatterns(patterns: string[], value: string): PatternMatch {
+  let result: PatternMatch = { matched: false };
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith("!");
+    if (matchGlob(negated ? pattern.slice(1) : pattern, value)) result = { matched: !negated, pattern };
+  }
+  return result;
+}
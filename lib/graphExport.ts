@@ -0,0 +1,148 @@
+import { Job, Workflow, formatRunsOn, isMapping, normalizeTriggers } from "./workflow";
+import { expandMatrix, formatMatrixEntry, interpolateMatrix } from "./matrix";
+import { formatCondition } from "./conditions";
+import { jobNeeds } from "./jobGraph";
+import { DiagramDetail, stepLabel } from "./generateMermaid";
+import type { LayoutDirection } from "./theme";
+
+// ------ Graph export ------
+// The diagram as plain nodes and edges, for JSON and Graphviz DOT output.
+// Node ids are built from the raw job keys: `<job>`, `<job>_step_<i>` and
+// `<job>_<i>` for matrix combinations. The Mermaid diagram encodes awkward
+// ones with `mermaidId`, so the two only agree for plain keys.
+
+export type GraphNode = {
+  id: string;
+  kind: "job" | "step" | "matrix";
+  label: string;
+  // Top-level job the node belongs to; a job's own id for job nodes.
+  jobId: string;
+  runsOn?: string;
+  uses?: string;
+  if?: string;
+};
+
+export type GraphEdge = {
+  from: string;
+  to: string;
+  // `needs` between jobs, or the order of steps within a job.
+  kind: "needs" | "sequence";
+  if?: string;
+};
+
+export type WorkflowGraph = {
+  metadata: {
+    name?: string;
+    detail: DiagramDetail;
+    triggers: string[];
+  };
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+};
+
+function optional<T extends object>(fields: T): Partial<T> {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined && value !== "")) as Partial<T>;
+}
+
+/** Jobs, and their steps or matrix combinations at that detail, with `needs` and step order as edges. */
+export function buildWorkflowGraph(workflow: Workflow, detail: DiagramDetail = "jobs"): WorkflowGraph {
+  const jobs: Record<string, Job> = isMapping(workflow.jobs) ? workflow.jobs : {};
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+
+  for (const [jobId, jobDef] of Object.entries(jobs)) {
+    const job: Job = jobDef && typeof jobDef === "object" ? jobDef : {};
+    const title = typeof job.name === "string" && job.name ? job.name : jobId;
+    const runsOn = job.uses ? undefined : formatRunsOn(job["runs-on"]);
+    nodes.push({ id: jobId, kind: "job", label: title, jobId, ...optional({ runsOn, uses: job.uses, if: formatCondition(job.if) }) });
+
+    if (detail === "steps" && Array.isArray(job.steps)) {
+      job.steps.forEach((rawStep, i) => {
+        const step = rawStep && typeof rawStep === "object" ? rawStep : {};
+        const id = `${jobId}_step_${i}`;
+        nodes.push({ id, kind: "step", label: stepLabel(step, i), jobId, ...optional({ uses: step.uses, if: formatCondition(step.if) }) });
+        if (i > 0) edges.push({ from: `${jobId}_step_${i - 1}`, to: id, kind: "sequence" });
+      });
+    }
+    if (detail === "matrix") {
+      (expandMatrix(job.strategy?.matrix) ?? []).forEach((entry, i) => {
+        nodes.push({
+          id: `${jobId}_${i}`,
+          kind: "matrix",
+          label: `${interpolateMatrix(title, entry)} (${formatMatrixEntry(entry)})`,
+          jobId,
+          ...optional({ runsOn: runsOn && interpolateMatrix(runsOn, entry) }),
+        });
+      });
+    }
+  }
+
+  for (const [jobId, job] of Object.entries(jobs)) {
+    const condition = formatCondition(job?.if);
+    jobNeeds(job)
+      .filter(need => need in jobs)
+      .forEach(need => edges.push({ from: need, to: jobId, kind: "needs", ...optional({ if: condition }) }));
+  }
+
+  return {
+    metadata: {
+      ...optional({ name: typeof workflow.name === "string" ? workflow.name : undefined }),
+      detail,
+      triggers: Object.keys(normalizeTriggers(workflow.on)),
+    },
+    nodes,
+    edges,
+  };
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+/**
+ * Graphviz DOT for a workflow graph. Jobs with steps or matrix combinations
+ * become clusters; `needs` edges are clipped to the cluster borders. `direction`
+ * picks top-to-bottom or left-to-right ranks.
+ */
+export function generateDot(graph: WorkflowGraph, direction: LayoutDirection = "TD"): string {
+  const children = new Map<string, GraphNode[]>();
+  graph.nodes.filter(node => node.kind !== "job").forEach(node => {
+    children.set(node.jobId, [...(children.get(node.jobId) ?? []), node]);
+  });
+  const nodeLabel = (node: GraphNode) =>
+    dotString([node.label, node.runsOn, node.uses && node.uses !== node.label && `uses: ${node.uses}`, node.if && `if: ${node.if}`].filter(Boolean).join("\n"));
+
+  let dot = `digraph ${dotString(graph.metadata.name ?? "workflow")} {\n`;
+  dot += `  compound=true;\n  rankdir=${direction === "LR" ? "LR" : "TB"};\n  node [shape=box, style=rounded, fontname="Helvetica"];\n`;
+  for (const node of graph.nodes.filter(node => node.kind === "job")) {
+    const inner = children.get(node.id);
+    if (!inner) {
+      dot += `  ${dotString(node.id)} [label=${nodeLabel(node)}];\n`;
+      continue;
+    }
+    dot += `  subgraph ${dotString(`cluster_${node.id}`)} {\n    label=${nodeLabel(node)};\n`;
+    inner.forEach(child => (dot += `    ${dotString(child.id)} [label=${nodeLabel(child)}];\n`));
+    dot += `  }\n`;
+  }
+  for (const edge of graph.edges) {
+    const attributes: string[] = [];
+    let from = edge.from;
+    let to = edge.to;
+    if (edge.kind === "needs") {
+      // Graphviz can't point at a cluster, so aim at a node inside it and clip.
+      const tail = children.get(edge.from);
+      const head = children.get(edge.to);
+      if (tail) {
+        from = tail[tail.length - 1].id;
+        attributes.push(`ltail=${dotString(`cluster_${edge.from}`)}`);
+      }
+      if (head) {
+        to = head[0].id;
+        attributes.push(`lhead=${dotString(`cluster_${edge.to}`)}`);
+      }
+    }
+    if (edge.if) attributes.push(`label=${dotString(`if: ${edge.if}`)}`, "style=dashed");
+    dot += `  ${dotString(from)} -> ${dotString(to)}${attributes.length > 0 ? ` [${attributes.join(", ")}]` : ""};\n`;
+  }
+  return dot + "}\n";
+}
@@ -0,0 +1,52 @@
+import { isMapping } from "./workflow";
+
+// ------ Recent workflows ------
+// Workflows visualized in this browser, newest first, kept in localStorage.
+// Browser-only, so it isn't part of the library entry point.
+
+export type HistoryEntry = {
+  // Repository path for workflows loaded from GitHub, else the workflow's `name:`.
+  title: string;
+  yaml: string;
+  savedAt: number;
+};
+
+const STORAGE_KEY = "gha-viz:history";
+
+export const HISTORY_LIMIT = 15;
+
+function isEntry(value: unknown): value is HistoryEntry {
+  return isMapping(value) && typeof value.title === "string" && typeof value.yaml === "string" && typeof value.savedAt === "number";
+}
+
+export function loadHistory(): HistoryEntry[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(stored) ? stored.filter(isEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveHistory(entries: HistoryEntry[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // Storage is full or disabled; history is a convenience, so carry on without it.
+  }
+}
+
+/**
+ * Puts `entry` first, replacing the earlier version of the same workflow
+ * (same title), and saves the list.
+ */
+export function rememberWorkflow(entries: HistoryEntry[], entry: HistoryEntry): HistoryEntry[] {
+  const next = [entry, ...entries.filter(e => e.title !== entry.title)].slice(0, HISTORY_LIMIT);
+  saveHistory(next);
+  return next;
+}
+
+export function clearHistory(): HistoryEntry[] {
+  saveHistory([]);
+  return [];
+}
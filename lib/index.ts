@@ -0,0 +1,37 @@
+// ------ Library entry point ------
+// Everything the web app and the `gha-viz` CLI share. Nothing here touches the
+// DOM, so it runs unchanged under Node.
+
+export * from "./workflow";
+export * from "./validateWorkflow";
+export * from "./matrix";
+export * from "./expressions";
+export * from "./conditions";
+export * from "./glob";
+export * from "./mermaid";
+export * from "./github";
+export * from "./resolveCalls";
+export * from "./repoMap";
+export * from "./extract";
+export * from "./generateMermaid";
+export * from "./markdown";
+export * from "./security";
+export * from "./diff";
+export * from "./jobGraph";
+export * from "./completions";
+export * from "./cron";
+export * from "./triggerFilters";
+export * from "./dataFlow";
+export * from "./timings";
+export * from "./permalink";
+export * from "./graphExport";
+export * from "./report";
+export * from "./inventory";
+export * from "./ciFormats";
+export * from "./gitlab";
+export * from "./azure";
+export * from "./theme";
+export * from "./environments";
+export * from "./dryRun";
+export * from "./render";
+export * from "./runners";
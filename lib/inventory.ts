@@ -0,0 +1,198 @@
+import { Job, SourcePosition, Step, YamlPath, isMapping, locateYamlPath, parseWorkflow } from "./workflow";
+import { parseUses } from "./resolveCalls";
+import type { RepoWorkflowFile } from "./repoMap";
+
+// ------ Action inventory ------
+// Every `uses:` across a set of workflow files, grouped by action and
+// version, with drift between files and pins older than a supplied list of
+// latest versions.
+
+export type ActionKind = "remote" | "workflow" | "local" | "docker";
+
+export type ActionUsage = SourcePosition & {
+  file: string;
+  jobId: string;
+  // Unset for a job-level reusable workflow call.
+  stepIndex?: number;
+  uses: string;
+};
+
+export type VersionStatus = "current" | "outdated" | "unknown";
+
+export type ActionVersion = {
+  // Tag, branch, commit SHA or image tag/digest as written; "" when none.
+  ref: string;
+  // For a commit SHA, the version in a trailing `# v4.1.1` comment.
+  comment?: string;
+  usages: ActionUsage[];
+  // Against the supplied latest version; "unknown" without one or for branches.
+  status: VersionStatus;
+};
+
+export type InventoryAction = {
+  // `owner/repo[/path]`, `./path` or `docker://image`.
+  action: string;
+  kind: ActionKind;
+  versions: ActionVersion[];
+  latest?: string;
+  // Different files or jobs use different versions.
+  inconsistent: boolean;
+};
+
+export type ActionInventory = {
+  actions: InventoryAction[];
+  usages: number;
+  // Files that couldn't be parsed.
+  skipped: string[];
+};
+
+// Latest known version per action, e.g. `{ "actions/checkout": "v4.2.2" }`.
+export type LatestVersions = Record<string, string>;
+
+const SHA_REGEX = /^[0-9a-f]{40}$/;
+const VERSION_REGEX = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?/;
+
+/**
+ * Reads a list of latest versions, either JSON (`{ "actions/checkout": "v4" }`)
+ * or one `owner/repo@version` (or `owner/repo version`) per line; `#` starts a comment.
+ */
+export function parseLatestVersions(text: string): LatestVersions {
+  const trimmed = text.trim();
+  if (!trimmed) return {};
+  if (trimmed.startsWith("{")) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch (err: any) {
+      throw new Error(`Latest versions aren't valid JSON: ${err.message}`);
+    }
+    if (!isMapping(data)) throw new Error("Latest versions JSON must map each action to a version.");
+    return Object.fromEntries(Object.entries(data).map(([action, version]) => [action.toLowerCase(), String(version)]));
+  }
+  const versions: LatestVersions = {};
+  trimmed.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = rawLine.replace(/#.*/, "").trim();
+    if (!line) return;
+    const match = line.match(/^(\S+?)(?:@|\s+)(\S+)$/);
+    if (!match) throw new Error(`Line ${i + 1}: expected \`owner/repo@version\`, got \`${line}\`.`);
+    versions[match[1].toLowerCase()] = match[2];
+  });
+  return versions;
+}
+
+function versionParts(version: string): number[] | null {
+  const match = version.match(VERSION_REGEX);
+  return match ? match.slice(1).filter(part => part !== undefined).map(Number) : null;
+}
+
+/**
+ * Whether `pinned` is behind `latest`, compared at the pin's precision: a
+ * floating `v4` is current while the latest is `v4.2.2`, `v4.1.0` isn't.
+ */
+export function compareVersions(pinned: string, latest: string): VersionStatus {
+  const pin = versionParts(pinned);
+  const newest = versionParts(latest);
+  if (!pin || !newest) return "unknown";
+  for (let i = 0; i < pin.length; i++) {
+    const other = newest[i] ?? 0;
+    if (pin[i] !== other) return pin[i] < other ? "outdated" : "current";
+  }
+  return "current";
+}
+
+// Newest first by the full version; refs that aren't versions last, by name.
+function byVersionDescending(left: string, right: string): number {
+  const a = versionParts(left);
+  const b = versionParts(right);
+  if (!a || !b) return a ? -1 : b ? 1 : left.localeCompare(right);
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (b[i] ?? 0) - (a[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return left.localeCompare(right);
+}
+
+// Action name and version of a `uses:` value; docker images split at the tag or digest.
+function splitUses(uses: string): { action: string; kind: ActionKind; ref: string } | null {
+  const reference = parseUses(uses);
+  if (!reference) return null;
+  if (reference.kind === "local") return { action: `./${reference.path}`, kind: "local", ref: "" };
+  if (reference.kind === "docker") {
+    const match = reference.path.match(/^(.*?)(?:@(sha256:[0-9a-f]+)|:([^/:@]+))?$/)!;
+    return { action: `docker://${match[1]}`, kind: "docker", ref: match[2] || match[3] || "" };
+  }
+  const path = reference.path ? `/${reference.path}` : "";
+  return {
+    action: `${reference.owner}/${reference.repo}${path}`.toLowerCase(),
+    kind: /^\.github\/workflows\//.test(reference.path) ? "workflow" : "remote",
+    ref: reference.ref ?? "",
+  };
+}
+
+// `uses: owner/repo@<sha> # v4.1.1` → "v4.1.1".
+function trailingComment(source: string, line: number): string | undefined {
+  const text = source.split(/\r?\n/)[line - 1] ?? "";
+  return text.match(/\s#\s*(\S+)/)?.[1];
+}
+
+function statusOf(ref: string, comment: string | undefined, latest: string | undefined): VersionStatus {
+  if (!latest) return "unknown";
+  if (SHA_REGEX.test(ref)) return comment ? compareVersions(comment, latest) : "unknown";
+  return compareVersions(ref, latest);
+}
+
+/** Groups every action and reusable workflow used in `files` by action and version. */
+export function buildActionInventory(files: RepoWorkflowFile[], latest: LatestVersions = {}): ActionInventory {
+  const actions = new Map<string, { kind: ActionKind; versions: Map<string, ActionVersion> }>();
+  const skipped: string[] = [];
+  let usages = 0;
+
+  function add(file: RepoWorkflowFile, uses: unknown, path: YamlPath, jobId: string, stepIndex?: number) {
+    if (typeof uses !== "string") return;
+    const parsed = splitUses(uses);
+    if (!parsed) return;
+    const position = locateYamlPath(file.source, path);
+    const comment = SHA_REGEX.test(parsed.ref) ? trailingComment(file.source, position.line) : undefined;
+    const entry = actions.get(parsed.action) ?? { kind: parsed.kind, versions: new Map<string, ActionVersion>() };
+    const version = entry.versions.get(parsed.ref) ?? {
+      ref: parsed.ref,
+      comment,
+      usages: [],
+      status: statusOf(parsed.ref, comment, latest[parsed.action]),
+    };
+    version.usages.push({ file: file.path, jobId, stepIndex, uses, ...position });
+    entry.versions.set(parsed.ref, version);
+    actions.set(parsed.action, entry);
+    usages++;
+  }
+
+  for (const file of files) {
+    const { workflow } = parseWorkflow(file.source);
+    if (!workflow) {
+      skipped.push(file.path);
+      continue;
+    }
+    const jobs: Record<string, Job> = isMapping(workflow.jobs) ? workflow.jobs : {};
+    for (const [jobId, job] of Object.entries(jobs)) {
+      if (!isMapping(job)) continue;
+      add(file, job.uses, ["jobs", jobId, "uses"], jobId);
+      const steps: Step[] = Array.isArray(job.steps) ? job.steps : [];
+      steps.forEach((step, i) => isMapping(step) && add(file, step.uses, ["jobs", jobId, "steps", i, "uses"], jobId, i));
+    }
+  }
+
+  const inventory = Array.from(actions, ([action, { kind, versions }]): InventoryAction => ({
+    action,
+    kind,
+    // Branches and SHAs without a comment sort after versions.
+    versions: Array.from(versions.values()).sort((a, b) => byVersionDescending(a.comment ?? a.ref, b.comment ?? b.ref)),
+    latest: latest[action],
+    inconsistent: versions.size > 1,
+  }));
+
+  return {
+    actions: inventory.sort((a, b) => Number(b.inconsistent) - Number(a.inconsistent) || a.action.localeCompare(b.action)),
+    usages,
+    skipped,
+  };
+}
@@ -0,0 +1,30 @@
+import type { Job } from "./workflow";
+
+// ------ Job dependency graph ------
+
+export function jobNeeds(job: Job | undefined): string[] {
+  if (!job || typeof job !== "object" || !job.needs) return [];
+  return (Array.isArray(job.needs) ? job.needs : [job.needs]).map(String);
+}
+
+function walk(start: string, next: (jobId: string) => string[]): string[] {
+  const seen = new Set<string>();
+  const queue = next(start);
+  while (queue.length > 0) {
+    const jobId = queue.shift()!;
+    if (seen.has(jobId) || jobId === start) continue;
+    seen.add(jobId);
+    queue.push(...next(jobId));
+  }
+  return Array.from(seen);
+}
+
+/** Every job `jobId` waits on, directly or through other jobs' `needs`. */
+export function upstreamJobs(jobs: Record<string, Job>, jobId: string): string[] {
+  return walk(jobId, id => jobNeeds(jobs[id]).filter(need => need in jobs));
+}
+
+/** Every job that waits on `jobId`, directly or transitively. */
+export function downstreamJobs(jobs: Record<string, Job>, jobId: string): string[] {
+  return walk(jobId, id => Object.keys(jobs).filter(other => jobNeeds(jobs[other]).includes(id)));
+}
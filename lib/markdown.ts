@@ -0,0 +1,127 @@
+import type { Diagnostic, Workflow } from "./workflow";
+import { JobSteps, TriggerDetail, triggerExamples } from "./extract";
+import type { SecurityFinding } from "./security";
+import { explainCron, parseCron } from "./cron";
+
+// ------ Markdown Export ------
+// Regex to match marketplace actions in the format owner/repo@version
+export const MARKETPLACE_ACTION_REGEX = /^([^\/]+)\/([^\/]+)@.+$/;
+
+export function generateMarkdownDoc(
+  workflow: Workflow,
+  triggers: TriggerDetail[],
+  jobSteps: JobSteps[],
+  findings?: SecurityFinding[],
+  // Mermaid source, embedded as a ```mermaid block that GitHub renders in place.
+  diagram?: string
+): string {
+  let md = `# GitHub Actions Workflow Documentation\n\n`;
+
+  if (workflow.name) {
+    md += `## Workflow Name\n${workflow.name}\n\n`;
+  }
+
+  if (diagram) {
+    md += `## Diagram\n\`\`\`mermaid\n${diagram.trimEnd()}\n\`\`\`\n\n`;
+  }
+
+  md += `## Triggers\n`;
+  if (triggers.length === 0) {
+    md += `No triggers defined.\n\n`;
+  } else {
+    triggers.forEach(trigger => {
+      md += `- **${trigger.event}**: ${triggerExamples[trigger.event] || ""}\n`;
+      if (trigger.event === "schedule" && Array.isArray(trigger.detailsObj)) {
+        trigger.detailsObj.forEach((entry: { cron?: unknown }) => {
+          const cron = String(entry?.cron ?? "");
+          const { schedule, errors } = parseCron(cron);
+          md += `  - \`${cron}\`: ${schedule ? explainCron(schedule) : `invalid (${errors[0]})`}\n`;
+        });
+      } else if (trigger.detailsObj) {
+        md += `  - Details: \`${JSON.stringify(trigger.detailsObj)}\`\n`;
+      }
+    });
+    md += `\n`;
+  }
+
+  md += `## Jobs\n`;
+  jobSteps.forEach(job => {
+    md += `### Job: \`${job.jobName}\`\n`;
+    const machine = [
+      job.runsOn && `Runs on: \`${job.runsOn}\``,
+      job.container && `Container: \`${job.container}\``,
+      job.services && `Services: ${job.services.map(name => `\`${name}\``).join(", ")}`,
+    ].filter(Boolean);
+    if (machine.length > 0) md += `${machine.join(" · ")}\n\n`;
+    md += `| Step Name | Uses | Run |\n|---|---|---|\n`;
+    job.steps.forEach(step => {
+      let usesDocLink = "";
+      if (step.uses) {
+        // Suggest link to official action docs if it's a marketplace action
+        const match = step.uses.match(MARKETPLACE_ACTION_REGEX);
+        if (match) {
+          usesDocLink = `([docs](https://github.com/${match[1]}/${match[2]}))`;
+        }
+      }
+      md += `| ${step.name || ""} | ${step.uses ? `${step.uses} ${usesDocLink}` : ""} | ${step.run || ""} |\n`;
+    });
+    md += `\n`;
+  });
+
+  if (findings) {
+    md += `## Security Findings\n`;
+    if (findings.length === 0) {
+      md += `No security findings.\n\n`;
+    } else {
+      md += `| Severity | Rule | Line | Finding |\n|---|---|---|---|\n`;
+      findings.forEach(f => {
+        md += `| ${f.severity} | \`${f.ruleId}\` | ${f.line} | ${f.message.replace(/\|/g, "\\|")} |\n`;
+      });
+      md += `\nSilence a rule for this file with a \`# gha-viz-disable: <rule-id>\` comment.\n\n`;
+    }
+  }
+
+  md += `## Further Reading\n- [GitHub Actions Documentation](https://docs.github.com/en/actions)\n`;
+
+  return md;
+}
+
+// ------ Pull request comments ------
+
+/** Hidden marker a bot can search its earlier comments for, to update one comment per workflow. */
+export function commentMarker(file: string): string {
+  // `--` would end the HTML comment early.
+  return `<!-- gha-viz: ${file.replace(/-{2,}/g, "-")} -->`;
+}
+
+/**
+ * A compact PR comment: the diagram as a ```mermaid block GitHub renders in
+ * place, with problems and security findings folded away underneath.
+ */
+export function generatePullRequestComment(
+  workflow: Workflow,
+  file: string,
+  diagram: string,
+  diagnostics: Diagnostic[] = [],
+  findings: SecurityFinding[] = [],
+  // The workflow file on GitHub, linked from the heading.
+  link?: string
+): string {
+  const title = typeof workflow.name === "string" && workflow.name ? workflow.name : file;
+  let md = `${commentMarker(file)}\n### Workflow: ${title}\n\n`;
+  md += link ? `[\`${file}\`](${link})\n\n` : `\`${file}\`\n\n`;
+  md += diagram ? `\`\`\`mermaid\n${diagram.trimEnd()}\n\`\`\`\n` : `No jobs to draw.\n`;
+
+  const problems = [
+    ...diagnostics.map(d => ({ line: d.line, label: d.severity, message: d.message })),
+    ...findings.map(f => ({ line: f.line, label: `${f.severity} \`${f.ruleId}\``, message: f.message })),
+  ].sort((a, b) => a.line - b.line);
+  if (problems.length > 0) {
+    md += `\n<details><summary>${problems.length} problem${problems.length === 1 ? "" : "s"} found</summary>\n\n`;
+    problems.forEach(p => {
+      md += `- Line ${p.line}: **${p.label}** ${p.message}\n`;
+    });
+    md += `\n</details>\n`;
+  }
+  return md;
+}
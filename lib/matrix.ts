@@ -0,0 +1,71 @@
+import type { Matrix, MatrixEntry } from "./workflow";
+
+function matches(combination: MatrixEntry, filter: MatrixEntry): boolean {
+  return Object.entries(filter).every(([key, value]) => key in combination && deepEqual(combination[key], value));
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Expands `strategy.matrix` into its job combinations, following GitHub's
+ * rules: the cartesian product of the base keys, minus `exclude` entries
+ * (partial matches), then `include` entries merged into every combination
+ * whose original values they don't overwrite, or appended on their own.
+ *
+ * Returns null when the matrix is built from an expression (e.g.
+ * `${{ fromJSON(needs.setup.outputs.matrix) }}`) and can't be expanded statically.
+ */
+export function expandMatrix(matrix: Matrix | string | undefined): MatrixEntry[] | null {
+  if (!matrix || typeof matrix !== "object" || Array.isArray(matrix)) return null;
+  const { include, exclude, ...base } = matrix;
+
+  const keys = Object.keys(base);
+  if (keys.some(key => !Array.isArray(base[key]))) return null;
+
+  let combinations: MatrixEntry[] = keys.length > 0 ? [{}] : [];
+  for (const key of keys) {
+    const values = base[key] as unknown[];
+    combinations = combinations.flatMap(combination => values.map(value => ({ ...combination, [key]: value })));
+  }
+
+  if (Array.isArray(exclude)) {
+    combinations = combinations.filter(combination => !exclude.some(filter => matches(combination, filter)));
+  }
+
+  if (Array.isArray(include)) {
+    const originals = combinations.map(combination => ({ ...combination }));
+    const extra: MatrixEntry[] = [];
+    for (const entry of include) {
+      let merged = false;
+      originals.forEach((original, i) => {
+        const overwrites = Object.entries(entry).some(
+          ([key, value]) => key in original && !deepEqual(original[key], value)
+        );
+        if (!overwrites) {
+          combinations[i] = { ...combinations[i], ...entry };
+          merged = true;
+        }
+      });
+      if (!merged) extra.push({ ...entry });
+    }
+    combinations = combinations.concat(extra);
+  }
+
+  return combinations;
+}
+
+/** Short label for a combination, e.g. `os: ubuntu-latest, node: 20`. */
+export function formatMatrixEntry(entry: MatrixEntry): string {
+  return Object.entries(entry)
+    .map(([key, value]) => `${key}: ${typeof value === "object" ? JSON.stringify(value) : String(value)}`)
+    .join(", ");
+}
+
+/** Substitutes `${{ matrix.<key> }}` references with the combination's values. */
+export function interpolateMatrix(text: string, entry: MatrixEntry): string {
+  return text.replace(/\$\{\{\s*matrix\.([A-Za-z0-9_-]+)\s*\}\}/g, (whole, key: string) =>
+    key in entry ? String(entry[key]) : whole
+  );
+}
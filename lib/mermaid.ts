@@ -0,0 +1,90 @@
+// ------ Mermaid helpers ------
+// Diagram source is written through these: ids are encoded so any job key is a
+// valid node id, and labels are quoted with everything Mermaid would read as
+// syntax escaped.
+
+// Words Mermaid's flowchart grammar reads as keywords, also when followed by a hyphen.
+const RESERVED_IDS = new Set([
+  "end",
+  "graph",
+  "flowchart",
+  "subgraph",
+  "style",
+  "linkStyle",
+  "classDef",
+  "class",
+  "click",
+  "call",
+  "href",
+  "interpolate",
+]);
+
+// Letters, digits and underscores, with single hyphens between: read as one id.
+const PLAIN_ID = /^[A-Za-z0-9][A-Za-z0-9_]*(-[A-Za-z0-9_]+)*$/;
+
+/**
+ * A node id Mermaid accepts for any job key. Plain ids are kept as they are;
+ * others (keywords, `a--b`, spaces, dots…) become `_` followed by the id with
+ * every character but letters and digits written as `_<hex code>_`.
+ */
+export function mermaidId(id: string): string {
+  if (PLAIN_ID.test(id) && !RESERVED_IDS.has(id.split("-")[0])) return id;
+  return "_" + Array.from(id, char => /[A-Za-z0-9]/.test(char) ? char : `_${char.codePointAt(0)!.toString(16)}_`).join("");
+}
+
+/** The id `mermaidId` encoded, e.g. read back from a rendered node. */
+export function fromMermaidId(id: string): string {
+  if (!id.startsWith("_")) return id;
+  return id.slice(1).replace(/_([0-9a-f]+)_/g, (_, code: string) => String.fromCodePoint(parseInt(code, 16)));
+}
+
+function escapeLabelLine(line: string): string {
+  // `#` first: the others are escaped as `#…;` entity codes.
+  return line
+    .replace(/\s*\n\s*/g, " ")
+    .replace(/#/g, "#35;")
+    .replace(/"/g, "#quot;")
+    .replace(/</g, "#lt;")
+    .replace(/>/g, "#gt;")
+    .replace(/`/g, "#96;");
+}
+
+/** Quoted Mermaid label; each argument becomes one line and empty ones are dropped. */
+export function mermaidLabel(...lines: string[]): string {
+  return `"${lines.filter(Boolean).map(escapeLabelLine).join("<br/>")}"`;
+}
+
+export type MermaidShape = "box" | "hexagon" | "parallelogram" | "stadium";
+
+const SHAPE_BRACKETS: Record<MermaidShape, [string, string]> = {
+  box: ["[", "]"],
+  hexagon: ["{{", "}}"],
+  parallelogram: ["[/", "/]"],
+  stadium: ["([", "])"],
+};
+
+/** `id["line 1<br/>line 2"]` in the given shape. */
+export function mermaidNode(id: string, lines: string[], shape: MermaidShape = "box"): string {
+  const [open, close] = SHAPE_BRACKETS[shape];
+  return `${mermaidId(id)}${open}${mermaidLabel(...lines)}${close}`;
+}
+
+/** Opens a titled subgraph; close it with `end`. */
+export function mermaidSubgraph(id: string, lines: string[]): string {
+  return `subgraph ${mermaidId(id)}[${mermaidLabel(...lines)}]`;
+}
+
+export type MermaidArrow = "-->" | "-.->" | "==>";
+
+export function mermaidEdge(from: string, to: string, arrow: MermaidArrow = "-->", label?: string): string {
+  return `${mermaidId(from)} ${arrow}${label ? `|${mermaidLabel(label)}|` : ""} ${mermaidId(to)}`;
+}
+
+/** Assigns a `classDef` to nodes. */
+export function mermaidClass(ids: string[], className: string): string {
+  return `class ${ids.map(mermaidId).join(",")} ${className}`;
+}
+
+export function truncate(text: string, max = 48): string {
+  return text.length > max ? text.slice(0, max - 1) + "…" : text;
+}
@@ -0,0 +1,71 @@
+import { DiagramDetail } from "./generateMermaid";
+
+// ------ Permalinks ------
+// The workflow YAML, deflate-compressed and base64url-encoded, plus the view
+// settings, in a URL hash such as `#yaml=...&detail=steps&event=push&job=build`.
+// The hash never reaches the server, so the workflow stays in the browser.
+
+export type ViewState = {
+  yaml: string;
+  detail: DiagramDetail;
+  // Event simulated against `if:` conditions, "" for none.
+  event: string;
+  dataFlow: boolean;
+  // Job selected on the diagram.
+  job: string | null;
+};
+
+const DETAILS: DiagramDetail[] = ["jobs", "steps", "matrix"];
+
+async function pipe(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/** The URL hash (without `#`) for a view; default settings are left out. */
+export async function encodePermalink(view: ViewState): Promise<string> {
+  const params = new URLSearchParams();
+  params.set("yaml", toBase64Url(await pipe(new TextEncoder().encode(view.yaml), new CompressionStream("deflate-raw"))));
+  if (view.detail !== "jobs") params.set("detail", view.detail);
+  if (view.event) params.set("event", view.event);
+  if (view.dataFlow) params.set("dataflow", "1");
+  if (view.job) params.set("job", view.job);
+  return params.toString();
+}
+
+/**
+ * Reads a view back from a URL hash. Returns null when the hash holds no
+ * workflow and throws when the workflow can't be decompressed.
+ */
+export async function decodePermalink(hash: string): Promise<ViewState | null> {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const data = params.get("yaml");
+  if (!data) return null;
+  let yaml: string;
+  try {
+    yaml = new TextDecoder().decode(await pipe(fromBase64Url(data), new DecompressionStream("deflate-raw")));
+  } catch {
+    throw new Error("This link's workflow is damaged or truncated; it may have been cut off when it was copied.");
+  }
+  const detail = params.get("detail") as DiagramDetail;
+  return {
+    yaml,
+    detail: DETAILS.includes(detail) ? detail : "jobs",
+    event: params.get("event") ?? "",
+    dataFlow: params.get("dataflow") === "1",
+    job: params.get("job"),
+  };
+}
@@ -0,0 +1,99 @@
+import { ColorScheme, LAYOUT_DIRECTIONS, LayoutDirection, MERMAID_THEMES, MermaidTheme } from "./theme";
+import { DEFAULT_RATE_TABLE } from "./runners";
+import { isMapping } from "./workflow";
+
+// ------ Display preferences ------
+// Diagram direction, Mermaid theme, category or runner colours and the page's
+// colour scheme, plus the runner cost settings, kept in localStorage.
+
+export type Preferences = {
+  direction: LayoutDirection;
+  // "auto" follows the colour scheme: the dark Mermaid theme on the dark page.
+  theme: MermaidTheme | "auto";
+  categories: boolean;
+  // Colour jobs by runner type instead of category.
+  runners: boolean;
+  colorScheme: ColorScheme;
+};
+
+const STORAGE_KEY = "gha-viz:preferences";
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  direction: "TD",
+  theme: "auto",
+  categories: false,
+  runners: false,
+  colorScheme: "light",
+};
+
+/** Saved preferences, with the system colour scheme until one is picked here. */
+export function loadPreferences(): Preferences {
+  const systemScheme: ColorScheme = window.matchMedia?.("(prefers-color-scheme: dark)").matches ? "dark" : "light";
+  let stored: Record<string, unknown> = {};
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    if (isMapping(parsed)) stored = parsed;
+  } catch {
+    // Unreadable or disabled storage: start from the defaults.
+  }
+  return {
+    direction: LAYOUT_DIRECTIONS.find(d => d.value === stored.direction)?.value ?? DEFAULT_PREFERENCES.direction,
+    theme: stored.theme === "auto" ? "auto" : MERMAID_THEMES.find(theme => theme === stored.theme) ?? DEFAULT_PREFERENCES.theme,
+    categories: typeof stored.categories === "boolean" ? stored.categories : DEFAULT_PREFERENCES.categories,
+    runners: typeof stored.runners === "boolean" ? stored.runners : DEFAULT_PREFERENCES.runners,
+    colorScheme: stored.colorScheme === "light" || stored.colorScheme === "dark" ? stored.colorScheme : systemScheme,
+  };
+}
+
+export function savePreferences(preferences: Preferences) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch {
+    // Storage is full or disabled; the preferences still apply for this visit.
+  }
+}
+
+// ------ Runner cost settings ------
+
+export type RunnerCostSettings = {
+  // `pattern = cost per minute` lines, see `parseRateTable`.
+  rates: string;
+  // Assumed minutes per job without run history.
+  minutesPerJob: number;
+  runsPerMonth: number;
+};
+
+const COST_STORAGE_KEY = "gha-viz:runner-costs";
+
+export const DEFAULT_COST_SETTINGS: RunnerCostSettings = {
+  rates: DEFAULT_RATE_TABLE,
+  minutesPerJob: 5,
+  runsPerMonth: 300,
+};
+
+function positiveNumber(value: unknown, fallback: number): number {
+  return typeof value === "number" && isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function loadCostSettings(): RunnerCostSettings {
+  let stored: Record<string, unknown> = {};
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(COST_STORAGE_KEY) || "{}");
+    if (isMapping(parsed)) stored = parsed;
+  } catch {
+    // Unreadable or disabled storage: start from the defaults.
+  }
+  return {
+    rates: typeof stored.rates === "string" ? stored.rates : DEFAULT_COST_SETTINGS.rates,
+    minutesPerJob: positiveNumber(stored.minutesPerJob, DEFAULT_COST_SETTINGS.minutesPerJob),
+    runsPerMonth: positiveNumber(stored.runsPerMonth, DEFAULT_COST_SETTINGS.runsPerMonth),
+  };
+}
+
+export function saveCostSettings(settings: RunnerCostSettings) {
+  try {
+    localStorage.setItem(COST_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage is full or disabled; the settings still apply for this visit.
+  }
+}
@@ -0,0 +1,120 @@
+import type { Diagnostic } from "./workflow";
+import type { SvgRenderer } from "./renderSvg";
+import { DiagramDetail, generateMermaid } from "./generateMermaid";
+import { LayoutDirection, MermaidTheme, withThemeDirective } from "./theme";
+import { parseCiDefinition } from "./ciFormats";
+import { validateWorkflow } from "./validateWorkflow";
+import { lintWorkflowSecurity } from "./security";
+import { extractJobSteps, extractTriggers } from "./extract";
+import { buildWorkflowGraph, generateDot } from "./graphExport";
+import { generateMarkdownDoc, generatePullRequestComment } from "./markdown";
+
+// ------ Rendering a workflow file to one output format ------
+// The pipeline behind `gha-viz render` and the `/api/render` route, so both
+// produce exactly what the page shows.
+
+export type RenderFormat = "svg" | "md" | "comment" | "mmd" | "dot" | "json";
+
+export const RENDER_FORMATS: RenderFormat[] = ["svg", "md", "comment", "mmd", "dot", "json"];
+
+export const RENDER_CONTENT_TYPES: Record<RenderFormat, string> = {
+  svg: "image/svg+xml; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+  comment: "text/markdown; charset=utf-8",
+  mmd: "text/plain; charset=utf-8",
+  dot: "text/vnd.graphviz; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+export type RenderOptions = {
+  format: RenderFormat;
+  detail: DiagramDetail;
+  direction: LayoutDirection;
+  theme: MermaidTheme;
+  categories: boolean;
+  runners: boolean;
+  // Where the file lives, linked from PR comments.
+  link?: string;
+};
+
+export const DEFAULT_RENDER_OPTIONS: RenderOptions = {
+  format: "md",
+  detail: "jobs",
+  direction: "TD",
+  theme: "default",
+  categories: false,
+  runners: false,
+};
+
+export type RenderResult = {
+  // Unset when nothing could be rendered; `problem` says why.
+  output?: string;
+  problem?: string;
+  diagnostics: Diagnostic[];
+  hasErrors: boolean;
+};
+
+/**
+ * Renders the CI definition in `source` as `options.format`. `file` is used to
+ * detect GitLab CI and Azure Pipelines files. The SVG renderer is only
+ * requested for SVG output.
+ */
+export async function renderWorkflow(
+  source: string,
+  file: string,
+  options: RenderOptions,
+  svg: () => Promise<SvgRenderer>
+): Promise<RenderResult> {
+  // GitLab CI and Azure Pipelines files are converted; GitHub's own checks only apply to workflows.
+  const parsed = parseCiDefinition(source, file);
+  const isGithub = parsed.format === "github";
+  const diagnostics = parsed.workflow && isGithub
+    ? [...parsed.diagnostics, ...validateWorkflow(parsed.workflow, source)]
+    : parsed.diagnostics;
+  const hasErrors = diagnostics.some(d => d.severity === "error");
+
+  const workflow = parsed.workflow;
+  if (!workflow) return { problem: "the file could not be parsed", diagnostics, hasErrors: true };
+  const security = isGithub ? lintWorkflowSecurity(workflow, source) : null;
+  const chart = withThemeDirective(
+    generateMermaid(workflow, {
+      detail: options.detail,
+      findings: security?.findings,
+      direction: options.direction,
+      categories: options.categories,
+      runners: options.runners,
+    }),
+    options.theme
+  );
+  const triggers = extractTriggers(workflow);
+  const jobSteps = extractJobSteps(workflow);
+  const graph = buildWorkflowGraph(workflow, options.detail);
+
+  switch (options.format) {
+    case "mmd":
+      return { output: chart, diagnostics, hasErrors };
+    case "md":
+      return { output: generateMarkdownDoc(workflow, triggers, jobSteps, security?.findings, chart), diagnostics, hasErrors };
+    case "comment":
+      return {
+        output: generatePullRequestComment(workflow, file, chart, diagnostics, security?.findings, options.link),
+        diagnostics,
+        hasErrors,
+      };
+    case "dot":
+      return { output: generateDot(graph, options.direction), diagnostics, hasErrors };
+    case "json":
+      return {
+        output: JSON.stringify(
+          { file, name: workflow.name, triggers, jobs: jobSteps, mermaid: chart, graph, diagnostics, security },
+          null,
+          2
+        ) + "\n",
+        diagnostics,
+        hasErrors,
+      };
+    case "svg":
+      if (!chart) return { problem: "no jobs to draw", diagnostics, hasErrors: true };
+      return { output: await (await svg()).render(chart), diagnostics, hasErrors };
+  }
+}
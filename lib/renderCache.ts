@@ -0,0 +1,46 @@
+import { createHash } from "crypto";
+import type { RenderOptions, RenderResult } from "./render";
+
+// ------ Render cache ------
+// Rendered output kept in memory for the API routes, keyed on a hash of the
+// workflow's content and the render options: a workflow fetched again from
+// GitHub is only rendered again when it changed. Node-only, so it isn't part
+// of the library entry point.
+
+const DEFAULT_LIMIT = 200;
+
+/** Hex SHA-256 of the source and everything that changes the output. */
+export function renderKey(source: string, file: string, options: RenderOptions): string {
+  const { format, detail, direction, theme, categories, runners, link } = options;
+  return createHash("sha256")
+    .update(JSON.stringify({ file, format, detail, direction, theme, categories, runners, link }))
+    .update("\0")
+    .update(source)
+    .digest("hex");
+}
+
+export type RenderCache = {
+  get: (key: string) => RenderResult | undefined;
+  set: (key: string, result: RenderResult) => void;
+};
+
+/** A least-recently-used cache holding at most `limit` results. */
+export function createRenderCache(limit = DEFAULT_LIMIT): RenderCache {
+  // Maps iterate in insertion order, so the first key is the least recently used.
+  const entries = new Map<string, RenderResult>();
+  return {
+    get(key) {
+      const result = entries.get(key);
+      if (result) {
+        entries.delete(key);
+        entries.set(key, result);
+      }
+      return result;
+    },
+    set(key, result) {
+      entries.delete(key);
+      entries.set(key, result);
+      if (entries.size > limit) entries.delete(entries.keys().next().value!);
+    },
+  };
+}
@@ -0,0 +1,32 @@
+// ------ SVG rendering outside the browser ------
+// Mermaid needs a real DOM to lay out text, so under Node we render through
+// @mermaid-js/mermaid-cli and puppeteer's headless Chromium. Both are optional
+// dependencies, loaded lazily: the web app and the other export formats never
+// need them.
+
+export type SvgRenderer = {
+  render: (chart: string) => Promise<string>;
+  close: () => Promise<void>;
+};
+
+/** Starts one headless browser that renders any number of charts. */
+export async function createSvgRenderer(): Promise<SvgRenderer> {
+  const [mermaidCli, puppeteer] = await Promise.all([import("@mermaid-js/mermaid-cli"), import("puppeteer")]).catch(() => {
+    throw new Error(
+      "SVG output needs @mermaid-js/mermaid-cli and puppeteer. Install them with `npm install @mermaid-js/mermaid-cli puppeteer@19`, " +
+        "or use --format mmd and render the Mermaid source yourself."
+    );
+  });
+
+  const browser = await puppeteer.default.launch({ headless: "new" }).catch((err: any) => {
+    throw new Error(`Could not start headless Chromium for SVG output: ${err?.message ?? err}`);
+  });
+
+  return {
+    async render(chart: string) {
+      const { data } = await mermaidCli.renderMermaid(browser, chart, "svg", { backgroundColor: "white" });
+      return Buffer.from(data).toString("utf8");
+    },
+    close: () => browser.close(),
+  };
+}
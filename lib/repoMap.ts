@@ -0,0 +1,265 @@
+import { TriggerConfig, TriggerFilter, Workflow, normalizeTriggers, parseWorkflow } from "./workflow";
+import { matchGlob, matchPatterns } from "./glob";
+import { MermaidArrow, mermaidClass, mermaidEdge, mermaidNode, truncate } from "./mermaid";
+import { isReusableWorkflowPath, parseUses } from "./resolveCalls";
+
+// ------ Repository workflow map ------
+
+export type RepoWorkflowFile = {
+  path: string;
+  source: string;
+};
+
+export type MappedWorkflow = {
+  id: string;
+  path: string;
+  // `name:`, or the file path as GitHub shows it when there is none.
+  name: string;
+  workflow: Workflow | null;
+  error?: string;
+};
+
+export type RepoMapNode = {
+  id: string;
+  kind: "workflow" | "trigger" | "dispatch";
+  label: string;
+};
+
+export type RepoMapEdgeKind = "workflow_run" | "workflow_call" | "repository_dispatch" | "trigger";
+
+export type RepoMapEdge = {
+  from: string;
+  to: string;
+  kind: RepoMapEdgeKind;
+  label?: string;
+};
+
+export type RepoMap = {
+  workflows: MappedWorkflow[];
+  nodes: RepoMapNode[];
+  edges: RepoMapEdge[];
+};
+
+// Events drawn as links between workflows rather than as shared trigger nodes.
+const LINK_EVENTS = ["workflow_run", "workflow_call", "repository_dispatch"];
+
+const REPOSITORY_DISPATCH_ACTION = /^peter-evans\/repository-dispatch@/;
+const DISPATCH_PAYLOAD_REGEX = /["']?event_type["']?\s*[:=]\s*["']?([A-Za-z0-9_.:-]+)/g;
+
+function filterOf(config: TriggerConfig | undefined): TriggerFilter {
+  return config && typeof config === "object" && !Array.isArray(config) ? config : {};
+}
+
+function list(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+// Shared trigger nodes a workflow hangs off, e.g. `push: main`, with an edge label.
+function triggerKeys(event: string, config: TriggerConfig | undefined): { key: string; label?: string }[] {
+  const filter = filterOf(config);
+  const paths = filter.paths ? `paths: ${truncate(filter.paths.join(", "), 32)}` : undefined;
+  if (event === "push" || event === "pull_request" || event === "pull_request_target") {
+    const keys: { key: string; label?: string }[] = [];
+    list(filter.branches).forEach(branch => keys.push({ key: `${event}: ${branch}`, label: paths }));
+    if (filter["branches-ignore"]) {
+      keys.push({ key: `${event}: all branches except ${list(filter["branches-ignore"]).join(", ")}`, label: paths });
+    }
+    list(filter.tags).forEach(tag => keys.push({ key: `${event} tags: ${tag}`, label: paths }));
+    const tagsOnly = (filter.tags || filter["tags-ignore"]) && !filter.branches && !filter["branches-ignore"];
+    if (keys.length === 0 && !tagsOnly) keys.push({ key: `${event}: all branches`, label: paths });
+    if (filter["tags-ignore"]) {
+      keys.push({ key: `${event} tags: all except ${list(filter["tags-ignore"]).join(", ")}`, label: paths });
+    }
+    return keys;
+  }
+  if (event === "schedule" && Array.isArray(config)) {
+    return [{ key: "schedule", label: config.map(entry => entry && entry.cron).filter(Boolean).join(", ") }];
+  }
+  return [{ key: event, label: filter.types ? list(filter.types).join(", ") : undefined }];
+}
+
+// repository_dispatch event types a workflow sends from its steps.
+function dispatchedTypes(workflow: Workflow): string[] {
+  const types = new Set<string>();
+  for (const job of Object.values(workflow.jobs ?? {})) {
+    if (!job || !Array.isArray(job.steps)) continue;
+    for (const step of job.steps) {
+      if (!step || typeof step !== "object") continue;
+      if (typeof step.uses === "string" && REPOSITORY_DISPATCH_ACTION.test(step.uses) && step.with?.["event-type"]) {
+        types.add(String(step.with["event-type"]));
+      }
+      if (typeof step.run === "string" && /dispatches/.test(step.run)) {
+        for (const match of Array.from(step.run.matchAll(DISPATCH_PAYLOAD_REGEX))) types.add(match[1]);
+      }
+    }
+  }
+  return Array.from(types);
+}
+
+/**
+ * Links every workflow in a repository: `workflow_run` listeners to the
+ * workflows they watch, callers to the reusable workflows they call,
+ * `repository_dispatch` senders and listeners through an event type node,
+ * and workflows sharing a trigger (e.g. push to `main`) through a trigger node.
+ */
+export function buildRepoMap(files: RepoWorkflowFile[]): RepoMap {
+  const workflows: MappedWorkflow[] = files.map((file, i) => {
+    const { workflow, diagnostics } = parseWorkflow(file.source);
+    return {
+      id: `wf_${i}`,
+      path: file.path,
+      name: (workflow && typeof workflow.name === "string" && workflow.name) || file.path,
+      workflow,
+      error: workflow ? undefined : diagnostics[0]?.message,
+    };
+  });
+
+  const nodes: RepoMapNode[] = workflows.map(w => ({ id: w.id, kind: "workflow", label: w.name }));
+  const edges: RepoMapEdge[] = [];
+  const triggerIds = new Map<string, string>();
+  const dispatchIds = new Map<string, string>();
+
+  function nodeFor(ids: Map<string, string>, kind: "trigger" | "dispatch", key: string): string {
+    if (!ids.has(key)) {
+      const id = `${kind}_${ids.size}`;
+      ids.set(key, id);
+      nodes.push({ id, kind, label: kind === "dispatch" ? `repository_dispatch: ${key}` : key });
+    }
+    return ids.get(key)!;
+  }
+
+  for (const mapped of workflows) {
+    const workflow = mapped.workflow;
+    if (!workflow) continue;
+    const triggers = normalizeTriggers(workflow.on);
+
+    for (const [event, config] of Object.entries(triggers)) {
+      if (LINK_EVENTS.includes(event)) continue;
+      triggerKeys(event, config).forEach(({ key, label }) => {
+        edges.push({ from: nodeFor(triggerIds, "trigger", key), to: mapped.id, kind: "trigger", label });
+      });
+    }
+
+    if ("workflow_run" in triggers) {
+      const filter = filterOf(triggers.workflow_run);
+      const types = filter.types ? list(filter.types).join(", ") : "completed, requested";
+      list(filter.workflows).forEach(name => {
+        workflows
+          .filter(upstream => upstream.name === name)
+          .forEach(upstream => edges.push({ from: upstream.id, to: mapped.id, kind: "workflow_run", label: `workflow_run (${types})` }));
+      });
+    }
+
+    if ("repository_dispatch" in triggers) {
+      const types = list(filterOf(triggers.repository_dispatch).types);
+      (types.length > 0 ? types : ["any type"]).forEach(type => {
+        edges.push({ from: nodeFor(dispatchIds, "dispatch", type), to: mapped.id, kind: "repository_dispatch" });
+      });
+    }
+
+    for (const [jobId, job] of Object.entries(workflow.jobs ?? {})) {
+      if (!job || typeof job.uses !== "string") continue;
+      const reference = parseUses(job.uses);
+      if (reference?.kind !== "local" || !isReusableWorkflowPath(reference.path)) continue;
+      workflows
+        .filter(callee => callee.path === reference.path)
+        .forEach(callee => edges.push({ from: mapped.id, to: callee.id, kind: "workflow_call", label: `calls (job ${jobId})` }));
+    }
+
+    dispatchedTypes(workflow).forEach(type => {
+      edges.push({ from: mapped.id, to: nodeFor(dispatchIds, "dispatch", type), kind: "repository_dispatch", label: "dispatches" });
+    });
+  }
+
+  return { workflows, nodes, edges };
+}
+
+// ------ "What runs when I merge?" ------
+
+export type MergeImpact = "runs" | "maybe";
+
+function branchMatches(filter: TriggerFilter, branch: string): boolean {
+  if (filter.branches) return matchPatterns(list(filter.branches), branch).matched;
+  if (filter["branches-ignore"]) return !list(filter["branches-ignore"]).some(pattern => matchGlob(pattern, branch));
+  // A push filter with only tags never fires for branch pushes.
+  return !filter.tags && !filter["tags-ignore"];
+}
+
+/**
+ * Workflows that run after a push to `branch`: direct `push` listeners, the
+ * reusable workflows they call, and `workflow_run` listeners downstream.
+ * Workflows with `paths` filters are reported as "maybe".
+ */
+export function mergeImpact(map: RepoMap, branch: string): Map<string, MergeImpact> {
+  const impact = new Map<string, MergeImpact>();
+  const queue: string[] = [];
+  const byId = new Map(map.workflows.map(w => [w.id, w]));
+
+  function mark(id: string, result: MergeImpact) {
+    const current = impact.get(id);
+    if (current === "runs" || current === result) return;
+    impact.set(id, result);
+    queue.push(id);
+  }
+
+  for (const mapped of map.workflows) {
+    if (!mapped.workflow) continue;
+    const triggers = normalizeTriggers(mapped.workflow.on);
+    if (!("push" in triggers)) continue;
+    const filter = filterOf(triggers.push);
+    if (!branchMatches(filter, branch)) continue;
+    mark(mapped.id, filter.paths || filter["paths-ignore"] ? "maybe" : "runs");
+  }
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const result = impact.get(id)!;
+    for (const edge of map.edges) {
+      if (edge.from !== id) continue;
+      if (edge.kind === "workflow_call") {
+        mark(edge.to, result);
+      } else if (edge.kind === "workflow_run") {
+        const listener = byId.get(edge.to)?.workflow;
+        const filter = filterOf(listener ? normalizeTriggers(listener.on).workflow_run : undefined);
+        const runs = filter.branches || filter["branches-ignore"] ? branchMatches(filter, branch) : true;
+        if (runs) mark(edge.to, result);
+      }
+    }
+  }
+  return impact;
+}
+
+export function generateRepoMapMermaid(map: RepoMap, impact?: Map<string, MergeImpact>): string {
+  let graph = "graph LR\n";
+  for (const node of map.nodes) {
+    if (node.kind === "workflow") {
+      const mapped = map.workflows.find(w => w.id === node.id);
+      const subtitle = mapped && mapped.name !== mapped.path ? mapped.path : "";
+      graph += `  ${mermaidNode(node.id, [node.label, subtitle, mapped?.error ? "invalid YAML" : ""])}\n`;
+    } else if (node.kind === "dispatch") {
+      graph += `  ${mermaidNode(node.id, [node.label], "hexagon")}\n`;
+    } else {
+      graph += `  ${mermaidNode(node.id, [node.label], "stadium")}\n`;
+    }
+  }
+  for (const edge of map.edges) {
+    const arrow: MermaidArrow = edge.kind === "trigger" ? "-->" : edge.kind === "workflow_call" ? "==>" : "-.->";
+    graph += `  ${mermaidEdge(edge.from, edge.to, arrow, edge.label ? truncate(edge.label) : undefined)}\n`;
+  }
+  graph += `  classDef trigger fill:#fff8e1,stroke:#e0c131\n`;
+  graph += `  classDef dispatch fill:#f3e8ff,stroke:#8b5cf6\n`;
+  const triggers = map.nodes.filter(n => n.kind === "trigger").map(n => n.id);
+  const dispatches = map.nodes.filter(n => n.kind === "dispatch").map(n => n.id);
+  if (triggers.length > 0) graph += `  ${mermaidClass(triggers, "trigger")}\n`;
+  if (dispatches.length > 0) graph += `  ${mermaidClass(dispatches, "dispatch")}\n`;
+  if (impact && impact.size > 0) {
+    const runs = Array.from(impact).filter(([, result]) => result === "runs").map(([id]) => id);
+    const maybe = Array.from(impact).filter(([, result]) => result === "maybe").map(([id]) => id);
+    graph += `  classDef runs fill:#e6f7ee,stroke:#1ca772,stroke-width:2px\n`;
+    graph += `  classDef maybe fill:#f2fbf6,stroke:#1ca772,stroke-dasharray: 5 5\n`;
+    if (runs.length > 0) graph += `  ${mermaidClass(runs, "runs")}\n`;
+    if (maybe.length > 0) graph += `  ${mermaidClass(maybe, "maybe")}\n`;
+  }
+  return graph;
+}
@@ -0,0 +1,74 @@
+import type { Workflow } from "./workflow";
+import { JobSteps, TriggerDetail, triggerExamples } from "./extract";
+import { explainCron, parseCron } from "./cron";
+
+// ------ Printable report ------
+// A standalone HTML page with the diagram, triggers and step tables, laid
+// out for the browser's print dialog so it can be saved as a PDF.
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+const REPORT_STYLE = `
+  body { font-family: Helvetica, Arial, sans-serif; color: #1d232a; margin: 24px; font-size: 12px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 16px; border-bottom: 2px solid #eaeaea; padding-bottom: 4px; margin-top: 24px; }
+  h3 { font-size: 13px; margin: 16px 0 6px; }
+  .diagram svg { max-width: 100%; height: auto; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; border-bottom: 1px solid #e5e5e5; padding: 4px 6px; vertical-align: top; }
+  code { font-family: Menlo, Consolas, monospace; font-size: 11px; }
+  .muted { color: #777; }
+  @page { margin: 14mm; }
+  @media print { h2, h3 { break-after: avoid; } tr, .diagram { break-inside: avoid; } }
+`;
+
+function triggerDetail(trigger: TriggerDetail): string {
+  if (trigger.event === "schedule" && Array.isArray(trigger.detailsObj)) {
+    return trigger.detailsObj
+      .map((entry: { cron?: unknown }) => {
+        const cron = String(entry?.cron ?? "");
+        const { schedule } = parseCron(cron);
+        return `<div><code>${escapeHtml(cron)}</code> ${schedule ? escapeHtml(explainCron(schedule)) : ""}</div>`;
+      })
+      .join("");
+  }
+  return trigger.detailsObj ? `<code>${escapeHtml(JSON.stringify(trigger.detailsObj))}</code>` : "";
+}
+
+/** HTML document for printing; `svg` is the rendered diagram. */
+export function generateHtmlReport(workflow: Workflow, triggers: TriggerDetail[], jobSteps: JobSteps[], svg: string): string {
+  const title = typeof workflow.name === "string" && workflow.name ? workflow.name : "GitHub Actions Workflow";
+  let html = `<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n<title>${escapeHtml(title)}</title>\n`;
+  html += `<style>${REPORT_STYLE}</style>\n</head>\n<body>\n`;
+  html += `<h1>${escapeHtml(title)}</h1>\n<div class="muted">Generated ${escapeHtml(new Date().toISOString().slice(0, 10))}</div>\n`;
+
+  html += `<h2>Diagram</h2>\n<div class="diagram">${svg}</div>\n`;
+
+  html += `<h2>Triggers</h2>\n`;
+  if (triggers.length === 0) {
+    html += `<p class="muted">No triggers defined.</p>\n`;
+  } else {
+    html += `<table>\n<tr><th>Event</th><th>When</th><th>Details</th></tr>\n`;
+    triggers.forEach(trigger => {
+      html += `<tr><td><b>${escapeHtml(trigger.event)}</b></td><td>${escapeHtml(triggerExamples[trigger.event] || "")}</td>`;
+      html += `<td>${triggerDetail(trigger)}</td></tr>\n`;
+    });
+    html += `</table>\n`;
+  }
+
+  html += `<h2>Jobs</h2>\n`;
+  jobSteps.forEach(job => {
+    html += `<h3>${escapeHtml(job.jobName)}</h3>\n`;
+    if (job.if) html += `<div class="muted">if: <code>${escapeHtml(job.if)}</code></div>\n`;
+    html += `<table>\n<tr><th>Step</th><th>Uses</th><th>Run</th><th>Condition</th></tr>\n`;
+    job.steps.forEach(step => {
+      html += `<tr><td>${escapeHtml(step.name || "")}</td><td><code>${escapeHtml(step.uses || "")}</code></td>`;
+      html += `<td><code>${escapeHtml(step.run || "")}</code></td><td><code>${escapeHtml(step.if || "")}</code></td></tr>\n`;
+    });
+    html += `</table>\n`;
+  });
+
+  return html + `</body>\n</html>\n`;
+}
@@ -0,0 +1,248 @@
+import YAML from "js-yaml";
+import type { FileLocation } from "./github";
+import { ActionDefinition, Job, Step, Workflow, isMapping, parseWorkflow } from "./workflow";
+
+// ------ Reusable workflow and composite action resolution ------
+
+export type UsesReference = {
+  kind: "local" | "remote" | "docker";
+  owner?: string;
+  repo?: string;
+  path: string;
+  ref?: string;
+};
+
+/** Parses `./path`, `owner/repo/path@ref` and `docker://image` references. */
+export function parseUses(uses: string): UsesReference | null {
+  const trimmed = uses.trim();
+  if (trimmed.startsWith("docker://")) return { kind: "docker", path: trimmed.slice("docker://".length) };
+  if (trimmed.startsWith("./")) return { kind: "local", path: trimmed.slice(2).replace(/\/+$/, "") };
+  const match = trimmed.match(/^([^\/@\s]+)\/([^\/@\s]+)(?:\/([^@]*))?@(.+)$/);
+  if (!match) return null;
+  return { kind: "remote", owner: match[1], repo: match[2], path: (match[3] || "").replace(/\/+$/, ""), ref: match[4] };
+}
+
+export function isReusableWorkflowPath(path: string): boolean {
+  return /^\.github\/workflows\/[^\/]+\.ya?ml$/.test(path);
+}
+
+export type FileFetcher = (location: FileLocation) => Promise<string>;
+
+export type CallTree = {
+  // Job-level reusable workflow calls, by job id.
+  jobs: Record<string, CallResolution>;
+  // Step-level action calls, keyed `<jobId>/<stepIndex>` in workflows and
+  // `<stepIndex>` inside composite actions.
+  steps: Record<string, CallResolution>;
+};
+
+export type CallResolution = CallTree & {
+  kind: "workflow" | "action";
+  uses: string;
+  location?: FileLocation;
+  workflow?: Workflow;
+  action?: ActionDefinition;
+  error?: string;
+  cycle?: boolean;
+};
+
+export type ResolveOptions = {
+  // Also fetch `owner/repo@ref` actions, not just `./` ones.
+  remoteActions?: boolean;
+  maxDepth?: number;
+};
+
+const DEFAULT_MAX_DEPTH = 10;
+
+export function locationKey(location: FileLocation): string {
+  return `${location.owner}/${location.repo}/${location.path}@${location.ref ?? ""}`;
+}
+
+/**
+ * Recursively fetches the reusable workflows and actions called from
+ * `workflow`. Local references resolve against `location`'s repository and
+ * ref. A file that is already being resolved further up the chain is marked
+ * as a cycle instead of being fetched again.
+ */
+export async function resolveCalls(
+  workflow: Workflow,
+  location: FileLocation,
+  fetchFile: FileFetcher,
+  options: ResolveOptions = {}
+): Promise<CallTree> {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const cache = new Map<string, Promise<string>>();
+
+  function fetchCached(target: FileLocation): Promise<string> {
+    const key = locationKey(target);
+    if (!cache.has(key)) cache.set(key, fetchFile(target));
+    return cache.get(key)!;
+  }
+
+  function targetOf(reference: UsesReference, at: FileLocation, path: string): FileLocation {
+    return reference.kind === "local"
+      ? { ...at, path }
+      : { owner: reference.owner!, repo: reference.repo!, path, ref: reference.ref };
+  }
+
+  async function resolveSteps(steps: unknown, at: FileLocation, stack: string[], keyPrefix: string, tree: CallTree) {
+    if (!Array.isArray(steps)) return;
+    await Promise.all(steps.map(async (step: Step, i: number) => {
+      if (!step || typeof step.uses !== "string") return;
+      const resolved = await resolveAction(step.uses, at, stack);
+      if (resolved) tree.steps[`${keyPrefix}${i}`] = resolved;
+    }));
+  }
+
+  async function resolveWorkflow(wf: Workflow, at: FileLocation, stack: string[]): Promise<CallTree> {
+    const tree: CallTree = { jobs: {}, steps: {} };
+    const jobs: Record<string, Job> = isMapping(wf.jobs) ? wf.jobs : {};
+    await Promise.all(Object.entries(jobs).map(async ([jobId, job]: [string, Job]) => {
+      if (!job || typeof job !== "object") return;
+      if (typeof job.uses === "string") {
+        tree.jobs[jobId] = await resolveReusableWorkflow(job.uses, at, stack);
+      }
+      await resolveSteps(job.steps, at, stack, `${jobId}/`, tree);
+    }));
+    return tree;
+  }
+
+  async function resolveReusableWorkflow(uses: string, at: FileLocation, stack: string[]): Promise<CallResolution> {
+    const base: CallResolution = { kind: "workflow", uses, jobs: {}, steps: {} };
+    const reference = parseUses(uses);
+    if (!reference || reference.kind === "docker" || !isReusableWorkflowPath(reference.path)) {
+      return { ...base, error: "Not a reusable workflow reference (expected .github/workflows/<file>.yml)." };
+    }
+    const target = targetOf(reference, at, reference.path);
+    const key = locationKey(target);
+    if (stack.includes(key)) return { ...base, location: target, cycle: true };
+    if (stack.length >= maxDepth) return { ...base, location: target, error: `Nesting deeper than ${maxDepth} levels.` };
+    try {
+      const { workflow } = parseWorkflow(await fetchCached(target));
+      if (!workflow) return { ...base, location: target, error: "Called workflow could not be parsed." };
+      const nested = await resolveWorkflow(workflow, target, [...stack, key]);
+      return { ...base, ...nested, location: target, workflow };
+    } catch (err: any) {
+      return { ...base, location: target, error: err?.message ?? "Unknown error fetching workflow." };
+    }
+  }
+
+  async function resolveAction(uses: string, at: FileLocation, stack: string[]): Promise<CallResolution | null> {
+    const reference = parseUses(uses);
+    if (!reference || reference.kind === "docker") return null;
+    if (reference.kind === "remote" && !options.remoteActions) return null;
+
+    const base: CallResolution = { kind: "action", uses, jobs: {}, steps: {} };
+    const directory = reference.path ? `${reference.path}/` : "";
+    const target = targetOf(reference, at, `${directory}action.yml`);
+    const key = locationKey({ ...target, path: reference.path });
+    if (stack.includes(key)) return { ...base, location: target, cycle: true };
+    if (stack.length >= maxDepth) return { ...base, location: target, error: `Nesting deeper than ${maxDepth} levels.` };
+
+    let text: string;
+    let location = target;
+    try {
+      text = await fetchCached(target);
+    } catch {
+      location = { ...target, path: `${directory}action.yaml` };
+      try {
+        text = await fetchCached(location);
+      } catch (err: any) {
+        return { ...base, location: target, error: err?.message ?? "No action.yml or action.yaml found." };
+      }
+    }
+
+    let action: ActionDefinition;
+    try {
+      action = YAML.load(text) as ActionDefinition;
+    } catch (err: any) {
+      return { ...base, location, error: "action.yml could not be parsed: " + (err?.reason ?? err?.message) };
+    }
+    if (!action || typeof action !== "object") {
+      return { ...base, location, error: "action.yml is empty." };
+    }
+    const resolved: CallResolution = { ...base, location, action };
+    if (action.runs?.using === "composite") {
+      await resolveSteps(action.runs.steps, reference.kind === "local" ? at : location, [...stack, key], "", resolved);
+    }
+    return resolved;
+  }
+
+  return resolveWorkflow(workflow, location, [locationKey(location)]);
+}
+
+/**
+ * Identifies the calls a workflow makes and where, so an edit that leaves
+ * them alone can reuse the resolved tree instead of fetching it again.
+ */
+export function callSignature(workflow: Workflow): string {
+  const calls: string[] = [];
+  const jobs: Record<string, Job> = isMapping(workflow.jobs) ? workflow.jobs : {};
+  for (const [jobId, job] of Object.entries(jobs)) {
+    if (!job || typeof job !== "object") continue;
+    if (typeof job.uses === "string") calls.push(`${jobId}:${job.uses}`);
+    if (!Array.isArray(job.steps)) continue;
+    job.steps.forEach((step, i) => {
+      if (step && typeof step.uses === "string") calls.push(`${jobId}/${i}:${step.uses}`);
+    });
+  }
+  return calls.join("\n");
+}
+
+// ------ Call boundary ------
+
+export type BoundaryRow = {
+  kind: "input" | "secret";
+  name: string;
+  // Value passed by the caller; undefined when the callee default applies.
+  value?: string;
+  required: boolean;
+  // False when the callee doesn't declare the name.
+  declared: boolean;
+};
+
+function stringify(value: unknown): string {
+  return typeof value === "object" && value !== null ? JSON.stringify(value) : String(value);
+}
+
+function isRequired(declaration: unknown): boolean {
+  if (!declaration || typeof declaration !== "object") return false;
+  const required = (declaration as { required?: unknown }).required;
+  return required === true || required === "true";
+}
+
+function mapBoundary(
+  kind: BoundaryRow["kind"],
+  provided: Record<string, unknown> | undefined,
+  declared: Record<string, unknown> | undefined
+): BoundaryRow[] {
+  const passed = provided && typeof provided === "object" ? provided : {};
+  const declarations = declared && typeof declared === "object" ? declared : {};
+  const names = Array.from(new Set([...Object.keys(declarations), ...Object.keys(passed)]));
+  return names.map(name => ({
+    kind,
+    name,
+    value: name in passed ? stringify(passed[name]) : undefined,
+    required: isRequired(declarations[name]),
+    declared: name in declarations,
+  }));
+}
+
+/**
+ * Lines up what a caller passes (`with:`, `secrets:`) with what the callee
+ * declares (`on.workflow_call.inputs`/`secrets`, or an action's `inputs`).
+ */
+export function callBoundary(caller: Job | Step, call: CallResolution): BoundaryRow[] {
+  if (call.kind === "action") {
+    return mapBoundary("input", caller.with, call.action?.inputs);
+  }
+  const on = call.workflow?.on;
+  const workflowCall = on && typeof on === "object" && !Array.isArray(on) ? on.workflow_call : undefined;
+  const declarations = workflowCall && !Array.isArray(workflowCall) ? workflowCall : undefined;
+  const rows = mapBoundary("input", caller.with, declarations?.inputs);
+  const secrets = (caller as Job).secrets;
+  if (secrets === "inherit") {
+    return rows.concat({ kind: "secret", name: "inherit", value: "all caller secrets", required: false, declared: true });
+  }
+  return rows.concat(mapBoundary("secret", secrets as Record<string, unknown> | undefined, declarations?.secrets));
+}
@@ -0,0 +1,302 @@
+import { Job, MatrixEntry, RunsOn, Workflow, isMapping } from "./workflow";
+import { expandMatrix, interpolateMatrix } from "./matrix";
+import { matchGlob } from "./glob";
+import { jobWaves } from "./dryRun";
+import type { TimingReport } from "./timings";
+
+// ------ Runners and cost ------
+// What each job runs on, read from `runs-on` per matrix combination, grouped
+// by runner and priced with a per-minute rate table. Durations come from run
+// history when it's loaded, else an assumed time per job.
+
+export type RunnerType = "hosted" | "larger" | "self-hosted" | "group" | "custom" | "reusable" | "unknown";
+
+export type RunnerOs = "linux" | "windows" | "macos";
+
+export type RunnerSpec = {
+  // `ubuntu-latest`, `group: builders, linux`, … as written, after matrix substitution.
+  key: string;
+  labels: string[];
+  group?: string;
+  type: RunnerType;
+  os?: RunnerOs;
+};
+
+/** What the diagram colours a node by. */
+export type RunnerClass = "linux" | "windows" | "macos" | "larger" | "selfHosted" | "group" | "custom";
+
+export const RUNNER_TYPE_LABELS: Record<RunnerType, string> = {
+  hosted: "GitHub-hosted",
+  larger: "Larger runner",
+  "self-hosted": "Self-hosted",
+  group: "Runner group",
+  custom: "Custom label",
+  reusable: "Reusable workflow",
+  unknown: "Not known statically",
+};
+
+export const RUNNER_CLASS_LABELS: Record<RunnerClass, string> = {
+  linux: "Linux",
+  windows: "Windows",
+  macos: "macOS",
+  larger: "Larger runner",
+  selfHosted: "Self-hosted",
+  group: "Runner group",
+  custom: "Custom label",
+};
+
+// Explicit text colours keep labels readable on dark Mermaid themes.
+export const RUNNER_STYLES: Record<RunnerClass, string> = {
+  linux: "fill:#fff9db,stroke:#f59f00,color:#7c4a00",
+  windows: "fill:#e7f5ff,stroke:#1c7ed6,color:#1864ab",
+  macos: "fill:#f1f3f5,stroke:#495057,color:#212529",
+  larger: "fill:#f3f0ff,stroke:#7048e8,color:#5f3dc4",
+  selfHosted: "fill:#ebfbee,stroke:#2f9e44,color:#2b8a3e",
+  group: "fill:#e6fcf5,stroke:#0ca678,color:#087f5b",
+  custom: "fill:#fff0f6,stroke:#d6336c,color:#a61e4d",
+};
+
+// `ubuntu-24.04`, `windows-latest`, `macos-14`, `ubuntu-24.04-arm`: GitHub's standard runners.
+const HOSTED_LABEL = /^(ubuntu|windows|macos)-(latest|\d+(\.\d+)?)(-arm)?$/;
+// `macos-14-xlarge`, `ubuntu-22.04-16core`, `windows-latest-8-cores`: larger runners.
+const LARGER_LABEL = /-(large|xlarge|xl)$|-\d+-?cores?\b/;
+
+function osOf(labels: string[]): RunnerOs | undefined {
+  for (const label of labels) {
+    if (/ubuntu|linux/.test(label)) return "linux";
+    if (/windows/.test(label)) return "windows";
+    if (/mac/.test(label)) return "macos";
+  }
+  return undefined;
+}
+
+function toList(value: unknown): string[] {
+  if (value === undefined || value === null || value === "") return [];
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+/** Classifies a `runs-on` value, with `${{ matrix.* }}` substituted from `entry`. */
+export function runnerSpec(runsOn: RunsOn | undefined, entry: MatrixEntry = {}): RunnerSpec {
+  const isObject = !!runsOn && typeof runsOn === "object" && !Array.isArray(runsOn);
+  const group = isObject && runsOn.group !== undefined ? interpolateMatrix(String(runsOn.group), entry) : undefined;
+  const labels = toList(isObject ? runsOn.labels : runsOn).map(label => interpolateMatrix(label, entry));
+  const key = [group !== undefined ? `group: ${group}` : "", labels.join(", ")].filter(Boolean).join(", ");
+  const lower = labels.map(label => label.toLowerCase());
+  const os = osOf(lower);
+
+  if (!key || [group ?? "", ...labels].some(value => value.includes("${{"))) {
+    return { key: key || "(not set)", labels, group, type: "unknown" };
+  }
+  if (group !== undefined) return { key, labels, group, type: "group", os };
+  if (lower.includes("self-hosted")) return { key, labels, type: "self-hosted", os };
+  if (lower.length === 1 && HOSTED_LABEL.test(lower[0])) return { key, labels, type: "hosted", os };
+  if (lower.length === 1 && LARGER_LABEL.test(lower[0])) return { key, labels, type: "larger", os };
+  return { key, labels, type: "custom", os };
+}
+
+/** The runner each leg of a job runs on: one per matrix combination, or one. */
+export function jobRunners(job: Job): RunnerSpec[] {
+  if (job.uses) return [{ key: `uses: ${job.uses}`, labels: [], type: "reusable" }];
+  const matrix = expandMatrix(job.strategy?.matrix);
+  if (!matrix || matrix.length === 0) return [runnerSpec(job["runs-on"])];
+  return matrix.map(entry => runnerSpec(job["runs-on"], entry));
+}
+
+/** The diagram colour for a runner; none for reusable workflows or runners not known statically. */
+export function runnerClass(spec: RunnerSpec): RunnerClass | null {
+  switch (spec.type) {
+    case "hosted":
+      return spec.os ?? "custom";
+    case "larger":
+      return "larger";
+    case "self-hosted":
+      return "selfHosted";
+    case "group":
+      return "group";
+    case "custom":
+      return "custom";
+    default:
+      return null;
+  }
+}
+
+// ------ Rate table ------
+
+export type RateRule = {
+  // Glob over runner labels; `group:<name>` matches a runner group.
+  pattern: string;
+  // Cost per minute.
+  rate: number;
+};
+
+// GitHub's per-minute list prices in USD. Larger runner names are chosen per
+// organization, so the core-count rules only catch the common `-8-cores` /
+// `-8core` naming.
+export const DEFAULT_RATE_TABLE = `# pattern = cost per minute; the first rule matching one of a runner's labels wins.
+# Runner groups match as group:<name>. Runners no rule matches cost nothing.
+self-hosted = 0
+macos-*-xlarge = 0.16
+macos-*-large = 0.12
+macos-* = 0.08
+windows-*-64*core* = 0.512
+windows-*-32*core* = 0.256
+windows-*-16*core* = 0.128
+windows-*-8*core* = 0.064
+windows-*-4*core* = 0.032
+windows-* = 0.016
+*-64*core* = 0.256
+*-32*core* = 0.128
+*-16*core* = 0.064
+*-8*core* = 0.032
+*-4*core* = 0.016
+ubuntu-*-arm = 0.005
+ubuntu-* = 0.008`;
+
+/** Reads `pattern = rate` lines; `#` starts a comment. Lines that don't parse are reported by number. */
+export function parseRateTable(text: string): { rules: RateRule[]; errors: string[] } {
+  const rules: RateRule[] = [];
+  const errors: string[] = [];
+  text.split("\n").forEach((raw, i) => {
+    const line = raw.replace(/#.*/, "").trim();
+    if (!line) return;
+    const match = line.match(/^(.+?)\s*=\s*(\S+)$/);
+    const rate = match ? Number(match[2]) : NaN;
+    if (!match || !isFinite(rate) || rate < 0) {
+      errors.push(`Line ${i + 1}: expected \`pattern = cost per minute\`.`);
+      return;
+    }
+    rules.push({ pattern: match[1].toLowerCase(), rate });
+  });
+  return { rules, errors };
+}
+
+/** The first rule matching one of the runner's labels (or `group:<name>`), if any. */
+export function matchRate(spec: RunnerSpec, rules: RateRule[]): RateRule | undefined {
+  const candidates = [...(spec.group !== undefined ? [`group:${spec.group}`] : []), ...spec.labels].map(label => label.toLowerCase());
+  return rules.find(rule => candidates.some(label => matchGlob(rule.pattern, label)));
+}
+
+// ------ Report ------
+
+export type RunnerJobUsage = {
+  jobId: string;
+  // Matrix combinations on this runner.
+  legs: number;
+  // A matrix built from an expression: counted as one leg.
+  dynamicMatrix: boolean;
+  minutes: number;
+  // Whether `minutes` comes from run history rather than the assumed time.
+  measured: boolean;
+  cost: number;
+  container?: string;
+  services: string[];
+};
+
+export type RunnerUsage = {
+  runner: RunnerSpec;
+  // The matching rate rule; unset when none matched or the runner isn't known.
+  rule?: RateRule;
+  jobs: RunnerJobUsage[];
+  legs: number;
+  minutes: number;
+  cost: number;
+  // Most legs running at once on this runner, over the run's `needs` waves.
+  peak: number;
+};
+
+export type RunnerReport = {
+  runners: RunnerUsage[];
+  legs: number;
+  minutes: number;
+  // Per run.
+  cost: number;
+};
+
+export type RunnerCostOptions = {
+  rules: RateRule[];
+  // Assumed minutes per job leg without run history.
+  minutesPerJob: number;
+  timings?: TimingReport | null;
+};
+
+/** The image of a job's `container:`, in either form. */
+export function containerImage(job: Job): string | undefined {
+  const container = job.container;
+  if (typeof container === "string") return container || undefined;
+  return container && typeof container.image === "string" ? container.image : undefined;
+}
+
+/** Jobs grouped by runner with leg counts, minutes, cost per run and peak concurrency. */
+export function analyzeRunners(workflow: Workflow, options: RunnerCostOptions): RunnerReport {
+  const jobs: Record<string, Job> = isMapping(workflow.jobs) ? workflow.jobs : {};
+  const byRunner = new Map<string, RunnerUsage>();
+  // Runner key → wave → legs running in it.
+  const waveLegs = new Map<string, Map<number, number>>();
+  const { waves } = jobWaves(jobs);
+  const waveOf = new Map<string, number>();
+  waves.forEach((wave, i) => wave.forEach(jobId => waveOf.set(jobId, i)));
+
+  for (const [jobId, rawJob] of Object.entries(jobs)) {
+    const job: Job = rawJob && typeof rawJob === "object" ? rawJob : {};
+    const legs = jobRunners(job);
+    const dynamicMatrix = !job.uses && !!job.strategy?.matrix && !expandMatrix(job.strategy.matrix);
+    const measured = options.timings?.jobs.find(t => t.jobId === jobId);
+    const counts = new Map<string, { spec: RunnerSpec; legs: number }>();
+    legs.forEach(spec => {
+      const entry = counts.get(spec.key) ?? { spec, legs: 0 };
+      entry.legs++;
+      counts.set(spec.key, entry);
+    });
+
+    counts.forEach(({ spec, legs: count }, key) => {
+      const usage = byRunner.get(key) ?? {
+        runner: spec,
+        rule: spec.type === "reusable" || spec.type === "unknown" ? undefined : matchRate(spec, options.rules),
+        jobs: [],
+        legs: 0,
+        minutes: 0,
+        cost: 0,
+        peak: 0,
+      };
+      const minutes = spec.type === "reusable"
+        ? 0
+        : measured
+        ? (measured.billableMinutes * count) / legs.length
+        : options.minutesPerJob * count;
+      const cost = minutes * (usage.rule?.rate ?? 0);
+      usage.jobs.push({
+        jobId,
+        legs: count,
+        dynamicMatrix,
+        minutes,
+        measured: !!measured,
+        cost,
+        container: containerImage(job),
+        services: job.services && typeof job.services === "object" ? Object.keys(job.services) : [],
+      });
+      usage.legs += count;
+      usage.minutes += minutes;
+      usage.cost += cost;
+      byRunner.set(key, usage);
+
+      const wave = waveOf.get(jobId);
+      if (wave !== undefined) {
+        const perWave = waveLegs.get(key) ?? new Map<number, number>();
+        perWave.set(wave, (perWave.get(wave) ?? 0) + count);
+        waveLegs.set(key, perWave);
+      }
+    });
+  }
+
+  const runners = Array.from(byRunner, ([key, usage]) => ({
+    ...usage,
+    peak: Math.max(0, ...Array.from(waveLegs.get(key)?.values() ?? [])),
+  })).sort((a, b) => b.cost - a.cost || b.minutes - a.minutes || a.runner.key.localeCompare(b.runner.key));
+
+  return {
+    runners,
+    legs: runners.reduce((sum, r) => sum + (r.runner.type === "reusable" ? 0 : r.legs), 0),
+    minutes: runners.reduce((sum, r) => sum + r.minutes, 0),
+    cost: runners.reduce((sum, r) => sum + r.cost, 0),
+  };
+}
@@ -0,0 +1,208 @@
+import { Job, SourcePosition, Step, Workflow, YamlPath, isMapping, locateYamlPath, normalizeTriggers } from "./workflow";
+import { parseUses } from "./resolveCalls";
+import { EXPRESSION_REGEX } from "./expressions";
+
+// ------ Security lint rules ------
+// Based on GitHub's hardening guide:
+// https://docs.github.com/en/actions/security-guides/security-hardening-for-github-actions
+
+export type SecuritySeverity = "high" | "medium" | "low";
+
+export type SecurityRule = {
+  id: string;
+  severity: SecuritySeverity;
+  title: string;
+};
+
+export const SECURITY_RULES: SecurityRule[] = [
+  { id: "unpinned-action", severity: "medium", title: "Action pinned to a mutable tag or branch instead of a commit SHA" },
+  { id: "pr-target-checkout", severity: "high", title: "`pull_request_target` checks out the pull request's code" },
+  { id: "script-injection", severity: "high", title: "Untrusted event data interpolated into a script" },
+  { id: "missing-permissions", severity: "medium", title: "No `permissions:`, so the token gets the repository default" },
+  { id: "broad-permissions", severity: "high", title: "Overly broad `permissions:`" },
+  { id: "secrets-inherit", severity: "medium", title: "`secrets: inherit` passes every secret to the called workflow" },
+];
+
+export type SecurityFinding = SourcePosition & {
+  ruleId: string;
+  severity: SecuritySeverity;
+  message: string;
+  path: YamlPath;
+  // Where to badge the finding on the diagram.
+  jobId?: string;
+  stepIndex?: number;
+};
+
+export type SecurityReport = {
+  findings: SecurityFinding[];
+  // Findings silenced by a `# gha-viz-disable` comment in the file.
+  suppressed: SecurityFinding[];
+};
+
+export const SEVERITY_ORDER: SecuritySeverity[] = ["high", "medium", "low"];
+
+const SHA_REGEX = /^[0-9a-f]{40}$/;
+const FIRST_PARTY_OWNERS = ["actions", "github"];
+const CHECKOUT_ACTION = /^actions\/checkout@/;
+const GITHUB_SCRIPT_ACTION = /^actions\/github-script@/;
+const PR_HEAD_REF = /github\.event\.pull_request\.head\.(ref|sha)|github\.head_ref|refs\/pull\//;
+
+// Event fields an outside contributor controls; see
+// https://securitylab.github.com/research/github-actions-untrusted-input/
+const UNTRUSTED_INPUTS = [
+  /github\.event\.(issue|pull_request|discussion)\.(title|body)\b/,
+  /github\.event\.(comment|review|review_comment)\.body\b/,
+  /github\.event\.pages\b.*\.page_name\b/,
+  /github\.event\.commits\b.*\.(message|author\.(email|name))\b/,
+  /github\.event\.head_commit\.(message|author\.(email|name))\b/,
+  /github\.event\.pull_request\.head\.(ref|label|repo\.default_branch)\b/,
+  /github\.event\.workflow_run\.(head_branch|head_commit\.(message|author\.(email|name)))\b/,
+  /github\.head_ref\b/,
+];
+
+// `# gha-viz-disable: unpinned-action, secrets-inherit`, or a bare
+// `# gha-viz-disable` to silence every rule in the file.
+const SUPPRESSION_REGEX = /#\s*gha-viz-disable\b:?([^\n]*)/g;
+
+function ruleById(id: string): SecurityRule {
+  return SECURITY_RULES.find(rule => rule.id === id)!;
+}
+
+/** Rule ids disabled in `source`; contains "*" when every rule is. */
+export function suppressedRules(source: string): Set<string> {
+  const rules = new Set<string>();
+  for (const match of Array.from(source.matchAll(SUPPRESSION_REGEX))) {
+    const ids = match[1].split(/[\s,]+/).filter(Boolean);
+    if (ids.length === 0) rules.add("*");
+    ids.forEach(id => rules.add(id));
+  }
+  return rules;
+}
+
+/**
+ * Flags risky patterns in a workflow. Findings are positioned in `source`
+ * and sorted by severity, then line.
+ */
+export function lintWorkflowSecurity(workflow: Workflow, source: string): SecurityReport {
+  const findings: SecurityFinding[] = [];
+  const triggers = normalizeTriggers(workflow.on);
+  const jobs = isMapping(workflow.jobs) ? workflow.jobs : {};
+
+  function report(
+    ruleId: string,
+    path: YamlPath,
+    message: string,
+    jobId?: string,
+    stepIndex?: number,
+    severity = ruleById(ruleId).severity
+  ) {
+    findings.push({ ruleId, severity, message, path, jobId, stepIndex, ...locateYamlPath(source, path) });
+  }
+
+  function checkUses(uses: string, path: YamlPath, jobId: string, stepIndex?: number) {
+    const reference = parseUses(uses);
+    if (!reference) return;
+    if (reference.kind === "remote" && !SHA_REGEX.test(reference.ref ?? "")) {
+      // GitHub's own actions are lower risk than third-party ones.
+      const firstParty = FIRST_PARTY_OWNERS.includes(reference.owner!.toLowerCase());
+      report(
+        "unpinned-action",
+        path,
+        `\`${uses}\` is pinned to \`${reference.ref}\`, which can be moved. Pin it to a full commit SHA.`,
+        jobId,
+        stepIndex,
+        firstParty ? "low" : "medium"
+      );
+    }
+    if (reference.kind === "docker" && !reference.path.includes("@sha256:")) {
+      report("unpinned-action", path, `\`${uses}\` is not pinned to an image digest (\`@sha256:…\`).`, jobId, stepIndex);
+    }
+  }
+
+  function checkScript(script: string, path: YamlPath, jobId: string, stepIndex: number) {
+    for (const match of Array.from(script.matchAll(EXPRESSION_REGEX))) {
+      const expression = match[1].trim();
+      if (UNTRUSTED_INPUTS.some(pattern => pattern.test(expression))) {
+        report(
+          "script-injection",
+          path,
+          `\`\${{ ${expression} }}\` is controlled by whoever triggers the workflow and is pasted into the script. Pass it through \`env:\` instead.`,
+          jobId,
+          stepIndex
+        );
+      }
+    }
+  }
+
+  function checkPermissions(permissions: unknown, path: YamlPath, jobId?: string) {
+    if (permissions === "write-all") {
+      report("broad-permissions", path, "`permissions: write-all` grants write access to every scope.", jobId);
+    } else if (!jobId && isMapping(permissions)) {
+      const writes = Object.keys(permissions).filter(scope => permissions[scope] === "write");
+      if (writes.length > 0 && Object.keys(jobs).length > 1) {
+        const scopes = writes.map(scope => `\`${scope}: write\``).join(", ");
+        const message = `Every job gets ${scopes}. Grant write scopes only to the jobs that need them.`;
+        report("broad-permissions", path, message, undefined, undefined, "low");
+      }
+    }
+  }
+
+  const pullRequestTarget = "pull_request_target" in triggers;
+  checkPermissions(workflow.permissions, ["permissions"]);
+
+  for (const [jobId, jobDef] of Object.entries(jobs)) {
+    if (!isMapping(jobDef)) continue;
+    const job = jobDef as Job;
+    const jobPath = ["jobs", jobId];
+
+    if (workflow.permissions === undefined && job.permissions === undefined) {
+      report(
+        "missing-permissions",
+        jobPath,
+        `Job \`${jobId}\` sets no \`permissions:\`, so its token gets the repository default (possibly read/write). Declare the scopes it needs.`,
+        jobId
+      );
+    }
+    checkPermissions(job.permissions, [...jobPath, "permissions"], jobId);
+
+    if (typeof job.uses === "string") checkUses(job.uses, [...jobPath, "uses"], jobId);
+    if (job.secrets === "inherit") {
+      report(
+        "secrets-inherit",
+        [...jobPath, "secrets"],
+        `Job \`${jobId}\` passes every secret to \`${job.uses ?? "the called workflow"}\`. Pass only the secrets it declares.`,
+        jobId
+      );
+    }
+
+    if (!Array.isArray(job.steps)) continue;
+    job.steps.forEach((step: Step, i: number) => {
+      if (!isMapping(step)) return;
+      const stepPath = [...jobPath, "steps", i];
+      if (typeof step.uses === "string") {
+        checkUses(step.uses, [...stepPath, "uses"], jobId, i);
+        const ref = step.with?.ref;
+        if (pullRequestTarget && CHECKOUT_ACTION.test(step.uses) && typeof ref === "string" && PR_HEAD_REF.test(ref)) {
+          report(
+            "pr-target-checkout",
+            [...stepPath, "with", "ref"],
+            "Checks out the pull request's code in a `pull_request_target` workflow, which runs with write access and secrets.",
+            jobId,
+            i
+          );
+        }
+        if (GITHUB_SCRIPT_ACTION.test(step.uses) && typeof step.with?.script === "string") {
+          checkScript(step.with.script, [...stepPath, "with", "script"], jobId, i);
+        }
+      }
+      if (typeof step.run === "string") checkScript(step.run, [...stepPath, "run"], jobId, i);
+    });
+  }
+
+  const suppressed = suppressedRules(source);
+  const isSuppressed = (finding: SecurityFinding) => suppressed.has("*") || suppressed.has(finding.ruleId);
+  const sorted = findings.sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || a.line - b.line || a.column - b.column
+  );
+  return { findings: sorted.filter(f => !isSuppressed(f)), suppressed: sorted.filter(isSuppressed) };
+}
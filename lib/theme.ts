@@ -0,0 +1,106 @@
+import type { Job } from "./workflow";
+
+// ------ Diagram and page theming ------
+// Layout direction, Mermaid theme and job categories for the diagram, and the
+// light and dark palettes the page's inline styles read through `var(--gha-*)`.
+
+export type LayoutDirection = "TD" | "LR";
+
+export type MermaidTheme = "default" | "neutral" | "forest" | "dark" | "base";
+
+export type ColorScheme = "light" | "dark";
+
+export type JobCategory = "build" | "test" | "deploy";
+
+export const LAYOUT_DIRECTIONS: { value: LayoutDirection; label: string }[] = [
+  { value: "TD", label: "Top to bottom" },
+  { value: "LR", label: "Left to right" },
+];
+
+export const MERMAID_THEMES: MermaidTheme[] = ["default", "neutral", "forest", "dark", "base"];
+
+// Words in a job's id or name that place it in a category, checked in order.
+const CATEGORY_WORDS: [JobCategory, string[]][] = [
+  ["deploy", ["deploy", "deployment", "release", "publish", "ship", "rollout", "promote", "provision"]],
+  ["test", ["test", "tests", "e2e", "integration", "unit", "spec", "lint", "check", "checks", "verify", "qa", "coverage"]],
+  ["build", ["build", "compile", "bundle", "package", "assemble", "docker", "image"]],
+];
+
+// Explicit text colours keep labels readable on dark Mermaid themes.
+export const CATEGORY_STYLES: Record<JobCategory, string> = {
+  build: "fill:#e7f5ff,stroke:#1c7ed6,color:#1864ab",
+  test: "fill:#ebfbee,stroke:#2f9e44,color:#2b8a3e",
+  deploy: "fill:#fff4e6,stroke:#f08c00,color:#d9480f",
+};
+
+/**
+ * What kind of work a job does: jobs with an `environment:` deploy, others
+ * go by the first category word in their id or name. Null when nothing matches.
+ */
+export function jobCategory(jobId: string, job: Job): JobCategory | null {
+  if (job.environment) return "deploy";
+  const words = `${jobId} ${job.name ?? ""}`
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/);
+  for (const word of words) {
+    const match = CATEGORY_WORDS.find(([, keywords]) => keywords.includes(word));
+    if (match) return match[0];
+  }
+  return null;
+}
+
+/**
+ * `chart` with an init directive for `theme`, for Mermaid source that is
+ * rendered elsewhere (GitHub, the Mermaid CLI). The default theme needs none.
+ */
+export function withThemeDirective(chart: string, theme: MermaidTheme): string {
+  if (!chart || theme === "default") return chart;
+  return `%%{init: {"theme": "${theme}"}}%%\n${chart}`;
+}
+
+/** The Mermaid theme that suits the page: `dark` on the dark page unless another was picked. */
+export function resolveMermaidTheme(theme: MermaidTheme | "auto", scheme: ColorScheme): MermaidTheme {
+  if (theme !== "auto") return theme;
+  return scheme === "dark" ? "dark" : "default";
+}
+
+// ------ Page palettes ------
+
+export type PaletteColor =
+  | "background"
+  | "surface"
+  | "surface-alt"
+  | "border"
+  | "border-subtle"
+  | "text"
+  | "text-secondary"
+  | "text-muted";
+
+export const PALETTES: Record<ColorScheme, Record<PaletteColor, string>> = {
+  light: {
+    background: "#f6f8fa",
+    surface: "#fff",
+    "surface-alt": "#f9fafb",
+    border: "#ececec",
+    "border-subtle": "#f1f1f1",
+    text: "#1d232a",
+    "text-secondary": "#555",
+    "text-muted": "#888",
+  },
+  dark: {
+    background: "#0d1117",
+    surface: "#161b22",
+    "surface-alt": "#1f252d",
+    border: "#30363d",
+    "border-subtle": "#21262d",
+    text: "#e6edf3",
+    "text-secondary": "#b1bac4",
+    "text-muted": "#8b949e",
+  },
+};
+
+/** CSS custom properties (`--gha-surface`, …) for a scheme, to set on the page's root element. */
+export function paletteVariables(scheme: ColorScheme): Record<string, string> {
+  return Object.fromEntries(Object.entries(PALETTES[scheme]).map(([name, value]) => [`--gha-${name}`, value]));
+}
@@ -0,0 +1,216 @@
+import { Job, Workflow, formatRunsOn, isMapping } from "./workflow";
+
+// ------ Run history timings ------
+// Job durations from past runs, in the shape of GitHub's "list jobs for a
+// workflow run" API (`{ jobs: [...] }`), used for critical path and
+// wall-clock estimates.
+
+export type JobRunRecord = {
+  // As shown in the Actions UI: `name:` or the job id, plus ` (matrix, values)`.
+  name: string;
+  runId?: number;
+  startedAt: number;
+  completedAt: number;
+  // Runner labels the job ran on.
+  labels: string[];
+};
+
+export type JobTiming = {
+  jobId: string;
+  // Runs the job appears in.
+  samples: number;
+  // Wall-clock seconds per run, matrix combinations running in parallel.
+  median: number;
+  p95: number;
+  // Billable minutes per run: every job and matrix combination rounded up to the minute.
+  billableMinutes: number;
+  runner: string;
+};
+
+export type RunnerMinutes = {
+  runner: string;
+  minutes: number;
+};
+
+export type TimingReport = {
+  jobs: JobTiming[];
+  // Job names in the history that match no job in the workflow.
+  unmatched: string[];
+  // Longest chain of `needs` by median duration.
+  criticalPath: string[];
+  wallClock: { median: number; p95: number };
+  runners: RunnerMinutes[];
+};
+
+function toRecord(job: Record<string, unknown>): JobRunRecord | null {
+  const startedAt = typeof job.started_at === "string" ? Date.parse(job.started_at) : NaN;
+  const completedAt = typeof job.completed_at === "string" ? Date.parse(job.completed_at) : NaN;
+  if (typeof job.name !== "string" || isNaN(startedAt) || isNaN(completedAt) || completedAt < startedAt) return null;
+  if (job.conclusion === "skipped") return null;
+  return {
+    name: job.name,
+    runId: typeof job.run_id === "number" ? job.run_id : undefined,
+    startedAt,
+    completedAt,
+    labels: Array.isArray(job.labels) ? job.labels.map(String) : [],
+  };
+}
+
+/**
+ * Reads a run history export: a jobs API response (`{ jobs: [...] }`), a
+ * list of those, or a plain list of jobs. Jobs still running or skipped are
+ * left out.
+ */
+export function parseJobRuns(data: unknown): JobRunRecord[] {
+  const jobs: unknown[] = isMapping(data) && Array.isArray(data.jobs)
+    ? data.jobs
+    : Array.isArray(data)
+    ? data.flatMap(item => (isMapping(item) && Array.isArray(item.jobs) ? item.jobs : [item]))
+    : [];
+  const records = jobs.filter(isMapping).map(toRecord).filter((record): record is JobRunRecord => !!record);
+  if (records.length === 0) {
+    throw new Error("No completed jobs found. Expected the jobs API shape: { \"jobs\": [{ \"name\", \"started_at\", \"completed_at\" }] }.");
+  }
+  return records;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Matches the UI name of a job, e.g. `Build (ubuntu-latest, 18)` or `deploy / release`
+// for a reusable workflow's job, against the workflow's job ids and names.
+function jobIdForRunName(jobs: Record<string, Job>, runName: string): string | null {
+  const name = runName.split(" / ")[0].replace(/ \([^()]*\)$/, "");
+  for (const [jobId, job] of Object.entries(jobs)) {
+    const title = job && typeof job.name === "string" ? job.name : jobId;
+    if (name === jobId || name === title) return jobId;
+    // `Test ${{ matrix.os }}`: expressions match anything.
+    if (title.includes("${{")) {
+      const pattern = title.split(/\$\{\{[\s\S]*?\}\}/).map(escapeRegExp).join(".*");
+      if (new RegExp(`^${pattern}$`).test(runName) || new RegExp(`^${pattern}$`).test(name)) return jobId;
+    }
+  }
+  return null;
+}
+
+function percentile(values: number[], fraction: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)];
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function needsOf(job: Job | undefined): string[] {
+  if (!job || job.needs === undefined) return [];
+  return Array.isArray(job.needs) ? job.needs : [job.needs];
+}
+
+/** Longest chain through `needs`, weighting each job by `durations` (0 when unknown). */
+export function longestPath(jobs: Record<string, Job>, durations: Record<string, number>): { path: string[]; total: number } {
+  const memo = new Map<string, { path: string[]; total: number }>();
+  const visiting = new Set<string>();
+
+  function finish(jobId: string): { path: string[]; total: number } {
+    const cached = memo.get(jobId);
+    if (cached) return cached;
+    // A `needs` cycle is already reported by validation; stop walking it here.
+    if (visiting.has(jobId)) return { path: [], total: 0 };
+    visiting.add(jobId);
+    let best = { path: [] as string[], total: 0 };
+    for (const need of needsOf(jobs[jobId])) {
+      if (!(need in jobs)) continue;
+      const upstream = finish(need);
+      if (upstream.total > best.total || best.path.length === 0) best = upstream;
+    }
+    visiting.delete(jobId);
+    const result = { path: [...best.path, jobId], total: best.total + (durations[jobId] ?? 0) };
+    memo.set(jobId, result);
+    return result;
+  }
+
+  let longest = { path: [] as string[], total: 0 };
+  for (const jobId of Object.keys(jobs)) {
+    const result = finish(jobId);
+    if (result.total > longest.total || longest.path.length === 0) longest = result;
+  }
+  return longest;
+}
+
+/** Per-job duration statistics, the critical path and billable minutes per runner from a run history. */
+export function computeTimings(workflow: Workflow, records: JobRunRecord[]): TimingReport {
+  const jobs: Record<string, Job> = isMapping(workflow.jobs) ? workflow.jobs : {};
+  const unmatched = new Set<string>();
+  // jobId → run → that run's records for the job (one per matrix combination).
+  const byJob = new Map<string, Map<string, JobRunRecord[]>>();
+  records.forEach((record, i) => {
+    const jobId = jobIdForRunName(jobs, record.name);
+    if (!jobId) {
+      unmatched.add(record.name);
+      return;
+    }
+    const runs = byJob.get(jobId) ?? new Map<string, JobRunRecord[]>();
+    const run = record.runId !== undefined ? String(record.runId) : `record-${i}`;
+    runs.set(run, [...(runs.get(run) ?? []), record]);
+    byJob.set(jobId, runs);
+  });
+
+  const timings: JobTiming[] = Array.from(byJob).map(([jobId, runs]) => {
+    const walls: number[] = [];
+    const billable: number[] = [];
+    const labels = new Map<string, number>();
+    runs.forEach(run => {
+      const start = Math.min(...run.map(r => r.startedAt));
+      const end = Math.max(...run.map(r => r.completedAt));
+      walls.push((end - start) / 1000);
+      billable.push(run.reduce((sum, r) => sum + Math.max(1, Math.ceil((r.completedAt - r.startedAt) / 60000)), 0));
+      run.forEach(r => {
+        const label = r.labels.join(", ");
+        if (label) labels.set(label, (labels.get(label) ?? 0) + 1);
+      });
+    });
+    // The most common label set, else what `runs-on` says.
+    const observed = Array.from(labels).sort((a, b) => b[1] - a[1])[0]?.[0];
+    const job = jobs[jobId];
+    return {
+      jobId,
+      samples: runs.size,
+      median: median(walls),
+      p95: percentile(walls, 0.95),
+      billableMinutes: median(billable),
+      runner: observed || (job?.uses ? "reusable workflow" : formatRunsOn(job?.["runs-on"])) || "unknown",
+    };
+  });
+
+  const medians = Object.fromEntries(timings.map(t => [t.jobId, t.median]));
+  const p95s = Object.fromEntries(timings.map(t => [t.jobId, t.p95]));
+  const critical = longestPath(jobs, medians);
+
+  const runners = new Map<string, number>();
+  timings.forEach(t => runners.set(t.runner, (runners.get(t.runner) ?? 0) + t.billableMinutes));
+
+  return {
+    jobs: timings,
+    unmatched: Array.from(unmatched),
+    criticalPath: critical.total > 0 ? critical.path : [],
+    wallClock: { median: critical.total, p95: longestPath(jobs, p95s).total },
+    runners: Array.from(runners, ([runner, minutes]) => ({ runner, minutes })).sort((a, b) => b.minutes - a.minutes),
+  };
+}
+
+/** `200` → "3m 20s". */
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = total % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return rest > 0 ? `${minutes}m ${rest}s` : `${minutes}m`;
+  return `${rest}s`;
+}
@@ -0,0 +1,175 @@
+import { TriggerFilter, Workflow, normalizeTriggers } from "./workflow";
+import { matchPatterns } from "./glob";
+import type { ConditionOutcome } from "./conditions";
+
+// ------ Trigger filter simulation ------
+// "Would this push or pull request run the workflow?", following the
+// `branches`, `tags`, `paths` and `types` rules in
+// https://docs.github.com/en/actions/using-workflows/workflow-syntax-for-github-actions#onpushpull_requestpull_request_targetpathspaths-ignore
+
+export type RefType = "branch" | "tag";
+
+export type SimulatedEvent = {
+  event: string;
+  // The pushed branch or tag; the base branch for pull requests.
+  ref: string;
+  refType: RefType;
+  // Activity type, e.g. `opened` for `pull_request`.
+  type?: string;
+  changedFiles: string[];
+};
+
+export type FilterCheck = {
+  filter: string;
+  // null when the input doesn't say enough to decide.
+  passed: boolean | null;
+  explanation: string;
+};
+
+export type FilterSimulation = {
+  outcome: ConditionOutcome;
+  checks: FilterCheck[];
+};
+
+// Activity types that run a workflow when `types` isn't set; other events run on every type.
+export const DEFAULT_ACTIVITY_TYPES: Record<string, string[]> = {
+  pull_request: ["opened", "synchronize", "reopened"],
+  pull_request_target: ["opened", "synchronize", "reopened"],
+};
+
+// GitHub only compares the first 300 files of a diff against path filters.
+export const MAX_DIFF_FILES = 300;
+
+// Events whose `branches` filter applies, and the branch it is matched against.
+export const BRANCH_FILTER_EVENTS: Record<string, string> = {
+  push: "Pushed branch",
+  pull_request: "Base branch",
+  pull_request_target: "Base branch",
+  workflow_run: "Branch of the triggering run",
+};
+
+export const PATH_FILTER_EVENTS = ["push", "pull_request", "pull_request_target"];
+
+function list(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+function code(values: string[]): string {
+  return values.map(value => `\`${value}\``).join(", ");
+}
+
+function refCheck(filter: TriggerFilter, key: "branches" | "tags", ref: string, otherKeyed: boolean): FilterCheck {
+  const ignoreKey = key === "branches" ? "branches-ignore" : "tags-ignore";
+  const noun = key === "branches" ? "branch" : "tag";
+  if (filter[key]) {
+    const match = matchPatterns(list(filter[key]), ref);
+    return {
+      filter: key,
+      passed: match.matched,
+      explanation: match.matched
+        ? `\`${ref}\` matches \`${match.pattern}\`.`
+        : match.pattern
+        ? `\`${ref}\` is excluded by \`${match.pattern}\`.`
+        : `\`${ref}\` matches none of ${code(list(filter[key]))}.`,
+    };
+  }
+  if (filter[ignoreKey]) {
+    const ignored = list(filter[ignoreKey]).find(pattern => matchPatterns([pattern], ref).matched);
+    return {
+      filter: ignoreKey,
+      passed: !ignored,
+      explanation: ignored ? `\`${ref}\` is ignored by \`${ignored}\`.` : `\`${ref}\` matches none of ${code(list(filter[ignoreKey]))}.`,
+    };
+  }
+  if (otherKeyed) {
+    const other = key === "branches" ? "tags" : "branches";
+    return {
+      filter: key,
+      passed: false,
+      explanation: `Only \`${other}\` filters are set, so ${noun} pushes never run the workflow.`,
+    };
+  }
+  return { filter: key, passed: true, explanation: `No \`${key}\` filter: every ${noun} matches.` };
+}
+
+function pathsCheck(filter: TriggerFilter, changedFiles: string[]): FilterCheck | null {
+  const key = filter.paths ? "paths" : filter["paths-ignore"] ? "paths-ignore" : null;
+  if (!key) return null;
+  if (changedFiles.length === 0) {
+    return { filter: key, passed: null, explanation: `Add the changed files to check the \`${key}\` filter.` };
+  }
+  const files = changedFiles.slice(0, MAX_DIFF_FILES);
+  const truncated = changedFiles.length > MAX_DIFF_FILES ? ` Only the first ${MAX_DIFF_FILES} changed files are compared.` : "";
+
+  if (key === "paths") {
+    const patterns = list(filter.paths);
+    const matches = files.map(file => ({ file, ...matchPatterns(patterns, file) }));
+    const hit = matches.find(m => m.matched);
+    if (hit) return { filter: key, passed: true, explanation: `\`${hit.file}\` matches \`${hit.pattern}\`.${truncated}` };
+    const excluded = matches.find(m => m.pattern);
+    return {
+      filter: key,
+      passed: false,
+      explanation: excluded
+        ? `No changed file matches; \`${excluded.file}\` is excluded by \`${excluded.pattern}\`.${truncated}`
+        : `None of the ${files.length} changed files match ${code(patterns)}.${truncated}`,
+    };
+  }
+
+  const patterns = list(filter["paths-ignore"]);
+  const kept = files.find(file => !patterns.some(pattern => matchPatterns([pattern], file).matched));
+  if (kept) return { filter: key, passed: true, explanation: `\`${kept}\` isn't ignored.${truncated}` };
+  return { filter: key, passed: false, explanation: `Every changed file matches ${code(patterns)}.${truncated}` };
+}
+
+/**
+ * Checks a simulated event against the workflow's trigger filters and
+ * explains which filter let it through or stopped it.
+ */
+export function simulateTriggerFilters(workflow: Workflow, input: SimulatedEvent): FilterSimulation {
+  const triggers = normalizeTriggers(workflow.on);
+  if (!(input.event in triggers)) {
+    return {
+      outcome: "skipped",
+      checks: [{ filter: "on", passed: false, explanation: `The workflow doesn't listen to \`${input.event}\`.` }],
+    };
+  }
+  const config = triggers[input.event];
+  const filter: TriggerFilter = config && typeof config === "object" && !Array.isArray(config) ? config : {};
+  const checks: FilterCheck[] = [{ filter: "on", passed: true, explanation: `The workflow listens to \`${input.event}\`.` }];
+
+  const types = filter.types ? list(filter.types) : DEFAULT_ACTIVITY_TYPES[input.event];
+  if (types && input.type) {
+    const passed = types.includes(input.type);
+    checks.push({
+      filter: "types",
+      passed,
+      explanation: `\`${input.type}\` is ${passed ? "" : "not "}one of ${code(types)}${filter.types ? "" : " (the default types)"}.`,
+    });
+  }
+
+  const isTag = input.event === "push" && input.refType === "tag";
+  if (input.event === "push") {
+    const [key, other] = isTag ? ["tags", "branches"] as const : ["branches", "tags"] as const;
+    const otherKeyed = !!(filter[other] || filter[`${other}-ignore`]) && !filter[key] && !filter[`${key}-ignore`];
+    checks.push(refCheck(filter, key, input.ref, otherKeyed));
+  } else if (input.event in BRANCH_FILTER_EVENTS && (filter.branches || filter["branches-ignore"])) {
+    const check = refCheck(filter, "branches", input.ref, false);
+    checks.push({ ...check, explanation: `${BRANCH_FILTER_EVENTS[input.event]}: ${check.explanation}` });
+  }
+
+  if (PATH_FILTER_EVENTS.includes(input.event)) {
+    if (isTag && (filter.paths || filter["paths-ignore"])) {
+      checks.push({ filter: "paths", passed: true, explanation: "Path filters aren't evaluated for tag pushes." });
+    } else {
+      const check = pathsCheck(filter, input.changedFiles);
+      if (check) checks.push(check);
+    }
+  }
+
+  const outcome = checks.some(check => check.passed === false) ? "skipped"
+    : checks.some(check => check.passed === null) ? "unknown"
+    : "runs";
+  return { outcome, checks };
+}
@@ -0,0 +1,154 @@
+import { Diagnostic, DiagnosticSeverity, Workflow, YamlPath, isMapping, locateYamlPath } from "./workflow";
+import { parseCron } from "./cron";
+
+export const WORKFLOW_KEYS = ["name", "run-name", "on", "permissions", "env", "defaults", "concurrency", "jobs"];
+
+export const JOB_KEYS = [
+  "name", "permissions", "needs", "if", "runs-on", "environment", "concurrency", "outputs", "env",
+  "defaults", "steps", "timeout-minutes", "strategy", "continue-on-error", "container", "services",
+];
+
+// Jobs that call a reusable workflow accept a smaller set of keys.
+export const CALLER_JOB_KEYS = ["name", "uses", "with", "secrets", "needs", "if", "permissions", "concurrency", "strategy"];
+
+export const STEP_KEYS = [
+  "id", "if", "name", "uses", "run", "shell", "with", "env", "continue-on-error", "timeout-minutes",
+  "working-directory",
+];
+
+export const WORKFLOW_EVENTS = [
+  "branch_protection_rule", "check_run", "check_suite", "create", "delete", "deployment",
+  "deployment_status", "discussion", "discussion_comment", "fork", "gollum", "issue_comment", "issues",
+  "label", "merge_group", "milestone", "page_build", "project", "project_card", "project_column", "public",
+  "pull_request", "pull_request_review", "pull_request_review_comment", "pull_request_target", "push",
+  "registry_package", "release", "repository_dispatch", "schedule", "status", "watch", "workflow_call",
+  "workflow_dispatch", "workflow_run",
+];
+
+// Filters GitHub rejects when both halves of a pair are set for the same event.
+const EXCLUSIVE_FILTERS = [["branches", "branches-ignore"], ["tags", "tags-ignore"], ["paths", "paths-ignore"]];
+
+const JOB_ID_REGEX = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/**
+ * Checks a parsed workflow against the GitHub Actions workflow schema and
+ * returns diagnostics positioned in `source`.
+ */
+export function validateWorkflow(workflow: Workflow, source: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  function report(severity: DiagnosticSeverity, path: YamlPath, message: string) {
+    diagnostics.push({ severity, message, path, ...locateYamlPath(source, path) });
+  }
+
+  function checkKeys(value: Record<string, unknown>, allowed: string[], path: YamlPath, where: string) {
+    for (const key of Object.keys(value)) {
+      if (!allowed.includes(key)) {
+        report("error", [...path, key], `Unknown key \`${key}\` in ${where}.`);
+      }
+    }
+  }
+
+  checkKeys(workflow as Record<string, unknown>, WORKFLOW_KEYS, [], "workflow");
+
+  const on: unknown = workflow.on;
+  if (on === undefined || on === null) {
+    report("error", [], "Missing `on`: a workflow needs at least one trigger.");
+  } else {
+    const events = typeof on === "string" ? [on] : Array.isArray(on) ? on : isMapping(on) ? Object.keys(on) : [];
+    events.forEach((event, i) => {
+      if (!WORKFLOW_EVENTS.includes(String(event))) {
+        report("error", isMapping(on) ? ["on", event] : Array.isArray(on) ? ["on", i] : ["on"], `Unknown event \`${event}\`.`);
+      }
+    });
+  }
+
+  if (isMapping(on)) {
+    for (const [event, filter] of Object.entries(on)) {
+      if (!isMapping(filter)) continue;
+      for (const [include, ignore] of EXCLUSIVE_FILTERS) {
+        if (filter[include] !== undefined && filter[ignore] !== undefined) {
+          report("error", ["on", event, ignore], `\`${event}\` can't set both \`${include}\` and \`${ignore}\`; use \`!\` patterns in \`${include}\` instead.`);
+        }
+      }
+    }
+  }
+
+  if (isMapping(on) && on.schedule !== undefined) {
+    const schedule: unknown = on.schedule;
+    if (!Array.isArray(schedule)) {
+      report("error", ["on", "schedule"], "`schedule` must be a list of `- cron: ...` entries.");
+    } else {
+      schedule.forEach((entry: unknown, i: number) => {
+        const cron = isMapping(entry) ? entry.cron : undefined;
+        if (typeof cron !== "string") {
+          report("error", ["on", "schedule", i], `Schedule entry ${i + 1} needs a \`cron\` string.`);
+          return;
+        }
+        const { errors, warnings } = parseCron(cron);
+        errors.forEach(message => report("error", ["on", "schedule", i, "cron"], `Invalid cron \`${cron}\`: ${message}`));
+        warnings.forEach(message => report("warning", ["on", "schedule", i, "cron"], `Cron \`${cron}\`: ${message}`));
+      });
+    }
+  }
+
+  const jobs: unknown = workflow.jobs;
+  if (!isMapping(jobs) || Object.keys(jobs).length === 0) {
+    report("error", jobs === undefined ? [] : ["jobs"], "Missing `jobs`: a workflow needs at least one job.");
+    return diagnostics;
+  }
+
+  for (const [jobId, job] of Object.entries(jobs)) {
+    const jobPath = ["jobs", jobId];
+    if (!JOB_ID_REGEX.test(jobId)) {
+      report("error", jobPath, `Job id \`${jobId}\` must start with a letter or \`_\` and contain only alphanumerics, \`-\` or \`_\`.`);
+    }
+    if (!isMapping(job)) {
+      report("error", jobPath, `Job \`${jobId}\` must be a mapping.`);
+      continue;
+    }
+
+    const isCaller = typeof job.uses === "string";
+    checkKeys(job, isCaller ? CALLER_JOB_KEYS : JOB_KEYS, jobPath, isCaller ? `reusable workflow job \`${jobId}\`` : `job \`${jobId}\``);
+    if (!isCaller && job["runs-on"] === undefined) {
+      report("error", jobPath, `Job \`${jobId}\` is missing \`runs-on\`.`);
+    }
+
+    if (job.needs !== undefined) {
+      const needs = Array.isArray(job.needs) ? job.needs : [job.needs];
+      needs.forEach((need, i) => {
+        const needPath = Array.isArray(job.needs) ? [...jobPath, "needs", i] : [...jobPath, "needs"];
+        if (typeof need !== "string" || !(need in jobs)) {
+          report("error", needPath, `Job \`${jobId}\` needs \`${need}\`, which is not defined in this workflow.`);
+        } else if (need === jobId) {
+          report("error", needPath, `Job \`${jobId}\` cannot depend on itself.`);
+        }
+      });
+    }
+
+    if (isCaller) continue;
+    if (job.steps === undefined) {
+      report("error", jobPath, `Job \`${jobId}\` has no \`steps\`.`);
+      continue;
+    }
+    if (!Array.isArray(job.steps)) {
+      report("error", [...jobPath, "steps"], `\`steps\` of job \`${jobId}\` must be a list.`);
+      continue;
+    }
+    job.steps.forEach((step: unknown, i: number) => {
+      const stepPath = [...jobPath, "steps", i];
+      if (!isMapping(step)) {
+        report("error", stepPath, `Step ${i + 1} of job \`${jobId}\` must be a mapping.`);
+        return;
+      }
+      checkKeys(step, STEP_KEYS, stepPath, `step ${i + 1} of job \`${jobId}\``);
+      if (step.uses !== undefined && step.run !== undefined) {
+        report("error", stepPath, `Step ${i + 1} of job \`${jobId}\` has both \`uses\` and \`run\`; use one or the other.`);
+      } else if (step.uses === undefined && step.run === undefined) {
+        report("error", stepPath, `Step ${i + 1} of job \`${jobId}\` needs either \`uses\` or \`run\`.`);
+      }
+    });
+  }
+
+  return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
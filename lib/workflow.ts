@@ -0,0 +1,314 @@
+import YAML from "js-yaml";
+
+// ------ Workflow model ------
+// Shapes follow https://docs.github.com/en/actions/using-workflows/workflow-syntax-for-github-actions
+
+export type StringMap = Record<string, string>;
+
+export type TriggerFilter = {
+  branches?: string[];
+  "branches-ignore"?: string[];
+  tags?: string[];
+  "tags-ignore"?: string[];
+  paths?: string[];
+  "paths-ignore"?: string[];
+  types?: string[];
+  workflows?: string[];
+  inputs?: Record<string, unknown>;
+  outputs?: Record<string, unknown>;
+  secrets?: Record<string, unknown>;
+};
+
+export type ScheduleEntry = { cron: string };
+
+export type TriggerConfig = TriggerFilter | ScheduleEntry[] | null;
+
+export type WorkflowTriggers = string | string[] | Record<string, TriggerConfig>;
+
+export type MatrixEntry = Record<string, unknown>;
+
+export type Matrix = {
+  include?: MatrixEntry[];
+  exclude?: MatrixEntry[];
+  [key: string]: unknown;
+};
+
+export type Strategy = {
+  matrix?: Matrix | string;
+  "fail-fast"?: boolean | string;
+  "max-parallel"?: number | string;
+};
+
+export type RunsOn = string | string[] | { group?: string; labels?: string | string[] };
+
+export type Environment = string | { name: string; url?: string };
+
+export type Concurrency = string | { group: string; "cancel-in-progress"?: boolean | string };
+
+export type Step = {
+  id?: string;
+  if?: string | boolean;
+  name?: string;
+  uses?: string;
+  run?: string;
+  shell?: string;
+  with?: Record<string, unknown>;
+  env?: StringMap;
+  "continue-on-error"?: boolean | string;
+  "timeout-minutes"?: number | string;
+  "working-directory"?: string;
+};
+
+export type Job = {
+  name?: string;
+  permissions?: string | StringMap;
+  needs?: string | string[];
+  if?: string | boolean;
+  "runs-on"?: RunsOn;
+  environment?: Environment;
+  concurrency?: Concurrency;
+  outputs?: StringMap;
+  env?: StringMap;
+  defaults?: Record<string, unknown>;
+  steps?: Step[];
+  "timeout-minutes"?: number | string;
+  strategy?: Strategy;
+  "continue-on-error"?: boolean | string;
+  container?: string | Record<string, unknown>;
+  services?: Record<string, unknown>;
+  // Reusable workflow calls (`jobs.<id>.uses`)
+  uses?: string;
+  with?: Record<string, unknown>;
+  secrets?: "inherit" | StringMap;
+};
+
+export type Workflow = {
+  name?: string;
+  "run-name"?: string;
+  on?: WorkflowTriggers;
+  permissions?: string | StringMap;
+  env?: StringMap;
+  defaults?: Record<string, unknown>;
+  concurrency?: Concurrency;
+  jobs?: Record<string, Job>;
+};
+
+/** `on:` in its mapping form, whichever of the string/list/mapping forms was written. */
+export function normalizeTriggers(on: WorkflowTriggers | undefined): Record<string, TriggerConfig> {
+  if (!on) return {};
+  if (typeof on === "string") return { [on]: null };
+  if (Array.isArray(on)) return Object.fromEntries(on.map(event => [String(event), null]));
+  if (typeof on === "object") return on;
+  return {};
+}
+
+/** A YAML mapping: an object that isn't a list. */
+export function isMapping(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+export type ActionInput = {
+  description?: string;
+  required?: boolean | string;
+  default?: string;
+};
+
+// action.yml metadata; see https://docs.github.com/en/actions/creating-actions/metadata-syntax-for-github-actions
+export type ActionDefinition = {
+  name?: string;
+  description?: string;
+  inputs?: Record<string, ActionInput>;
+  outputs?: Record<string, unknown>;
+  runs?: {
+    using?: string;
+    steps?: Step[];
+    main?: string;
+    image?: string;
+  };
+};
+
+/** Human-readable `runs-on`, e.g. `ubuntu-latest` or `group: large, linux`. */
+export function formatRunsOn(runsOn: RunsOn | undefined): string {
+  if (!runsOn) return "";
+  if (typeof runsOn === "string") return runsOn;
+  if (Array.isArray(runsOn)) return runsOn.join(", ");
+  const labels = runsOn.labels ? ([] as string[]).concat(runsOn.labels).join(", ") : "";
+  return [runsOn.group ? `group: ${runsOn.group}` : "", labels].filter(Boolean).join(", ");
+}
+
+// ------ Diagnostics ------
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export type YamlPath = (string | number)[];
+
+export type SourcePosition = {
+  line: number; // 1-based
+  column: number; // 1-based
+};
+
+export type Diagnostic = SourcePosition & {
+  severity: DiagnosticSeverity;
+  message: string;
+  path: YamlPath;
+};
+
+export type ParsedWorkflow = {
+  workflow: Workflow | null;
+  diagnostics: Diagnostic[];
+};
+
+/**
+ * Loads workflow YAML. Syntax errors are returned as diagnostics instead of
+ * being thrown, so callers can show them alongside the source.
+ */
+export function parseWorkflow(source: string): ParsedWorkflow {
+  let doc: unknown;
+  try {
+    doc = YAML.load(source);
+  } catch (err: any) {
+    const mark = err?.mark;
+    return {
+      workflow: null,
+      diagnostics: [{
+        severity: "error",
+        message: "YAML syntax error: " + (err?.reason ?? err?.message ?? "Unknown error"),
+        path: [],
+        line: mark ? mark.line + 1 : 1,
+        column: mark ? mark.column + 1 : 1,
+      }],
+    };
+  }
+  if (!doc || typeof doc !== "object" || Array.isArray(doc)) {
+    return {
+      workflow: null,
+      diagnostics: [{
+        severity: "error",
+        message: "A workflow must be a YAML mapping with `on` and `jobs` keys.",
+        path: [],
+        line: 1,
+        column: 1,
+      }],
+    };
+  }
+  return { workflow: doc as Workflow, diagnostics: [] };
+}
+
+// ------ Source positions ------
+// js-yaml does not expose node positions, so paths are resolved against the
+// text by indentation. This covers block-style YAML; anything in flow style
+// (`[a, b]`, `{ a: 1 }`) resolves to the closest enclosing key instead.
+
+type Scope = {
+  start: number; // first line index (inclusive)
+  end: number; // last line index (exclusive)
+  indent: number; // column where the scope's children begin
+  itemLine: number; // line holding the `- ` of a sequence item scope, or -1
+};
+
+const KEY_REGEX = /^(?:"([^"]*)"|'([^']*)'|([^\s"'#:\-?][^:#]*?|-[^\s:#][^:#]*?))\s*:(?:\s|$)/;
+const ITEM_REGEX = /^-(?:\s|$)/;
+
+function leadingSpaces(line: string): number {
+  return line.length - line.replace(/^ +/, "").length;
+}
+
+function isContentLine(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed !== "" && !trimmed.startsWith("#") && trimmed !== "---";
+}
+
+function firstContentIndent(lines: string[], start: number, end: number): number {
+  for (let i = start; i < end; i++) {
+    if (isContentLine(lines[i])) return leadingSpaces(lines[i]);
+  }
+  return -1;
+}
+
+function blockEnd(lines: string[], from: number, limit: number, column: number): number {
+  for (let i = from; i < limit; i++) {
+    if (!isContentLine(lines[i])) continue;
+    const indent = leadingSpaces(lines[i]);
+    // Sequences may sit at the same indentation as their parent key.
+    if (indent < column || (indent === column && !ITEM_REGEX.test(lines[i].trim()))) return i;
+  }
+  return limit;
+}
+
+function findKey(lines: string[], scope: Scope, key: string): SourcePosition & { scope: Scope } | null {
+  for (let i = scope.start; i < scope.end; i++) {
+    const line = lines[i];
+    if (!isContentLine(line)) continue;
+    if (i !== scope.itemLine && leadingSpaces(line) !== scope.indent) continue;
+    const match = line.slice(scope.indent).match(KEY_REGEX);
+    if (!match) continue;
+    const found = match[1] ?? match[2] ?? match[3];
+    if (found.trim() !== key) continue;
+    const end = blockEnd(lines, i + 1, scope.end, scope.indent);
+    const childIndent = firstContentIndent(lines, i + 1, end);
+    return {
+      line: i + 1,
+      column: scope.indent + 1,
+      scope: { start: i + 1, end, indent: childIndent, itemLine: -1 },
+    };
+  }
+  return null;
+}
+
+function findItem(lines: string[], scope: Scope, index: number): SourcePosition & { scope: Scope } | null {
+  let count = 0;
+  for (let i = scope.start; i < scope.end; i++) {
+    const line = lines[i];
+    if (!isContentLine(line) || leadingSpaces(line) !== scope.indent) continue;
+    if (!ITEM_REGEX.test(line.trim())) continue;
+    if (count++ !== index) continue;
+    const end = blockEnd(lines, i + 1, scope.end, scope.indent + 1);
+    const rest = line.slice(scope.indent + 1);
+    if (rest.trim() === "") {
+      // `-` on its own line: the item's content starts on the next line.
+      return {
+        line: i + 1,
+        column: scope.indent + 1,
+        scope: { start: i + 1, end, indent: firstContentIndent(lines, i + 1, end), itemLine: -1 },
+      };
+    }
+    const contentColumn = scope.indent + 1 + leadingSpaces(rest);
+    return {
+      line: i + 1,
+      column: contentColumn + 1,
+      scope: { start: i, end, indent: contentColumn, itemLine: i },
+    };
+  }
+  return null;
+}
+
+/**
+ * Returns the position of the key or sequence item at `path`, or of its
+ * nearest resolvable ancestor when the full path cannot be found.
+ */
+export function locateYamlPath(source: string, path: YamlPath): SourcePosition {
+  const lines = source.split(/\r?\n/);
+  let scope: Scope = {
+    start: 0,
+    end: lines.length,
+    indent: Math.max(firstContentIndent(lines, 0, lines.length), 0),
+    itemLine: -1,
+  };
+  let position: SourcePosition = { line: 1, column: 1 };
+  for (let i = 0; i < lines.length; i++) {
+    if (isContentLine(lines[i])) {
+      position = { line: i + 1, column: leadingSpaces(lines[i]) + 1 };
+      break;
+    }
+  }
+  for (const segment of path) {
+    if (scope.indent < 0) break;
+    const found = typeof segment === "number"
+      ? findItem(lines, scope, segment)
+      : findKey(lines, scope, segment);
+    if (!found) break;
+    position = { line: found.line, column: found.column };
+    scope = found.scope;
+  }
+  return position;
+}
@@ -0,0 +1,184 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { DiagramDetail } from "../../lib/generateMermaid";
+import { LAYOUT_DIRECTIONS, LayoutDirection, MERMAID_THEMES, MermaidTheme } from "../../lib/theme";
+import { FileLocation, fetchRepoFile, parseRepoInfo } from "../../lib/github";
+import {
+  DEFAULT_RENDER_OPTIONS,
+  RENDER_CONTENT_TYPES,
+  RENDER_FORMATS,
+  RenderFormat,
+  RenderOptions,
+  renderWorkflow,
+} from "../../lib/render";
+import { createRenderCache, renderKey } from "../../lib/renderCache";
+import { SvgRenderer, createSvgRenderer } from "../../lib/renderSvg";
+
+// ------ /api/render: workflow diagrams for wikis and PR comments ------
+//
+//   GET  /api/render?repo=owner/repo&path=.github/workflows/ci.yml&ref=main&format=svg
+//   POST /api/render?format=comment   (body: the YAML, or JSON { "yaml": "...", "file": "ci.yml" })
+//
+// Options match `gha-viz render`: format, detail, direction, theme,
+// categories and runners. Workflows from GitHub are fetched with the request's
+// `Authorization` header. The server's GITHUB_TOKEN is only used for the
+// repositories listed in RENDER_TOKEN_REPOS, so callers can't read whatever
+// else it can. Output is cached on a hash of the content and options, which is
+// also the ETag. Files fetched with a token may be private, so only the browser
+// may cache them.
+
+const DETAILS: DiagramDetail[] = ["jobs", "steps", "matrix"];
+const DIRECTIONS = LAYOUT_DIRECTIONS.map(option => option.value);
+// Embeds re-check a GitHub file this often; posted YAML never changes under its hash.
+const REPO_MAX_AGE = 60;
+const SOURCE_MAX_AGE = 86400;
+
+class RequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const cache = createRenderCache();
+
+// One headless browser for the server's lifetime, started by the first SVG request.
+let renderer: Promise<SvgRenderer> | undefined;
+function svgRenderer(): Promise<SvgRenderer> {
+  renderer ??= createSvgRenderer().catch(err => {
+    renderer = undefined;
+    throw err;
+  });
+  return renderer;
+}
+
+// A query parameter, or a field of a JSON body.
+function param(req: NextApiRequest, name: string): string | undefined {
+  const value = req.query[name] ?? (req.body && typeof req.body === "object" ? req.body[name] : undefined);
+  if (Array.isArray(value)) return value[0];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+function choice<T extends string>(value: string | undefined, allowed: T[], name: string, fallback: T): T {
+  if (value === undefined || value === "") return fallback;
+  if (!allowed.includes(value as T)) {
+    throw new RequestError(400, `Unknown ${name} "${value}". Use ${allowed.join(", ")}.`);
+  }
+  return value as T;
+}
+
+function flag(value: string | undefined, fallback: boolean): boolean {
+  return value === undefined ? fallback : value !== "false" && value !== "0";
+}
+
+function parseOptions(req: NextApiRequest): RenderOptions {
+  return {
+    format: choice<RenderFormat>(param(req, "format"), RENDER_FORMATS, "format", DEFAULT_RENDER_OPTIONS.format),
+    detail: choice<DiagramDetail>(param(req, "detail"), DETAILS, "detail", DEFAULT_RENDER_OPTIONS.detail),
+    direction: choice<LayoutDirection>(param(req, "direction")?.toUpperCase(), DIRECTIONS, "direction", DEFAULT_RENDER_OPTIONS.direction),
+    theme: choice<MermaidTheme>(param(req, "theme"), MERMAID_THEMES, "theme", DEFAULT_RENDER_OPTIONS.theme),
+    categories: flag(param(req, "categories"), DEFAULT_RENDER_OPTIONS.categories),
+    runners: flag(param(req, "runners"), DEFAULT_RENDER_OPTIONS.runners),
+  };
+}
+
+// `owner/repo` or any github.com URL of the repository.
+function parseRepo(repo: string): FileLocation | null {
+  const info = parseRepoInfo(repo);
+  if (info) return { ...info, path: "" };
+  const match = repo.match(/^([\w.-]+)\/([\w.-]+)$/);
+  return match ? { owner: match[1], repo: match[2], path: "" } : null;
+}
+
+// RENDER_TOKEN_REPOS: `owner/repo` entries separated by commas or whitespace.
+function serverToken(location: FileLocation): string | undefined {
+  const allowed = (process.env.RENDER_TOKEN_REPOS ?? "").split(/[\s,]+/).filter(Boolean).map(repo => repo.toLowerCase());
+  return allowed.includes(`${location.owner}/${location.repo}`.toLowerCase()) ? process.env.GITHUB_TOKEN || undefined : undefined;
+}
+
+type Source = {
+  source: string;
+  file: string;
+  link?: string;
+  maxAge: number;
+  // Whether shared caches (CDNs, proxies) may keep the output.
+  shared: boolean;
+};
+
+async function loadSource(req: NextApiRequest): Promise<Source> {
+  if (req.method === "POST") {
+    const source = typeof req.body === "string" ? req.body : param(req, "yaml");
+    if (!source || !source.trim()) throw new RequestError(400, "Send the workflow YAML as the request body.");
+    return { source, file: param(req, "file") || "workflow.yml", maxAge: SOURCE_MAX_AGE, shared: true };
+  }
+
+  const repo = param(req, "repo");
+  const path = param(req, "path");
+  if (!repo || !path) throw new RequestError(400, "Pass repo and path, or POST the workflow YAML.");
+  const location = parseRepo(repo);
+  if (!location) throw new RequestError(400, `"${repo}" is not a GitHub repository; use owner/repo.`);
+  location.path = path.replace(/^\/+/, "");
+  location.ref = param(req, "ref") || undefined;
+
+  const auth = req.headers.authorization?.match(/^(?:Bearer|token)\s+(.+)$/i);
+  const token = auth ? auth[1] : serverToken(location);
+  let source: string;
+  try {
+    source = await fetchRepoFile(location, token);
+  } catch (err: any) {
+    throw new RequestError(502, `GitHub: ${err?.message ?? err}`);
+  }
+  return {
+    source,
+    file: location.path,
+    link: `https://github.com/${location.owner}/${location.repo}/blob/${location.ref ?? "HEAD"}/${location.path}`,
+    maxAge: REPO_MAX_AGE,
+    shared: !token,
+  };
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    res.status(405).json({ error: "Use GET or POST." });
+    return;
+  }
+
+  try {
+    const options = parseOptions(req);
+    const { source, file, link, maxAge, shared } = await loadSource(req);
+    options.link = link;
+    const key = renderKey(source, file, options);
+    const etag = `"${key}"`;
+    const setCacheHeaders = () => {
+      res.setHeader("ETag", etag);
+      res.setHeader("Cache-Control", `${shared ? "public" : "private"}, max-age=${maxAge}`);
+    };
+    if (req.headers["if-none-match"] === etag && cache.get(key)) {
+      setCacheHeaders();
+      res.status(304).end();
+      return;
+    }
+
+    let result = cache.get(key);
+    if (!result) {
+      try {
+        result = await renderWorkflow(source, file, options, svgRenderer);
+      } catch (err: any) {
+        // Only SVG rendering throws: the headless browser is missing or failed.
+        throw new RequestError(options.format === "svg" ? 501 : 500, err?.message ?? String(err));
+      }
+      if (result.output !== undefined) cache.set(key, result);
+    }
+
+    if (result.output === undefined) {
+      res.status(422).json({ error: `${file}: ${result.problem}.`, diagnostics: result.diagnostics });
+      return;
+    }
+    setCacheHeaders();
+    res.setHeader("Content-Type", RENDER_CONTENT_TYPES[options.format]);
+    res.setHeader("X-Workflow-Problems", String(result.diagnostics.length));
+    res.status(200).send(result.output);
+  } catch (err: any) {
+    const status = err instanceof RequestError ? err.status : 500;
+    res.status(status).json({ error: err?.message ?? String(err) });
+  }
+}
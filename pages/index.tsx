@@ -1,143 +1,224 @@
-import React, { useState } from "react";
-import YAML from "js-yaml";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import dynamic from "next/dynamic";
 import Head from "next/head";
+import YamlEditor, { YamlEditorHandle } from "../components/YamlEditor";
+import DiagnosticsList from "../components/DiagnosticsList";
+import CallsPanel from "../components/CallsPanel";
+import RepoOverview from "../components/RepoOverview";
+import SecurityPanel from "../components/SecurityPanel";
+import WorkflowCompare, { CompareSide } from "../components/WorkflowCompare";
+import JobInspector from "../components/JobInspector";
+import ScheduleTimeline from "../components/ScheduleTimeline";
+import TriggerSimulator from "../components/TriggerSimulator";
+import DataFlowPanel from "../components/DataFlowPanel";
+import TimingsPanel from "../components/TimingsPanel";
+import DryRunPanel from "../components/DryRunPanel";
+import RunnersPanel from "../components/RunnersPanel";
+import RecentWorkflows from "../components/RecentWorkflows";
+import ActionInventory from "../components/ActionInventory";
+import EnvironmentsPanel from "../components/EnvironmentsPanel";
+import TriggersList from "../components/TriggersList";
+import RepoWorkflowSection from "../components/RepoWorkflowSection";
+import { Diagnostic, Workflow, isMapping } from "../lib/workflow";
+import { validateWorkflow } from "../lib/validateWorkflow";
+import { ConditionSimulation, eventContext, simulateConditions } from "../lib/conditions";
+import { RepoSource, fetchRepoFile, fetchWorkflowJobRuns } from "../lib/github";
+import { CallTree, callSignature, resolveCalls } from "../lib/resolveCalls";
+import { RepoMap, RepoWorkflowFile, buildRepoMap } from "../lib/repoMap";
+import { DiagramDetail, MermaidOptions, generateMermaid, jobIdForNode } from "../lib/generateMermaid";
+import { JobSteps, StepDetail, TriggerDetail, extractJobSteps, extractTriggers, hasLocalCalls } from "../lib/extract";
+import { generateMarkdownDoc } from "../lib/markdown";
+import { buildWorkflowGraph, generateDot } from "../lib/graphExport";
+import { generateHtmlReport } from "../lib/report";
+import { SecurityReport, lintWorkflowSecurity } from "../lib/security";
+import { downstreamJobs, upstreamJobs } from "../lib/jobGraph";
+import { ChangeStatus, JobDiff, StepDiff, WorkflowDiff, diffWorkflows } from "../lib/diff";
+import { DataFlow, analyzeDataFlow } from "../lib/dataFlow";
+import { JobRunRecord, TimingReport, computeTimings, parseJobRuns } from "../lib/timings";
+import { ViewState, decodePermalink, encodePermalink } from "../lib/permalink";
+import { HistoryEntry, clearHistory, loadHistory, rememberWorkflow } from "../lib/history";
+import { CiFormat, ciParser, parseCiDefinition } from "../lib/ciFormats";
+import {
+  LAYOUT_DIRECTIONS,
+  LayoutDirection,
+  MERMAID_THEMES,
+  MermaidTheme,
+  PALETTES,
+  paletteVariables,
+  resolveMermaidTheme,
+  withThemeDirective,
+} from "../lib/theme";
+import { DEFAULT_PREFERENCES, Preferences, loadPreferences, savePreferences } from "../lib/preferences";
 
 const Mermaid = dynamic(() => import("../components/Mermaid"), { ssr: false });
 
-type StepDetail = {
-  name?: string;
-  uses?: string;
-  run?: string;
-};
+const DIAGRAM_DETAILS: { value: DiagramDetail; label: string }[] = [
+  { value: "jobs", label: "Jobs" },
+  { value: "steps", label: "Steps" },
+  { value: "matrix", label: "Matrix" },
+];
 
-type JobSteps = {
-  jobName: string;
-  steps: StepDetail[];
-};
+// Delay after the last keystroke before the diagram is redrawn.
+const LIVE_PREVIEW_DELAY = 400;
 
-type TriggerDetail = {
-  event: string;
-  details?: string;
-  detailsObj?: any;
-};
+// Pixel ratios offered for PNG export.
+const PNG_SCALES = [1, 2, 3];
 
-type Workflow = {
-  name?: string;
-  on?: any;
-  jobs?: Record<string, any>;
-  [key: string]: any;
-};
+// How long "Link copied" shows after copying a permalink.
+const LINK_COPIED_DELAY = 2000;
 
-const triggerExamples: Record<string, string> = {
-  push: "When code is pushed to the repository.",
-  pull_request: "When a pull request is opened or updated.",
-  schedule: "On a schedule (see cron expression below).",
-  issue_comment: "When someone comments on an issue.",
-  workflow_dispatch: "Manual trigger from the GitHub UI.",
-  workflow_call: "Called by another workflow.",
-  release: "When a release is published, edited, or deleted.",
-};
+type Mode = "visualize" | "compare";
 
-function formatTriggerDetail(event: string, detail: any): React.ReactNode {
-  if (!detail || typeof detail !== "object") return null;
-  if (event === "push" || event === "pull_request") {
-    const items: React.ReactNode[] = [];
-    if (detail.branches) {
-      items.push(<li key="branches">Branches: <code>{detail.branches.join(", ")}</code></li>);
-    }
-    if (detail.paths) {
-      items.push(<li key="paths">Paths: <code>{detail.paths.join(", ")}</code></li>);
-    }
-    if (detail.types) {
-      items.push(<li key="types">Types: <code>{detail.types.join(", ")}</code></li>);
-    }
-    return <ul style={{ margin: 0, paddingLeft: 20 }}>{items}</ul>;
-  }
-  if (event === "issue_comment" || event === "release") {
-    if (detail.types) {
-      return <ul style={{ margin: 0, paddingLeft: 20 }}><li>Types: <code>{detail.types.join(", ")}</code></li></ul>;
-    }
-  }
-  if (event === "schedule" && Array.isArray(detail)) {
-    return (
-      <ul style={{ margin: 0, paddingLeft: 20 }}>
-        {detail.map((sched: any, idx: number) =>
-          <li key={idx}>Cron: <code>{sched.cron}</code></li>
-        )}
-      </ul>
-    );
-  }
-  return <pre style={{ background: "#f8f8fa", padding: 8, borderRadius: 5 }}>{JSON.stringify(detail, null, 2)}</pre>;
-}
+const MODES: { value: Mode; label: string }[] = [
+  { value: "visualize", label: "Visualize" },
+  { value: "compare", label: "Compare versions" },
+];
+
+// Translucent, so the tints read on both the light and the dark page.
+const DIFF_COLORS: Record<ChangeStatus, string | undefined> = {
+  added: "rgba(28,167,114,0.14)",
+  removed: "rgba(204,0,0,0.1)",
+  changed: "rgba(224,193,49,0.18)",
+  unchanged: undefined,
+};
 
-function TriggersList({ triggers }: { triggers: TriggerDetail[] }) {
+// A step cell in compare mode: the old value struck through next to the new one.
+function DiffCell({ row, field }: { row: StepDiff; field: keyof StepDetail }) {
+  const before = row.before?.[field];
+  const after = row.after?.[field];
+  const render = (value: string | undefined) => (field === "if" && value ? <code>{value}</code> : value);
+  if (row.status !== "changed" || before === after) return <>{render(after ?? before) || ""}</>;
   return (
-    <section
-      style={{
-        background: "#fff",
-        borderRadius: 12,
-        boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
-        padding: "24px 32px",
-        marginBottom: 32,
-        border: "1px solid #ececec",
-      }}
-    >
-      <h2 style={{ marginTop: 0, fontSize: "1.4rem", borderBottom: "2px solid #eaeaea", paddingBottom: 8 }}>Workflow Triggers</h2>
-      <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
-        {triggers.map((trigger, i) => (
-          <li key={i} style={{ marginBottom: 20, paddingBottom: 14, borderBottom: "1px solid #f3f3f3" }}>
-            <span style={{ fontWeight: 600, fontSize: "1.08rem" }}>{trigger.event}</span>
-            <div style={{ fontStyle: "italic", color: "#555", marginTop: 2 }}>
-              {triggerExamples[trigger.event] || "Triggered by event: " + trigger.event}
-            </div>
-            {trigger.detailsObj && (
-              <div style={{ marginLeft: 18, marginTop: 4 }}>{formatTriggerDetail(trigger.event, trigger.detailsObj)}</div>
-            )}
-          </li>
-        ))}
-      </ul>
-    </section>
+    <>
+      {before && <del style={{ color: "#c00", marginRight: 6 }}>{render(before)}</del>}
+      {render(after)}
+    </>
   );
 }
 
-function JobStepsList({ jobSteps }: { jobSteps: JobSteps[] }) {
+function JobStepsList({
+  jobSteps,
+  simulation,
+  diff,
+  selectedJob,
+}: {
+  jobSteps: JobSteps[];
+  simulation?: ConditionSimulation | null;
+  // Job picked on the diagram, outlined here.
+  selectedJob?: string | null;
+  // Compare mode: per-job step diffs between two versions, instead of `jobSteps`.
+  diff?: JobDiff[];
+}) {
+  const jobs = diff
+    ? diff.map(job => ({
+      jobName: job.id,
+      if: undefined as string | undefined,
+      machine: [] as string[],
+      status: job.status,
+      changes: job.changes,
+      rows: job.steps,
+    }))
+    : jobSteps.map(job => ({
+      jobName: job.jobName,
+      if: job.if,
+      // `runs-on`, container image and services.
+      machine: [
+        job.runsOn ? `runs on ${job.runsOn}` : "",
+        job.container ? `container ${job.container}` : "",
+        job.services ? `services: ${job.services.join(", ")}` : "",
+      ].filter(Boolean),
+      status: undefined,
+      changes: [] as string[],
+      rows: job.steps.map((step): StepDiff => ({ status: "unchanged", after: step, changes: [] })),
+    }));
+
   return (
     <section
       style={{
-        background: "#fff",
+        background: "var(--gha-surface)",
         borderRadius: 12,
         boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
         padding: "24px 32px",
         marginBottom: 32,
-        border: "1px solid #ececec",
+        border: "1px solid var(--gha-border)",
       }}
     >
-      <h2 style={{ marginTop: 0, fontSize: "1.4rem", borderBottom: "2px solid #eaeaea", paddingBottom: 8 }}>Job Step Details</h2>
-      {jobSteps.map(({ jobName, steps }) => (
-        <div key={jobName} style={{ marginBottom: 28 }}>
-          <h3 style={{ marginBottom: 8, fontWeight: 500, fontSize: "1.1rem" }}>{jobName}</h3>
+      <h2 style={{ marginTop: 0, fontSize: "1.4rem", borderBottom: "2px solid var(--gha-border)", paddingBottom: 8 }}>
+        {diff ? "Job Step Changes" : "Job Step Details"}
+      </h2>
+      {jobs.map(({ jobName, if: jobCondition, machine, status, changes, rows }) => (
+        <div
+          key={jobName}
+          id={`job-steps-${jobName}`}
+          style={{
+            marginBottom: 28,
+            opacity: simulation?.jobs[jobName] === "skipped" ? 0.45 : 1,
+            outline: selectedJob === jobName ? "2px solid #3167e0" : undefined,
+            outlineOffset: 8,
+            borderRadius: 4,
+          }}
+        >
+          <h3 style={{ marginBottom: 8, fontWeight: 500, fontSize: "1.1rem" }}>
+            {jobName}
+            {simulation?.jobs[jobName] === "skipped" && (
+              <span style={{ marginLeft: 10, fontSize: "0.85rem", color: "var(--gha-text-muted)", fontWeight: 400 }}>
+                skipped on {simulation.event}
+              </span>
+            )}
+            {status && status !== "unchanged" && (
+              <span style={{ marginLeft: 10, fontSize: "0.85rem", color: "var(--gha-text-secondary)", fontWeight: 400, background: DIFF_COLORS[status], padding: "1px 8px", borderRadius: 4 }}>
+                {status}{changes.length > 0 ? `: ${changes.join(", ")}` : ""}
+              </span>
+            )}
+          </h3>
+          {machine.length > 0 && (
+            <div style={{ marginBottom: 8, fontSize: "0.95rem", color: "var(--gha-text-secondary)" }}>
+              {machine.join(" · ")}
+            </div>
+          )}
+          {jobCondition && (
+            <div style={{ marginBottom: 8, fontSize: "0.95rem", color: "var(--gha-text-secondary)" }}>
+              if: <code>{jobCondition}</code>
+            </div>
+          )}
           <table style={{
             width: "100%",
             borderCollapse: "collapse",
-            background: "#fafafc",
+            background: "var(--gha-surface-alt)",
             borderRadius: 7,
             overflow: "hidden",
             boxShadow: "0 1px 3px rgba(0,0,0,0.03)"
           }}>
             <thead>
               <tr>
-                <th style={{ textAlign: "left", borderBottom: "2px solid #ececec", padding: "8px 10px" }}>Step Name</th>
-                <th style={{ textAlign: "left", borderBottom: "2px solid #ececec", padding: "8px 10px" }}>Uses</th>
-                <th style={{ textAlign: "left", borderBottom: "2px solid #ececec", padding: "8px 10px" }}>Run</th>
+                {diff && <th style={{ textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" }}>Change</th>}
+                <th style={{ textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" }}>Step Name</th>
+                <th style={{ textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" }}>Uses</th>
+                <th style={{ textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" }}>Run</th>
+                <th style={{ textAlign: "left", borderBottom: "2px solid var(--gha-border)", padding: "8px 10px" }}>Condition</th>
               </tr>
             </thead>
             <tbody>
-              {steps.map((step, i) => (
-                <tr key={i}>
-                  <td style={{ padding: "7px 10px", borderBottom: "1px solid #f1f1f1" }}>{step.name || <i>(unnamed)</i>}</td>
-                  <td style={{ padding: "7px 10px", borderBottom: "1px solid #f1f1f1" }}>{step.uses || ""}</td>
-                  <td style={{ padding: "7px 10px", borderBottom: "1px solid #f1f1f1" }}>{step.run || ""}</td>
+              {rows.map((row, i) => (
+                <tr
+                  key={i}
+                  style={{
+                    color: simulation?.steps[jobName]?.[i] === "skipped" ? "var(--gha-text-muted)" : undefined,
+                    background: DIFF_COLORS[row.status],
+                    textDecoration: row.status === "removed" ? "line-through" : undefined,
+                  }}
+                >
+                  {diff && (
+                    <td style={{ padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)" }}>
+                      {row.status === "changed" ? `changed: ${row.changes.join(", ")}` : row.status === "unchanged" ? "" : row.status}
+                    </td>
+                  )}
+                  <td style={{ padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)" }}>
+                    {row.after?.name || row.before?.name ? <DiffCell row={row} field="name" /> : <i>(unnamed)</i>}
+                  </td>
+                  <td style={{ padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)" }}><DiffCell row={row} field="uses" /></td>
+                  <td style={{ padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)" }}><DiffCell row={row} field="run" /></td>
+                  <td style={{ padding: "7px 10px", borderBottom: "1px solid var(--gha-border-subtle)" }}><DiffCell row={row} field="if" /></td>
                 </tr>
               ))}
             </tbody>
@@ -148,232 +229,12 @@ function JobStepsList({ jobSteps }: { jobSteps: JobSteps[] }) {
   );
 }
 
-// --------- Connect to GitHub Repo (Public or Token) ---------
-function RepoWorkflowSection({
-  onWorkflowLoaded,
-}: {
-  onWorkflowLoaded: (yaml: string) => void;
-}) {
-  const [repoUrl, setRepoUrl] = useState("");
-  const [token, setToken] = useState("");
-  const [workflows, setWorkflows] = useState<{ name: string; path: string }[]>([]);
-  const [selectedWorkflow, setSelectedWorkflow] = useState<string>("");
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string>("");
-
-  type GitHubFile = {
-    name: string;
-    path: string;
-    type: string;
-    [key: string]: any;
-  };
-
-  function parseRepoInfo(url: string) {
-    url = url.replace(/\.git$/, "");
-    const match = url.match(/github\.com[:\/]([^\/]+)\/([^\/]+)(\/)?/i);
-    if (!match) return null;
-    return { owner: match[1], repo: match[2] };
-  }
-
-  async function handleFetchWorkflows() {
-    setError("");
-    setWorkflows([]);
-    setSelectedWorkflow("");
-    const info = parseRepoInfo(repoUrl);
-    if (!info) {
-      setError("Invalid GitHub repository URL.");
-      return;
-    }
-    setLoading(true);
-    try {
-      const apiUrl = `https://api.github.com/repos/${info.owner}/${info.repo}/contents/.github/workflows`;
-      const headers: Record<string, string> = {};
-      if (token) headers['Authorization'] = `Bearer ${token}`;
-      const resp = await fetch(apiUrl, { headers });
-      if (!resp.ok) {
-        if (resp.status === 404) {
-          throw new Error("No workflows found or repository does not exist.");
-        } else if (resp.status === 401 || resp.status === 403) {
-          throw new Error("Authentication failed or you do not have permission to access this repository.");
-        } else {
-          throw new Error(`Failed to fetch workflows. HTTP status: ${resp.status}`);
-        }
-      }
-      const files = await resp.json();
-      const ymls = files
-        .filter((f: GitHubFile) =>
-          (f.type === "file") &&
-          (f.name.endsWith(".yml") || f.name.endsWith(".yaml"))
-        )
-        .map((f: GitHubFile) => ({ name: f.name, path: f.path }));
-      if (ymls.length === 0) throw new Error("No workflow files found in this repo.");
-      setWorkflows(ymls);
-    } catch (err: any) {
-      setError(err.message || "Unknown error fetching workflows.");
-    } finally {
-      setLoading(false);
-    }
-  }
-
-  async function handleLoadSelectedWorkflow() {
-    setError("");
-    const info = parseRepoInfo(repoUrl);
-    if (!info || !selectedWorkflow) {
-      setError("Invalid repo or workflow selection.");
-      return;
-    }
-    setLoading(true);
-    try {
-      const apiUrl = `https://api.github.com/repos/${info.owner}/${info.repo}/contents/${selectedWorkflow}`;
-      const headers: Record<string, string> = {};
-      if (token) headers['Authorization'] = `Bearer ${token}`;
-      const resp = await fetch(apiUrl, { headers });
-      if (!resp.ok) {
-        if (resp.status === 404) {
-          throw new Error("Workflow file not found (404).");
-        } else if (resp.status === 401 || resp.status === 403) {
-          throw new Error("Authentication or permission issue (401/403).");
-        } else {
-          throw new Error(`Failed to fetch workflow file (status: ${resp.status}).`);
-        }
-      }
-
-      let yaml: string;
-      const text = await resp.text();
-      try {
-        const file = JSON.parse(text);
-        if (!file.content) throw new Error("Workflow file has no content.");
-        yaml = atob(file.content.replace(/\n/g, ""));
-      } catch (err) {
-        yaml = text;
-      }
-      onWorkflowLoaded(yaml);
-    } catch (err: any) {
-      setError(err.message || "Unknown error loading workflow.");
-    } finally {
-      setLoading(false);
-    }
-  }
-
-  return (
-    <section
-      style={{
-        background: "#fff",
-        borderRadius: 12,
-        boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
-        padding: "24px 32px",
-        marginBottom: 32,
-        border: "1px solid #ececec",
-      }}
-    >
-      <h2 style={{ marginTop: 0, fontSize: "1.4rem", borderBottom: "2px solid #eaeaea", paddingBottom: 8 }}>
-        Connect to GitHub Repo
-      </h2>
-      <div style={{ marginBottom: 10 }}>
-        <input
-          type="text"
-          value={repoUrl}
-          onChange={e => setRepoUrl(e.target.value)}
-          placeholder="Paste GitHub repo URL (e.g. https://github.com/owner/repo)"
-          style={{
-            width: "55%",
-            padding: "9px 12px",
-            fontSize: "1rem",
-            borderRadius: 7,
-            border: "1px solid #e3e8ee",
-            background: "#f9fafb",
-            marginRight: 10,
-            fontFamily: "inherit"
-          }}
-        />
-        <input
-          type="password"
-          value={token}
-          onChange={e => setToken(e.target.value)}
-          placeholder="Personal Access Token (optional for private repos)"
-          style={{
-            width: "35%",
-            padding: "9px 12px",
-            fontSize: "1rem",
-            borderRadius: 7,
-            border: "1px solid #e3e8ee",
-            background: "#f9fafb",
-            fontFamily: "inherit"
-          }}
-        />
-      </div>
-      <div style={{ fontSize: "0.95rem", color: "#888", marginBottom: 10 }}>
-        For private repositories, enter a GitHub Personal Access Token with <code>repo</code> scope. Your token is only used in your browser.
-      </div>
-      <div style={{ marginBottom: 18 }}>
-        <button
-          onClick={handleFetchWorkflows}
-          disabled={loading}
-          style={{
-            padding: "9px 20px",
-            fontWeight: 500,
-            fontSize: "1rem",
-            background: "#3167e0",
-            color: "#fff",
-            border: "none",
-            borderRadius: 7,
-            cursor: "pointer"
-          }}
-        >
-          {loading ? "Loading..." : "Fetch Workflows"}
-        </button>
-      </div>
-      {error && <div style={{ color: "#c00", marginBottom: 14 }}>{error}</div>}
-      {workflows.length > 0 && (
-        <div style={{ marginBottom: 14 }}>
-          <label style={{ fontWeight: 500, marginRight: 8 }}>Select Workflow File:</label>
-          <select
-            value={selectedWorkflow}
-            onChange={e => setSelectedWorkflow(e.target.value)}
-            style={{
-              padding: "8px 12px",
-              fontSize: "1rem",
-              borderRadius: 7,
-              border: "1px solid #e3e8ee",
-              background: "#f9fafb",
-              fontFamily: "inherit",
-              marginRight: 10,
-            }}
-          >
-            <option value="">-- Choose --</option>
-            {workflows.map(f => (
-              <option key={f.path} value={f.path}>{f.name}</option>
-            ))}
-          </select>
-          <button
-            onClick={handleLoadSelectedWorkflow}
-            disabled={loading || !selectedWorkflow}
-            style={{
-              padding: "8px 16px",
-              fontWeight: 500,
-              fontSize: "1rem",
-              background: "#1ca772",
-              color: "#fff",
-              border: "none",
-              borderRadius: 7,
-              cursor: "pointer"
-            }}
-          >
-            {loading ? "Loading..." : "Load Selected Workflow"}
-          </button>
-        </div>
-      )}
-    </section>
-  );
-}
-
 // ------ Export helpers ------
-function exportSVG(svgContent: string, filename?: string) {
-  const blob = new Blob([svgContent], { type: "image/svg+xml" });
+function downloadFile(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
-  a.download = filename || `workflow-diagram-${Date.now()}.svg`;
+  a.download = filename;
   document.body.appendChild(a);
   a.click();
   setTimeout(() => {
@@ -382,133 +243,567 @@ function exportSVG(svgContent: string, filename?: string) {
   }, 100);
 }
 
-// ------ Markdown Export ------
-// Regex to match marketplace actions in the format owner/repo@version
-const MARKETPLACE_ACTION_REGEX = /^([^\/]+)\/([^\/]+)@.+$/;
+function exportSVG(svgContent: string, filename?: string) {
+  downloadFile(new Blob([svgContent], { type: "image/svg+xml" }), filename || `workflow-diagram-${Date.now()}.svg`);
+}
 
-function generateMarkdownDoc(workflow: Workflow, triggers: TriggerDetail[], jobSteps: JobSteps[]): string {
-  let md = `# GitHub Actions Workflow Documentation\n\n`;
+function exportMarkdown(markdown: string, filename?: string) {
+  downloadFile(new Blob([markdown], { type: "text/markdown" }), filename || `workflow-doc-${Date.now()}.md`);
+}
 
-  if (workflow.name) {
-    md += `## Workflow Name\n${workflow.name}\n\n`;
-  }
+function exportText(text: string, type: string, filename: string) {
+  downloadFile(new Blob([text], { type }), filename);
+}
 
-  md += `## Triggers\n`;
-  if (triggers.length === 0) {
-    md += `No triggers defined.\n\n`;
-  } else {
-    triggers.forEach(trigger => {
-      md += `- **${trigger.event}**: ${triggerExamples[trigger.event] || ""}\n`;
-      if (trigger.detailsObj) {
-        md += `  - Details: \`${JSON.stringify(trigger.detailsObj)}\`\n`;
-      }
-    });
-    md += `\n`;
-  }
-
-  md += `## Jobs\n`;
-  jobSteps.forEach(job => {
-    md += `### Job: \`${job.jobName}\`\n`;
-    md += `| Step Name | Uses | Run |\n|---|---|---|\n`;
-    job.steps.forEach(step => {
-      let usesDocLink = "";
-      if (step.uses) {
-        // Suggest link to official action docs if it's a marketplace action
-        const match = step.uses.match(MARKETPLACE_ACTION_REGEX);
-        if (match) {
-          usesDocLink = `([docs](https://github.com/${match[1]}/${match[2]}))`;
-        }
+// Draws the SVG onto a canvas `scale` times its size, on `background`, and encodes it as PNG.
+function rasterizeSvg(svgContent: string, scale: number, background: string): Promise<Blob> {
+  const viewBox = svgContent.match(/viewBox="[-\d.]+ [-\d.]+ ([\d.]+) ([\d.]+)"/);
+  const width = viewBox ? Number(viewBox[1]) : 800;
+  const height = viewBox ? Number(viewBox[2]) : 600;
+  // Mermaid sizes the SVG with `width="100%"`, which gives an image no intrinsic size to scale from.
+  const sized = svgContent.replace(/^<svg\b[^>]*>/, tag =>
+    tag.replace(/\s(width|height)="[^"]*"/g, "").replace(/^<svg/, `<svg width="${width}" height="${height}"`)
+  );
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.ceil(width * scale);
+      canvas.height = Math.ceil(height * scale);
+      const context = canvas.getContext("2d")!;
+      context.fillStyle = background;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      try {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("the browser could not encode the PNG."))), "image/png");
+      } catch {
+        reject(new Error("this browser blocks reading back diagrams with HTML labels; export as SVG instead."));
       }
-      md += `| ${step.name || ""} | ${step.uses ? `${step.uses} ${usesDocLink}` : ""} | ${step.run || ""} |\n`;
-    });
-    md += `\n`;
+    };
+    image.onerror = () => reject(new Error("the diagram could not be loaded as an image."));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(sized)}`;
   });
-
-  md += `## Further Reading\n- [GitHub Actions Documentation](https://docs.github.com/en/actions)\n`;
-
-  return md;
 }
 
-function exportMarkdown(markdown: string, filename?: string) {
-  const blob = new Blob([markdown], { type: "text/markdown" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename || `workflow-doc-${Date.now()}.md`;
-  document.body.appendChild(a);
-  a.click();
-  setTimeout(() => {
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, 100);
+// Prints an HTML document from a hidden frame, so "Save as PDF" in the print dialog gives a PDF.
+function printDocument(html: string) {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.onload = () => {
+    frame.contentWindow?.print();
+    setTimeout(() => document.body.removeChild(frame), 1000);
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
 }
 
+const DISPLAY_SELECT_STYLE: React.CSSProperties = {
+  padding: "5px 10px",
+  fontSize: "0.95rem",
+  borderRadius: 7,
+  border: "1px solid var(--gha-border)",
+  background: "var(--gha-surface-alt)",
+  fontFamily: "inherit",
+};
+
+const EXPORT_BUTTON_STYLE: React.CSSProperties = {
+  padding: "5px 12px",
+  fontSize: "0.92rem",
+  fontWeight: 500,
+  background: "var(--gha-surface-alt)",
+  color: "#3167e0",
+  border: "1px solid var(--gha-border)",
+  borderRadius: 7,
+  cursor: "pointer",
+};
+
 export default function Home() {
   const [yamlInput, setYamlInput] = useState("");
   const [diagram, setDiagram] = useState("");
   const [jobSteps, setJobSteps] = useState<JobSteps[]>([]);
   const [triggers, setTriggers] = useState<TriggerDetail[]>([]);
   const [error, setError] = useState<string>("");
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
   const [svgExport, setSvgExport] = useState<string>("");
+  const [workflow, setWorkflow] = useState<Workflow | null>(null);
+  // GitLab CI and Azure Pipelines definitions are converted to the workflow model; GitHub-only panels are hidden for them.
+  const [ciFormat, setCiFormat] = useState<CiFormat>("github");
+  const [detail, setDetail] = useState<DiagramDetail>("jobs");
+  const [simulatedEvent, setSimulatedEvent] = useState<string>("");
+  const [simulation, setSimulation] = useState<ConditionSimulation | null>(null);
+  const [repoSource, setRepoSource] = useState<RepoSource | null>(null);
+  const [calls, setCalls] = useState<CallTree | null>(null);
+  const [resolving, setResolving] = useState(false);
+  const [remoteActions, setRemoteActions] = useState(false);
+  const [security, setSecurity] = useState<SecurityReport | null>(null);
+  const [dataFlow, setDataFlow] = useState<DataFlow | null>(null);
+  const [showDataFlow, setShowDataFlow] = useState(false);
+  // Run history for the current workflow, imported or fetched from GitHub.
+  const [timingRecords, setTimingRecords] = useState<JobRunRecord[] | null>(null);
+  const [timings, setTimings] = useState<TimingReport | null>(null);
+  const [timingsLoading, setTimingsLoading] = useState(false);
+  const [timingsError, setTimingsError] = useState("");
+  // Job states from the dry run panel, coloured onto the diagram.
+  const [dryRunFills, setDryRunFills] = useState<Record<string, string> | null>(null);
+  // The diagram shows the last valid version while the editor holds an invalid one.
+  const [stale, setStale] = useState(false);
+  // Bumped by every load, so loading the YAML already in the editor still redraws it.
+  const [loads, setLoads] = useState(0);
+  const [selectedJob, setSelectedJob] = useState<string | null>(null);
+  const [hoveredJob, setHoveredJob] = useState<string | null>(null);
+  const [mode, setMode] = useState<Mode>("visualize");
+  const [compareBefore, setCompareBefore] = useState<CompareSide>({ label: "Before", yaml: "", diagnostics: [] });
+  const [compareAfter, setCompareAfter] = useState<CompareSide>({ label: "After", yaml: "", diagnostics: [] });
+  const [compareDiff, setCompareDiff] = useState<WorkflowDiff | null>(null);
+  const [overview, setOverview] = useState<{ map: RepoMap; files: RepoWorkflowFile[]; source: RepoSource } | null>(null);
+  const [recent, setRecent] = useState<HistoryEntry[]>([]);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [pngScale, setPngScale] = useState(2);
+  // Loaded from localStorage after mount; the server render uses the defaults.
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const editorRef = useRef<YamlEditorHandle>(null);
+  const resolveRequest = useRef(0);
+  const resolvedCalls = useRef("");
+  // The URL hash is only rewritten once a permalink in it has been restored.
+  const restored = useRef(false);
+  // Title of the recent workflow being edited, so saving it again updates its entry.
+  const recentTitle = useRef<string | null>(null);
+  // Set by loads and the Visualize button: the next successful draw goes into
+  // the recent list. Live-preview edits don't, or typing a `name:` would save
+  // an entry per prefix.
+  const rememberNext = useRef(false);
+
+  const mermaidTheme = resolveMermaidTheme(preferences.theme, preferences.colorScheme);
+  // Exported Mermaid source carries only a theme picked explicitly; "auto" leaves it to the renderer.
+  const exportTheme: MermaidTheme = preferences.theme === "auto" ? "default" : preferences.theme;
+  const jobs = isMapping(workflow?.jobs) ? workflow.jobs : null;
+  const jobIds = useMemo(() => (jobs ? Object.keys(jobs) : null), [jobs]);
+  const focusedJob = selectedJob ?? hoveredJob;
+  // The focused job and its whole `needs` chain, both ways.
+  const highlightedJobs = useMemo(
+    () => (jobs && focusedJob && focusedJob in jobs
+      ? [focusedJob, ...upstreamJobs(jobs, focusedJob), ...downstreamJobs(jobs, focusedJob)]
+      : null),
+    [jobs, focusedJob]
+  );
+
+  // The simulated trigger's context for the dry run's `if:` conditions.
+  const dryRunContexts = useMemo(() => {
+    const trigger = simulation && triggers.find(t => t.event === simulation.event);
+    return trigger ? eventContext(trigger.event, trigger.detailsObj) : undefined;
+  }, [simulation, triggers]);
+
+  // The editor's workflow as the inventory's only file when no repository overview is loaded.
+  const editorFiles = useMemo(
+    () => [{ path: repoSource?.location.path ?? "workflow", source: yamlInput }],
+    [repoSource, yamlInput]
+  );
+
+  function currentView(): ViewState {
+    return { yaml: yamlInput, detail, event: simulatedEvent, dataFlow: showDataFlow, job: selectedJob };
+  }
+
+  function diagramOptions(overrides: MermaidOptions = {}): MermaidOptions {
+    return {
+      detail,
+      simulation,
+      calls,
+      findings: security?.findings,
+      dataFlow: showDataFlow ? dataFlow : null,
+      timings,
+      direction: preferences.direction,
+      categories: preferences.categories,
+      runners: preferences.runners,
+      ...overrides,
+    };
+  }
+
+  // Fetches called workflows/actions in the background and redraws once they arrive.
+  function startResolving(target: Workflow, options: MermaidOptions, resolveRemote: boolean) {
+    const request = ++resolveRequest.current;
+    setCalls(null);
+    if (!repoSource) return;
+    setResolving(true);
+    resolveCalls(target, repoSource.location, location => fetchRepoFile(location, repoSource.token), {
+      remoteActions: resolveRemote,
+    })
+      .then(tree => {
+        if (request !== resolveRequest.current) return;
+        setCalls(tree);
+        setDiagram(generateMermaid(target, { ...options, calls: tree }));
+      })
+      .catch(err => {
+        if (request === resolveRequest.current) setError(`Could not resolve reusable workflows: ${err.message}`);
+      })
+      .finally(() => {
+        if (request === resolveRequest.current) setResolving(false);
+      });
+  }
+
+  // Runs the whole pipeline on `source`. While it doesn't parse or has no
+  // jobs, the last good diagram stays on screen, marked stale.
+  function visualize(source: string) {
+    const { workflow, diagnostics: parseDiagnostics, format } = parseCiDefinition(source, repoSource?.location.path);
+    if (!workflow) {
+      setDiagnostics(parseDiagnostics);
+      setStale(!!diagram);
+      return;
+    }
+    const isGithub = format === "github";
+    setDiagnostics(isGithub ? validateWorkflow(workflow, source) : parseDiagnostics);
+    const nextSecurity = isGithub ? lintWorkflowSecurity(workflow, source) : null;
+    const nextDataFlow = isGithub ? analyzeDataFlow(workflow, source) : null;
+    const nextTimings = isGithub && timingRecords ? computeTimings(workflow, timingRecords) : null;
+    const workflowTriggers = extractTriggers(workflow);
+    const trigger = isGithub ? workflowTriggers.find(t => t.event === simulatedEvent) : undefined;
+    const nextSimulation = trigger ? simulateConditions(workflow, trigger.event, trigger.detailsObj) : null;
+    // Only fetch called workflows again when the calls themselves changed.
+    const signature = callSignature(workflow);
+    const reuseCalls = !!calls && signature === resolvedCalls.current;
+    const options = diagramOptions({
+      simulation: nextSimulation,
+      calls: reuseCalls ? calls : null,
+      findings: nextSecurity?.findings,
+      dataFlow: showDataFlow ? nextDataFlow : null,
+      timings: nextTimings,
+    });
+    const graph = generateMermaid(workflow, options);
+    if (!graph.startsWith("graph ")) {
+      setStale(!!diagram);
+      if (!diagram) setError("Could not visualize workflow: Invalid or missing jobs section in YAML.");
+      return;
+    }
+
+    setWorkflow(workflow);
+    setCiFormat(format);
+    if (selectedJob && !(workflow.jobs && selectedJob in workflow.jobs)) setSelectedJob(null);
+    setSecurity(nextSecurity);
+    setDataFlow(nextDataFlow);
+    setTimings(nextTimings);
+    if (!trigger) setSimulatedEvent("");
+    setSimulation(nextSimulation);
+    setDiagram(graph);
+    setError("");
+    setStale(false);
+    setJobSteps(extractJobSteps(workflow));
+    setTriggers(workflowTriggers);
+    if (rememberNext.current) {
+      rememberNext.current = false;
+      const title = repoSource
+        ? `${repoSource.location.owner}/${repoSource.location.repo}/${repoSource.location.path}`
+        : recentTitle.current ?? (typeof workflow.name === "string" && workflow.name ? workflow.name : "Untitled workflow");
+      setRecent(rememberWorkflow(recent, { title, yaml: source, savedAt: Date.now() }));
+    }
+    if (!reuseCalls) {
+      resolvedCalls.current = signature;
+      if (isGithub) startResolving(workflow, options, remoteActions);
+      else setCalls(null);
+    }
+  }
+
+  useEffect(() => {
+    if (!yamlInput.trim()) return;
+    const timer = setTimeout(() => visualize(yamlInput), LIVE_PREVIEW_DELAY);
+    return () => clearTimeout(timer);
+    // Re-run only on edits and loads; the other inputs have their own handlers.
+  }, [yamlInput, loads]);
+
+  // Restores a permalink on load, and when one is pasted into this tab's address bar.
+  useEffect(() => {
+    setRecent(loadHistory());
+    setPreferences(loadPreferences());
+    function restoreFromHash() {
+      decodePermalink(window.location.hash)
+        .then(view => {
+          if (view) restoreView(view);
+        })
+        .catch(err => setError(err.message))
+        .finally(() => {
+          restored.current = true;
+        });
+    }
+    restoreFromHash();
+    window.addEventListener("hashchange", restoreFromHash);
+    return () => window.removeEventListener("hashchange", restoreFromHash);
+  }, []);
+
+  // Keeps the URL hash in step with the editor and view settings, so a refresh loses nothing.
+  useEffect(() => {
+    if (!restored.current) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      if (!yamlInput.trim()) {
+        window.history.replaceState(null, "", window.location.pathname + window.location.search);
+        return;
+      }
+      encodePermalink(currentView()).then(hash => {
+        if (!cancelled) window.history.replaceState(null, "", `#${hash}`);
+      });
+    }, LIVE_PREVIEW_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [yamlInput, detail, simulatedEvent, showDataFlow, selectedJob]);
+
+  // The page's margin belongs to <body>, outside <main>, so it follows the scheme too.
+  useEffect(() => {
+    document.body.style.background = PALETTES[preferences.colorScheme].background;
+  }, [preferences.colorScheme]);
+
+  function restoreView(view: ViewState) {
+    handleWorkflowLoaded(view.yaml, null);
+    setMode("visualize");
+    setDetail(view.detail);
+    setShowDataFlow(view.dataFlow);
+    setSimulatedEvent(view.event);
+    setSelectedJob(view.job);
+  }
+
+  async function handleCopyLink() {
+    try {
+      const hash = await encodePermalink(currentView());
+      const { origin, pathname, search } = window.location;
+      await navigator.clipboard.writeText(`${origin}${pathname}${search}#${hash}`);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), LINK_COPIED_DELAY);
+    } catch (err: any) {
+      setError(`Could not copy the link: ${err.message || "clipboard unavailable."}`);
+    }
+  }
+
+  function handleOpenRecent(entry: HistoryEntry) {
+    handleWorkflowLoaded(entry.yaml, null);
+    setMode("visualize");
+    recentTitle.current = entry.title;
+  }
 
-  function handleYamlChange(e: React.ChangeEvent<HTMLTextAreaElement>) {
-    setYamlInput(e.target.value);
+  function handleClearRecent() {
+    setRecent(clearHistory());
   }
 
   function handleVisualize() {
+    rememberNext.current = true;
+    visualize(yamlInput);
+  }
+
+  function handleDetailChange(next: DiagramDetail) {
+    setDetail(next);
+    if (workflow) setDiagram(generateMermaid(workflow, diagramOptions({ detail: next })));
+  }
+
+  function handleDataFlowChange(value: boolean) {
+    setShowDataFlow(value);
+    if (workflow) setDiagram(generateMermaid(workflow, diagramOptions({ dataFlow: value ? dataFlow : null })));
+  }
+
+  function applyTimingRecords(records: JobRunRecord[]) {
+    setTimingRecords(records);
+    setTimingsError("");
+    if (!workflow) return;
+    const report = computeTimings(workflow, records);
+    setTimings(report);
+    setDiagram(generateMermaid(workflow, diagramOptions({ timings: report })));
+  }
+
+  function handleImportTimings(json: string) {
     try {
-      const workflow = YAML.load(yamlInput);
-      const graph = generateMermaid(workflow);
-      if (graph.startsWith("graph ")) {
-        setDiagram(graph);
-        setError("");
-      } else {
-        setDiagram("");
-        setError("Could not visualize workflow: Invalid or missing jobs section in YAML.");
-      }
-      setJobSteps(extractJobSteps(workflow));
-      setTriggers(extractTriggers(workflow));
+      applyTimingRecords(parseJobRuns(JSON.parse(json)));
     } catch (err: any) {
-      setDiagram("");
-      setJobSteps([]);
-      setTriggers([]);
-      setError("Error parsing YAML: " + (err?.message ?? "Unknown error"));
+      setTimingsError(err.message || "Could not read the run history.");
     }
   }
 
+  async function handleFetchTimings() {
+    if (!repoSource) return;
+    setTimingsLoading(true);
+    setTimingsError("");
+    try {
+      applyTimingRecords(parseJobRuns(await fetchWorkflowJobRuns(repoSource.location, repoSource.token)));
+    } catch (err: any) {
+      setTimingsError(err.message || "Unknown error fetching runs.");
+    } finally {
+      setTimingsLoading(false);
+    }
+  }
+
+  function handleClearTimings() {
+    setTimingRecords(null);
+    setTimings(null);
+    setTimingsError("");
+    if (workflow) setDiagram(generateMermaid(workflow, diagramOptions({ timings: null })));
+  }
+
+  function handleSimulatedEventChange(event: string) {
+    setSimulatedEvent(event);
+    if (!workflow) return;
+    const trigger = triggers.find(t => t.event === event);
+    const nextSimulation = trigger ? simulateConditions(workflow, trigger.event, trigger.detailsObj) : null;
+    setSimulation(nextSimulation);
+    setDiagram(generateMermaid(workflow, diagramOptions({ simulation: nextSimulation })));
+  }
+
+  function updatePreferences(changes: Partial<Preferences>) {
+    const next = { ...preferences, ...changes };
+    setPreferences(next);
+    savePreferences(next);
+    const redraw = next.direction !== preferences.direction
+      || next.categories !== preferences.categories
+      || next.runners !== preferences.runners;
+    if (workflow && redraw) {
+      setDiagram(generateMermaid(workflow, diagramOptions({
+        direction: next.direction,
+        categories: next.categories,
+        runners: next.runners,
+      })));
+    }
+  }
+
+  function handleRemoteActionsChange(value: boolean) {
+    setRemoteActions(value);
+    if (workflow) startResolving(workflow, diagramOptions({ calls: null }), value);
+  }
+
   function handleClear() {
     setYamlInput("");
+    setWorkflow(null);
+    setSimulation(null);
+    setRepoSource(null);
+    setCalls(null);
+    setSecurity(null);
+    setDataFlow(null);
+    setTimingRecords(null);
+    setTimings(null);
+    setTimingsError("");
+    setDryRunFills(null);
+    setSelectedJob(null);
+    setStale(false);
+    resolvedCalls.current = "";
+    recentTitle.current = null;
     setDiagram("");
     setJobSteps([]);
     setTriggers([]);
     setError("");
+    setDiagnostics([]);
     setSvgExport("");
   }
 
-  function handleWorkflowLoaded(yaml: string) {
+  // `source` is null for workflows that didn't come from GitHub, such as a permalink.
+  function handleWorkflowLoaded(yaml: string, source: RepoSource | null) {
+    rememberNext.current = true;
     setYamlInput(yaml);
+    setLoads(count => count + 1);
+    setRepoSource(source);
+    setWorkflow(null);
+    setSimulation(null);
+    setCalls(null);
+    setSecurity(null);
+    setDataFlow(null);
+    setTimingRecords(null);
+    setTimings(null);
+    setTimingsError("");
+    setDryRunFills(null);
+    setSelectedJob(null);
+    setStale(false);
+    resolvedCalls.current = "";
+    recentTitle.current = null;
     setDiagram("");
     setJobSteps([]);
     setTriggers([]);
     setError("");
+    setDiagnostics([]);
     setSvgExport("");
   }
 
+  function handleOverviewLoaded(files: RepoWorkflowFile[], source: RepoSource) {
+    setOverview({ map: buildRepoMap(files), files, source });
+  }
+
+  function handleOpenOverviewWorkflow(path: string) {
+    if (!overview) return;
+    const file = overview.files.find(f => f.path === path);
+    if (!file) return;
+    handleWorkflowLoaded(file.source, { ...overview.source, location: { ...overview.source.location, path } });
+  }
+
+  function handleNodeClick(nodeId: string) {
+    const jobId = jobIds ? jobIdForNode(jobIds, nodeId) : null;
+    if (!jobId) return;
+    setSelectedJob(jobId);
+    document.getElementById(`job-steps-${jobId}`)?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }
+
+  function handleNodeHover(nodeId: string | null) {
+    setHoveredJob(jobIds && nodeId ? jobIdForNode(jobIds, nodeId) : null);
+  }
+
+  function compareWorkflows(before: CompareSide, after: CompareSide) {
+    const parse = (side: CompareSide) => {
+      const { workflow, diagnostics, format } = parseCiDefinition(side.yaml);
+      const validated = workflow && format === "github" ? validateWorkflow(workflow, side.yaml) : diagnostics;
+      return { workflow, side: { ...side, diagnostics: validated } };
+    };
+    const oldVersion = parse(before);
+    const newVersion = parse(after);
+    setCompareBefore(oldVersion.side);
+    setCompareAfter(newVersion.side);
+    setCompareDiff(oldVersion.workflow && newVersion.workflow ? diffWorkflows(oldVersion.workflow, newVersion.workflow) : null);
+  }
+
+  function handleCompareLoaded(before: CompareSide, after: CompareSide) {
+    setMode("compare");
+    compareWorkflows(before, after);
+  }
+
   function handleExportSVG() {
     if (!svgExport) return;
     exportSVG(svgExport);
   }
 
   function handleExportMarkdown() {
+    const { workflow, format } = parseCiDefinition(yamlInput, repoSource?.location.path);
+    if (!workflow) {
+      setError("Error exporting markdown: the workflow YAML could not be parsed.");
+      return;
+    }
+    const findings = format === "github" ? lintWorkflowSecurity(workflow, yamlInput).findings : undefined;
+    exportMarkdown(generateMarkdownDoc(workflow, triggers, jobSteps, findings, withThemeDirective(diagram, exportTheme)));
+  }
+
+  async function handleExportPNG() {
+    if (!svgExport) return;
     try {
-      const workflow = YAML.load(yamlInput) as Workflow;
-      const md = generateMarkdownDoc(workflow, triggers, jobSteps);
-      exportMarkdown(md);
+      const background = mermaidTheme === "dark" ? PALETTES.dark.surface : "#fff";
+      downloadFile(await rasterizeSvg(svgExport, pngScale, background), `workflow-diagram-${Date.now()}.png`);
     } catch (err: any) {
-      setError("Error exporting markdown: " + (err?.message ?? "Unknown error"));
+      setError(`Error exporting PNG: ${err.message}`);
     }
   }
 
+  function handleExportPDF() {
+    if (!workflow || !svgExport) return;
+    printDocument(generateHtmlReport(workflow, triggers, jobSteps, svgExport));
+  }
+
+  function handleExportMermaid() {
+    exportText(withThemeDirective(diagram, exportTheme), "text/plain", `workflow-diagram-${Date.now()}.mmd`);
+  }
+
+  function handleExportDot() {
+    if (!workflow) return;
+    const dot = generateDot(buildWorkflowGraph(workflow, detail), preferences.direction);
+    exportText(dot, "text/vnd.graphviz", `workflow-graph-${Date.now()}.dot`);
+  }
+
+  function handleExportGraphJSON() {
+    if (!workflow) return;
+    const graph = JSON.stringify(buildWorkflowGraph(workflow, detail), null, 2) + "\n";
+    exportText(graph, "application/json", `workflow-graph-${Date.now()}.json`);
+  }
+
   return (
     <>
       <Head>
@@ -519,212 +814,395 @@ export default function Home() {
       </Head>
       <main
         style={{
+          ...paletteVariables(preferences.colorScheme),
           fontFamily: "'Inter', Arial, Helvetica, sans-serif",
-          background: "#f6f8fa",
+          background: "var(--gha-background)",
+          color: "var(--gha-text)",
+          colorScheme: preferences.colorScheme,
           minHeight: "100vh",
           padding: 0,
         }}
       >
         <div style={{ maxWidth: 900, margin: "auto", padding: 32 }}>
-          <h1 style={{
-            fontWeight: 700,
-            fontSize: "2.05rem",
-            letterSpacing: "-1px",
-            marginBottom: 10,
-            color: "#1d232a"
-          }}>
-            GitHub Actions Workflow Visualizer
-          </h1>
-          <RepoWorkflowSection onWorkflowLoaded={handleWorkflowLoaded} />
-          <textarea
-            value={yamlInput}
-            onChange={handleYamlChange}
-            rows={12}
-            style={{
-              width: "100%",
-              marginBottom: 12,
-              fontFamily: "inherit",
-              fontSize: "1.07rem",
-              border: "1px solid #e3e8ee",
-              borderRadius: 8,
-              padding: "13px 16px",
-              background: "#f9fafb",
-              color: "#20232a",
-              boxShadow: "0 0.5px 2px rgba(0,0,0,0.03)"
-            }}
-            placeholder="Paste your GitHub Actions workflow YAML here..."
-          />
-          <div style={{ display: "flex", gap: 10, marginBottom: 18, marginTop: 2 }}>
-            <button
-              onClick={handleVisualize}
-              style={{
-                padding: "9px 22px",
-                fontWeight: 500,
-                fontSize: "1rem",
-                background: "#3167e0",
-                color: "#fff",
-                border: "none",
-                borderRadius: 7,
-                boxShadow: "0 2px 6px rgba(49,103,224,0.09)",
-                cursor: "pointer"
-              }}
-            >
-              Visualize Workflow
-            </button>
+          <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 12 }}>
+            <h1 style={{
+              fontWeight: 700,
+              fontSize: "2.05rem",
+              letterSpacing: "-1px",
+              marginBottom: 10,
+              color: "var(--gha-text)"
+            }}>
+              GitHub Actions Workflow Visualizer
+            </h1>
             <button
-              onClick={handleClear}
-              style={{
-                padding: "9px 22px",
-                fontWeight: 500,
-                fontSize: "1rem",
-                background: "#f3f4f7",
-                color: "#3167e0",
-                border: "1px solid #e3e8ee",
-                borderRadius: 7,
-                cursor: "pointer"
-              }}
+              onClick={() => updatePreferences({ colorScheme: preferences.colorScheme === "dark" ? "light" : "dark" })}
+              title="Switch between the light and dark page"
+              style={{ ...EXPORT_BUTTON_STYLE, flexShrink: 0 }}
             >
-              Clear
+              {preferences.colorScheme === "dark" ? "☀ Light mode" : "☾ Dark mode"}
             </button>
           </div>
-          <div style={{ marginTop: 8 }}>
-            {error && (
-              <section
-                style={{
-                  color: "#c00",
-                  background: "#fff8f8",
-                  borderRadius: 8,
-                  padding: 16,
-                  marginBottom: 24,
-                  border: "1px solid #ffbaba",
-                }}
-              >
-                <strong>{error}</strong>
-              </section>
-            )}
-            {diagram && (
-              <section
+          <RepoWorkflowSection
+            onWorkflowLoaded={handleWorkflowLoaded}
+            onOverviewLoaded={handleOverviewLoaded}
+            onCompareLoaded={handleCompareLoaded}
+          />
+          {overview && <RepoOverview map={overview.map} onOpenWorkflow={handleOpenOverviewWorkflow} theme={mermaidTheme} />}
+          {overview && <ScheduleTimeline workflows={overview.map.workflows} onOpenWorkflow={handleOpenOverviewWorkflow} />}
+          {overview && <ActionInventory files={overview.files} onSelect={usage => handleOpenOverviewWorkflow(usage.file)} />}
+          {overview && <EnvironmentsPanel files={overview.files} onSelect={handleOpenOverviewWorkflow} />}
+          <div style={{ display: "flex", gap: 6, alignItems: "center", marginBottom: 12 }}>
+            {MODES.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setMode(option.value)}
                 style={{
-                  background: "#fff",
-                  borderRadius: 12,
-                  boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
-                  padding: "24px 32px",
-                  marginBottom: 32,
-                  border: "1px solid #ececec",
+                  padding: "5px 14px",
+                  fontSize: "0.95rem",
+                  fontWeight: 500,
+                  background: mode === option.value ? "#3167e0" : "var(--gha-surface-alt)",
+                  color: mode === option.value ? "#fff" : "#3167e0",
+                  border: "1px solid var(--gha-border)",
+                  borderRadius: 7,
+                  cursor: "pointer"
                 }}
               >
-                <h2 style={{
-                  marginTop: 0,
-                  fontSize: "1.4rem",
-                  borderBottom: "2px solid #eaeaea",
-                  paddingBottom: 8,
-                  marginBottom: 20
-                }}>Workflow Diagram</h2>
-                <div>
-                  <Mermaid chart={diagram} onExportReady={setSvgExport} />
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {mode === "compare" ? (
+            <>
+              <WorkflowCompare
+                before={compareBefore}
+                after={compareAfter}
+                diff={compareDiff}
+                onBeforeChange={yaml => setCompareBefore({ ...compareBefore, yaml })}
+                onAfterChange={yaml => setCompareAfter({ ...compareAfter, yaml })}
+                onCompare={() => compareWorkflows(compareBefore, compareAfter)}
+                theme={mermaidTheme}
+              />
+              {compareDiff && compareDiff.jobs.length > 0 && <JobStepsList jobSteps={[]} diff={compareDiff.jobs} />}
+            </>
+          ) : (
+            <>
+              <div style={{ display: "flex", gap: 12, alignItems: "flex-start" }}>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <YamlEditor
+                    ref={editorRef}
+                    value={yamlInput}
+                    onChange={setYamlInput}
+                    diagnostics={diagnostics}
+                    placeholder="Paste your GitHub Actions workflow YAML here..."
+                  />
                 </div>
-                <div style={{ marginTop: 18, display: "flex", gap: 16 }}>
-                  <button
-                    onClick={handleExportSVG}
-                    disabled={!svgExport}
+                {diagnostics.length > 0 && (
+                  <div style={{ width: 300, flexShrink: 0 }}>
+                    <DiagnosticsList
+                      diagnostics={diagnostics}
+                      onSelect={d => editorRef.current?.revealLine(d.line)}
+                    />
+                  </div>
+                )}
+              </div>
+              <div style={{ display: "flex", gap: 10, marginBottom: 18, marginTop: 2 }}>
+                <button
+                  onClick={handleVisualize}
+                  style={{
+                    padding: "9px 22px",
+                    fontWeight: 500,
+                    fontSize: "1rem",
+                    background: "#3167e0",
+                    color: "#fff",
+                    border: "none",
+                    borderRadius: 7,
+                    boxShadow: "0 2px 6px rgba(49,103,224,0.09)",
+                    cursor: "pointer"
+                  }}
+                >
+                  Visualize Workflow
+                </button>
+                <button
+                  onClick={handleClear}
+                  style={{
+                    padding: "9px 22px",
+                    fontWeight: 500,
+                    fontSize: "1rem",
+                    background: "var(--gha-surface-alt)",
+                    color: "#3167e0",
+                    border: "1px solid var(--gha-border)",
+                    borderRadius: 7,
+                    cursor: "pointer"
+                  }}
+                >
+                  Clear
+                </button>
+                <RecentWorkflows entries={recent} onOpen={handleOpenRecent} onClear={handleClearRecent} />
+              </div>
+              <div style={{ marginTop: 8 }}>
+                {error && (
+                  <section
                     style={{
-                      padding: "7px 18px",
-                      fontWeight: 500,
-                      fontSize: "1rem",
-                      background: "#2c5aa0",
-                      color: "#fff",
-                      border: "none",
-                      borderRadius: 7,
-                      cursor: "pointer"
+                      color: "#c00",
+                      background: "#fff8f8",
+                      borderRadius: 8,
+                      padding: 16,
+                      marginBottom: 24,
+                      border: "1px solid #ffbaba",
                     }}
                   >
-                    Export as SVG
-                  </button>
-                  <button
-                    onClick={handleExportMarkdown}
+                    <strong>{error}</strong>
+                  </section>
+                )}
+                {diagram && (
+                  <section
                     style={{
-                      padding: "7px 18px",
-                      fontWeight: 500,
-                      fontSize: "1rem",
-                      background: "#e0c131",
-                      color: "#fff",
-                      border: "none",
-                      borderRadius: 7,
-                      cursor: "pointer"
+                      background: "var(--gha-surface)",
+                      borderRadius: 12,
+                      boxShadow: "0 2px 6px rgba(0,0,0,0.04)",
+                      padding: "24px 32px",
+                      marginBottom: 32,
+                      border: "1px solid var(--gha-border)",
                     }}
                   >
-                    Export as Markdown
-                  </button>
-                </div>
-              </section>
-            )}
-            {jobSteps.length > 0 && <JobStepsList jobSteps={jobSteps} />}
-            {/* Future features can go here! */}
-          </div>
+                    <h2 style={{
+                      marginTop: 0,
+                      fontSize: "1.4rem",
+                      borderBottom: "2px solid var(--gha-border)",
+                      paddingBottom: 8,
+                      marginBottom: 14
+                    }}>Workflow Diagram</h2>
+                    {ciFormat !== "github" && (
+                      <div style={{ color: "var(--gha-text-secondary)", fontSize: "0.92rem", marginBottom: 12 }}>
+                        Detected a {ciParser(ciFormat).label} pipeline. Stages are drawn as dependencies between jobs, and
+                        GitHub-specific checks are skipped.
+                      </div>
+                    )}
+                    {stale && (
+                      <div style={{ color: "#a67c00", fontSize: "0.92rem", marginBottom: 12 }}>
+                        Showing the last valid version of the workflow; fix the problems in the editor to update it.
+                      </div>
+                    )}
+                    <div style={{ display: "flex", gap: 6, alignItems: "center", marginBottom: 16 }}>
+                      <span style={{ fontWeight: 500, marginRight: 4 }}>Detail:</span>
+                      {DIAGRAM_DETAILS.map(option => (
+                        <button
+                          key={option.value}
+                          onClick={() => handleDetailChange(option.value)}
+                          style={{
+                            padding: "5px 14px",
+                            fontSize: "0.95rem",
+                            fontWeight: 500,
+                            background: detail === option.value ? "#3167e0" : "var(--gha-surface-alt)",
+                            color: detail === option.value ? "#fff" : "#3167e0",
+                            border: "1px solid var(--gha-border)",
+                            borderRadius: 7,
+                            cursor: "pointer"
+                          }}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                      {triggers.length > 0 && ciFormat === "github" && (
+                        <>
+                          <span style={{ fontWeight: 500, marginLeft: 18, marginRight: 4 }}>Simulate event:</span>
+                          <select
+                            value={simulatedEvent}
+                            onChange={e => handleSimulatedEventChange(e.target.value)}
+                            style={DISPLAY_SELECT_STYLE}
+                          >
+                            <option value="">-- None --</option>
+                            {triggers.map(t => (
+                              <option key={t.event} value={t.event}>{t.event}</option>
+                            ))}
+                          </select>
+                        </>
+                      )}
+                      <label style={{ marginLeft: 18, fontSize: "0.95rem", cursor: "pointer" }}>
+                        <input
+                          type="checkbox"
+                          checked={showDataFlow}
+                          onChange={e => handleDataFlowChange(e.target.checked)}
+                          style={{ marginRight: 6 }}
+                        />
+                        Data flow
+                      </label>
+                    </div>
+                    <div style={{ display: "flex", gap: 6, alignItems: "center", marginBottom: 16, flexWrap: "wrap" }}>
+                      <span style={{ fontWeight: 500, marginRight: 4 }}>Layout:</span>
+                      <select
+                        value={preferences.direction}
+                        onChange={e => updatePreferences({ direction: e.target.value as LayoutDirection })}
+                        style={DISPLAY_SELECT_STYLE}
+                      >
+                        {LAYOUT_DIRECTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                      <span style={{ fontWeight: 500, marginLeft: 18, marginRight: 4 }}>Theme:</span>
+                      <select
+                        value={preferences.theme}
+                        onChange={e => updatePreferences({ theme: e.target.value as Preferences["theme"] })}
+                        style={DISPLAY_SELECT_STYLE}
+                      >
+                        <option value="auto">Auto (follow the page)</option>
+                        {MERMAID_THEMES.map(theme => <option key={theme} value={theme}>{theme}</option>)}
+                      </select>
+                      <span style={{ fontWeight: 500, marginLeft: 18, marginRight: 4 }}>Colour by:</span>
+                      <select
+                        value={preferences.runners ? "runner" : preferences.categories ? "category" : "none"}
+                        onChange={e => updatePreferences({ categories: e.target.value === "category", runners: e.target.value === "runner" })}
+                        style={DISPLAY_SELECT_STYLE}
+                        title="Job type is guessed from job names and environment:; runner type comes from runs-on"
+                      >
+                        <option value="none">Nothing</option>
+                        <option value="category">Job type</option>
+                        <option value="runner">Runner type</option>
+                      </select>
+                    </div>
+                    <div style={{ display: "flex", gap: 12 }}>
+                      <div style={{ flex: 1, minWidth: 0 }}>
+                        <Mermaid
+                          chart={diagram}
+                          onExportReady={setSvgExport}
+                          onNodeClick={handleNodeClick}
+                          onNodeHover={handleNodeHover}
+                          highlighted={highlightedJobs}
+                          jobIds={jobIds}
+                          nodeFills={dryRunFills}
+                          theme={mermaidTheme}
+                          zoomable
+                        />
+                      </div>
+                      {jobs && selectedJob && selectedJob in jobs && (
+                        <JobInspector
+                          jobs={jobs}
+                          jobId={selectedJob}
+                          onSelectJob={setSelectedJob}
+                          onClose={() => setSelectedJob(null)}
+                        />
+                      )}
+                    </div>
+                    <div style={{ marginTop: 18, display: "flex", gap: 16 }}>
+                      <button
+                        onClick={handleExportSVG}
+                        disabled={!svgExport}
+                        style={{
+                          padding: "7px 18px",
+                          fontWeight: 500,
+                          fontSize: "1rem",
+                          background: "#2c5aa0",
+                          color: "#fff",
+                          border: "none",
+                          borderRadius: 7,
+                          cursor: "pointer"
+                        }}
+                      >
+                        Export as SVG
+                      </button>
+                      <button
+                        onClick={handleExportMarkdown}
+                        style={{
+                          padding: "7px 18px",
+                          fontWeight: 500,
+                          fontSize: "1rem",
+                          background: "#e0c131",
+                          color: "#fff",
+                          border: "none",
+                          borderRadius: 7,
+                          cursor: "pointer"
+                        }}
+                      >
+                        Export as Markdown
+                      </button>
+                      <button
+                        onClick={handleCopyLink}
+                        title="Copy a link to this workflow and view. The workflow is stored in the link itself."
+                        style={{
+                          padding: "7px 18px",
+                          fontWeight: 500,
+                          fontSize: "1rem",
+                          background: "var(--gha-surface-alt)",
+                          color: "#3167e0",
+                          border: "1px solid var(--gha-border)",
+                          borderRadius: 7,
+                          cursor: "pointer"
+                        }}
+                      >
+                        {linkCopied ? "Link copied" : "Copy link"}
+                      </button>
+                    </div>
+                    <div style={{ marginTop: 10, display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                      <span style={{ fontWeight: 500, marginRight: 4 }}>More exports:</span>
+                      <button onClick={handleExportPNG} disabled={!svgExport} style={EXPORT_BUTTON_STYLE}>PNG</button>
+                      <select
+                        value={pngScale}
+                        onChange={e => setPngScale(Number(e.target.value))}
+                        title="PNG scale"
+                        style={{ ...EXPORT_BUTTON_STYLE, padding: "5px 6px", color: "var(--gha-text)" }}
+                      >
+                        {PNG_SCALES.map(scale => <option key={scale} value={scale}>{scale}×</option>)}
+                      </select>
+                      <button
+                        onClick={handleExportPDF}
+                        disabled={!svgExport}
+                        title='Diagram, triggers and step tables; choose "Save as PDF" in the print dialog.'
+                        style={EXPORT_BUTTON_STYLE}
+                      >
+                        PDF report
+                      </button>
+                      <button onClick={handleExportMermaid} style={EXPORT_BUTTON_STYLE}>Mermaid</button>
+                      <button onClick={handleExportDot} style={EXPORT_BUTTON_STYLE}>Graphviz DOT</button>
+                      <button onClick={handleExportGraphJSON} style={EXPORT_BUTTON_STYLE}>JSON graph</button>
+                    </div>
+                  </section>
+                )}
+                {triggers.length > 0 && <TriggersList triggers={triggers} />}
+                {workflow && triggers.length > 0 && <TriggerSimulator workflow={workflow} />}
+                {security && <SecurityPanel report={security} onSelect={f => editorRef.current?.revealLine(f.line)} />}
+                {workflow && ciFormat === "github" && !overview && (
+                  <ActionInventory files={editorFiles} onSelect={usage => editorRef.current?.revealLine(usage.line)} />
+                )}
+                {workflow && ciFormat === "github" && !overview && (
+                  <EnvironmentsPanel files={editorFiles} onSelect={(_, line) => editorRef.current?.revealLine(line)} />
+                )}
+                {workflow && ciFormat === "github" && (
+                  <RunnersPanel workflow={workflow} timings={timings} onSelectJob={setSelectedJob} />
+                )}
+                {workflow && ciFormat === "github" && (
+                  <TimingsPanel
+                    report={timings}
+                    canFetch={!!repoSource}
+                    loading={timingsLoading}
+                    error={timingsError}
+                    onImport={handleImportTimings}
+                    onFetch={handleFetchTimings}
+                    onClear={handleClearTimings}
+                  />
+                )}
+                {workflow && ciFormat === "github" && (
+                  <DryRunPanel workflow={workflow} contexts={dryRunContexts} onFrame={setDryRunFills} />
+                )}
+                {dataFlow && <DataFlowPanel dataFlow={dataFlow} onSelect={w => editorRef.current?.revealLine(w.line)} />}
+                {workflow && ciFormat === "github" && (repoSource || hasLocalCalls(workflow)) && (
+                  <CallsPanel
+                    workflow={workflow}
+                    calls={calls}
+                    resolving={resolving}
+                    canResolve={!!repoSource}
+                    remoteActions={remoteActions}
+                    onRemoteActionsChange={handleRemoteActionsChange}
+                  />
+                )}
+                {jobSteps.length > 0 && (
+                  <JobStepsList jobSteps={jobSteps} simulation={simulation} selectedJob={selectedJob} />
+                )}
+                {/* Future features can go here! */}
+              </div>
+            </>
+          )}
         </div>
       </main>
     </>
   );
 }
-
-function generateMermaid(workflow: any): string {
-  if (!workflow || !workflow.jobs || Object.keys(workflow.jobs).length === 0) return "";
-  let graph = "graph TD\n";
-  for (const [jobName, jobDefRaw] of Object.entries(workflow.jobs)) {
-    const jobDef = jobDefRaw as { needs?: string | string[] };
-    if (jobDef.needs) {
-      const needs = Array.isArray(jobDef.needs) ? jobDef.needs : [jobDef.needs];
-      needs.forEach((need: string) => {
-        graph += `  ${need} --> ${jobName}\n`;
-      });
-    } else {
-      graph += `  ${jobName}\n`;
-    }
-  }
-  return graph;
-}
-
-function extractJobSteps(workflow: any): JobSteps[] {
-  if (!workflow || !workflow.jobs) return [];
-  const result: JobSteps[] = [];
-  for (const [jobName, jobDef] of Object.entries<any>(workflow.jobs)) {
-    const steps: StepDetail[] = [];
-    if (Array.isArray(jobDef.steps)) {
-      for (const step of jobDef.steps) {
-        steps.push({
-          name: step.name,
-          uses: step.uses,
-          run: step.run,
-        });
-      }
-    }
-    result.push({ jobName, steps });
-  }
-  return result;
-}
-
-function extractTriggers(workflow: any): TriggerDetail[] {
-  if (!workflow || !workflow.on) return [];
-  const triggers: TriggerDetail[] = [];
-  const on = workflow.on;
-  if (Array.isArray(on)) {
-    on.forEach((evt: string) => triggers.push({ event: evt }));
-  } else if (typeof on === "object") {
-    Object.entries(on).forEach(([event, detail]) => {
-      if (detail === null || detail === undefined || detail === "") {
-        triggers.push({ event });
-      } else if (typeof detail === "object") {
-        triggers.push({
-          event,
-          details: "",
-          detailsObj: detail,
-        });
-      } else {
-        triggers.push({ event, details: String(detail) });
-      }
-    });
-  } else if (typeof on === "string") {
-    triggers.push({ event: on });
-  }
-  return triggers;
-}
\ No newline at end of file
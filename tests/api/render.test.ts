@@ -0,0 +1,232 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fixtureSource } from "../fixtures";
+
+// Counts renders, to tell cached responses apart.
+vi.mock("../../lib/render", async importOriginal => {
+  const actual = await importOriginal<typeof import("../../lib/render")>();
+  return { ...actual, renderWorkflow: vi.fn(actual.renderWorkflow) };
+});
+
+// ------ Request and response doubles ------
+
+type Sent = {
+  status: number;
+  headers: Record<string, string>;
+  body?: unknown;
+};
+
+function request(
+  method: string,
+  query: Record<string, string> = {},
+  body?: unknown,
+  headers: Record<string, string> = {}
+): NextApiRequest {
+  return { method, query, body, headers } as unknown as NextApiRequest;
+}
+
+function response(): { res: NextApiResponse; sent: Sent } {
+  const sent: Sent = { status: 200, headers: {} };
+  const res = {
+    setHeader(name: string, value: string) {
+      sent.headers[name.toLowerCase()] = value;
+      return res;
+    },
+    status(code: number) {
+      sent.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      sent.body = body;
+    },
+    send(body: unknown) {
+      sent.body = body;
+    },
+    end() {},
+  };
+  return { res: res as unknown as NextApiResponse, sent };
+}
+
+// ------ Stubbed GitHub contents API ------
+
+const CONTENTS = "https://api.github.com/repos/octo/app/contents";
+
+let files: Record<string, { status: number; content?: string }>;
+let fetchMock: ReturnType<typeof vi.fn>;
+
+let handler: (req: NextApiRequest, res: NextApiResponse) => Promise<void>;
+let renderWorkflow: ReturnType<typeof vi.fn>;
+
+async function call(req: NextApiRequest): Promise<Sent> {
+  const { res, sent } = response();
+  await handler(req, res);
+  return sent;
+}
+
+beforeEach(async () => {
+  files = {
+    [`${CONTENTS}/.github/workflows/ci.yml?ref=main`]: { status: 200, content: fixtureSource("node-ci.yml") },
+  };
+  fetchMock = vi.fn(async (url: string) => {
+    const file = files[url] ?? { status: 404 };
+    const body = file.content === undefined ? { message: "Not Found" } : { encoding: "base64", content: btoa(file.content) };
+    return new Response(JSON.stringify(body), { status: file.status });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  vi.stubEnv("GITHUB_TOKEN", "");
+  // A fresh module per test: the render cache lives at module level.
+  vi.resetModules();
+  handler = (await import("../../pages/api/render")).default;
+  renderWorkflow = vi.mocked((await import("../../lib/render")).renderWorkflow);
+  renderWorkflow.mockClear();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+const REPO_QUERY = { repo: "octo/app", path: ".github/workflows/ci.yml", ref: "main" };
+
+describe("GET /api/render", () => {
+  it("renders a repository file", async () => {
+    const sent = await call(request("GET", { ...REPO_QUERY, format: "mmd" }));
+    expect(sent.status).toBe(200);
+    expect(sent.headers["content-type"]).toBe("text/plain; charset=utf-8");
+    expect(sent.body).toMatch(/^graph TD\n/);
+    expect(sent.headers["cache-control"]).toBe("public, max-age=60");
+    expect(fetchMock).toHaveBeenCalledWith(`${CONTENTS}/.github/workflows/ci.yml?ref=main`, { headers: {} });
+  });
+
+  it("accepts a github.com URL for the repository", async () => {
+    const sent = await call(request("GET", { ...REPO_QUERY, repo: "https://github.com/octo/app" }));
+    expect(sent.status).toBe(200);
+  });
+
+  it("links PR comments to the file", async () => {
+    const sent = await call(request("GET", { ...REPO_QUERY, format: "comment" }));
+    expect(sent.body).toContain("https://github.com/octo/app/blob/main/.github/workflows/ci.yml");
+  });
+
+  it("fetches with the caller's token and keeps the output out of shared caches", async () => {
+    const sent = await call(request("GET", REPO_QUERY, undefined, { authorization: "Bearer ghp_caller" }));
+    expect(sent.status).toBe(200);
+    expect(sent.headers["cache-control"]).toBe("private, max-age=60");
+    expect(fetchMock.mock.calls[0][1]).toEqual({ headers: { Authorization: "Bearer ghp_caller" } });
+  });
+
+  it("falls back to the server's token for listed repositories", async () => {
+    vi.stubEnv("GITHUB_TOKEN", "ghp_server");
+    vi.stubEnv("RENDER_TOKEN_REPOS", "octo/site, Octo/App");
+    const sent = await call(request("GET", REPO_QUERY));
+    expect(sent.headers["cache-control"]).toBe("private, max-age=60");
+    expect(fetchMock.mock.calls[0][1]).toEqual({ headers: { Authorization: "Bearer ghp_server" } });
+  });
+
+  it("doesn't lend the server's token to other repositories", async () => {
+    vi.stubEnv("GITHUB_TOKEN", "ghp_server");
+    vi.stubEnv("RENDER_TOKEN_REPOS", "octo/site");
+    const sent = await call(request("GET", REPO_QUERY));
+    expect(sent.headers["cache-control"]).toBe("public, max-age=60");
+    expect(fetchMock.mock.calls[0][1]).toEqual({ headers: {} });
+  });
+
+  it("answers 502 for a missing file", async () => {
+    const sent = await call(request("GET", { ...REPO_QUERY, path: ".github/workflows/gone.yml" }));
+    expect(sent.status).toBe(502);
+    expect(sent.body).toEqual({ error: "GitHub: File not found (404): .github/workflows/gone.yml" });
+  });
+
+  it.each([401, 403])("answers 502 when GitHub refuses with %i", async status => {
+    files[`${CONTENTS}/.github/workflows/ci.yml?ref=main`] = { status };
+    const sent = await call(request("GET", REPO_QUERY, undefined, { authorization: "Bearer expired" }));
+    expect(sent.status).toBe(502);
+    expect(sent.body).toEqual({ error: "GitHub: Authentication or permission issue (401/403)." });
+  });
+
+  it("needs a repository and a path", async () => {
+    expect((await call(request("GET", { repo: "octo/app" }))).status).toBe(400);
+    expect((await call(request("GET", { ...REPO_QUERY, repo: "not a repo" }))).status).toBe(400);
+  });
+});
+
+describe("POST /api/render", () => {
+  it("renders a YAML body", async () => {
+    const sent = await call(request("POST", { format: "md" }, fixtureSource("release.yml")));
+    expect(sent.status).toBe(200);
+    expect(sent.headers["content-type"]).toBe("text/markdown; charset=utf-8");
+    expect(sent.body).toContain("```mermaid");
+    expect(sent.headers["cache-control"]).toBe("public, max-age=86400");
+  });
+
+  it("renders a JSON body, detecting the format from `file`", async () => {
+    const yaml = "stages: [build]\nbuild:\n  stage: build\n  script: make\n";
+    const sent = await call(request("POST", { format: "json" }, { yaml, file: ".gitlab-ci.yml" }));
+    expect(sent.status).toBe(200);
+    expect(JSON.parse(sent.body as string)).toMatchObject({ file: ".gitlab-ci.yml", jobs: [{ jobName: "build" }] });
+  });
+
+  it("needs a body", async () => {
+    expect((await call(request("POST", {}, "  "))).status).toBe(400);
+  });
+
+  it("answers 422 with diagnostics for a file that doesn't parse", async () => {
+    const sent = await call(request("POST", {}, "jobs: [unclosed\n", {}));
+    expect(sent.status).toBe(422);
+    expect(sent.body).toMatchObject({ error: "workflow.yml: the file could not be parsed." });
+    expect((sent.body as { diagnostics: unknown[] }).diagnostics).not.toHaveLength(0);
+  });
+
+  it.each([
+    ["format", "png", /Unknown format "png"/],
+    ["detail", "everything", /Unknown detail "everything"/],
+    ["direction", "diagonal", /Unknown direction "DIAGONAL"/],
+    ["theme", "neon", /Unknown theme "neon"/],
+  ])("answers 400 for an unknown %s", async (name, value, message) => {
+    const sent = await call(request("POST", { [name]: value }, fixtureSource("release.yml")));
+    expect(sent.status).toBe(400);
+    expect((sent.body as { error: string }).error).toMatch(message);
+  });
+});
+
+describe("caching", () => {
+  it("serves an identical request from the cache", async () => {
+    const first = await call(request("POST", { format: "mmd" }, fixtureSource("release.yml")));
+    const second = await call(request("POST", { format: "mmd" }, fixtureSource("release.yml")));
+    expect(second).toEqual(first);
+    expect(renderWorkflow).toHaveBeenCalledTimes(1);
+  });
+
+  it("renders again when the options change", async () => {
+    await call(request("POST", { format: "mmd" }, fixtureSource("release.yml")));
+    await call(request("POST", { format: "mmd", direction: "lr" }, fixtureSource("release.yml")));
+    expect(renderWorkflow).toHaveBeenCalledTimes(2);
+  });
+
+  it("answers 304 when the ETag still matches", async () => {
+    const first = await call(request("GET", REPO_QUERY));
+    const etag = first.headers["etag"];
+    expect(etag).toMatch(/^"[0-9a-f]{64}"$/);
+    const second = await call(request("GET", REPO_QUERY, undefined, { "if-none-match": etag }));
+    expect(second.status).toBe(304);
+    expect(second.body).toBeUndefined();
+    expect(second.headers["etag"]).toBe(etag);
+    expect(renderWorkflow).toHaveBeenCalledTimes(1);
+  });
+
+  it("renders again when the file changed", async () => {
+    const first = await call(request("GET", REPO_QUERY));
+    files[`${CONTENTS}/.github/workflows/ci.yml?ref=main`] = { status: 200, content: fixtureSource("string-on.yml") };
+    const second = await call(request("GET", REPO_QUERY, undefined, { "if-none-match": first.headers["etag"] }));
+    expect(second.status).toBe(200);
+    expect(second.headers["etag"]).not.toBe(first.headers["etag"]);
+  });
+});
+
+describe("other methods", () => {
+  it("answers 405", async () => {
+    const sent = await call(request("DELETE"));
+    expect(sent.status).toBe(405);
+    expect(sent.headers["allow"]).toBe("GET, POST");
+  });
+});
@@ -0,0 +1,111 @@
+// @vitest-environment jsdom
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+
+const { renderMock } = vi.hoisted(() => ({ renderMock: vi.fn() }));
+vi.mock("mermaid", () => ({ default: { initialize: vi.fn(), render: renderMock } }));
+
+import Mermaid from "../../components/Mermaid";
+
+// What Mermaid draws for `_end["…"]` and a subgraph `build`: node ids are the encoded ones.
+const SVG = [
+  "<svg>",
+  '<g class="cluster" id="build"><rect></rect></g>',
+  '<g class="node" id="flowchart-_end-3"><rect></rect><text>end</text></g>',
+  "</svg>",
+].join("");
+
+beforeEach(() => {
+  renderMock.mockReset();
+  renderMock.mockResolvedValue({ svg: SVG });
+});
+
+afterEach(cleanup);
+
+describe("Mermaid", () => {
+  it("renders each instance under its own id", async () => {
+    render(
+      <>
+        <Mermaid chart={"graph TD\n  a"} />
+        <Mermaid chart={"graph TD\n  b"} />
+      </>
+    );
+    await waitFor(() => expect(renderMock).toHaveBeenCalledTimes(2));
+    const [first, second] = renderMock.mock.calls.map(([id]) => id);
+    expect(first).not.toBe(second);
+    for (const id of [first, second]) expect(id).toMatch(/^[A-Za-z][\w-]*$/);
+  });
+
+  it("uses the id it is given", async () => {
+    render(<Mermaid id="overview" chart={"graph TD\n  a"} />);
+    await waitFor(() => expect(renderMock).toHaveBeenCalledWith("overview", "graph TD\n  a"));
+  });
+
+  it("reports node clicks with the ids the chart was written from", async () => {
+    const onNodeClick = vi.fn();
+    const { container } = render(<Mermaid chart="graph TD" onNodeClick={onNodeClick} />);
+    await waitFor(() => expect(container.querySelector("g.node")).not.toBeNull());
+    fireEvent.click(container.querySelector("g.node text")!);
+    fireEvent.click(container.querySelector("g.cluster rect")!);
+    expect(onNodeClick.mock.calls).toEqual([["end"], ["build"]]);
+  });
+
+  it("tells a job's own nodes from a sibling job whose id extends it", async () => {
+    renderMock.mockResolvedValue({
+      svg: [
+        "<svg>",
+        '<g class="cluster" id="test"><rect></rect></g>',
+        '<g class="node" id="flowchart-test_step_0-1"><rect></rect></g>',
+        '<g class="node" id="flowchart-test_e2e-2"><rect></rect></g>',
+        '<g class="node" id="flowchart-test_e2e__gate-3"><rect></rect></g>',
+        "</svg>",
+      ].join(""),
+    });
+    const jobIds = ["test", "test_e2e"];
+    const { container } = render(
+      <Mermaid chart="graph TD" jobIds={jobIds} highlighted={["test"]} nodeFills={{ test_e2e: "#fdecec" }} />
+    );
+    const opacity = (id: string) => container.querySelector<SVGGElement>(`[id="${id}"]`)!.style.opacity;
+    const fill = (id: string) => container.querySelector<SVGRectElement>(`[id="${id}"] > rect`)!.style.fill;
+    await waitFor(() => expect(opacity("flowchart-test_e2e-2")).toBe("0.3"));
+    expect(opacity("test")).toBe("");
+    expect(opacity("flowchart-test_step_0-1")).toBe("");
+    expect(opacity("flowchart-test_e2e-2")).toBe("0.3");
+    expect(opacity("flowchart-test_e2e__gate-3")).toBe("0.3");
+    expect(fill("test")).toBe("");
+    expect(fill("flowchart-test_step_0-1")).toBe("");
+    expect(fill("flowchart-test_e2e-2")).not.toBe("");
+    expect(fill("flowchart-test_e2e__gate-3")).not.toBe("");
+  });
+
+  it("shows why a chart could not be drawn", async () => {
+    renderMock.mockRejectedValue(new Error("Parse error on line 2:\nExpecting 'SPACE', got 'end'"));
+    const stray = document.body.appendChild(document.createElement("div"));
+    stray.id = "dbroken";
+    render(<Mermaid id="broken" chart={"graph TD\n  end"} />);
+    expect(await screen.findByText("The diagram could not be drawn.")).toBeTruthy();
+    expect(screen.getByText(/Expecting 'SPACE', got 'end'/)).toBeTruthy();
+    expect(document.getElementById("dbroken")).toBeNull();
+  });
+
+  it("clears the error once the chart draws again", async () => {
+    renderMock.mockRejectedValueOnce(new Error("Parse error"));
+    const { rerender } = render(<Mermaid chart={"graph TD\n  end"} />);
+    await screen.findByText("The diagram could not be drawn.");
+    rerender(<Mermaid chart={"graph TD\n  _end"} />);
+    await waitFor(() => expect(screen.queryByText("The diagram could not be drawn.")).toBeNull());
+  });
+
+  it("ignores a render that finishes after the chart changed", async () => {
+    let finishFirst: (value: { svg: string }) => void = () => {};
+    renderMock.mockReturnValueOnce(new Promise(resolve => (finishFirst = resolve)));
+    const onExportReady = vi.fn();
+    const { rerender } = render(<Mermaid chart={"graph TD\n  a"} onExportReady={onExportReady} />);
+    rerender(<Mermaid chart={"graph TD\n  b"} onExportReady={onExportReady} />);
+    await waitFor(() => expect(onExportReady).toHaveBeenCalledWith(SVG));
+    finishFirst({ svg: "<svg>old</svg>" });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(onExportReady).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,157 @@
+// @vitest-environment jsdom
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import RepoWorkflowSection from "../../components/RepoWorkflowSection";
+import { fixtureSource } from "../fixtures";
+
+// ------ Stubbed GitHub contents API ------
+
+const REPO_URL = "https://github.com/octo/app";
+const CONTENTS = "https://api.github.com/repos/octo/app/contents";
+
+type Route = { status: number; body: unknown };
+
+function jsonResponse({ status, body }: Route): Response {
+  return new Response(typeof body === "string" ? body : JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function contentsFile(name: string, source: string) {
+  return { name, path: `.github/workflows/${name}`, type: "file", encoding: "base64", content: btoa(source) };
+}
+
+let routes: Record<string, Route>;
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  routes = {
+    [`${CONTENTS}/.github/workflows`]: {
+      status: 200,
+      body: [
+        { name: "ci.yml", path: ".github/workflows/ci.yml", type: "file" },
+        { name: "release.yaml", path: ".github/workflows/release.yaml", type: "file" },
+        { name: "README.md", path: ".github/workflows/README.md", type: "file" },
+        { name: "templates", path: ".github/workflows/templates", type: "dir" },
+      ],
+    },
+    [`${CONTENTS}/.github/workflows/ci.yml`]: { status: 200, body: contentsFile("ci.yml", fixtureSource("node-ci.yml")) },
+    [`${CONTENTS}/.github/workflows/release.yaml`]: { status: 200, body: contentsFile("release.yaml", fixtureSource("release.yml")) },
+  };
+  fetchMock = vi.fn(async (url: string) => jsonResponse(routes[url] ?? { status: 404, body: { message: "Not Found" } }));
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+});
+
+function renderSection() {
+  const props = { onWorkflowLoaded: vi.fn(), onOverviewLoaded: vi.fn(), onCompareLoaded: vi.fn() };
+  render(<RepoWorkflowSection {...props} />);
+  return props;
+}
+
+async function fetchWorkflows(url = REPO_URL) {
+  fireEvent.change(screen.getByPlaceholderText(/Paste GitHub repo URL/), { target: { value: url } });
+  fireEvent.click(screen.getByRole("button", { name: "Fetch Workflows" }));
+}
+
+describe("RepoWorkflowSection", () => {
+  it("lists only the YAML files in .github/workflows", async () => {
+    renderSection();
+    await fetchWorkflows();
+    const select = await screen.findByRole("combobox");
+    const options = Array.from(select.querySelectorAll("option")).map(option => option.textContent);
+    expect(options).toEqual(["-- Choose --", "ci.yml", "release.yaml"]);
+  });
+
+  it("loads the selected workflow with where it came from", async () => {
+    const { onWorkflowLoaded } = renderSection();
+    fireEvent.change(screen.getByPlaceholderText(/Personal Access Token/), { target: { value: "ghp_secret" } });
+    await fetchWorkflows();
+    fireEvent.change(await screen.findByRole("combobox"), { target: { value: ".github/workflows/ci.yml" } });
+    fireEvent.click(screen.getByRole("button", { name: "Load Selected Workflow" }));
+
+    await waitFor(() => expect(onWorkflowLoaded).toHaveBeenCalledTimes(1));
+    expect(onWorkflowLoaded).toHaveBeenCalledWith(fixtureSource("node-ci.yml"), {
+      location: { owner: "octo", repo: "app", path: ".github/workflows/ci.yml" },
+      token: "ghp_secret",
+    });
+    for (const [, init] of fetchMock.mock.calls) {
+      expect(init.headers).toEqual({ Authorization: "Bearer ghp_secret" });
+    }
+  });
+
+  it("loads every workflow for the repository overview", async () => {
+    const { onOverviewLoaded } = renderSection();
+    await fetchWorkflows();
+    fireEvent.click(await screen.findByRole("button", { name: "Repo Overview" }));
+
+    await waitFor(() => expect(onOverviewLoaded).toHaveBeenCalledTimes(1));
+    const [files, source] = onOverviewLoaded.mock.calls[0];
+    expect(files).toEqual([
+      { path: ".github/workflows/ci.yml", source: fixtureSource("node-ci.yml") },
+      { path: ".github/workflows/release.yaml", source: fixtureSource("release.yml") },
+    ]);
+    expect(source.location.path).toBe(".github/workflows");
+  });
+
+  it("fetches both refs to compare", async () => {
+    routes[`${CONTENTS}/.github/workflows/ci.yml?ref=main`] = routes[`${CONTENTS}/.github/workflows/ci.yml`];
+    routes[`${CONTENTS}/.github/workflows/ci.yml?ref=feature%2Fx`] = { status: 200, body: contentsFile("ci.yml", "on: push\n") };
+    const { onCompareLoaded } = renderSection();
+    await fetchWorkflows();
+    fireEvent.change(await screen.findByRole("combobox"), { target: { value: ".github/workflows/ci.yml" } });
+    fireEvent.change(screen.getByPlaceholderText(/head/), { target: { value: "feature/x" } });
+    fireEvent.click(screen.getByRole("button", { name: "Compare" }));
+
+    await waitFor(() => expect(onCompareLoaded).toHaveBeenCalledTimes(1));
+    const [before, after] = onCompareLoaded.mock.calls[0];
+    expect(before).toEqual({ label: ".github/workflows/ci.yml@main", yaml: fixtureSource("node-ci.yml"), diagnostics: [] });
+    expect(after).toEqual({ label: ".github/workflows/ci.yml@feature/x", yaml: "on: push\n", diagnostics: [] });
+  });
+
+  it("rejects a URL that isn't a GitHub repository without fetching", async () => {
+    renderSection();
+    await fetchWorkflows("https://gitlab.com/octo/app");
+    expect(await screen.findByText("Invalid GitHub repository URL.")).toBeTruthy();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("explains a missing repository", async () => {
+    delete routes[`${CONTENTS}/.github/workflows`];
+    renderSection();
+    await fetchWorkflows();
+    expect(await screen.findByText("No workflows found or repository does not exist.")).toBeTruthy();
+  });
+
+  it("explains a rejected token", async () => {
+    routes[`${CONTENTS}/.github/workflows`] = { status: 401, body: { message: "Bad credentials" } };
+    renderSection();
+    await fetchWorkflows();
+    expect(await screen.findByText(/Authentication failed/)).toBeTruthy();
+  });
+
+  it("explains a repository without workflow files", async () => {
+    routes[`${CONTENTS}/.github/workflows`] = { status: 200, body: [{ name: "notes.txt", path: ".github/workflows/notes.txt", type: "file" }] };
+    renderSection();
+    await fetchWorkflows();
+    expect(await screen.findByText("No workflow files found in this repo.")).toBeTruthy();
+    expect(screen.queryByRole("combobox")).toBeNull();
+  });
+
+  it("reports a workflow that disappeared after listing", async () => {
+    delete routes[`${CONTENTS}/.github/workflows/release.yaml`];
+    const { onWorkflowLoaded } = renderSection();
+    await fetchWorkflows();
+    fireEvent.change(await screen.findByRole("combobox"), { target: { value: ".github/workflows/release.yaml" } });
+    fireEvent.click(screen.getByRole("button", { name: "Load Selected Workflow" }));
+
+    expect(await screen.findByText("File not found (404): .github/workflows/release.yaml")).toBeTruthy();
+    expect(onWorkflowLoaded).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+// @vitest-environment jsdom
+import React from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, render, screen } from "@testing-library/react";
+import TriggersList, { formatTriggerDetail } from "../../components/TriggersList";
+import { extractTriggers } from "../../lib/extract";
+import { loadFixture, workflowFrom } from "../fixtures";
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+});
+
+// `detailsObj` of the first trigger under `on:`, as parsed from YAML.
+function detailOf(on: string) {
+  return extractTriggers(workflowFrom(`on:\n${on}\njobs: {}\n`))[0].detailsObj;
+}
+
+describe("formatTriggerDetail", () => {
+  it("renders nothing for missing or scalar details", () => {
+    expect(formatTriggerDetail("push", undefined)).toBeNull();
+    expect(formatTriggerDetail("push", detailOf("  push: main"))).toBeNull();
+  });
+
+  it("lists branch and path filters, scalar or array", () => {
+    render(<>{formatTriggerDetail("push", detailOf("  push:\n    branches: main\n    paths-ignore: [docs/**, '*.md']"))}</>);
+    expect(screen.getByText("main").closest("li")?.textContent).toBe("Branches: main");
+    expect(screen.getByText("docs/**, *.md").closest("li")?.textContent).toBe("Ignored paths: docs/**, *.md");
+  });
+
+  it("explains each schedule entry with its next runs", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-02T00:00:00Z"));
+    render(<>{formatTriggerDetail("schedule", [{ cron: "0 3 * * *" }, { cron: "30 12 * * 1-5" }])}</>);
+    const items = screen.getAllByRole("listitem");
+    expect(items).toHaveLength(2);
+    expect(items[0].textContent).toContain("0 3 * * *");
+    expect(items[0].textContent).toContain("Next runs:");
+    expect(items[0].textContent).toContain("2026-03-02");
+  });
+
+  it("flags a schedule entry without `cron`", () => {
+    render(<>{formatTriggerDetail("schedule", detailOf("  schedule:\n    - {}"))}</>);
+    expect(screen.getByRole("listitem").textContent).toBe("Missing cron");
+  });
+
+  it("falls back to JSON for other details", () => {
+    const { container } = render(<>{formatTriggerDetail("workflow_dispatch", { inputs: { level: { type: "string" } } })}</>);
+    expect(JSON.parse(container.querySelector("pre")!.textContent!)).toEqual({ inputs: { level: { type: "string" } } });
+  });
+});
+
+describe("TriggersList", () => {
+  it("describes each trigger of a fixture", () => {
+    render(<TriggersList triggers={extractTriggers(loadFixture("array-on.yml"))} />);
+    expect(screen.getByText("When code is pushed to the repository.")).toBeTruthy();
+    expect(screen.getByText("Manual trigger from the GitHub UI.")).toBeTruthy();
+  });
+
+  it("describes unknown events generically", () => {
+    render(<TriggersList triggers={[{ event: "merge_group" }]} />);
+    expect(screen.getByText("Triggered by event: merge_group")).toBeTruthy();
+  });
+});
@@ -0,0 +1,27 @@
+import { readFileSync, readdirSync } from "fs";
+import { join } from "path";
+import { Workflow, parseWorkflow } from "../lib/workflow";
+
+// ------ Workflow fixtures ------
+// Real-world shaped workflows in tests/fixtures, shared by the snapshot tests.
+
+const FIXTURE_DIR = join(__dirname, "fixtures");
+
+export const FIXTURES = readdirSync(FIXTURE_DIR).filter(name => name.endsWith(".yml")).sort();
+
+export function fixtureSource(name: string): string {
+  return readFileSync(join(FIXTURE_DIR, name), "utf8");
+}
+
+export function loadFixture(name: string): Workflow {
+  const { workflow, diagnostics } = parseWorkflow(fixtureSource(name));
+  if (!workflow) throw new Error(`${name}: ${diagnostics.map(d => d.message).join("; ")}`);
+  return workflow;
+}
+
+/** Parses inline YAML, failing the test on syntax errors. */
+export function workflowFrom(source: string): Workflow {
+  const { workflow, diagnostics } = parseWorkflow(source);
+  if (!workflow) throw new Error(diagnostics.map(d => d.message).join("; "));
+  return workflow;
+}
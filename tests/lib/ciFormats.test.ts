@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { detectCiFormat, parseCiDefinition } from "../../lib/ciFormats";
+import { workflowFrom } from "../fixtures";
+
+describe("detectCiFormat", () => {
+  it.each(["trigger", "script", "stages"])("reads a GitHub workflow with a job named %s as GitHub", name => {
+    const source = `on: push\njobs:\n  build:\n    runs-on: ubuntu-latest\n  ${name}:\n    runs-on: ubuntu-latest\n`;
+    const parsed = parseCiDefinition(source);
+    expect(parsed.format).toBe("github");
+    expect(Object.keys(parsed.workflow!.jobs!)).toEqual(["build", name]);
+  });
+
+  it("reads `jobs:` of job mappings as GitHub without `on`", () => {
+    expect(detectCiFormat(workflowFrom("jobs:\n  trigger:\n    steps:\n      - run: make\n"))).toBe("github");
+  });
+
+  it("still reads a GitLab job named `jobs`", () => {
+    expect(detectCiFormat(workflowFrom("jobs:\n  script:\n    - make\n"))).toBe("gitlab");
+  });
+
+  it("reads GitLab jobs with a `script`", () => {
+    expect(detectCiFormat(workflowFrom("build:\n  script:\n    - make\n"))).toBe("gitlab");
+  });
+
+  it("goes by the file name first", () => {
+    expect(detectCiFormat(workflowFrom("build:\n  script:\n    - make\n"), ".github/workflows/ci.yml")).toBe("github");
+  });
+});
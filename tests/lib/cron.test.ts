@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { buildScheduleTimeline, explainCron, formatUtc, nextRuns, parseCron, workflowSchedules } from "../../lib/cron";
+import type { MappedWorkflow } from "../../lib/repoMap";
+import { workflowFrom } from "../fixtures";
+
+function schedule(expression: string) {
+  const { schedule, errors } = parseCron(expression);
+  if (!schedule) throw new Error(errors.join("; "));
+  return schedule;
+}
+
+describe("parseCron", () => {
+  it("expands ranges, steps, lists and names", () => {
+    expect(schedule("*/15 9-17/4 1,15 JAN-MAR MON-FRI")).toMatchObject({
+      minutes: [0, 15, 30, 45],
+      hours: [9, 13, 17],
+      daysOfMonth: [1, 15],
+      months: [1, 2, 3],
+      daysOfWeek: [1, 2, 3, 4, 5],
+      dayOfMonthSet: true,
+      dayOfWeekSet: true,
+    });
+    expect(schedule("5/20 * * * *").minutes).toEqual([5, 25, 45]);
+  });
+
+  it.each([
+    ["@daily", "Macros like `@daily` aren't supported; write the five cron fields instead."],
+    ["0 0 * * * *", "Expected 5 fields (minute hour day-of-month month day-of-week), found 6. Seconds and years aren't supported."],
+    ["60 * * * *", "`60` is out of range for the minute field (0-59)."],
+    ["0 0 L * *", "`L`: `?`, `L`, `W` and `#` aren't supported in GitHub cron expressions."],
+    ["0 0 * * 5#2", "`5#2`: `?`, `L`, `W` and `#` aren't supported in GitHub cron expressions."],
+    ["0 0 * * FRI-MON", "Range `FRI-MON` in the day of week field runs backwards."],
+    ["*/0 * * * *", "Step `0` in the minute field must be a positive number."],
+  ])("rejects `%s`", (expression, error) => {
+    expect(parseCron(expression)).toMatchObject({ schedule: null, errors: [error] });
+  });
+
+  it("accepts the letters of month and day names", () => {
+    expect(parseCron("0 0 * JUL WED").errors).toEqual([]);
+  });
+
+  it("warns about schedules GitHub runs less often or never", () => {
+    expect(parseCron("*/2 * * * *").warnings).toEqual([
+      "Runs every 2 minutes, but GitHub runs scheduled workflows at most every 5 minutes.",
+    ]);
+    expect(parseCron("0 12 31 2,4 *").warnings).toEqual(["None of the selected months have the selected days, so this schedule never runs."]);
+  });
+
+  it("notes runs on the hour", () => {
+    expect(parseCron("0 3 * * *").notes).toHaveLength(1);
+    expect(parseCron("17 3 * * *").notes).toEqual([]);
+  });
+});
+
+describe("explainCron", () => {
+  it("describes the time and days in UTC", () => {
+    expect(explainCron(schedule("0 2 * * 1-5"))).toBe("At 02:00, on Monday through Friday (UTC)");
+  });
+});
+
+describe("nextRuns", () => {
+  it("lists the next runs after a time", () => {
+    const runs = nextRuns(schedule("30 6 * * 1"), new Date("2026-10-19T06:30:00Z"), 2);
+    expect(runs.map(formatUtc)).toEqual(["Mon 2026-10-26 06:30 UTC", "Mon 2026-11-02 06:30 UTC"]);
+  });
+
+  it("runs on days matching either day field when both are set", () => {
+    const runs = nextRuns(schedule("0 0 1 * SUN"), new Date("2026-10-19T00:00:00Z"), 3);
+    expect(runs.map(formatUtc)).toEqual(["Sun 2026-10-25 00:00 UTC", "Sun 2026-11-01 00:00 UTC", "Sun 2026-11-08 00:00 UTC"]);
+  });
+
+  it("finds leap days years away", () => {
+    expect(nextRuns(schedule("0 0 29 2 *"), new Date("2026-10-19T00:00:00Z"), 1).map(formatUtc)).toEqual(["Tue 2028-02-29 00:00 UTC"]);
+  });
+});
+
+describe("buildScheduleTimeline", () => {
+  it("buckets every workflow's runs by hour", () => {
+    const mapped = (id: string, cron: string): MappedWorkflow => ({
+      id,
+      path: `.github/workflows/${id}.yml`,
+      name: id,
+      workflow: workflowFrom(`on:\n  schedule:\n    - cron: '${cron}'\njobs: {}\n`),
+    });
+    const timeline = buildScheduleTimeline([mapped("nightly", "0 0 * * *"), mapped("cleanup", "30 0 * * 1")], new Date("2026-10-19T12:00:00Z"), 2);
+    expect(timeline.start.toISOString()).toBe("2026-10-19T00:00:00.000Z");
+    expect(timeline.slots.map(slot => [slot.day, slot.hour, slot.workflowIds])).toEqual([
+      [0, 0, ["nightly", "cleanup"]],
+      [1, 0, ["nightly"]],
+    ]);
+  });
+});
+
+describe("workflowSchedules", () => {
+  it("reads the cron strings under on.schedule", () => {
+    const workflow = workflowFrom("on:\n  schedule:\n    - cron: '0 1 * * *'\n    - cron: '0 13 * * *'\n  push:\njobs: {}\n");
+    expect(workflowSchedules(workflow)).toEqual(["0 1 * * *", "0 13 * * *"]);
+  });
+});
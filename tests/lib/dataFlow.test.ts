@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { analyzeDataFlow, referenceText } from "../../lib/dataFlow";
+import { workflowFrom } from "../fixtures";
+
+function analyze(source: string) {
+  return analyzeDataFlow(workflowFrom(source), source);
+}
+
+const RELEASE = `on: push
+env:
+  REGISTRY: \${{ vars.REGISTRY }}
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    outputs:
+      version: \${{ steps.meta.outputs.version }}
+    steps:
+      - id: meta
+        run: echo "version=1.2.3" >> "$GITHUB_OUTPUT"
+      - run: docker push "$REGISTRY:\${{ steps.meta.outputs.version }}"
+        env:
+          TOKEN: \${{ secrets.REGISTRY_TOKEN }}
+  deploy:
+    needs: build
+    if: needs.build.outputs['version'] != ''
+    runs-on: ubuntu-latest
+    steps:
+      - run: ./deploy.sh \${{ needs.build.outputs.version }} \${{ inputs.target || env.REGISTRY }}
+  call:
+    needs: build
+    uses: ./.github/workflows/notify.yml
+    secrets: inherit
+`;
+
+describe("analyzeDataFlow", () => {
+  it("finds references in expressions and bare `if:` conditions", () => {
+    const { references } = analyze(RELEASE);
+    expect(references.map(reference => [referenceText(reference), reference.jobId ?? null, reference.stepIndex ?? null])).toEqual([
+      ["vars.REGISTRY", null, null],
+      ["steps.meta.outputs.version", "build", null],
+      ["steps.meta.outputs.version", "build", 1],
+      ["secrets.REGISTRY_TOKEN", "build", 1],
+      ["needs.build.outputs.version", "deploy", null],
+      ["needs.build.outputs.version", "deploy", 0],
+      ["inputs.target", "deploy", 0],
+      ["env.REGISTRY", "deploy", 0],
+    ]);
+    expect(references[0]).toMatchObject({ path: ["env", "REGISTRY"], line: 3 });
+  });
+
+  it("collects the outputs that flow between jobs", () => {
+    expect(analyze(RELEASE).outputFlows).toEqual([{ from: "build", to: "deploy", outputs: ["version"] }]);
+  });
+
+  it("summarizes what each job consumes", () => {
+    expect(analyze(RELEASE).usage).toEqual([
+      { jobId: "build", secrets: ["REGISTRY_TOKEN"], vars: [], env: [], inputs: [], inheritsSecrets: false },
+      { jobId: "deploy", secrets: [], vars: [], env: ["REGISTRY"], inputs: ["target"], inheritsSecrets: false },
+      { jobId: "call", secrets: [], vars: [], env: [], inputs: [], inheritsSecrets: true },
+    ]);
+  });
+
+  it("has nothing to warn about in a consistent workflow", () => {
+    expect(analyze(RELEASE).warnings).toEqual([]);
+  });
+
+  it("warns about outputs and steps that aren't there yet or at all", () => {
+    const { warnings } = analyze(`on: push
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo \${{ steps.meta.outputs.tag }}
+      - id: meta
+        run: echo "version=1" >> "$GITHUB_OUTPUT"
+      - run: echo \${{ steps.meta.outputs.tag }} \${{ steps.missing.outputs.x }}
+  deploy:
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo \${{ needs.build.outputs.version }} \${{ needs.ghost.result }}
+`);
+    expect(warnings.map(warning => [warning.line, warning.message])).toEqual([
+      [6, "Step `meta` runs after this step, so `steps.meta.outputs.tag` is empty here."],
+      [6, "Step `meta` never writes `tag` to `$GITHUB_OUTPUT`."],
+      [9, "Step `meta` never writes `tag` to `$GITHUB_OUTPUT`."],
+      [9, "Job `build` has no step with id `missing`."],
+      [13, "Job `deploy` reads `needs.build.outputs.version` but doesn't list `build` in `needs`, so it is always empty."],
+      [13, "Job `build` has no output `version`."],
+      [13, "`needs.ghost.result` refers to job `ghost`, which doesn't exist."],
+    ]);
+  });
+
+  it("trusts the outputs of reusable workflow jobs", () => {
+    const { warnings } = analyze(`on: push
+jobs:
+  shared:
+    uses: octo/workflows/.github/workflows/build.yml@main
+  deploy:
+    needs: shared
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo \${{ needs.shared.outputs.version }}
+`);
+    expect(warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { dryRunFrame, dryRunWorkflow, jobWaves } from "../../lib/dryRun";
+import { workflowFrom } from "../fixtures";
+
+const PIPELINE = workflowFrom(`
+on: push
+jobs:
+  lint:
+    runs-on: ubuntu-latest
+  test:
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        node: [18, 20, 22]
+  build:
+    needs: [lint, test]
+    runs-on: ubuntu-latest
+  deploy:
+    needs: build
+    runs-on: ubuntu-latest
+  notify:
+    needs: deploy
+    if: \${{ always() }}
+    runs-on: ubuntu-latest
+  rollback:
+    needs: deploy
+    if: \${{ failure() }}
+    runs-on: ubuntu-latest
+`);
+
+function results(run: ReturnType<typeof dryRunWorkflow>) {
+  return Object.fromEntries(Object.values(run.jobs).map(job => [job.jobId, job.result]));
+}
+
+describe("jobWaves", () => {
+  it("starts each job one wave after the last job it needs", () => {
+    expect(jobWaves(PIPELINE.jobs!)).toEqual({
+      waves: [["lint", "test"], ["build"], ["deploy"], ["notify", "rollback"]],
+      blocked: [],
+    });
+  });
+
+  it("blocks jobs in or behind a `needs` cycle", () => {
+    const { jobs } = workflowFrom(`
+jobs:
+  setup: {}
+  a: { needs: [setup, b] }
+  b: { needs: a }
+  c: { needs: b }
+`);
+    const { waves, blocked } = jobWaves(jobs!);
+    expect(waves).toEqual([["setup"]]);
+    expect(blocked.sort()).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("dryRunWorkflow", () => {
+  it("succeeds and skips failure() jobs when nothing is injected", () => {
+    const run = dryRunWorkflow(PIPELINE);
+    expect(run.result).toBe("success");
+    expect(results(run)).toEqual({
+      lint: "success",
+      test: "success",
+      build: "success",
+      deploy: "success",
+      notify: "success",
+      rollback: "skipped",
+    });
+  });
+
+  it("skips the jobs after a failure, but runs always() and failure() ones", () => {
+    const run = dryRunWorkflow(PIPELINE, { lint: "failure" });
+    expect(run.result).toBe("failure");
+    expect(results(run)).toMatchObject({ build: "skipped", deploy: "skipped", notify: "success", rollback: "success" });
+    expect(run.jobs.build.reason).toBe("`lint` failed.");
+    expect(run.jobs.notify.reason).toBe("Runs anyway: `if: always()`.");
+  });
+
+  it("counts a failure under continue-on-error as success", () => {
+    const workflow = workflowFrom(`
+jobs:
+  flaky:
+    continue-on-error: true
+  after:
+    needs: flaky
+  rollback:
+    needs: after
+    if: failure()
+`);
+    const run = dryRunWorkflow(workflow, { flaky: "failure" });
+    expect(run.jobs.flaky).toMatchObject({ result: "failure", conclusion: "success" });
+    expect(results(run)).toMatchObject({ after: "success", rollback: "skipped" });
+    expect(run.result).toBe("success");
+  });
+
+  it("cancels the other matrix legs with fail-fast", () => {
+    expect(dryRunWorkflow(PIPELINE, { test: "failure" }).jobs.test.legs).toEqual({ total: 3, failed: 1, cancelled: 2, finished: 0 });
+  });
+
+  it("lets the other matrix legs finish without fail-fast or with continue-on-error", () => {
+    const matrix = "strategy:\n      matrix:\n        os: [linux, macos, windows, bsd]";
+    const workflow = workflowFrom(`
+jobs:
+  noFailFast:
+    ${matrix}
+      fail-fast: false
+  tolerant:
+    continue-on-error: true
+    ${matrix}
+`);
+    const run = dryRunWorkflow(workflow, { noFailFast: "failure", tolerant: "failure" });
+    expect(run.jobs.noFailFast.legs).toEqual({ total: 4, failed: 1, cancelled: 0, finished: 3 });
+    expect(run.jobs.tolerant.legs).toEqual({ total: 4, failed: 1, cancelled: 0, finished: 3 });
+  });
+
+  it("cancels the jobs running alongside a cancellation and skips the rest", () => {
+    const run = dryRunWorkflow(PIPELINE, { lint: "cancelled" });
+    expect(run.result).toBe("cancelled");
+    expect(results(run)).toMatchObject({ lint: "cancelled", test: "cancelled", build: "skipped", notify: "success", rollback: "skipped" });
+    expect(run.jobs.test.reason).toBe("Running when the run was cancelled.");
+    expect(run.jobs.build.reason).toBe("The run was cancelled before it started.");
+  });
+
+  it("skips jobs stuck behind a `needs` cycle", () => {
+    const run = dryRunWorkflow(workflowFrom("jobs:\n  a: { needs: b }\n  b: { needs: a }\n"));
+    expect(results(run)).toEqual({ a: "skipped", b: "skipped" });
+    expect(run.jobs.a.wave).toBeUndefined();
+  });
+
+  it("leaves conditions on missing context undecided, and decides them from the given contexts", () => {
+    const workflow = workflowFrom(`
+jobs:
+  release:
+    if: github.ref == 'refs/heads/main'
+  publish:
+    needs: release
+`);
+    expect(results(dryRunWorkflow(workflow))).toEqual({ release: "unknown", publish: "unknown" });
+    const onMain = dryRunWorkflow(workflow, {}, { github: { ref: "refs/heads/main" } });
+    expect(results(onMain)).toEqual({ release: "success", publish: "success" });
+  });
+});
+
+describe("dryRunFrame", () => {
+  it("shows finished waves' results, the current wave running and later waves queued", () => {
+    const run = dryRunWorkflow(PIPELINE, { lint: "failure" });
+    expect(dryRunFrame(run, 1)).toEqual({
+      lint: "failure",
+      test: "success",
+      build: "skipped",
+      deploy: "queued",
+      notify: "queued",
+      rollback: "queued",
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { extractJobSteps, extractTriggers } from "../../lib/extract";
+import { loadFixture, workflowFrom } from "../fixtures";
+
+describe("extractTriggers", () => {
+  it("reads `on` given as a string", () => {
+    expect(extractTriggers(loadFixture("string-on.yml"))).toEqual([{ event: "push" }]);
+  });
+
+  it("reads `on` given as an array", () => {
+    expect(extractTriggers(loadFixture("array-on.yml"))).toEqual([
+      { event: "push" },
+      { event: "pull_request" },
+      { event: "workflow_dispatch" },
+    ]);
+  });
+
+  it("keeps filters and `schedule` arrays as detail objects", () => {
+    const triggers = extractTriggers(loadFixture("nightly.yml"));
+    expect(triggers).toEqual([
+      { event: "schedule", details: "", detailsObj: [{ cron: "0 3 * * *" }, { cron: "30 12 * * 1-5" }] },
+      { event: "workflow_dispatch" },
+    ]);
+  });
+
+  it("keeps scalar details as text", () => {
+    expect(extractTriggers(workflowFrom("on:\n  push: main\n"))).toEqual([{ event: "push", details: "main" }]);
+  });
+
+  it("returns nothing without `on`", () => {
+    expect(extractTriggers(workflowFrom("jobs: {}\n"))).toEqual([]);
+  });
+});
+
+describe("extractJobSteps", () => {
+  it("lists jobs in order with their steps", () => {
+    const jobs = extractJobSteps(loadFixture("node-ci.yml"));
+    expect(jobs.map(job => job.jobName)).toEqual(["lint", "test", "build"]);
+    expect(jobs[1].runsOn).toBe("${{ matrix.os }}");
+    expect(jobs[1].steps[3]).toEqual({ name: "Run tests", uses: undefined, run: "npm test -- --coverage", if: undefined });
+  });
+
+  it("reads containers, services and conditions", () => {
+    const [audit, report] = extractJobSteps(loadFixture("nightly.yml"));
+    expect(audit.container).toBe("node:20");
+    expect(audit.services).toEqual(["redis"]);
+    expect(report.if).toBe("always()");
+    expect(report.runsOn).toBe("self-hosted, linux");
+  });
+
+  it("leaves out the runner of jobs calling a reusable workflow", () => {
+    const [, deploy] = extractJobSteps(loadFixture("array-on.yml"));
+    expect(deploy.jobName).toBe("docs-deploy");
+    expect(deploy.runsOn).toBeUndefined();
+    expect(deploy.steps).toEqual([]);
+  });
+
+  it("returns nothing for empty jobs", () => {
+    expect(extractJobSteps(loadFixture("empty-jobs.yml"))).toEqual([]);
+  });
+
+  it("tolerates null jobs and steps", () => {
+    const jobs = extractJobSteps(workflowFrom("jobs:\n  build:\n  test:\n    steps:\n      -\n      - run: make\n"));
+    expect(jobs[0]).toMatchObject({ jobName: "build", steps: [] });
+    expect(jobs[1].steps).toHaveLength(2);
+    expect(jobs[1].steps[1].run).toBe("make");
+  });
+});
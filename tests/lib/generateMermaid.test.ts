@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { generateMermaid, jobIdForNode } from "../../lib/generateMermaid";
+import { FIXTURES, loadFixture, workflowFrom } from "../fixtures";
+
+describe("generateMermaid", () => {
+  it("draws nothing for a workflow without jobs", () => {
+    expect(generateMermaid(loadFixture("empty-jobs.yml"))).toBe("");
+    expect(generateMermaid(workflowFrom("on: push\n"))).toBe("");
+  });
+
+  it("accepts `needs` as a string or an array", () => {
+    const chart = generateMermaid(workflowFrom([
+      "jobs:",
+      "  a: {}",
+      "  b:",
+      "    needs: a",
+      "  c:",
+      "    needs: [a, b]",
+    ].join("\n")));
+    const edges = chart.split("\n").filter(line => line.includes("-->")).map(line => line.trim());
+    expect(edges).toHaveLength(3);
+    expect(edges.some(edge => /^a\b.*-->.*\bb\b/.test(edge))).toBe(true);
+    expect(edges.some(edge => /^b\b.*-->.*\bc\b/.test(edge))).toBe(true);
+  });
+
+  it("keeps hyphenated job ids intact", () => {
+    const chart = generateMermaid(loadFixture("release.yml"));
+    expect(chart).toContain("build-and-test");
+    expect(chart).toContain("publish-npm");
+    expect(chart).toContain("github-release");
+  });
+
+  it("encodes job ids Mermaid reads as keywords", () => {
+    const chart = generateMermaid(loadFixture("reserved-ids.yml"));
+    expect(chart).toContain('  _end["end<br/>ubuntu-latest · 1 step"]\n');
+    expect(chart).toContain("  _graph --> _style\n");
+    expect(chart).toContain("  _style --> _end\n");
+    expect(chart).not.toMatch(/^\s*end\[/m);
+  });
+
+  it("labels jobs with their name, runner, step count and badges", () => {
+    const chart = generateMermaid(workflowFrom([
+      "jobs:",
+      "  test:",
+      "    name: Unit tests",
+      "    runs-on: ubuntu-latest",
+      "    continue-on-error: ${{ matrix.experimental }}",
+      "    strategy:",
+      "      matrix:",
+      "        node: [18, 20]",
+      "    steps:",
+      "      - run: npm ci",
+      "      - run: npm test",
+    ].join("\n")));
+    expect(chart).toContain('test["Unit tests<br/>ubuntu-latest · 2 steps<br/>matrix × 2 · may continue on error"]');
+  });
+
+  it("lays out left to right on request", () => {
+    expect(generateMermaid(loadFixture("string-on.yml"), { direction: "LR" })).toMatch(/^graph LR\n/);
+  });
+
+  it.each(FIXTURES)("matches the snapshot for %s", name => {
+    const workflow = loadFixture(name);
+    expect(generateMermaid(workflow)).toMatchSnapshot("jobs");
+    expect(generateMermaid(workflow, { detail: "steps" })).toMatchSnapshot("steps");
+    expect(generateMermaid(workflow, { detail: "matrix" })).toMatchSnapshot("matrix");
+  });
+});
+
+describe("jobIdForNode", () => {
+  it("maps step and matrix nodes to the longest matching job id", () => {
+    const jobIds = ["build", "build_docs"];
+    expect(jobIdForNode(jobIds, "build")).toBe("build");
+    expect(jobIdForNode(jobIds, "build_step_0")).toBe("build");
+    expect(jobIdForNode(jobIds, "build_docs_1")).toBe("build_docs");
+    expect(jobIdForNode(jobIds, "deploy")).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { globToRegExp, matchGlob, matchPatterns } from "../../lib/glob";
+
+describe("matchGlob", () => {
+  it("matches GitHub's filter cheat sheet", () => {
+    expect(matchGlob("feature/*", "feature/login")).toBe(true);
+    expect(matchGlob("feature/*", "feature/a/b")).toBe(false);
+    expect(matchGlob("feature/**", "feature/a/b")).toBe(true);
+    expect(matchGlob("**/*.md", "README.md")).toBe(true);
+    expect(matchGlob("**/*.md", "docs/guide/intro.md")).toBe(true);
+    expect(matchGlob("v[12].[0-9]+.[0-9]+", "v1.10.3")).toBe(true);
+    expect(matchGlob("v2*", "v20")).toBe(true);
+    expect(matchGlob("*.jsx?", "page.js")).toBe(true);
+    expect(matchGlob("*.jsx?", "page.jsx")).toBe(true);
+    expect(matchGlob("\\*", "*")).toBe(true);
+  });
+
+  it.each(["**+", "v1.*+", "a++", "+", "?x", "*?", "a+?"])("takes `?` and `+` with nothing to repeat literally in %s", pattern => {
+    expect(() => globToRegExp(pattern)).not.toThrow();
+  });
+
+  it("repeats only the character or set before `+`", () => {
+    expect(matchGlob("a++", "aaa+")).toBe(true);
+    expect(matchGlob("a++", "aaa")).toBe(false);
+    expect(matchGlob("**+", "release/+")).toBe(true);
+    expect(matchGlob("[ab]+", "abba")).toBe(true);
+  });
+
+  it("matches nothing for a pattern that isn't valid", () => {
+    expect(matchGlob("[z-a]", "z")).toBe(false);
+    expect(matchGlob("[z-a]", "")).toBe(false);
+  });
+});
+
+describe("matchPatterns", () => {
+  it("lets later patterns override earlier ones", () => {
+    const patterns = ["releases/**", "!releases/**-alpha", "releases/keep-alpha"];
+    expect(matchPatterns(patterns, "releases/1.0")).toEqual({ matched: true, pattern: "releases/**" });
+    expect(matchPatterns(patterns, "releases/1.0-alpha")).toEqual({ matched: false, pattern: "!releases/**-alpha" });
+    expect(matchPatterns(patterns, "releases/keep-alpha")).toEqual({ matched: true, pattern: "releases/keep-alpha" });
+  });
+
+  it("skips invalid patterns instead of throwing", () => {
+    expect(matchPatterns(["[z-a]", "main"], "main")).toEqual({ matched: true, pattern: "main" });
+  });
+});
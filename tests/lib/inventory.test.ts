@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { buildActionInventory, compareVersions } from "../../lib/inventory";
+
+function workflowUsing(...uses: string[]) {
+  return {
+    path: ".github/workflows/ci.yml",
+    source: ["on: push", "jobs:", "  build:", "    runs-on: ubuntu-latest", "    steps:", ...uses.map(ref => `      - uses: ${ref}`)].join("\n"),
+  };
+}
+
+describe("buildActionInventory", () => {
+  it("lists versions newest first, whatever order they were used in", () => {
+    const orders = [
+      ["v4", "v4.2.2", "v3", "main", "v4.1"],
+      ["main", "v4.1", "v3", "v4.2.2", "v4"],
+      ["v3", "v4", "main", "v4.1", "v4.2.2"],
+    ];
+    for (const refs of orders) {
+      const [checkout] = buildActionInventory([workflowUsing(...refs.map(ref => `actions/checkout@${ref}`))]).actions;
+      expect(checkout.versions.map(version => version.ref)).toEqual(["v4.2.2", "v4.1", "v4", "v3", "main"]);
+    }
+  });
+
+  it("sorts commit SHAs by the version in their comment", () => {
+    const sha = "b4ffde65f46336ab88eb53be808477a3936bae11";
+    const [checkout] = buildActionInventory([workflowUsing("actions/checkout@v3", `actions/checkout@${sha} # v4.1.1`)]).actions;
+    expect(checkout.versions.map(version => version.ref)).toEqual([sha, "v3"]);
+  });
+});
+
+describe("compareVersions", () => {
+  it("compares at the pin's precision", () => {
+    expect(compareVersions("v4", "v4.2.2")).toBe("current");
+    expect(compareVersions("v4.1.0", "v4.2.2")).toBe("outdated");
+    expect(compareVersions("v3", "v4")).toBe("outdated");
+    expect(compareVersions("main", "v4")).toBe("unknown");
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { extractJobSteps, extractTriggers } from "../../lib/extract";
+import { generateMermaid } from "../../lib/generateMermaid";
+import { commentMarker, generateMarkdownDoc, generatePullRequestComment } from "../../lib/markdown";
+import { FIXTURES, loadFixture } from "../fixtures";
+
+function markdownFor(name: string): string {
+  const workflow = loadFixture(name);
+  return generateMarkdownDoc(workflow, extractTriggers(workflow), extractJobSteps(workflow), [], generateMermaid(workflow));
+}
+
+describe("generateMarkdownDoc", () => {
+  it.each(FIXTURES)("matches the snapshot for %s", name => {
+    expect(markdownFor(name)).toMatchSnapshot();
+  });
+
+  it("leaves out the diagram when there are no jobs", () => {
+    expect(markdownFor("empty-jobs.yml")).not.toContain("```mermaid");
+  });
+
+  it("explains each `schedule` entry", () => {
+    const md = markdownFor("nightly.yml");
+    expect(md).toContain("0 3 * * *");
+    expect(md).toContain("30 12 * * 1-5");
+  });
+});
+
+describe("generatePullRequestComment", () => {
+  it("starts with a marker naming the file", () => {
+    const workflow = loadFixture("release.yml");
+    const comment = generatePullRequestComment(workflow, ".github/workflows/release.yml", generateMermaid(workflow), [], []);
+    expect(comment.startsWith(commentMarker(".github/workflows/release.yml"))).toBe(true);
+  });
+
+  it("keeps `--` out of the marker", () => {
+    expect(commentMarker("a--b.yml")).not.toMatch(/a--b/);
+  });
+});
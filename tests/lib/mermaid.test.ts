@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import mermaid from "mermaid";
+import { fromMermaidId, mermaidClass, mermaidEdge, mermaidId, mermaidLabel, mermaidNode } from "../../lib/mermaid";
+import { generateMermaid } from "../../lib/generateMermaid";
+import { diffWorkflows, generateDiffMermaid } from "../../lib/diff";
+import { FIXTURES, loadFixture, workflowFrom } from "../fixtures";
+
+// Job keys GitHub accepts that Mermaid reads as syntax when written as they are.
+const AWKWARD_IDS = ["end", "graph", "style", "class", "subgraph", "click", "end-to-end", "class-a", "build--test", "_private", "9lives", "a.b", "job name"];
+
+const AWKWARD_WORKFLOW = workflowFrom([
+  "on: push",
+  "jobs:",
+  ...AWKWARD_IDS.flatMap((id, i) => [
+    `  ${JSON.stringify(id)}:`,
+    `    name: ${JSON.stringify(`Say "hi" <${id}> [x] {y} #1 \`code\``)}`,
+    "    runs-on: ubuntu-latest",
+    ...(i > 0 ? [`    needs: ${JSON.stringify(AWKWARD_IDS[i - 1])}`] : []),
+    ...(i % 3 === 0 ? ["    if: github.event_name == 'push'"] : []),
+    "    steps:",
+    "      - run: echo \"done\" > out.txt",
+  ]),
+].join("\n"));
+
+async function parses(chart: string): Promise<string | null> {
+  try {
+    await mermaid.parse(chart);
+    return null;
+  } catch (err: any) {
+    return err?.message ?? String(err);
+  }
+}
+
+describe("mermaidId", () => {
+  it("keeps plain ids readable", () => {
+    for (const id of ["build", "build-and-test", "test_step_0", "deploy__gate", "a1-b2"]) {
+      expect(mermaidId(id)).toBe(id);
+    }
+  });
+
+  it("encodes keywords and ids Mermaid can't read", () => {
+    expect(mermaidId("end")).toBe("_end");
+    expect(mermaidId("class-a")).toBe("_class_2d_a");
+    expect(mermaidId("build--test")).toBe("_build_2d__2d_test");
+    expect(mermaidId("job name")).toBe("_job_20_name");
+  });
+
+  it("round-trips any id", () => {
+    for (const id of [...AWKWARD_IDS, "build", "_5f_", "__", "é", "🚀 launch", ""]) {
+      expect(fromMermaidId(mermaidId(id))).toBe(id);
+    }
+  });
+});
+
+describe("mermaidLabel", () => {
+  it("joins lines and drops empty ones", () => {
+    expect(mermaidLabel("build", "", "ubuntu-latest")).toBe('"build<br/>ubuntu-latest"');
+  });
+
+  it("escapes quotes, brackets, backticks and hashes", () => {
+    expect(mermaidLabel('say "hi" <b> `x` #1')).toBe('"say #quot;hi#quot; #lt;b#gt; #96;x#96; #35;1"');
+  });
+
+  it("keeps each line on one line", () => {
+    expect(mermaidLabel("run:\n  make\n  make test")).toBe('"run: make make test"');
+  });
+});
+
+describe("Mermaid statements", () => {
+  it("writes nodes, edges and classes with encoded ids", () => {
+    expect(mermaidNode("end", ["End"], "hexagon")).toBe('_end{{"End"}}');
+    expect(mermaidEdge("graph", "end", "-.->", "if: always()")).toBe('_graph -.->|"if: always()"| _end');
+    expect(mermaidClass(["build", "end"], "skipped")).toBe("class build,_end skipped");
+  });
+});
+
+describe("generated diagrams parse", () => {
+  it.each(FIXTURES.filter(name => name !== "empty-jobs.yml"))("%s", async name => {
+    const workflow = loadFixture(name);
+    for (const detail of ["jobs", "steps", "matrix"] as const) {
+      expect(await parses(generateMermaid(workflow, { detail, runners: true }))).toBeNull();
+    }
+  });
+
+  it("with job ids that are keywords or contain syntax", async () => {
+    for (const detail of ["jobs", "steps"] as const) {
+      const chart = generateMermaid(AWKWARD_WORKFLOW, { detail, categories: true });
+      expect(await parses(chart)).toBeNull();
+    }
+  });
+
+  it("for a diff with awkward job ids", async () => {
+    const diff = diffWorkflows(loadFixture("reserved-ids.yml"), AWKWARD_WORKFLOW);
+    expect(await parses(generateDiffMermaid(diff))).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { computeTimings, formatDuration, longestPath, parseJobRuns } from "../../lib/timings";
+import { workflowFrom } from "../fixtures";
+
+const WORKFLOW = workflowFrom(`
+on: push
+jobs:
+  lint:
+    runs-on: ubuntu-latest
+  test:
+    name: Test \${{ matrix.os }}
+    runs-on: \${{ matrix.os }}
+    strategy:
+      matrix:
+        os: [ubuntu-latest, windows-latest]
+  build:
+    name: Build
+    needs: [lint, test]
+    runs-on: [self-hosted, linux]
+`);
+
+// `minutes` after 10:00 on the run's day.
+function job(name: string, runId: number, from: number, to: number, labels: string[] = ["ubuntu-latest"]) {
+  const at = (minutes: number) => new Date(Date.UTC(2026, 9, runId, 10, 0, minutes * 60)).toISOString();
+  return { name, run_id: runId, started_at: at(from), completed_at: at(to), labels, conclusion: "success" };
+}
+
+describe("parseJobRuns", () => {
+  it("reads a jobs API response, a list of them or a list of jobs", () => {
+    const jobs = [job("lint", 1, 0, 2), job("Build", 1, 2, 5)];
+    expect(parseJobRuns({ jobs })).toHaveLength(2);
+    expect(parseJobRuns([{ jobs }, { jobs: [job("lint", 2, 0, 1)] }])).toHaveLength(3);
+    expect(parseJobRuns(jobs)[0]).toEqual({
+      name: "lint",
+      runId: 1,
+      startedAt: Date.UTC(2026, 9, 1, 10, 0),
+      completedAt: Date.UTC(2026, 9, 1, 10, 2),
+      labels: ["ubuntu-latest"],
+    });
+  });
+
+  it("leaves out skipped and unfinished jobs", () => {
+    const records = parseJobRuns({
+      jobs: [job("lint", 1, 0, 2), { ...job("test", 1, 0, 1), conclusion: "skipped" }, { ...job("build", 1, 0, 1), completed_at: null }],
+    });
+    expect(records.map(record => record.name)).toEqual(["lint"]);
+  });
+
+  it("rejects input without completed jobs", () => {
+    expect(() => parseJobRuns({ total_count: 0 })).toThrow(/No completed jobs found/);
+  });
+});
+
+describe("computeTimings", () => {
+  const records = parseJobRuns([
+    job("lint", 1, 0, 1.5),
+    job("Test ubuntu-latest", 1, 0, 4),
+    job("Test windows-latest", 1, 0, 6, ["windows-latest"]),
+    job("Build", 1, 6, 9, ["self-hosted", "linux"]),
+    job("lint", 2, 0, 2.5),
+    job("Test ubuntu-latest", 2, 0, 3),
+    job("Test windows-latest", 2, 1, 5, ["windows-latest"]),
+    job("Build", 2, 5, 7, ["self-hosted", "linux"]),
+    job("Deploy / release", 2, 7, 8),
+  ]);
+  const report = computeTimings(WORKFLOW, records);
+
+  it("matches history names to jobs, with matrix legs running in parallel", () => {
+    expect(report.jobs.map(({ jobId, samples, median, billableMinutes }) => ({ jobId, samples, median, billableMinutes }))).toEqual([
+      { jobId: "lint", samples: 2, median: 120, billableMinutes: 2.5 },
+      { jobId: "test", samples: 2, median: 330, billableMinutes: 8.5 },
+      { jobId: "build", samples: 2, median: 150, billableMinutes: 2.5 },
+    ]);
+    expect(report.unmatched).toEqual(["Deploy / release"]);
+  });
+
+  it("finds the critical path through needs", () => {
+    expect(report.criticalPath).toEqual(["test", "build"]);
+    expect(report.wallClock).toEqual({ median: 480, p95: 540 });
+  });
+
+  it("adds up billable minutes per runner", () => {
+    expect(report.jobs.find(timing => timing.jobId === "build")!.runner).toBe("self-hosted, linux");
+    expect(report.runners).toEqual([
+      { runner: "ubuntu-latest", minutes: 11 },
+      { runner: "self-hosted, linux", minutes: 2.5 },
+    ]);
+  });
+});
+
+describe("longestPath", () => {
+  it("stops at `needs` cycles", () => {
+    const { jobs } = workflowFrom("jobs:\n  a: { needs: b }\n  b: { needs: a }\n  c: { needs: a }\n");
+    expect(longestPath(jobs!, { a: 1, b: 2, c: 3 })).toEqual({ path: ["b", "a", "c"], total: 6 });
+  });
+});
+
+describe("formatDuration", () => {
+  it.each([[42, "42s"], [200, "3m 20s"], [180, "3m"], [3725, "1h 2m"]])("formats %i seconds as %s", (seconds, text) => {
+    expect(formatDuration(seconds)).toBe(text);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { MAX_DIFF_FILES, SimulatedEvent, simulateTriggerFilters } from "../../lib/triggerFilters";
+import { workflowFrom } from "../fixtures";
+
+const JOBS = "jobs:\n  build:\n    runs-on: ubuntu-latest\n";
+
+function simulate(on: string, input: Partial<SimulatedEvent>) {
+  const workflow = workflowFrom(`on:\n${on}\n${JOBS}`);
+  return simulateTriggerFilters(workflow, { event: "push", ref: "main", refType: "branch", changedFiles: [], ...input });
+}
+
+describe("simulateTriggerFilters", () => {
+  it("skips events the workflow doesn't listen to", () => {
+    const result = simulate("  push:", { event: "pull_request" });
+    expect(result.outcome).toBe("skipped");
+    expect(result.checks).toEqual([{ filter: "on", passed: false, explanation: "The workflow doesn't listen to `pull_request`." }]);
+  });
+
+  it("matches branches and tags against their own filters", () => {
+    const on = "  push:\n    branches: [main, 'release/**']\n    tags: ['v*']";
+    expect(simulate(on, { ref: "release/1.x" }).outcome).toBe("runs");
+    expect(simulate(on, { ref: "feature/a" }).outcome).toBe("skipped");
+    expect(simulate(on, { ref: "v1.2.0", refType: "tag" }).outcome).toBe("runs");
+    expect(simulate(on, { ref: "nightly", refType: "tag" }).outcome).toBe("skipped");
+  });
+
+  it("doesn't run branch pushes when only tags are filtered", () => {
+    const result = simulate("  push:\n    tags: ['v*']", { ref: "main" });
+    expect(result.outcome).toBe("skipped");
+    expect(result.checks.at(-1)).toMatchObject({ filter: "branches", passed: false });
+  });
+
+  it("doesn't run tag pushes when only branches are filtered", () => {
+    expect(simulate("  push:\n    branches: [main]", { ref: "v1", refType: "tag" }).outcome).toBe("skipped");
+    expect(simulate("  push:", { ref: "v1", refType: "tag" }).outcome).toBe("runs");
+  });
+
+  it("applies negated patterns in order", () => {
+    const on = "  push:\n    branches: ['release/**', '!release/**-alpha']";
+    expect(simulate(on, { ref: "release/2-alpha" }).outcome).toBe("skipped");
+    expect(simulate(on, { ref: "release/2" }).outcome).toBe("runs");
+  });
+
+  it("skips ignored branches", () => {
+    const on = "  push:\n    branches-ignore: ['dependabot/**']";
+    expect(simulate(on, { ref: "dependabot/npm/react" }).outcome).toBe("skipped");
+    expect(simulate(on, { ref: "main" }).outcome).toBe("runs");
+  });
+
+  it("runs when any changed file matches `paths`", () => {
+    const on = "  push:\n    paths: ['src/**', '!src/**/*.md']";
+    expect(simulate(on, { changedFiles: ["README.md", "src/app.ts"] }).outcome).toBe("runs");
+    expect(simulate(on, { changedFiles: ["src/docs/guide.md"] }).outcome).toBe("skipped");
+  });
+
+  it("runs unless every changed file matches `paths-ignore`", () => {
+    const on = "  push:\n    paths-ignore: ['docs/**', '*.md']";
+    expect(simulate(on, { changedFiles: ["docs/intro.md", "README.md"] }).outcome).toBe("skipped");
+    expect(simulate(on, { changedFiles: ["docs/intro.md", "src/app.ts"] }).outcome).toBe("runs");
+  });
+
+  it("leaves path filters undecided without changed files", () => {
+    expect(simulate("  push:\n    paths: ['src/**']", {}).outcome).toBe("unknown");
+  });
+
+  it("doesn't evaluate path filters for tag pushes", () => {
+    const result = simulate("  push:\n    paths: ['src/**']", { ref: "v1", refType: "tag", changedFiles: ["README.md"] });
+    expect(result.outcome).toBe("runs");
+    expect(result.checks.at(-1)).toMatchObject({ filter: "paths", passed: true });
+  });
+
+  it(`only compares the first ${MAX_DIFF_FILES} changed files`, () => {
+    const changedFiles = [...Array.from({ length: MAX_DIFF_FILES }, (_, i) => `docs/${i}.md`), "src/app.ts"];
+    const result = simulate("  push:\n    paths: ['src/**']", { changedFiles });
+    expect(result.outcome).toBe("skipped");
+    expect(result.checks.at(-1)!.explanation).toContain(`Only the first ${MAX_DIFF_FILES} changed files are compared.`);
+  });
+
+  it("checks pull request activity types, with GitHub's defaults", () => {
+    expect(simulate("  pull_request:", { event: "pull_request", type: "synchronize" }).outcome).toBe("runs");
+    const closed = simulate("  pull_request:", { event: "pull_request", type: "closed" });
+    expect(closed.outcome).toBe("skipped");
+    expect(closed.checks.at(-1)!.explanation).toContain("(the default types)");
+    expect(simulate("  pull_request:\n    types: [closed]", { event: "pull_request", type: "closed" }).outcome).toBe("runs");
+  });
+
+  it("matches pull request branch filters against the base branch", () => {
+    const on = "  pull_request:\n    branches: [main]";
+    expect(simulate(on, { event: "pull_request", ref: "main" }).outcome).toBe("runs");
+    expect(simulate(on, { event: "pull_request", ref: "develop" }).outcome).toBe("skipped");
+  });
+});
@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+// Library tests run in Node; component tests opt into jsdom with a
+// `// @vitest-environment jsdom` comment at the top of the file.
+export default defineConfig({
+  esbuild: { jsx: "automatic" },
+  test: {
+    include: ["tests/**/*.test.{ts,tsx}"],
+    environment: "node",
+  },
+});